@@ -2,37 +2,101 @@ import React from 'react'
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import { AppProvider } from './context/AppContext'
+import { NotificationProvider } from './context/NotificationContext'
 import Layout from './components/Layout'
 import ChatbotScreen from './screens/ChatbotScreen'
 import ProfileScreen from './screens/ProfileScreen'
 import JobPostingScreen from './screens/JobPostingScreen'
+import JobListingsScreen from './screens/JobListingsScreen'
+import JobDetailScreen from './screens/JobDetailScreen'
+import CandidateDirectoryScreen from './screens/CandidateDirectoryScreen'
+import ProfileDetailScreen from './screens/ProfileDetailScreen'
+import LoginScreen from './screens/LoginScreen'
+import SignupScreen from './screens/SignupScreen'
+import ModerationScreen from './screens/ModerationScreen'
+import MyApplicationsScreen from './screens/MyApplicationsScreen'
+import ApplicantPipelineScreen from './screens/ApplicantPipelineScreen'
+import JobAlertsScreen from './screens/JobAlertsScreen'
+import NotificationsScreen from './screens/NotificationsScreen'
+import InboxScreen from './screens/InboxScreen'
 import ErrorBoundary from './components/ErrorBoundary'
+import RequireAuth from './components/RequireAuth'
 
 function App() {
   return (
     <ErrorBoundary>
       <AppProvider>
-        <Router>
-          <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50">
-            <Layout>
-              <Routes>
-                <Route path="/" element={<ChatbotScreen />} />
-                <Route path="/profile" element={<ProfileScreen />} />
-                <Route path="/jobs" element={<JobPostingScreen />} />
-              </Routes>
-            </Layout>
-            <Toaster 
-              position="top-right"
-              toastOptions={{
-                duration: 4000,
-                style: {
-                  background: '#363636',
-                  color: '#fff',
-                },
-              }}
-            />
-          </div>
-        </Router>
+        <NotificationProvider>
+          <Router>
+            <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50">
+              <Layout>
+                <Routes>
+                  <Route path="/" element={<ChatbotScreen />} />
+                  <Route
+                    path="/profile"
+                    element={<RequireAuth permission="profile:create"><ProfileScreen key="new" /></RequireAuth>}
+                  />
+                  <Route path="/profiles" element={<CandidateDirectoryScreen />} />
+                  <Route path="/profiles/:id" element={<ProfileDetailScreen />} />
+                  <Route
+                    path="/profiles/:id/edit"
+                    element={<RequireAuth><ProfileScreen key="edit" /></RequireAuth>}
+                  />
+                  <Route path="/jobs" element={<JobListingsScreen />} />
+                  <Route
+                    path="/jobs/new"
+                    element={<RequireAuth permission="job:create"><JobPostingScreen key="new" /></RequireAuth>}
+                  />
+                  <Route path="/jobs/:id" element={<JobDetailScreen />} />
+                  <Route
+                    path="/jobs/:id/edit"
+                    element={<RequireAuth><JobPostingScreen key="edit" /></RequireAuth>}
+                  />
+                  <Route
+                    path="/jobs/:id/applicants"
+                    element={<RequireAuth><ApplicantPipelineScreen /></RequireAuth>}
+                  />
+                  <Route
+                    path="/applications"
+                    element={<RequireAuth permission="job:apply"><MyApplicationsScreen /></RequireAuth>}
+                  />
+                  <Route
+                    path="/alerts"
+                    element={<RequireAuth permission="alert:create"><JobAlertsScreen /></RequireAuth>}
+                  />
+                  <Route
+                    path="/notifications"
+                    element={<RequireAuth><NotificationsScreen /></RequireAuth>}
+                  />
+                  <Route
+                    path="/inbox"
+                    element={<RequireAuth permission="message:send"><InboxScreen /></RequireAuth>}
+                  />
+                  <Route
+                    path="/inbox/:threadId"
+                    element={<RequireAuth permission="message:send"><InboxScreen /></RequireAuth>}
+                  />
+                  <Route
+                    path="/admin"
+                    element={<RequireAuth permission="moderation:access"><ModerationScreen /></RequireAuth>}
+                  />
+                  <Route path="/login" element={<LoginScreen />} />
+                  <Route path="/signup" element={<SignupScreen />} />
+                </Routes>
+              </Layout>
+              <Toaster 
+                position="top-right"
+                toastOptions={{
+                  duration: 4000,
+                  style: {
+                    background: '#363636',
+                    color: '#fff',
+                  },
+                }}
+              />
+            </div>
+          </Router>
+        </NotificationProvider>
       </AppProvider>
     </ErrorBoundary>
   )
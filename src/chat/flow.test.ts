@@ -0,0 +1,103 @@
+import { z } from 'zod'
+import { describe, expect, it } from 'vitest'
+import { branch, createFlowEngine, defineStep, FlowDefinition } from './flow'
+import { parseLocation, parseYearsOfExperience } from './parsing'
+
+interface TestData {
+  name: string
+  hiring: boolean
+  location: string
+  yearsExperience: number
+}
+
+const flow: FlowDefinition<TestData> = {
+  id: 'test',
+  steps: [
+    defineStep({
+      id: 'name',
+      prompt: "What's your name?",
+      schema: z.string().min(2, 'Name is too short'),
+      parse: name => ({ name })
+    }),
+    defineStep({
+      id: 'hiring',
+      prompt: data => `Are you hiring, ${data.name}?`,
+      schema: z.enum(['yes', 'no']),
+      parse: answer => ({ hiring: answer === 'yes' })
+    }),
+    ...branch<TestData>(data => data.hiring === true, [
+      defineStep({
+        id: 'location',
+        prompt: 'Where is the job?',
+        interpret: parseLocation,
+        schema: z.string(),
+        parse: location => ({ location })
+      })
+    ]),
+    defineStep({
+      id: 'yearsExperience',
+      prompt: 'How many years of experience?',
+      interpret: parseYearsOfExperience,
+      schema: z.number().max(50, 'Too many years'),
+      parse: yearsExperience => ({ yearsExperience }),
+      condition: (data: Partial<TestData>) => data.hiring === false
+    })
+  ]
+}
+
+const engine = createFlowEngine(flow)
+
+describe('createFlowEngine', () => {
+  it('walks the steps in order, skipping those whose condition fails', () => {
+    expect(engine.nextStep({})?.id).toBe('name')
+    expect(engine.nextStep({ hiring: true }, 'hiring')?.id).toBe('location')
+    expect(engine.nextStep({ hiring: false }, 'hiring')?.id).toBe('yearsExperience')
+    expect(engine.nextStep({ hiring: true }, 'location')).toBeUndefined()
+  })
+
+  it('builds prompts from the collected data', () => {
+    expect(engine.promptFor(engine.getStep('hiring')!, { name: 'Ana' })).toBe('Are you hiring, Ana?')
+  })
+
+  it('merges parsed answers into the data', () => {
+    expect(engine.submit('name', '  Ana  ', {})).toEqual({ success: true, data: { name: 'Ana' } })
+    expect(engine.submit('hiring', 'yes', { name: 'Ana' })).toEqual({ success: true, data: { name: 'Ana', hiring: true } })
+  })
+
+  it('reports the first schema error', () => {
+    expect(engine.submit('name', 'A', {})).toEqual({ success: false, error: 'Name is too short' })
+    expect(engine.submit('yearsExperience', '60 years', {})).toEqual({ success: false, error: 'Too many years' })
+  })
+
+  it('reports interpreter errors and unknown steps', () => {
+    expect(engine.submit('yearsExperience', 'banana', {}).success).toBe(false)
+    expect(engine.submit('missing', 'x', {})).toEqual({ success: false, error: 'Unknown step "missing"' })
+  })
+
+  it('asks a follow-up for ambiguous answers and accepts a chosen option', () => {
+    const result = engine.submit('location', 'Portland', { hiring: true })
+    if (result.success || !result.followUp) throw new Error('Expected a follow-up')
+
+    expect(result.followUp.stepId).toBe('location')
+    expect(engine.answerFollowUp(result.followUp, 'the second one', { hiring: true }))
+      .toEqual({ success: true, data: { hiring: true, location: 'Portland, Maine, USA' } })
+  })
+
+  it('treats a reply that matches no option as a fresh answer', () => {
+    const result = engine.submit('yearsExperience', '3 to 5 years', {})
+    if (result.success || !result.followUp) throw new Error('Expected a follow-up')
+
+    expect(engine.answerFollowUp(result.followUp, 'actually 4', {}))
+      .toEqual({ success: true, data: { yearsExperience: 4 } })
+  })
+})
+
+describe('branch', () => {
+  it('keeps the conditions steps already have', () => {
+    const [step] = branch<TestData>(data => data.name !== undefined, [flow.steps[3]])
+
+    expect(step.condition?.({ name: 'Ana', hiring: false })).toBe(true)
+    expect(step.condition?.({ name: 'Ana', hiring: true })).toBe(false)
+    expect(step.condition?.({ hiring: false })).toBe(false)
+  })
+})
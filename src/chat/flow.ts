@@ -0,0 +1,140 @@
+import { z } from 'zod'
+import { matchOption, ParseOption, ParseResult } from './parsing'
+
+// Ways to answer a step besides typing, offered with the question
+export type StepInput =
+  | { kind: 'quick_replies'; options: string[] }
+  | { kind: 'skill_picker'; suggestions: string[] }
+  | { kind: 'experience_slider'; min: number; max: number }
+
+/**
+ * A single question in a conversation flow. The raw answer is optionally
+ * interpreted from free text, validated with `schema`, and the parsed value is
+ * turned into data fields by `parse`. Declare steps with `defineStep`, which
+ * types `parse` from the schema.
+ */
+export interface FlowStep<TData> {
+  id: string
+  prompt: string | ((data: Partial<TData>) => string)
+  input?: StepInput
+  interpret?: (input: string) => ParseResult<unknown>
+  schema: z.ZodTypeAny
+  parse: (value: unknown, data: Partial<TData>) => Partial<TData>
+  // Steps whose condition returns false are skipped
+  condition?: (data: Partial<TData>) => boolean
+}
+
+export interface FlowDefinition<TData> {
+  id: string
+  steps: FlowStep<TData>[]
+}
+
+// A clarifying question asked when an answer could mean several things
+export interface FollowUp {
+  stepId: string
+  question: string
+  options: ParseOption<unknown>[]
+}
+
+export type StepResult<TData> =
+  | { success: true; data: Partial<TData> }
+  | { success: false; error: string; followUp?: FollowUp }
+
+/**
+ * Declares a step with the interpreter and parser typed from the step's schema.
+ */
+export function defineStep<TData, TSchema extends z.ZodTypeAny>(step: {
+  id: string
+  prompt: FlowStep<TData>['prompt']
+  input?: StepInput
+  interpret?: (input: string) => ParseResult<z.input<TSchema>>
+  schema: TSchema
+  parse: (value: z.output<TSchema>, data: Partial<TData>) => Partial<TData>
+  condition?: FlowStep<TData>['condition']
+}): FlowStep<TData> {
+  return {
+    ...step,
+    // The engine only hands `parse` values that passed the schema
+    parse: (value, data) => step.parse(value as z.output<TSchema>, data)
+  }
+}
+
+/**
+ * Restricts a group of steps to conversations where `condition` holds,
+ * keeping any condition the individual steps already have.
+ */
+export function branch<TData>(
+  condition: (data: Partial<TData>) => boolean,
+  steps: FlowStep<TData>[]
+): FlowStep<TData>[] {
+  return steps.map(step => ({
+    ...step,
+    condition: data => condition(data) && (!step.condition || step.condition(data))
+  }))
+}
+
+export function createFlowEngine<TData>(flow: FlowDefinition<TData>) {
+  const indexOf = (stepId: string) => flow.steps.findIndex(step => step.id === stepId)
+
+  const getStep = (stepId: string) => flow.steps.find(step => step.id === stepId)
+
+  /**
+   * Returns the first applicable step after `afterStepId` (or the first
+   * applicable step of the flow), or undefined when the flow is finished.
+   */
+  const nextStep = (data: Partial<TData>, afterStepId?: string) => {
+    const start = afterStepId ? indexOf(afterStepId) + 1 : 0
+    return flow.steps
+      .slice(start)
+      .find(step => !step.condition || step.condition(data))
+  }
+
+  const promptFor = (step: FlowStep<TData>, data: Partial<TData>) =>
+    typeof step.prompt === 'function' ? step.prompt(data) : step.prompt
+
+  const accept = (step: FlowStep<TData>, value: unknown, data: Partial<TData>): StepResult<TData> => {
+    const result = step.schema.safeParse(value)
+    if (!result.success) {
+      return { success: false, error: result.error.issues[0]?.message ?? 'Please provide a valid response' }
+    }
+    return { success: true, data: { ...data, ...step.parse(result.data, data) } }
+  }
+
+  const submit = (stepId: string, input: string, data: Partial<TData>): StepResult<TData> => {
+    const step = getStep(stepId)
+    if (!step) return { success: false, error: `Unknown step "${stepId}"` }
+
+    const trimmed = input.trim()
+    if (!step.interpret) return accept(step, trimmed, data)
+
+    const interpreted = step.interpret(trimmed)
+    switch (interpreted.status) {
+      case 'ok':
+        return accept(step, interpreted.value, data)
+      case 'ambiguous':
+        return {
+          success: false,
+          error: interpreted.question,
+          followUp: { stepId, question: interpreted.question, options: interpreted.options }
+        }
+      case 'invalid':
+        return { success: false, error: interpreted.error }
+    }
+  }
+
+  /**
+   * Handles the reply to a follow-up question: either one of the offered
+   * options, or a fresh answer to the original step.
+   */
+  const answerFollowUp = (followUp: FollowUp, input: string, data: Partial<TData>): StepResult<TData> => {
+    const step = getStep(followUp.stepId)
+    if (!step) return { success: false, error: `Unknown step "${followUp.stepId}"` }
+
+    const option = matchOption(input, followUp.options)
+    return option ? accept(step, option.value, data) : submit(followUp.stepId, input, data)
+  }
+
+  return { flow, getStep, nextStep, promptFor, submit, answerFollowUp }
+}
+
+export type FlowEngine<TData> = ReturnType<typeof createFlowEngine<TData>>
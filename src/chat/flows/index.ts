@@ -0,0 +1,38 @@
+import { z } from 'zod'
+import { ChatRole, ConversationData } from '../../types'
+import { branch, defineStep, FlowDefinition } from '../flow'
+import { jobSeekerFlow } from './jobSeeker'
+import { recruiterFlow } from './recruiter'
+
+const RECRUITER_WORDS = ['recruit', 'hiring', 'hire', 'employer', 'candidates']
+const JOB_SEEKER_WORDS = ['job', 'seek', 'looking', 'candidate', 'work']
+
+const detectRole = (value: string): ChatRole | undefined => {
+  const answer = value.toLowerCase()
+  if (RECRUITER_WORDS.some(word => answer.includes(word))) return 'recruiter'
+  if (JOB_SEEKER_WORDS.some(word => answer.includes(word))) return 'job_seeker'
+  return undefined
+}
+
+const isRole = (role: ChatRole) => (data: Partial<ConversationData>) => data.role === role
+
+export const conversationFlow: FlowDefinition<ConversationData> = {
+  id: 'conversation',
+  steps: [
+    defineStep({
+      id: 'role',
+      prompt: 'Are you looking for a job, or hiring for a role? (reply "job seeker" or "recruiter")',
+      input: { kind: 'quick_replies', options: ['Job seeker', 'Recruiter'] },
+      schema: z.string()
+        .transform(detectRole)
+        .pipe(z.enum(['job_seeker', 'recruiter'], {
+          errorMap: () => ({ message: 'Please reply "job seeker" or "recruiter"' })
+        })),
+      parse: (role: ChatRole) => ({ role })
+    }),
+    ...branch(isRole('job_seeker'), jobSeekerFlow.steps),
+    ...branch(isRole('recruiter'), recruiterFlow.steps)
+  ]
+}
+
+export { jobSeekerFlow, recruiterFlow }
@@ -0,0 +1,56 @@
+import { z } from 'zod'
+import { UserData } from '../../types'
+import { SKILL_NAMES } from '../../utils/skills'
+import { defineStep, FlowDefinition } from '../flow'
+import {
+  JOB_TYPES,
+  parseJobType,
+  parseLocation,
+  parseName,
+  parseSkills,
+  parseYearsOfExperience
+} from '../parsing'
+
+export const jobSeekerFlow: FlowDefinition<UserData> = {
+  id: 'job-seeker',
+  steps: [
+    defineStep({
+      id: 'name',
+      prompt: "What's your full name?",
+      interpret: parseName,
+      schema: z.string().min(2, 'Please enter at least 2 characters for your name'),
+      parse: name => ({ name })
+    }),
+    defineStep({
+      id: 'skills',
+      prompt: 'What are your key technical skills? (separate with commas)',
+      input: { kind: 'skill_picker', suggestions: SKILL_NAMES },
+      interpret: parseSkills,
+      schema: z.array(z.string()).min(1, 'Please list at least one skill'),
+      parse: skills => ({ skills })
+    }),
+    defineStep({
+      id: 'location',
+      prompt: 'Where are you located? (city, country)',
+      interpret: parseLocation,
+      schema: z.string().min(2, 'Please enter a valid location'),
+      parse: location => ({ location })
+    }),
+    defineStep({
+      id: 'yearsExperience',
+      prompt: 'How many years of professional experience do you have?',
+      input: { kind: 'experience_slider', min: 0, max: 30 },
+      interpret: parseYearsOfExperience,
+      schema: z.number().min(0, 'Experience cannot be negative').max(50, 'Experience cannot exceed 50 years'),
+      parse: yearsExperience => ({ yearsExperience })
+    }),
+    defineStep({
+      id: 'jobType',
+      prompt: 'What type of job role are you seeking? (e.g., Full-time, Contract, Remote)',
+      input: { kind: 'quick_replies', options: [...JOB_TYPES] },
+      interpret: parseJobType,
+      schema: z.string().min(1, 'Please tell me what type of role you are seeking'),
+      parse: jobType => ({ jobType })
+    })
+  ]
+}
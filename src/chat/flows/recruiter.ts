@@ -0,0 +1,112 @@
+import { z } from 'zod'
+import { EmploymentType, ExperienceLevel, JobPosting, NewRecord, RecruiterData } from '../../types'
+import { jobFieldsSchema } from '../../schemas/job'
+import { SKILL_NAMES } from '../../utils/skills'
+import { defineStep, FlowDefinition } from '../flow'
+import { parseEmploymentType, parseLocation, parseSkills } from '../parsing'
+
+const employmentTypes = jobFieldsSchema.shape.employmentType.options
+const experienceLevels = jobFieldsSchema.shape.experienceLevel.options
+
+const letters = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '')
+
+const pickOption = <T extends string>(options: readonly T[]) => (value: string) =>
+  options.find(option => letters(value).startsWith(letters(option)))
+
+// Accepts "80000 - 120000", "80k-120k" or "$80,000 to $120,000"
+const parseSalaryRange = (value: string) => {
+  const amounts = [...value.toLowerCase().replace(/[$,\s]/g, '').matchAll(/(\d+(?:\.\d+)?)(k?)/g)]
+    .map(([, amount, thousands]) => Math.round(Number(amount) * (thousands ? 1000 : 1)))
+  return { salaryMin: amounts[0], salaryMax: amounts[1] ?? amounts[0] }
+}
+
+export const recruiterFlow: FlowDefinition<RecruiterData> = {
+  id: 'recruiter',
+  steps: [
+    defineStep({
+      id: 'jobTitle',
+      prompt: 'What job title are you hiring for?',
+      schema: jobFieldsSchema.shape.jobTitle,
+      parse: jobTitle => ({ jobTitle })
+    }),
+    defineStep({
+      id: 'companyName',
+      prompt: 'Which company is the role at?',
+      schema: jobFieldsSchema.shape.companyName,
+      parse: companyName => ({ companyName })
+    }),
+    defineStep({
+      id: 'requiredSkills',
+      prompt: 'Which skills are required? (separate with commas)',
+      input: { kind: 'skill_picker', suggestions: SKILL_NAMES },
+      interpret: parseSkills,
+      schema: z.array(z.string()).min(1, 'Please specify required skills'),
+      parse: requiredSkills => ({ requiredSkills })
+    }),
+    defineStep({
+      id: 'experienceLevel',
+      prompt: `What experience level are you looking for? (${experienceLevels.join(', ')})`,
+      input: { kind: 'quick_replies', options: [...experienceLevels] },
+      schema: z.string()
+        .transform(pickOption(experienceLevels))
+        .pipe(z.enum(experienceLevels, {
+          errorMap: () => ({ message: `Please choose one of: ${experienceLevels.join(', ')}` })
+        })),
+      parse: (experienceLevel: ExperienceLevel) => ({ experienceLevel })
+    }),
+    defineStep({
+      id: 'salaryRange',
+      prompt: 'What is the salary range in USD? (e.g., 80000 - 120000)',
+      schema: z.string()
+        .transform(parseSalaryRange)
+        .pipe(z.object({
+          salaryMin: z.number({ required_error: 'Please enter a salary range like 80000 - 120000' }).min(0),
+          salaryMax: z.number().min(0)
+        }))
+        .refine(({ salaryMin, salaryMax }) => salaryMax >= salaryMin, 'Maximum salary must be greater than or equal to minimum salary'),
+      parse: range => range
+    }),
+    defineStep({
+      id: 'employmentType',
+      prompt: `What type of employment is it? (${employmentTypes.join(', ')})`,
+      input: { kind: 'quick_replies', options: [...employmentTypes] },
+      interpret: text => parseEmploymentType(text, employmentTypes),
+      schema: z.enum(employmentTypes),
+      parse: (employmentType: EmploymentType) => ({ employmentType })
+    }),
+    defineStep({
+      id: 'jobLocation',
+      prompt: 'Where is the job located? (city, country or Remote)',
+      interpret: parseLocation,
+      schema: jobFieldsSchema.shape.location,
+      parse: location => ({ location })
+    }),
+    defineStep({
+      id: 'contactEmail',
+      prompt: 'Which email should candidates contact?',
+      schema: jobFieldsSchema.shape.contactEmail,
+      parse: contactEmail => ({ contactEmail })
+    })
+  ]
+}
+
+/**
+ * Builds a job posting from the recruiter's answers. The chat does not ask for
+ * a full description, so a summary is generated from the collected fields.
+ */
+export function toJobPosting(data: RecruiterData): NewRecord<JobPosting> {
+  return {
+    jobTitle: data.jobTitle,
+    companyName: data.companyName,
+    location: data.location,
+    requiredSkills: data.requiredSkills,
+    experienceLevel: data.experienceLevel,
+    salaryMin: data.salaryMin,
+    salaryMax: data.salaryMax,
+    employmentType: data.employmentType,
+    contactEmail: data.contactEmail,
+    jobDescription: `${data.companyName} is hiring a ${data.experienceLevel.toLowerCase()}-level ${data.jobTitle} ` +
+      `(${data.employmentType}) in ${data.location}. Required skills: ${data.requiredSkills.join(', ')}.`,
+    postedDate: new Date().toISOString()
+  }
+}
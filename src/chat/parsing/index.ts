@@ -0,0 +1,44 @@
+import { ok, ParseOption, ParseResult } from './types'
+
+export * from './types'
+export { parseYearsOfExperience, wordsToNumbers } from './numbers'
+export { parseLocation, formatPlace } from './location'
+export { parseSkills } from './skills'
+export { parseJobType, parseEmploymentType, JOB_TYPES } from './jobTypes'
+
+const NAME_LEAD_IN = /^(hi|hello|hey)?[,!\s]*(my name is|my name's|i am|i'm|im|it's|it is|this is|call me|name:)\s+/i
+
+/**
+ * Strips lead-ins such as "my name is" or "I'm" from a name answer.
+ */
+export function parseName(text: string): ParseResult<string> {
+  return ok(text.trim().replace(NAME_LEAD_IN, '').replace(/[.!]+$/, '').trim())
+}
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth']
+
+/**
+ * Picks the option a follow-up answer refers to, by number ("2"), ordinal
+ * ("the second one") or by naming part of its label ("Oregon").
+ */
+export function matchOption<T>(answer: string, options: ParseOption<T>[]): ParseOption<T> | undefined {
+  const text = answer.trim().toLowerCase()
+  if (!text) return undefined
+
+  const exact = options.find(option => option.label.toLowerCase() === text)
+  if (exact) return exact
+
+  // A bare number names an option by position, unless the labels are numbers themselves
+  const numericLabels = options.some(option => /^\d/.test(option.label))
+  if (/^\d+$/.test(text) && !numericLabels) return options[Number(text) - 1]
+
+  const ordinal = ORDINALS.findIndex(word => text.includes(word))
+  if (ordinal >= 0 && ordinal < options.length) return options[ordinal]
+  if (/\blast\b/.test(text)) return options[options.length - 1]
+
+  const partial = options.filter(option => {
+    const label = option.label.toLowerCase()
+    return label.includes(text) || text.includes(label)
+  })
+  return partial.length === 1 ? partial[0] : undefined
+}
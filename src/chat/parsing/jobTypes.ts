@@ -0,0 +1,51 @@
+import { EmploymentType } from '../../types'
+import { ambiguous, ok, ParseResult } from './types'
+
+export const JOB_TYPES = ['Full-time', 'Part-time', 'Contract', 'Freelance', 'Internship', 'Remote'] as const
+
+export type JobType = typeof JOB_TYPES[number]
+
+const SYNONYMS: [RegExp, JobType][] = [
+  [/\b(full[\s-]?time|ft|permanent|perm|salaried|9[\s-]to[\s-]5)\b/i, 'Full-time'],
+  [/\b(part[\s-]?time|pt|hourly|few hours)\b/i, 'Part-time'],
+  [/\b(contract(or|ing)?|temp(orary)?|fixed[\s-]term|consult(ant|ing))\b/i, 'Contract'],
+  [/\b(freelanc(e|er|ing)|gig|self[\s-]employed|project[\s-]based)\b/i, 'Freelance'],
+  [/\b(intern(ship)?|placement|trainee|apprentice(ship)?)\b/i, 'Internship'],
+  [/\b(remote(ly)?|work(ing)? from home|wfh|distributed|anywhere)\b/i, 'Remote']
+]
+
+const detectJobTypes = (text: string) =>
+  SYNONYMS.filter(([pattern]) => pattern.test(text)).map(([, type]) => type)
+
+/**
+ * Maps job-type synonyms ("permanent", "contractor", "WFH") to the canonical
+ * labels. Several types can be combined, e.g. "Full-time, Remote".
+ */
+export function parseJobType(text: string): ParseResult<string> {
+  const types = detectJobTypes(text)
+  if (types.length > 0) return ok(types.join(', '))
+
+  return ambiguous(
+    `I didn't catch the type of role. Which fits best: ${JOB_TYPES.join(', ')}?`,
+    JOB_TYPES.map(type => ({ label: type, value: type }))
+  )
+}
+
+/**
+ * Like parseJobType, but for a job posting, which needs exactly one of the
+ * employment types (Remote describes location, not employment).
+ */
+export function parseEmploymentType(text: string, options: readonly EmploymentType[]): ParseResult<EmploymentType> {
+  const types = detectJobTypes(text).filter((type): type is EmploymentType =>
+    (options as readonly string[]).includes(type)
+  )
+  if (types.length === 1) return ok(types[0])
+
+  const choices = types.length > 1 ? types : options
+  return ambiguous(
+    types.length > 1
+      ? `Should I list it as ${choices.join(' or ')}?`
+      : `Which employment type is it: ${choices.join(', ')}?`,
+    choices.map(type => ({ label: type, value: type }))
+  )
+}
@@ -0,0 +1,66 @@
+import { countries, Place, places, usStates } from '../../data/gazetteer'
+import { ambiguous, invalid, ok, ParseResult } from './types'
+
+const LEAD_IN = /^(i('m| am)?\s+)?(currently\s+)?(live|living|based|located|staying|from|in|at)\s+(in|at|near|out of)?\s*/i
+const REMOTE = /\b(remote|anywhere|work(ing)? from home|wfh)\b/i
+
+const lower = (value: string) => value.trim().toLowerCase()
+
+const capitalize = (value: string) =>
+  value.trim().split(/\s+/).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+
+export const formatPlace = (place: Place) =>
+  [place.city, place.region && (usStates[place.region] ?? place.region), place.country].filter(Boolean).join(', ')
+
+const findCountry = (value: string) =>
+  countries.find(country => lower(country.name) === lower(value) || country.aliases.includes(lower(value)))
+
+const matchesQualifier = (place: Place, qualifier: string) => {
+  const value = lower(qualifier)
+  const stateName = place.region ? usStates[place.region] : undefined
+  return (
+    lower(place.country) === value ||
+    findCountry(qualifier)?.name === place.country ||
+    (place.region !== undefined && lower(place.region) === value) ||
+    (stateName !== undefined && lower(stateName) === value)
+  )
+}
+
+const findPlaces = (city: string) =>
+  places.filter(place => lower(place.city) === lower(city) || place.aliases?.includes(lower(city)))
+
+/**
+ * Resolves a free-text location against the bundled gazetteer. "Berlin"
+ * becomes "Berlin, Germany"; a city name shared by several places asks which
+ * one was meant. Unknown places are kept as typed.
+ */
+export function parseLocation(text: string): ParseResult<string> {
+  const cleaned = text.trim().replace(LEAD_IN, '').replace(/[.!]+$/, '').trim()
+  if (REMOTE.test(cleaned)) return ok('Remote')
+  if (cleaned.length < 2) return invalid('Please tell me which city and country you are in')
+
+  const [city, ...qualifiers] = cleaned.split(',').map(part => part.trim()).filter(Boolean)
+  let candidates = findPlaces(city)
+
+  if (qualifiers.length > 0) {
+    const narrowed = candidates.filter(place => qualifiers.some(qualifier => matchesQualifier(place, qualifier)))
+    if (narrowed.length === 1) return ok(formatPlace(narrowed[0]))
+    if (narrowed.length === 0) return ok(capitalize(cleaned))
+    candidates = narrowed
+  }
+
+  if (candidates.length === 1) return ok(formatPlace(candidates[0]))
+
+  if (candidates.length > 1) {
+    const options = candidates.map(place => ({ label: formatPlace(place), value: formatPlace(place) }))
+    return ambiguous(
+      `There's more than one ${candidates[0].city}. Which one do you mean: ${options.map(option => option.label).join(' or ')}?`,
+      options
+    )
+  }
+
+  const country = findCountry(cleaned)
+  if (country) return ok(country.name)
+
+  return ok(capitalize(cleaned))
+}
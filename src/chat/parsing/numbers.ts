@@ -0,0 +1,75 @@
+import { ambiguous, invalid, ok, ParseResult } from './types'
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+  single: 1, dozen: 12, decade: 10
+}
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60
+}
+
+const NO_EXPERIENCE = /\b(none|no experience|not? (any|yet)|less than (a|an|one|1) (year|yr)|fresh(er)?|new grad|just (started|graduated))\b/
+const VAGUE = /\b(a few|few|several|some|many)\b/
+
+/**
+ * Replaces spelled-out numbers ("twenty-five", "a couple of") with digits.
+ */
+export function wordsToNumbers(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\b(twenty|thirty|forty|fifty|sixty)[\s-](one|two|three|four|five|six|seven|eight|nine)\b/g,
+      (_, tens: string, unit: string) => String(TENS[tens] + UNITS[unit]))
+    .replace(/\bhalf (a|an) (year|decade)\b/g, (_, __, unit: string) => (unit === 'decade' ? '5 years' : '0.5 years'))
+    .replace(/\b(?:a|one) and a half\b/g, '1.5')
+    .replace(/\b(?:a )?couple(?: of)?\b/g, '2')
+    .replace(/\b(twenty|thirty|forty|fifty|sixty)\b/g, tens => String(TENS[tens]))
+    .replace(/\b(zero|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|single|dozen|decade)\b/g,
+      unit => String(UNITS[unit]))
+    .replace(/\b(?:a|an) (year|month)/g, '1 $1')
+}
+
+const roundToHalf = (value: number) => Math.round(value * 2) / 2
+
+/**
+ * Pulls a number of years out of answers like "5", "5+ yrs",
+ * "about five years" or "2 years and 6 months". Ranges ask for a follow-up.
+ */
+export function parseYearsOfExperience(text: string): ParseResult<number> {
+  if (NO_EXPERIENCE.test(text.toLowerCase())) return ok(0)
+
+  const normalized = wordsToNumbers(text.trim())
+
+  const range = normalized.match(/(\d+(?:\.\d+)?)\s*(?:-|–|to|or)\s*(\d+(?:\.\d+)?)/) ??
+    normalized.match(/between\s+(\d+(?:\.\d+)?)\s+and\s+(\d+(?:\.\d+)?)/)
+  if (range) {
+    const [low, high] = [Number(range[1]), Number(range[2])].sort((a, b) => a - b)
+    if (low === high) return ok(low)
+    return ambiguous(`Got it, somewhere between ${low} and ${high}. Is that closer to ${low} or ${high} years?`, [
+      { label: `${low} years`, value: low },
+      { label: `${high} years`, value: high }
+    ])
+  }
+
+  const years = normalized.match(/(\d+(?:\.\d+)?)\s*\+?\s*(?:years?|yrs?|y\b)/)
+  const months = normalized.match(/(\d+(?:\.\d+)?)\s*(?:months?|mos?)\b/)
+  if (years || months) {
+    const total = (years ? Number(years[1]) : 0) + (months ? Number(months[1]) / 12 : 0)
+    return ok(roundToHalf(total))
+  }
+
+  const bare = normalized.match(/(\d+(?:\.\d+)?)/)
+  if (bare) return ok(roundToHalf(Number(bare[1])))
+
+  if (VAGUE.test(normalized)) {
+    return ambiguous('Could you give me a rough number? For example 2, 3 or 5 years.', [
+      { label: '2 years', value: 2 },
+      { label: '3 years', value: 3 },
+      { label: '5 years', value: 5 }
+    ])
+  }
+
+  return invalid('Please tell me your experience in years, e.g. "5" or "about five years"')
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import {
+  matchOption,
+  parseEmploymentType,
+  parseJobType,
+  parseLocation,
+  parseName,
+  parseSkills,
+  parseYearsOfExperience,
+  wordsToNumbers
+} from '.'
+
+describe('parseName', () => {
+  it('strips lead-ins and trailing punctuation', () => {
+    expect(parseName('Hi, my name is Ana Lee.')).toEqual({ status: 'ok', value: 'Ana Lee' })
+    expect(parseName("I'm Sam")).toEqual({ status: 'ok', value: 'Sam' })
+    expect(parseName('Jordan Smith')).toEqual({ status: 'ok', value: 'Jordan Smith' })
+  })
+})
+
+describe('matchOption', () => {
+  const options = [
+    { label: 'Portland, Oregon, USA', value: 'or' },
+    { label: 'Portland, Maine, USA', value: 'me' }
+  ]
+
+  it('picks an option by number, ordinal or part of its label', () => {
+    expect(matchOption('2', options)?.value).toBe('me')
+    expect(matchOption('the first one', options)?.value).toBe('or')
+    expect(matchOption('the last', options)?.value).toBe('me')
+    expect(matchOption('oregon', options)?.value).toBe('or')
+  })
+
+  it('returns nothing when the answer fits no single option', () => {
+    expect(matchOption('Portland', options)).toBeUndefined()
+    expect(matchOption('Seattle', options)).toBeUndefined()
+    expect(matchOption('', options)).toBeUndefined()
+  })
+
+  it('treats numbers as labels when the labels are numbers', () => {
+    const years = [{ label: '3 years', value: 3 }, { label: '5 years', value: 5 }]
+
+    expect(matchOption('5 years', years)?.value).toBe(5)
+    expect(matchOption('1', years)).toBeUndefined()
+  })
+})
+
+describe('parseYearsOfExperience', () => {
+  it('reads numbers, words and months', () => {
+    expect(wordsToNumbers('about five years')).toBe('about 5 years')
+    expect(parseYearsOfExperience('5')).toEqual({ status: 'ok', value: 5 })
+    expect(parseYearsOfExperience('5+ yrs')).toEqual({ status: 'ok', value: 5 })
+    expect(parseYearsOfExperience('about five years')).toEqual({ status: 'ok', value: 5 })
+    expect(parseYearsOfExperience('2 years and 6 months')).toEqual({ status: 'ok', value: 2.5 })
+  })
+
+  it('asks which end of a range is closer', () => {
+    const result = parseYearsOfExperience('3-5 years')
+
+    expect(result.status).toBe('ambiguous')
+    expect(result.status === 'ambiguous' && result.options.map(option => option.value)).toEqual([3, 5])
+  })
+
+  it('rejects answers without a number', () => {
+    expect(parseYearsOfExperience('banana').status).toBe('invalid')
+  })
+})
+
+describe('parseLocation', () => {
+  it('resolves known cities and drops lead-ins', () => {
+    expect(parseLocation('Berlin')).toEqual({ status: 'ok', value: 'Berlin, Germany' })
+    expect(parseLocation("I'm based in Munich")).toEqual({ status: 'ok', value: 'Munich, Germany' })
+    expect(parseLocation('Portland, Maine')).toEqual({ status: 'ok', value: 'Portland, Maine, USA' })
+  })
+
+  it('asks which place is meant when a city name is shared', () => {
+    const result = parseLocation('Portland')
+
+    expect(result.status).toBe('ambiguous')
+    expect(result.status === 'ambiguous' && result.options.map(option => option.label))
+      .toEqual(['Portland, Oregon, USA', 'Portland, Maine, USA'])
+  })
+
+  it('recognises remote work and keeps unknown places as typed', () => {
+    expect(parseLocation('anywhere, I work from home')).toEqual({ status: 'ok', value: 'Remote' })
+    expect(parseLocation('small town')).toEqual({ status: 'ok', value: 'Small Town' })
+    expect(parseLocation('x').status).toBe('invalid')
+  })
+})
+
+describe('parseSkills', () => {
+  it('splits the list and uses canonical names', () => {
+    expect(parseSkills('I know reactjs, typescript and node')).toEqual({
+      status: 'ok',
+      value: ['React', 'TypeScript', 'Node.js']
+    })
+  })
+
+  it('keeps skills that contain a slash together', () => {
+    expect(parseSkills('CI/CD, Docker/Terraform')).toEqual({ status: 'ok', value: ['CI/CD', 'Docker', 'Terraform'] })
+  })
+
+  it('rejects an empty list', () => {
+    expect(parseSkills(' , ').status).toBe('invalid')
+  })
+})
+
+describe('parseJobType', () => {
+  it('maps synonyms to the job types', () => {
+    expect(parseJobType('permanent')).toEqual({ status: 'ok', value: 'Full-time' })
+    expect(parseJobType('contracting, WFH')).toEqual({ status: 'ok', value: 'Contract, Remote' })
+  })
+
+  it('offers every job type when it finds none', () => {
+    const result = parseJobType('something interesting')
+
+    expect(result.status).toBe('ambiguous')
+    expect(result.status === 'ambiguous' && result.options).toHaveLength(6)
+  })
+})
+
+describe('parseEmploymentType', () => {
+  const options = ['Full-time', 'Part-time', 'Contract'] as const
+
+  it('accepts a single employment type', () => {
+    expect(parseEmploymentType('temp role', options)).toEqual({ status: 'ok', value: 'Contract' })
+  })
+
+  it('asks to pick one of several matches', () => {
+    const result = parseEmploymentType('full-time or part-time', options)
+
+    expect(result.status === 'ambiguous' && result.options.map(option => option.value)).toEqual(['Full-time', 'Part-time'])
+  })
+
+  it('ignores types that are not employment types', () => {
+    expect(parseEmploymentType('remote', options).status).toBe('ambiguous')
+  })
+})
@@ -0,0 +1,22 @@
+import { canonicalSkills, findSkill } from '../../utils/skills'
+import { invalid, ok, ParseResult } from './types'
+
+const FILLER = /^(i\s+(know|use|have|work with)|my skills are|skills?:?|experienced in|proficient in|and|also)\s+/i
+
+/**
+ * Splits a free-text skill list on commas, slashes, "and" and "&", then
+ * maps each entry to its canonical name and drops duplicates.
+ */
+export function parseSkills(text: string): ParseResult<string[]> {
+  const skills = text
+    .replace(FILLER, '')
+    .split(/,|;|&|\n|\band\b|\bplus\b/i)
+    .map(part => part.replace(FILLER, '').replace(/[.!]+$/, '').trim())
+    // Slashes separate skills too, unless they are part of one such as "CI/CD"
+    .flatMap(part => (findSkill(part) ? [part] : part.split('/').map(item => item.trim())))
+    .filter(Boolean)
+
+  const unique = canonicalSkills(skills)
+
+  return unique.length > 0 ? ok(unique) : invalid('Please list at least one skill, e.g. "React, TypeScript"')
+}
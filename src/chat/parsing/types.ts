@@ -0,0 +1,23 @@
+export interface ParseOption<T> {
+  label: string
+  value: T
+}
+
+/**
+ * Outcome of interpreting a free-text answer. Ambiguous answers carry a
+ * follow-up question and, where possible, the candidate values to pick from.
+ */
+export type ParseResult<T> =
+  | { status: 'ok'; value: T }
+  | { status: 'ambiguous'; question: string; options: ParseOption<T>[] }
+  | { status: 'invalid'; error: string }
+
+export const ok = <T>(value: T): ParseResult<T> => ({ status: 'ok', value })
+
+export const ambiguous = <T>(question: string, options: ParseOption<T>[] = []): ParseResult<T> => ({
+  status: 'ambiguous',
+  question,
+  options
+})
+
+export const invalid = <T>(error: string): ParseResult<T> => ({ status: 'invalid', error })
@@ -0,0 +1,23 @@
+import { sessionToken } from '../../services/session'
+import { createLocalProvider } from './local'
+import { createOpenAIProvider } from './openai'
+
+const baseUrl = import.meta.env.VITE_LLM_URL
+
+// Without a configured model endpoint the chatbot uses the offline rule-based
+// provider. The endpoint is our proxy, which adds the model's API key and is
+// only sent the session token when it is served from the app's origin.
+export const chatProvider = baseUrl
+  ? createOpenAIProvider({
+      baseUrl,
+      model: import.meta.env.VITE_LLM_MODEL ?? 'gpt-4o-mini',
+      getToken: sessionToken.get
+    })
+  : createLocalProvider({ tokenDelay: import.meta.env.MODE === 'test' ? 0 : 30 })
+
+export { createLocalProvider, createOpenAIProvider }
+export { buildSystemPrompt } from './systemPrompt'
+export { chatTools, defineTool, searchJobsTool, updateProfileFieldTool } from './tools'
+export type { ChatTool, ToolContext } from './tools'
+export { historyFromMessages, runChatTurn } from './runner'
+export type { ChatChunk, ChatProvider, ChatRequest, ProviderMessage, ToolCall, ToolDefinition } from './types'
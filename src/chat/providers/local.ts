@@ -0,0 +1,164 @@
+import { parseLocation, parseSkills } from '../parsing'
+import { streamText } from '../streaming'
+import { PROFILE_HEADING } from './systemPrompt'
+import { ChatChunk, ChatProvider, ChatRequest, ProviderMessage, ToolCall } from './types'
+
+interface LocalProviderOptions {
+  // Pause between streamed words, to feel like a model typing
+  tokenDelay?: number
+}
+
+interface JobSummary {
+  jobTitle: string
+  companyName: string
+  location: string
+  employmentType: string
+}
+
+type Reply = { text: string } | { call: Omit<ToolCall, 'id'> }
+
+const FIELD_WORDS: [RegExp, string][] = [
+  [/^name$/, 'name'],
+  [/^skills?$/, 'skills'],
+  [/^(location|city|country|address)$/, 'location'],
+  [/^(experience|years( of experience)?)$/, 'yearsExperience'],
+  [/^(job ?type|role type|employment( type)?)$/, 'jobType']
+]
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'name',
+  skills: 'skills',
+  location: 'location',
+  yearsExperience: 'experience',
+  jobType: 'job type'
+}
+
+const UPDATE_REQUEST = /\b(?:change|update|set|make)\s+my\s+([a-z ]+?)\s+(?:to|as|=)\s+(.+)$/i
+const MOVED = /\bi(?:'ve| have)?\s+(?:moved|relocated)\s+to\s+(.+)$/i
+const JOB_SEARCH = /\b(jobs?|roles?|openings?|positions?|vacanc(y|ies)|postings?)\b/i
+const ABOUT_ME = /\b(what do you know about me|my (profile|details|answers)|who am i)\b/i
+const GREETING = /^(hi|hello|hey|good (morning|afternoon|evening))\b/i
+const THANKS = /\b(thanks|thank you|cheers)\b/i
+
+const HELP =
+  'I can look up open roles for you (try "show me React jobs in Berlin") or update one of your answers ' +
+  '(try "change my location to Lisbon"). You can also ask what I know about you.'
+
+const fieldFor = (words: string) =>
+  FIELD_WORDS.find(([pattern]) => pattern.test(words.trim().toLowerCase()))?.[1]
+
+const profileFacts = (messages: ProviderMessage[]) => {
+  const system = messages.find(message => message.role === 'system')?.content ?? ''
+  const [, block = ''] = system.split(PROFILE_HEADING)
+  return block
+    .split('\n')
+    .map(line => line.replace(/^- /, '').trim())
+    .filter(line => line && line !== 'Nothing yet')
+}
+
+const searchArguments = (text: string): Record<string, unknown> => {
+  const location = text.match(/\b(?:in|near|around)\s+([^?.!]+)/i)?.[1]
+  const subject = text
+    .replace(/\b(?:in|near|around)\s+[^?.!]+/i, '')
+    .replace(/\b(show|find|search|list|any|are|there|me|for|some|open|available|what|which|do|you|have|i|can|get|the|a|an|with)\b/gi, ' ')
+    .replace(JOB_SEARCH, ' ')
+    .replace(/[?.!]/g, ' ')
+    .trim()
+
+  const args: Record<string, unknown> = {}
+  if (location) {
+    const parsed = parseLocation(location)
+    args.location = parsed.status === 'ok' ? parsed.value.split(',')[0] : location.trim()
+  }
+  const skills = parseSkills(subject)
+  if (subject && skills.status === 'ok') args.skills = skills.value
+  return args
+}
+
+const describeJobs = (result: { total?: number; jobs?: JobSummary[]; error?: string }) => {
+  if (result.error) return `Sorry, I couldn't search the jobs: ${result.error}`
+  if (!result.jobs?.length) return "I couldn't find any open roles matching that yet. Try fewer filters or different skills."
+
+  const lines = result.jobs.map(job => `• ${job.jobTitle} at ${job.companyName} (${job.location}, ${job.employmentType})`)
+  const more = result.total && result.total > result.jobs.length ? ` (showing ${result.jobs.length} of ${result.total})` : ''
+  return [`Here's what I found${more}:`, ...lines].join('\n')
+}
+
+const describeUpdate = (result: { field?: string; value?: unknown; error?: string; options?: string[] }) => {
+  if (result.error) {
+    return result.options?.length
+      ? `${result.error} (${result.options.join(' / ')})`
+      : `I couldn't update that: ${result.error}`
+  }
+  const value = Array.isArray(result.value)
+    ? result.value.join(', ')
+    : result.field === 'yearsExperience' ? `${result.value} years` : String(result.value)
+  return `Done! I've updated your ${FIELD_LABELS[result.field ?? ''] ?? result.field} to ${value}.`
+}
+
+/**
+ * Answers the result of the tool the previous assistant message called.
+ */
+const replyToTool = (messages: ProviderMessage[], toolMessage: ProviderMessage): Reply => {
+  const call = messages
+    .flatMap(message => message.toolCalls ?? [])
+    .find(candidate => candidate.id === toolMessage.toolCallId)
+  const result = JSON.parse(toolMessage.content || '{}')
+
+  if (call?.name === 'search_jobs') return { text: describeJobs(result) }
+  if (call?.name === 'update_profile_field') return { text: describeUpdate(result) }
+  return { text: 'Done.' }
+}
+
+const replyToUser = (messages: ProviderMessage[], text: string): Reply => {
+  const update = text.match(UPDATE_REQUEST)
+  const field = update && fieldFor(update[1])
+  if (update && field) {
+    return { call: { name: 'update_profile_field', arguments: { field, value: update[2].replace(/[.!]+$/, '') } } }
+  }
+
+  const moved = text.match(MOVED)
+  if (moved) {
+    return { call: { name: 'update_profile_field', arguments: { field: 'location', value: moved[1] } } }
+  }
+
+  if (JOB_SEARCH.test(text)) return { call: { name: 'search_jobs', arguments: searchArguments(text) } }
+
+  if (ABOUT_ME.test(text)) {
+    const facts = profileFacts(messages)
+    return {
+      text: facts.length > 0
+        ? `Here's what I have so far:\n${facts.map(fact => `• ${fact}`).join('\n')}`
+        : "I don't know much about you yet. Answer a few questions and I'll keep track."
+    }
+  }
+
+  if (THANKS.test(text)) return { text: "You're welcome! Anything else I can help with?" }
+  if (GREETING.test(text)) return { text: `Hello! ${HELP}` }
+  return { text: `I'm not sure I can help with that. ${HELP}` }
+}
+
+/**
+ * Deterministic rule-based provider for offline use and tests. It recognises
+ * a handful of intents and otherwise explains what it can do.
+ */
+export function createLocalProvider({ tokenDelay = 0 }: LocalProviderOptions = {}): ChatProvider {
+  return {
+    name: 'local',
+    async *stream({ messages, signal }: ChatRequest): AsyncIterable<ChatChunk> {
+      const last = messages[messages.length - 1]
+      const reply = last?.role === 'tool'
+        ? replyToTool(messages, last)
+        : replyToUser(messages, last?.content.trim() ?? '')
+
+      if ('call' in reply) {
+        yield { type: 'tool_call', call: { id: `local-${messages.length}`, ...reply.call } }
+        return
+      }
+
+      for await (const token of streamText(reply.text, { delay: tokenDelay, signal })) {
+        yield { type: 'token', text: token }
+      }
+    }
+  }
+}
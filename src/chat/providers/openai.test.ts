@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createOpenAIProvider } from './openai'
+import { ChatChunk } from './types'
+
+const reply = () => new Response(JSON.stringify({ choices: [{ message: { content: 'Hello!' } }] }), {
+  headers: { 'Content-Type': 'application/json' }
+})
+
+const mockFetch = () => vi.fn<[RequestInfo | URL, RequestInit?], Promise<Response>>(async () => reply())
+
+const collect = async (chunks: AsyncIterable<ChatChunk>) => {
+  const collected: ChatChunk[] = []
+  for await (const chunk of chunks) collected.push(chunk)
+  return collected
+}
+
+const sentHeaders = (fetch: ReturnType<typeof mockFetch>) =>
+  fetch.mock.calls[0][1]?.headers as Record<string, string>
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('createOpenAIProvider', () => {
+  it('sends the token to an endpoint on the app origin', async () => {
+    const fetch = mockFetch()
+    vi.stubGlobal('fetch', fetch)
+    const provider = createOpenAIProvider({ baseUrl: '/api/llm', model: 'test', getToken: () => 'session-token' })
+
+    expect(await collect(provider.stream({ messages: [{ role: 'user', content: 'Hi' }], tools: [] })))
+      .toEqual([{ type: 'token', text: 'Hello!' }])
+    expect(String(fetch.mock.calls[0][0])).toBe(`${window.location.origin}/api/llm/chat/completions`)
+    expect(sentHeaders(fetch).Authorization).toBe('Bearer session-token')
+  })
+
+  it('never sends the token to another origin', async () => {
+    const fetch = mockFetch()
+    vi.stubGlobal('fetch', fetch)
+    const provider = createOpenAIProvider({
+      baseUrl: 'https://llm.example.com/v1',
+      model: 'test',
+      getToken: () => 'session-token'
+    })
+
+    await collect(provider.stream({ messages: [{ role: 'user', content: 'Hi' }], tools: [] }))
+
+    expect(String(fetch.mock.calls[0][0])).toBe('https://llm.example.com/v1/chat/completions')
+    expect(sentHeaders(fetch).Authorization).toBeUndefined()
+  })
+})
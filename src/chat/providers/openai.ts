@@ -0,0 +1,171 @@
+import { ApiError, errorFromException, errorFromResponse } from '../../services/api/errors'
+import { ChatChunk, ChatProvider, ChatRequest, ProviderMessage, ToolCall } from './types'
+
+interface OpenAIProviderOptions {
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:8080/v1
+  baseUrl: string
+  model: string
+  // Bearer token sent with each request, e.g. the signed-in user's session token.
+  // Never a provider API key: anything given to the browser ships in the bundle.
+  // It only goes to an endpoint on the app's own origin, never to a third party.
+  getToken?: () => string | null
+}
+
+interface OpenAIToolCall {
+  id: string
+  type: 'function'
+  function: { name: string; arguments: string }
+}
+
+interface OpenAIToolCallDelta {
+  index: number
+  id?: string
+  function?: { name?: string; arguments?: string }
+}
+
+interface OpenAIChoice {
+  delta?: { content?: string | null; tool_calls?: OpenAIToolCallDelta[] }
+  message?: { content?: string | null; tool_calls?: OpenAIToolCall[] }
+}
+
+const toOpenAIMessage = (message: ProviderMessage) => {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content }
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call): OpenAIToolCall => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    }
+  }
+  return { role: message.role, content: message.content }
+}
+
+const parseArguments = (json: string): Record<string, unknown> => {
+  try {
+    return json ? JSON.parse(json) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Reads a server-sent event stream and yields the `data:` payloads.
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+
+      const lines = buffer.split(/\r?\n/)
+      buffer = done ? '' : lines.pop() ?? ''
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim()
+      }
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Provider for any server implementing the OpenAI chat completions API,
+ * including local stand-ins. Falls back to a plain JSON response when the
+ * server does not stream. Hosted models are reached through a proxy that
+ * holds the API key and checks the user's token.
+ */
+export function createOpenAIProvider({ baseUrl, model, getToken }: OpenAIProviderOptions): ChatProvider {
+  const url = new URL(`${baseUrl.replace(/\/$/, '')}/chat/completions`, window.location.origin)
+  const sameOrigin = url.origin === window.location.origin
+
+  const send = async ({ messages, tools, signal }: ChatRequest) => {
+    const token = sameOrigin ? getToken?.() : null
+    let response: Response
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          stream: true,
+          messages: messages.map(toOpenAIMessage),
+          tools: tools.length > 0
+            ? tools.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } }))
+            : undefined
+        }),
+        signal
+      })
+    } catch (error) {
+      throw errorFromException(error)
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      throw errorFromResponse({ status: response.status, data: { message: body.error?.message ?? body.message } })
+    }
+    return response
+  }
+
+  return {
+    name: 'openai',
+    async *stream(request: ChatRequest): AsyncIterable<ChatChunk> {
+      const response = await send(request)
+
+      if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+        const body = await response.json()
+        const message = (body.choices?.[0] as OpenAIChoice | undefined)?.message
+        if (message?.content) yield { type: 'token', text: message.content }
+        for (const call of message?.tool_calls ?? []) {
+          yield {
+            type: 'tool_call',
+            call: { id: call.id, name: call.function.name, arguments: parseArguments(call.function.arguments) }
+          }
+        }
+        return
+      }
+
+      // Tool calls arrive in fragments keyed by index; emit them once complete
+      const pending: { id: string; name: string; args: string }[] = []
+
+      try {
+        for await (const data of readEvents(response.body)) {
+          if (data === '[DONE]') break
+          const choice = JSON.parse(data).choices?.[0] as OpenAIChoice | undefined
+          const delta = choice?.delta
+          if (delta?.content) yield { type: 'token', text: delta.content }
+
+          for (const fragment of delta?.tool_calls ?? []) {
+            const call = pending[fragment.index] ??= { id: '', name: '', args: '' }
+            if (fragment.id) call.id = fragment.id
+            if (fragment.function?.name) call.name += fragment.function.name
+            if (fragment.function?.arguments) call.args += fragment.function.arguments
+          }
+        }
+      } catch (error) {
+        throw error instanceof SyntaxError
+          ? new ApiError('server', 'The model returned a malformed response')
+          : errorFromException(error)
+      }
+
+      for (const [index, call] of pending.entries()) {
+        if (!call) continue
+        const toolCall: ToolCall = { id: call.id || `call-${index}`, name: call.name, arguments: parseArguments(call.args) }
+        yield { type: 'tool_call', call: toolCall }
+      }
+    }
+  }
+}
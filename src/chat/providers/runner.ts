@@ -0,0 +1,87 @@
+import { abortError } from '../streaming'
+import { ChatMessage } from '../types'
+import { ChatTool, ToolContext } from './tools'
+import { ChatProvider, ProviderMessage, ToolCall } from './types'
+
+interface ChatTurnOptions {
+  provider: ChatProvider
+  systemPrompt: string
+  history: ProviderMessage[]
+  tools: ChatTool[]
+  context: ToolContext
+  onToken?: (text: string) => void
+  signal?: AbortSignal
+  // Upper bound on model → tools → model round trips in one turn
+  maxToolRounds?: number
+}
+
+/**
+ * Maps the visible chat transcript to provider messages.
+ */
+export const historyFromMessages = (messages: ChatMessage[]): ProviderMessage[] =>
+  messages
+    .filter(message => message.content.trim() && message.status !== 'failed')
+    .map(message => ({
+      role: message.type === 'user' ? 'user' : 'assistant',
+      content: message.content
+    }))
+
+const runTool = async (call: ToolCall, tools: ChatTool[], context: ToolContext): Promise<unknown> => {
+  const tool = tools.find(candidate => candidate.name === call.name)
+  if (!tool) return { error: `Unknown tool "${call.name}"` }
+
+  const args = tool.schema.safeParse(call.arguments)
+  if (!args.success) {
+    return { error: args.error.issues[0]?.message ?? 'Invalid arguments' }
+  }
+
+  try {
+    return await tool.run(args.data, context)
+  } catch (error) {
+    console.error(`Error running chat tool ${call.name}:`, error)
+    return { error: error instanceof Error ? error.message : 'Tool failed' }
+  }
+}
+
+/**
+ * Runs one assistant turn: streams the reply, runs any tools the provider asks
+ * for and feeds their results back until it answers in plain text.
+ * Resolves with the full text of the reply.
+ */
+export async function runChatTurn({
+  provider,
+  systemPrompt,
+  history,
+  tools,
+  context,
+  onToken,
+  signal,
+  maxToolRounds = 3
+}: ChatTurnOptions): Promise<string> {
+  const messages: ProviderMessage[] = [{ role: 'system', content: systemPrompt }, ...history]
+  let reply = ''
+
+  for (let round = 0; ; round++) {
+    if (signal?.aborted) throw abortError()
+    let content = ''
+    const calls: ToolCall[] = []
+
+    for await (const chunk of provider.stream({ messages, tools, signal })) {
+      if (chunk.type === 'token') {
+        content += chunk.text
+        onToken?.(chunk.text)
+      } else {
+        calls.push(chunk.call)
+      }
+    }
+    reply += content
+
+    if (calls.length === 0 || round >= maxToolRounds) return reply
+
+    messages.push({ role: 'assistant', content, toolCalls: calls })
+    for (const call of calls) {
+      const result = await runTool(call, tools, context)
+      messages.push({ role: 'tool', content: JSON.stringify(result), toolCallId: call.id })
+    }
+  }
+}
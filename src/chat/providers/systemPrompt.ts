@@ -0,0 +1,51 @@
+import { ConversationData } from '../../types'
+
+// Heading of the profile block; the local provider reads the facts back from it
+export const PROFILE_HEADING = 'What we know about the user so far:'
+
+const describeData = (data: Partial<ConversationData>): string[] => {
+  if (data.role === 'recruiter') {
+    return [
+      data.jobTitle && `- Hiring for: ${data.jobTitle}`,
+      data.companyName && `- Company: ${data.companyName}`,
+      data.requiredSkills?.length && `- Required skills: ${data.requiredSkills.join(', ')}`,
+      data.experienceLevel && `- Experience level: ${data.experienceLevel}`,
+      data.salaryMin !== undefined && data.salaryMax !== undefined &&
+        `- Salary range: $${data.salaryMin.toLocaleString()} - $${data.salaryMax.toLocaleString()}`,
+      data.employmentType && `- Employment type: ${data.employmentType}`,
+      data.location && `- Job location: ${data.location}`
+    ].filter((line): line is string => typeof line === 'string')
+  }
+
+  return [
+    data.name && `- Name: ${data.name}`,
+    data.skills?.length && `- Skills: ${data.skills.join(', ')}`,
+    data.location && `- Location: ${data.location}`,
+    data.yearsExperience !== undefined && `- Experience: ${data.yearsExperience} years`,
+    data.jobType && `- Looking for: ${data.jobType}`
+  ].filter((line): line is string => typeof line === 'string')
+}
+
+/**
+ * Builds the system prompt for the chat provider from the answers collected
+ * so far, so the model can personalise replies and knows what it may change.
+ */
+export function buildSystemPrompt(data: Partial<ConversationData>): string {
+  const audience = data.role === 'recruiter'
+    ? 'a recruiter who is posting a job and looking for candidates'
+    : data.role === 'job_seeker'
+      ? 'a job seeker who wants to find a matching role'
+      : 'someone who has not yet said whether they are hiring or looking for work'
+
+  const facts = describeData(data)
+
+  return [
+    'You are Career Matcher AI, a friendly assistant in a job matching app.',
+    `You are talking to ${audience}.`,
+    'Keep answers short and practical. Use the search_jobs tool to look up open roles instead of guessing,',
+    'and the update_profile_field tool when the user asks to change one of their answers.',
+    '',
+    PROFILE_HEADING,
+    ...(facts.length > 0 ? facts : ['- Nothing yet'])
+  ].join('\n')
+}
@@ -0,0 +1,130 @@
+import { z } from 'zod'
+import { ConversationData, JobPosting } from '../../types'
+import { api } from '../../services/api'
+import { isListed } from '../../utils/jobLifecycle'
+import { skillKey } from '../../utils/skills'
+import { createFlowEngine } from '../flow'
+import { jobSeekerFlow } from '../flows'
+import { ToolDefinition } from './types'
+
+export interface ToolContext {
+  getData: () => Partial<ConversationData>
+  updateData: (data: Partial<ConversationData>) => void
+  // Lets the chat show the jobs a search found, besides the model's summary
+  showJobs?: (jobs: JobPosting[]) => void
+}
+
+// Declare tools with `defineTool`, which types `run` from the argument schema
+export interface ChatTool extends ToolDefinition {
+  schema: z.ZodTypeAny
+  run: (args: unknown, context: ToolContext) => Promise<unknown>
+}
+
+/**
+ * Declares a tool with `run` typed from the argument schema.
+ */
+export function defineTool<TSchema extends z.ZodTypeAny>(tool: ToolDefinition & {
+  schema: TSchema
+  run: (args: z.output<TSchema>, context: ToolContext) => Promise<unknown>
+}): ChatTool {
+  return {
+    ...tool,
+    // The runner only hands `run` arguments that passed the schema
+    run: (args, context) => tool.run(args as z.output<TSchema>, context)
+  }
+}
+
+const profileEngine = createFlowEngine(jobSeekerFlow)
+const PROFILE_FIELDS = ['name', 'skills', 'location', 'yearsExperience', 'jobType'] as const
+
+const summarizeJob = (job: JobPosting) => ({
+  id: job.id,
+  jobTitle: job.jobTitle,
+  companyName: job.companyName,
+  location: job.location,
+  employmentType: job.employmentType,
+  experienceLevel: job.experienceLevel,
+  requiredSkills: job.requiredSkills,
+  salaryMin: job.salaryMin,
+  salaryMax: job.salaryMax
+})
+
+export const searchJobsTool = defineTool({
+  name: 'search_jobs',
+  description: 'Search the open job postings by keywords, skills and location.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Keywords to look for in the title, company or job description' },
+      skills: { type: 'array', items: { type: 'string' }, description: 'Skills the job should require' },
+      location: { type: 'string', description: 'City, country or "Remote"' },
+      limit: { type: 'integer', minimum: 1, maximum: 10 }
+    }
+  },
+  schema: z.object({
+    query: z.string().optional(),
+    skills: z.array(z.string()).optional(),
+    location: z.string().optional(),
+    limit: z.number().int().min(1).max(10).default(5)
+  }),
+  run: async ({ query, skills = [], location, limit }, context) => {
+    const jobs = await api.jobs.list()
+    const wantedSkills = skills.map(skill => skillKey(skill))
+    const keywords = (query ?? '').toLowerCase().split(/\s+/).filter(Boolean)
+
+    const ranked = jobs
+      .filter(isListed)
+      .filter(job => !location || job.location.toLowerCase().includes(location.toLowerCase().split(',')[0]))
+      .map(job => {
+        const text = `${job.jobTitle} ${job.companyName} ${job.jobDescription}`.toLowerCase()
+        const jobSkills = job.requiredSkills.map(skill => skillKey(skill))
+        const score =
+          wantedSkills.filter(skill => jobSkills.includes(skill)).length * 2 +
+          keywords.filter(keyword => text.includes(keyword) || jobSkills.includes(keyword)).length
+        return { job, score }
+      })
+      .filter(({ score }) => score > 0 || (wantedSkills.length === 0 && keywords.length === 0))
+      .sort((a, b) => b.score - a.score || b.job.postedDate.localeCompare(a.job.postedDate))
+
+    const found = ranked.slice(0, limit).map(({ job }) => job)
+    context.showJobs?.(found)
+    return { total: ranked.length, jobs: found.map(summarizeJob) }
+  }
+})
+
+export const updateProfileFieldTool = defineTool({
+  name: 'update_profile_field',
+  description: "Change one of the job seeker's answers. The value is given in the user's own words.",
+  parameters: {
+    type: 'object',
+    properties: {
+      field: { type: 'string', enum: [...PROFILE_FIELDS] },
+      value: { type: 'string' }
+    },
+    required: ['field', 'value']
+  },
+  schema: z.object({
+    field: z.enum(PROFILE_FIELDS),
+    value: z.string()
+  }),
+  run: async ({ field, value }, context) => {
+    const data = context.getData()
+    if (data.role === 'recruiter') {
+      return { error: 'Only job seeker profiles can be updated from the chat' }
+    }
+
+    // Reuse the flow's parsing and validation for the field
+    const result = profileEngine.submit(field, value, data)
+    if (!result.success) {
+      return {
+        error: result.error,
+        options: result.followUp?.options.map(option => option.label)
+      }
+    }
+
+    context.updateData({ ...data, ...result.data })
+    return { field, value: result.data[field] }
+  }
+})
+
+export const chatTools: ChatTool[] = [searchJobsTool, updateProfileFieldTool]
@@ -0,0 +1,49 @@
+export type ProviderRole = 'system' | 'user' | 'assistant' | 'tool'
+
+export interface ToolCall {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+}
+
+export interface ProviderMessage {
+  role: ProviderRole
+  content: string
+  // Set on assistant messages that asked for tools to be run
+  toolCalls?: ToolCall[]
+  // Set on tool messages: the call this message is the result of
+  toolCallId?: string
+}
+
+// JSON Schema describing a tool's arguments, as sent to the model
+export interface ToolParameters {
+  type: 'object'
+  properties: Record<string, unknown>
+  required?: string[]
+}
+
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: ToolParameters
+}
+
+export interface ChatRequest {
+  messages: ProviderMessage[]
+  tools: ToolDefinition[]
+  signal?: AbortSignal
+}
+
+export type ChatChunk =
+  | { type: 'token'; text: string }
+  | { type: 'tool_call'; call: ToolCall }
+
+/**
+ * A model behind the chatbot. Providers stream the reply as tokens and may
+ * instead (or additionally) ask for tools to be run; the caller runs them and
+ * sends the results back in a follow-up request.
+ */
+export interface ChatProvider {
+  name: string
+  stream: (request: ChatRequest) => AsyncIterable<ChatChunk>
+}
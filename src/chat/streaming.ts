@@ -0,0 +1,54 @@
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export const abortError = () => new DOMException('Response was stopped', 'AbortError')
+
+export const isAbortError = (error: unknown) =>
+  (error instanceof DOMException && error.name === 'AbortError') ||
+  (error instanceof Error && 'code' in error && error.code === 'aborted')
+
+/**
+ * Splits text into word tokens, keeping whitespace with the preceding word.
+ */
+export const splitTokens = (text: string) => text.match(/\S+\s*/g) ?? []
+
+/**
+ * Yields canned text word by word, as if it were being generated.
+ */
+export async function* streamText(
+  text: string,
+  { delay = 0, signal }: { delay?: number; signal?: AbortSignal } = {}
+): AsyncIterable<string> {
+  for (const token of splitTokens(text)) {
+    if (signal?.aborted) throw abortError()
+    if (delay > 0) await wait(delay)
+    yield token
+  }
+}
+
+/**
+ * Collects streamed chunks and hands them over at most once per animation
+ * frame, so a fast stream doesn't re-render the message list per token.
+ */
+export function createChunkBuffer(onFlush: (text: string) => void) {
+  let pending = ''
+  let frame: number | null = null
+
+  const drain = () => {
+    frame = null
+    if (!pending) return
+    const text = pending
+    pending = ''
+    onFlush(text)
+  }
+
+  return {
+    push: (chunk: string) => {
+      pending += chunk
+      if (frame === null) frame = requestAnimationFrame(drain)
+    },
+    flush: () => {
+      if (frame !== null) cancelAnimationFrame(frame)
+      drain()
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { ConversationData, JobPosting, StoredRecord } from '../types'
+import { FollowUp, StepInput } from './flow'
+import { MatchResult } from '../utils/matching'
+
+// Absent once a message is complete
+export type MessageStatus = 'streaming' | 'stopped' | 'failed'
+
+interface BaseMessage {
+  id: string
+  type: 'bot' | 'user'
+  content: string
+  timestamp: string
+  status?: MessageStatus
+  // On bot messages: the step this message asks. On user messages: the step it answers.
+  stepId?: string
+  // On generated replies: the user message being answered, used to retry
+  replyTo?: string
+}
+
+/**
+ * Messages come in several kinds, each with its own renderer. `content` always
+ * holds a plain-text version, used for the transcript sent to chat providers.
+ * Question kinds let the user answer by tapping instead of typing.
+ */
+export type ChatMessage = BaseMessage & (
+  | { kind: 'text' }
+  | StepInput
+  | { kind: 'profile_card'; match: MatchResult }
+  | { kind: 'job_card'; job: JobPosting }
+)
+
+export type MessageKind = ChatMessage['kind']
+
+export interface ChatSession extends StoredRecord {
+  title: string
+  messages: ChatMessage[]
+  stepId: string | null
+  // Set while waiting for the answer to a clarifying question
+  followUp?: FollowUp | null
+  answers: Partial<ConversationData>
+  matches: MatchResult[]
+  isComplete: boolean
+  // Account that had the conversation
+  ownerId?: string
+}
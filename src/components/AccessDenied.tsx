@@ -0,0 +1,19 @@
+import React, { ReactNode } from 'react'
+import { Link } from 'react-router-dom'
+import { Lock } from 'lucide-react'
+
+// Explains why the signed-in user can't see or change what they opened
+const AccessDenied: React.FC<{ children: ReactNode }> = ({ children }) => (
+  <div className="max-w-2xl mx-auto p-6">
+    <div className="card text-center py-12">
+      <Lock size={32} className="mx-auto mb-4 text-gray-400" />
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">
+        You don't have access to this page
+      </h2>
+      <p className="text-gray-600 mb-6">{children}</p>
+      <Link to="/" className="btn-secondary">Back to chat</Link>
+    </div>
+  </div>
+)
+
+export default AccessDenied
@@ -0,0 +1,20 @@
+import React from 'react'
+import { APPLICATION_STAGE_LABELS } from '../schemas/application'
+import { ApplicationStage } from '../types'
+
+const STAGE_CLASSES: Record<ApplicationStage, string> = {
+  applied: 'bg-blue-100 text-blue-700',
+  screening: 'bg-indigo-100 text-indigo-700',
+  interview: 'bg-amber-100 text-amber-700',
+  offer: 'bg-green-100 text-green-700',
+  rejected: 'bg-gray-100 text-gray-500'
+}
+
+// Where an application is in the recruiter's pipeline, as a coloured pill
+const ApplicationStageBadge: React.FC<{ stage: ApplicationStage }> = ({ stage }) => (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STAGE_CLASSES[stage]}`}>
+    {APPLICATION_STAGE_LABELS[stage]}
+  </span>
+)
+
+export default ApplicationStageBadge
@@ -0,0 +1,147 @@
+import React from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Link, useLocation } from 'react-router-dom'
+import { AlertCircle, FileText, LogIn, Send } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth, useDataStore } from '../context/AppContext'
+import { useApplications } from '../hooks/useApplications'
+import { ApplicationFormData, applicationSchema, MAX_COVER_NOTE_LENGTH } from '../schemas/application'
+import { ApiError } from '../services/api'
+import { JobPosting } from '../types'
+import ApplicationStageBadge from './ApplicationStageBadge'
+import LoadingSpinner from './LoadingSpinner'
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' })
+
+// Lets a job seeker apply with their stored profile, or shows how their application is going
+const ApplicationForm: React.FC<{ job: JobPosting }> = ({ job }) => {
+  const { user } = useAuth()
+  const { profiles } = useDataStore()
+  const { applications, isLoading, apply } = useApplications(job.id)
+  const profile = profiles.find(candidate => candidate.ownerId === user?.id)
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting }
+  } = useForm<ApplicationFormData>({
+    resolver: zodResolver(applicationSchema),
+    defaultValues: { coverNote: '' }
+  })
+
+  const onSubmit = async ({ coverNote }: ApplicationFormData) => {
+    try {
+      await apply(job.id, coverNote)
+      toast.success('Application sent!')
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Failed to send your application')
+      console.error('Error applying to job:', error)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner size="sm" />
+      </div>
+    )
+  }
+
+  const [application] = applications
+  if (application) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <span>You applied on {formatDate(application.createdAt)}.</span>
+        <ApplicationStageBadge stage={application.stage} />
+        <Link to="/applications" className="text-primary-600 hover:text-primary-500">My applications</Link>
+      </div>
+    )
+  }
+
+  if (!profile) {
+    return (
+      <p className="text-sm text-gray-700">
+        Applications are sent with your profile.{' '}
+        <Link to="/profile" className="text-primary-600 hover:text-primary-500">Create your profile</Link> to apply.
+      </p>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-700">
+        <span>
+          Applying as <Link to={`/profiles/${profile.id}`} className="font-medium text-primary-600">{profile.fullName}</Link>
+        </span>
+        <span className="flex items-center space-x-1">
+          <FileText size={14} className="text-gray-400" />
+          <span>{profile.resumeFileName ?? 'No resume on your profile'}</span>
+        </span>
+      </div>
+
+      <div>
+        <label htmlFor="coverNote" className="block text-sm font-medium text-gray-700 mb-1">
+          Cover note <span className="text-gray-400 font-normal">(optional)</span>
+        </label>
+        <textarea
+          {...register('coverNote')}
+          id="coverNote"
+          rows={4}
+          className={`input-field resize-none ${errors.coverNote ? 'border-red-500' : ''}`}
+          placeholder={`Why are you a good fit for ${job.jobTitle}?`}
+        />
+        <div className="flex justify-between">
+          {errors.coverNote ? (
+            <p className="mt-1 text-sm text-red-600 flex items-center">
+              <AlertCircle size={14} className="mr-1" />
+              {errors.coverNote.message}
+            </p>
+          ) : <span />}
+          <span className="mt-1 text-xs text-gray-500">{watch('coverNote').length}/{MAX_COVER_NOTE_LENGTH}</span>
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? <LoadingSpinner size="sm" /> : <Send size={16} />}
+        <span>{isSubmitting ? 'Sending...' : 'Apply'}</span>
+      </button>
+    </form>
+  )
+}
+
+/**
+ * The "Apply" card on an open job: the application form for job seekers and
+ * a login prompt for visitors. Other roles don't apply, so they see nothing.
+ */
+const ApplyPanel: React.FC<{ job: JobPosting }> = ({ job }) => {
+  const { user, sessionChecked, can } = useAuth()
+  const location = useLocation()
+
+  if (!sessionChecked || (user && !can('job:apply'))) return null
+
+  return (
+    <div className="card max-w-3xl mt-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-3">Apply for this job</h3>
+      {user ? (
+        <ApplicationForm job={job} />
+      ) : (
+        <Link
+          to="/login"
+          state={{ from: location }}
+          className="inline-flex items-center space-x-2 text-primary-600 hover:text-primary-500"
+        >
+          <LogIn size={16} />
+          <span>Log in as a job seeker to apply</span>
+        </Link>
+      )}
+    </div>
+  )
+}
+
+export default ApplyPanel
@@ -0,0 +1,18 @@
+import React, { ReactNode } from 'react'
+import { useAuth } from '../context/AppContext'
+import { Permission } from '../utils/permissions'
+
+interface CanProps {
+  permission: Permission
+  children: ReactNode
+  // Rendered instead when the user lacks the permission
+  fallback?: ReactNode
+}
+
+// Renders its children only for users whose role grants the permission
+const Can: React.FC<CanProps> = ({ permission, children, fallback = null }) => {
+  const { can } = useAuth()
+  return <>{can(permission) ? children : fallback}</>
+}
+
+export default Can
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Check, Send } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useInvitations } from '../hooks/useInvitations'
+import { api, ApiError } from '../services/api'
+import { JobPosting } from '../types'
+import { isListed } from '../utils/jobLifecycle'
+import { MatchBreakdown, MatchResult } from '../utils/matching'
+import LoadingSpinner from './LoadingSpinner'
+import MessageButton from './messages/MessageButton'
+import ProfileAvatar from './ProfileAvatar'
+
+const CRITERIA_LABELS: Record<keyof MatchBreakdown, string> = {
+  skills: 'Skills',
+  experience: 'Experience',
+  location: 'Location',
+  jobType: 'Job type'
+}
+
+const ScoreBreakdown: React.FC<{ breakdown: MatchBreakdown }> = ({ breakdown }) => (
+  <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-3">
+    {(Object.keys(CRITERIA_LABELS) as (keyof MatchBreakdown)[]).map(criterion => {
+      const percent = Math.round(breakdown[criterion] * 100)
+      return (
+        <div key={criterion}>
+          <dt className="flex justify-between text-xs text-gray-600">
+            <span>{CRITERIA_LABELS[criterion]}</span>
+            <span>{percent}%</span>
+          </dt>
+          <dd className="mt-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-primary-500 rounded-full" style={{ width: `${percent}%` }} />
+          </dd>
+        </div>
+      )
+    })}
+  </dl>
+)
+
+/**
+ * The stored candidates who best fit a posting, ranked by match score with
+ * how each criterion scored, and a way for the recruiter to invite them to apply.
+ */
+const CandidateShortlist: React.FC<{ job: JobPosting }> = ({ job }) => {
+  const [matches, setMatches] = useState<MatchResult[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [invitingId, setInvitingId] = useState<string | null>(null)
+  const { invitations, invite } = useInvitations(job.id)
+  const canInvite = isListed(job)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    api.jobs.matches(job.id)
+      .then(results => {
+        if (!cancelled) setMatches(results)
+      })
+      .catch(err => {
+        if (cancelled) return
+        setError('Failed to find matching candidates.')
+        console.error('Error finding candidates for job:', err)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [job.id])
+
+  const handleInvite = async ({ profile }: MatchResult) => {
+    setInvitingId(profile.id)
+    try {
+      await invite(job.id, profile.id)
+      toast.success(`Invited ${profile.name} to apply`)
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to send the invitation')
+      console.error('Error inviting candidate:', err)
+    } finally {
+      setInvitingId(null)
+    }
+  }
+
+  return (
+    <div className="card text-left">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Candidates who fit this job</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        {canInvite
+          ? 'Ranked by skills, experience, location and job type. Invite the ones you like to apply.'
+          : 'Ranked by skills, experience, location and job type. You can invite them once the posting is live.'}
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <p className="text-gray-600">{error}</p>
+      ) : matches.length === 0 ? (
+        <p className="text-gray-600">No stored candidates match this posting closely yet.</p>
+      ) : (
+        <ol className="divide-y divide-gray-100">
+          {matches.map((match, index) => {
+            const { profile, score, breakdown, reasons } = match
+            const invited = invitations.some(invitation => invitation.profileId === profile.id)
+            return (
+              <li key={profile.id} className="py-4">
+                <div className="flex items-center space-x-3">
+                  <span className="w-6 text-sm font-semibold text-gray-400">#{index + 1}</span>
+                  <ProfileAvatar name={profile.name} photo={profile.photo} size="sm" />
+                  <div className="min-w-0 flex-1">
+                    <Link to={`/profiles/${profile.id}`} className="font-semibold text-gray-900 hover:text-primary-600">
+                      {profile.name}
+                    </Link>
+                    <p className="text-sm text-gray-600 truncate">
+                      {profile.title} · {profile.experience} · {profile.location}
+                    </p>
+                  </div>
+                  <span className="px-2 py-1 bg-green-100 text-green-700 rounded-full text-xs font-semibold">
+                    {score}%
+                  </span>
+                  <MessageButton jobId={job.id} profileId={profile.id} />
+                  {invited ? (
+                    <span className="flex items-center space-x-1 text-sm text-green-700">
+                      <Check size={14} />
+                      <span>Invited</span>
+                    </span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleInvite(match)}
+                      disabled={!canInvite || invitingId === profile.id}
+                      className="btn-secondary flex items-center space-x-1 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {invitingId === profile.id ? <LoadingSpinner size="sm" /> : <Send size={14} />}
+                      <span>Invite to apply</span>
+                    </button>
+                  )}
+                </div>
+                <ScoreBreakdown breakdown={breakdown} />
+                {reasons.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-2">Why: {reasons.join(', ')}</p>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+export default CandidateShortlist
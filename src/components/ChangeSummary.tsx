@@ -0,0 +1,34 @@
+import React from 'react'
+import { ArrowRight, PencilLine } from 'lucide-react'
+import { FieldChange } from '../utils/diff'
+
+interface ChangeSummaryProps {
+  changes: FieldChange[]
+}
+
+const Value: React.FC<{ value: string; className: string }> = ({ value, className }) =>
+  value ? <span className={`line-clamp-2 ${className}`}>{value}</span> : <span className="italic text-gray-400">empty</span>
+
+// What the form changes compared to the last saved version
+const ChangeSummary: React.FC<ChangeSummaryProps> = ({ changes }) => (
+  <div className="rounded-lg border border-blue-200 bg-blue-50 p-4">
+    <p className="text-sm font-medium text-blue-900 flex items-center mb-2">
+      <PencilLine size={16} className="mr-2" />
+      {changes.length} unsaved {changes.length === 1 ? 'change' : 'changes'}
+    </p>
+    <ul className="space-y-1 text-sm">
+      {changes.map(change => (
+        <li key={change.field} className="grid grid-cols-[8rem_1fr] gap-2">
+          <span className="font-medium text-gray-700">{change.label}</span>
+          <span className="flex items-start gap-2 min-w-0">
+            <Value value={change.before} className="text-gray-500 line-through" />
+            <ArrowRight size={14} className="mt-0.5 flex-shrink-0 text-gray-400" />
+            <Value value={change.after} className="text-gray-900" />
+          </span>
+        </li>
+      ))}
+    </ul>
+  </div>
+)
+
+export default ChangeSummary
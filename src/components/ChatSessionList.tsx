@@ -0,0 +1,89 @@
+import React from 'react'
+import { motion } from 'framer-motion'
+import { MessageSquare, Trash2, X } from 'lucide-react'
+import { ChatSession } from '../chat/types'
+import LoadingSpinner from './LoadingSpinner'
+
+interface ChatSessionListProps {
+  sessions: ChatSession[]
+  activeSessionId: string | null
+  isLoading: boolean
+  onOpen: (session: ChatSession) => void
+  onDelete: (session: ChatSession) => void
+  onClose: () => void
+}
+
+const formatUpdatedAt = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+const ChatSessionList: React.FC<ChatSessionListProps> = ({
+  sessions,
+  activeSessionId,
+  isLoading,
+  onOpen,
+  onDelete,
+  onClose
+}) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="absolute inset-y-0 right-0 w-full sm:w-80 bg-white border-l border-gray-200 shadow-lg z-10 flex flex-col"
+    >
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <h2 className="font-semibold text-gray-900">Past conversations</h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600"
+          aria-label="Close conversation history"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner size="sm" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No saved conversations yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {sessions.map(session => (
+              <li key={session.id}>
+                <div
+                  className={`group flex items-center justify-between p-3 rounded-lg transition-colors duration-200 ${
+                    session.id === activeSessionId ? 'bg-primary-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <button
+                    onClick={() => onOpen(session)}
+                    className="flex-1 flex items-start space-x-2 text-left min-w-0"
+                  >
+                    <MessageSquare size={16} className="mt-0.5 text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{session.title}</p>
+                      <p className="text-xs text-gray-500">
+                        {session.isComplete ? 'Completed' : 'In progress'} · {formatUpdatedAt(session.updatedAt)}
+                      </p>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => onDelete(session)}
+                    className="ml-2 p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+                    title="Delete conversation"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </motion.div>
+  )
+}
+
+export default ChatSessionList
@@ -0,0 +1,39 @@
+import React, { ReactNode } from 'react'
+import { AlertCircle } from 'lucide-react'
+
+interface ConflictBannerProps {
+  children: ReactNode
+  onLoadNewer: () => void
+  onOverwrite: () => void
+}
+
+/**
+ * Shown when a newer version was saved somewhere else while the form was
+ * being edited, letting the user pick which version wins.
+ */
+const ConflictBanner: React.FC<ConflictBannerProps> = ({ children, onLoadNewer, onOverwrite }) => (
+  <div className="mb-6 rounded-lg border border-amber-200 bg-amber-50 p-4" role="alert">
+    <p className="text-sm text-amber-800 flex items-center">
+      <AlertCircle size={16} className="mr-2 flex-shrink-0" />
+      {children}
+    </p>
+    <div className="mt-3 flex space-x-4">
+      <button
+        type="button"
+        onClick={onLoadNewer}
+        className="text-sm font-medium text-amber-900 hover:underline"
+      >
+        Load the newer version
+      </button>
+      <button
+        type="button"
+        onClick={onOverwrite}
+        className="text-sm font-medium text-gray-700 hover:underline"
+      >
+        Overwrite it with my changes
+      </button>
+    </div>
+  </div>
+)
+
+export default ConflictBanner
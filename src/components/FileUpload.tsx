@@ -0,0 +1,162 @@
+import React from 'react'
+import { AlertCircle, CheckCircle, Download, Pause, Play, RefreshCw, Upload, X } from 'lucide-react'
+import { UploadState } from '../services/uploads'
+
+interface FileUploadProps {
+  id: string
+  accept: string
+  hint: string
+  upload: UploadState | null
+  onSelect: (file: File) => void
+  onPause: () => void
+  onResume: () => void
+  onRemove: () => void
+  onDownload: () => void
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+const STATUS_LABELS = {
+  hashing: 'Preparing...',
+  uploading: 'Uploading...',
+  paused: 'Paused',
+  failed: 'Upload failed'
+}
+
+/**
+ * Drop zone for a single file, with progress, pause/resume and retry while
+ * it uploads, and download/replace/remove once it is stored.
+ */
+const FileUpload: React.FC<FileUploadProps> = ({
+  id,
+  accept,
+  hint,
+  upload,
+  onSelect,
+  onPause,
+  onResume,
+  onRemove,
+  onDownload
+}) => {
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Allow picking the same file again after removing it
+    event.target.value = ''
+    if (file) onSelect(file)
+  }
+
+  const input = (
+    <input
+      id={id}
+      type="file"
+      className="hidden"
+      accept={accept}
+      onChange={handleChange}
+    />
+  )
+
+  if (!upload || upload.status === 'cancelled') {
+    return (
+      <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-primary-400 transition-colors duration-200">
+        <Upload className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+        <div className="text-sm text-gray-600 mb-2">
+          <label htmlFor={id} className="cursor-pointer text-primary-600 hover:text-primary-500">
+            Click to upload
+          </label>
+          <span> or drag and drop</span>
+        </div>
+        <p className="text-xs text-gray-500">{hint}</p>
+        {input}
+      </div>
+    )
+  }
+
+  if (upload.status === 'completed') {
+    return (
+      <div className="border border-gray-300 rounded-lg p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3 min-w-0">
+            <CheckCircle className="h-5 w-5 text-green-500 shrink-0" />
+            <span className="text-sm font-medium text-gray-900 truncate">{upload.fileName}</span>
+            <span className="text-xs text-gray-500 shrink-0">{formatSize(upload.totalBytes)}</span>
+          </div>
+          <div className="flex items-center space-x-3 shrink-0 ml-4">
+            <button
+              type="button"
+              onClick={onDownload}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Download file"
+            >
+              <Download size={16} />
+            </button>
+            <label htmlFor={id} className="cursor-pointer text-sm text-primary-600 hover:text-primary-500">
+              Replace
+            </label>
+            <button
+              type="button"
+              onClick={onRemove}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Remove file"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+        {input}
+      </div>
+    )
+  }
+
+  const percentage = upload.totalBytes > 0 ? Math.round((upload.uploadedBytes / upload.totalBytes) * 100) : 0
+  const failed = upload.status === 'failed'
+  const running = upload.status === 'hashing' || upload.status === 'uploading'
+
+  return (
+    <div className="border border-gray-300 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-900 truncate">{upload.fileName}</span>
+        <div className="flex items-center space-x-3 shrink-0 ml-4">
+          {running ? (
+            <button type="button" onClick={onPause} className="text-gray-400 hover:text-gray-600" aria-label="Pause upload">
+              <Pause size={16} />
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={onResume}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label={failed ? 'Retry upload' : 'Resume upload'}
+            >
+              {failed ? <RefreshCw size={16} /> : <Play size={16} />}
+            </button>
+          )}
+          <button type="button" onClick={onRemove} className="text-gray-400 hover:text-gray-600" aria-label="Cancel upload">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+      <div className="flex justify-between text-sm text-gray-600 mb-1">
+        <span>{STATUS_LABELS[upload.status]}</span>
+        <span>
+          {formatSize(upload.uploadedBytes)} of {formatSize(upload.totalBytes)} ({percentage}%)
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className={`h-2 rounded-full transition-all duration-300 ${failed ? 'bg-red-500' : 'bg-primary-600'}`}
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+      {failed && upload.error && (
+        <p className="mt-2 text-sm text-red-600 flex items-center">
+          <AlertCircle size={14} className="mr-1" />
+          {upload.error}
+        </p>
+      )}
+      {input}
+    </div>
+  )
+}
+
+export default FileUpload
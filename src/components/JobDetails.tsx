@@ -0,0 +1,72 @@
+import React from 'react'
+import { JobPosting, NewRecord } from '../types'
+
+interface JobDetailsProps {
+  // A saved posting, or the values of a posting being written
+  job: Partial<NewRecord<JobPosting>>
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' })
+
+const JobDetails: React.FC<JobDetailsProps> = ({ job }) => (
+  <div className="card max-w-3xl">
+    <div className="mb-6">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">{job.jobTitle}</h2>
+      <p className="text-lg text-gray-700 mb-1">{job.companyName}</p>
+      <p className="text-gray-600">{job.location}</p>
+      {job.postedDate && (
+        <p className="text-sm text-gray-500 mt-1">Posted {formatDate(job.postedDate)}</p>
+      )}
+      {job.expiresAt && (
+        <p className="text-sm text-gray-500">Closes {formatDate(job.expiresAt)}</p>
+      )}
+    </div>
+
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+      <div className="bg-gray-50 p-3 rounded-lg">
+        <p className="text-sm font-medium text-gray-700">Experience Level</p>
+        <p className="text-gray-900">{job.experienceLevel}</p>
+      </div>
+      <div className="bg-gray-50 p-3 rounded-lg">
+        <p className="text-sm font-medium text-gray-700">Employment Type</p>
+        <p className="text-gray-900">{job.employmentType}</p>
+      </div>
+      <div className="bg-gray-50 p-3 rounded-lg">
+        <p className="text-sm font-medium text-gray-700">Salary Range</p>
+        <p className="text-gray-900">
+          ${job.salaryMin?.toLocaleString()} - ${job.salaryMax?.toLocaleString()}
+        </p>
+      </div>
+    </div>
+
+    <div className="mb-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">Job Description</h3>
+      <div className="prose max-w-none">
+        <p className="text-gray-700 whitespace-pre-wrap">{job.jobDescription}</p>
+      </div>
+    </div>
+
+    <div className="mb-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">Required Skills</h3>
+      <div className="flex flex-wrap gap-2">
+        {job.requiredSkills?.map((skill, index) => (
+          <span
+            key={index}
+            className="px-3 py-1 bg-primary-100 text-primary-700 rounded-full text-sm"
+          >
+            {skill}
+          </span>
+        ))}
+      </div>
+    </div>
+
+    <div className="border-t pt-4">
+      <p className="text-sm text-gray-600">
+        Contact: {job.contactEmail}
+      </p>
+    </div>
+  </div>
+)
+
+export default JobDetails
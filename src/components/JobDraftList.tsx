@@ -0,0 +1,78 @@
+import React from 'react'
+import { FileText, Trash2 } from 'lucide-react'
+import { JobDraft } from '../types'
+import LoadingSpinner from './LoadingSpinner'
+
+interface JobDraftListProps {
+  drafts: JobDraft[]
+  activeDraftId: string | null
+  isLoading: boolean
+  onOpen: (draft: JobDraft) => void
+  onDelete: (draft: JobDraft) => void
+}
+
+const formatUpdatedAt = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+const JobDraftList: React.FC<JobDraftListProps> = ({
+  drafts,
+  activeDraftId,
+  isLoading,
+  onOpen,
+  onDelete
+}) => {
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner size="sm" />
+      </div>
+    )
+  }
+
+  if (drafts.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-6">No saved drafts yet.</p>
+  }
+
+  return (
+    <ul className="space-y-1">
+      {drafts.map(draft => (
+        <li key={draft.id}>
+          <div
+            className={`group flex items-center justify-between p-3 rounded-lg transition-colors duration-200 ${
+              draft.id === activeDraftId ? 'bg-primary-50' : 'hover:bg-gray-50'
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => onOpen(draft)}
+              className="flex-1 flex items-start space-x-2 text-left min-w-0"
+            >
+              <FileText size={16} className="mt-0.5 text-gray-400 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">
+                  {draft.values.jobTitle || 'Untitled job'}
+                  {draft.values.companyName && (
+                    <span className="font-normal text-gray-500"> · {draft.values.companyName}</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {draft.id === activeDraftId ? 'Editing now' : 'Last edited'} · {formatUpdatedAt(draft.updatedAt)}
+                </p>
+              </div>
+            </button>
+            <button
+              type="button"
+              onClick={() => onDelete(draft)}
+              className="ml-2 p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity duration-200"
+              title="Delete draft"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default JobDraftList
@@ -0,0 +1,23 @@
+import React from 'react'
+import { JobPosting, JobStatus } from '../types'
+import { JOB_STATUS_LABELS, jobStatus } from '../utils/jobLifecycle'
+
+const STATUS_CLASSES: Record<JobStatus, string> = {
+  scheduled: 'bg-blue-100 text-blue-700',
+  published: 'bg-green-100 text-green-700',
+  paused: 'bg-amber-100 text-amber-700',
+  closed: 'bg-gray-100 text-gray-700',
+  expired: 'bg-gray-100 text-gray-500'
+}
+
+// The posting's current lifecycle status as a coloured pill
+const JobStatusBadge: React.FC<{ job: JobPosting }> = ({ job }) => {
+  const status = jobStatus(job)
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_CLASSES[status]}`}>
+      {JOB_STATUS_LABELS[status]}
+    </span>
+  )
+}
+
+export default JobStatusBadge
@@ -1,19 +1,44 @@
 import React, { ReactNode } from 'react'
 import { Link, useLocation } from 'react-router-dom'
-import { MessageCircle, User, Briefcase, Plus } from 'lucide-react'
+import { MessageCircle, User, Users, Briefcase, Plus, Shield, LucideIcon } from 'lucide-react'
+import { useAuth } from '../context/AppContext'
+import { Permission } from '../utils/permissions'
+import NotificationBell from './NotificationBell'
+import UserMenu from './UserMenu'
 
 interface LayoutProps {
   children: ReactNode
 }
 
+interface NavItem {
+  path: string
+  icon: LucideIcon
+  label: string
+  // Only shown to roles with this permission
+  permission?: Permission
+}
+
+const NAV_ITEMS: NavItem[] = [
+  { path: '/', icon: MessageCircle, label: 'Chat' },
+  { path: '/profile', icon: User, label: 'Profile', permission: 'profile:create' },
+  { path: '/jobs', icon: Briefcase, label: 'Jobs' },
+  { path: '/profiles', icon: Users, label: 'Candidates' },
+  { path: '/admin', icon: Shield, label: 'Moderation', permission: 'moderation:access' },
+]
+
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const location = useLocation()
+  const { can } = useAuth()
+
+  // Quick actions only appear for roles that can use them
+  const showAddProfile = can('profile:create')
+  const showPostJob = can('job:create')
+
+  // Sections own their sub-pages, e.g. /jobs/123 belongs to Jobs
+  const isActive = (path: string) =>
+    location.pathname === path || (path !== '/' && location.pathname.startsWith(`${path}/`))
 
-  const navItems = [
-    { path: '/', icon: MessageCircle, label: 'Chat' },
-    { path: '/profile', icon: User, label: 'Profile' },
-    { path: '/jobs', icon: Briefcase, label: 'Jobs' },
-  ]
+  const navItems = NAV_ITEMS.filter(item => !item.permission || can(item.permission))
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -29,20 +54,24 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
             <div className="flex items-center space-x-4">
               {/* Quick Action Buttons */}
               <div className="hidden sm:flex items-center space-x-2">
-                <Link
-                  to="/profile"
-                  className="flex items-center space-x-2 px-3 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700 transition-colors duration-200"
-                >
-                  <Plus size={16} />
-                  <span>Add Profile</span>
-                </Link>
-                <Link
-                  to="/jobs"
-                  className="flex items-center space-x-2 px-3 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700 transition-colors duration-200"
-                >
-                  <Plus size={16} />
-                  <span>Post Job</span>
-                </Link>
+                {showAddProfile && (
+                  <Link
+                    to="/profile"
+                    className="flex items-center space-x-2 px-3 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700 transition-colors duration-200"
+                  >
+                    <Plus size={16} />
+                    <span>Add Profile</span>
+                  </Link>
+                )}
+                {showPostJob && (
+                  <Link
+                    to="/jobs/new"
+                    className="flex items-center space-x-2 px-3 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700 transition-colors duration-200"
+                  >
+                    <Plus size={16} />
+                    <span>Post Job</span>
+                  </Link>
+                )}
               </div>
 
               {/* Navigation */}
@@ -52,7 +81,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                     key={path}
                     to={path}
                     className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
-                      location.pathname === path
+                      isActive(path)
                         ? 'text-primary-600 bg-primary-50'
                         : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
                     }`}
@@ -63,26 +92,37 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                   </Link>
                 ))}
               </nav>
+
+              <div className="flex items-center space-x-1">
+                <NotificationBell />
+                <UserMenu />
+              </div>
             </div>
           </div>
           
           {/* Mobile Quick Actions */}
-          <div className="sm:hidden pb-3 flex space-x-2">
-            <Link
-              to="/profile"
-              className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700 transition-colors duration-200"
-            >
-              <Plus size={16} />
-              <span>Add Profile</span>
-            </Link>
-            <Link
-              to="/jobs"
-              className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700 transition-colors duration-200"
-            >
-              <Plus size={16} />
-              <span>Post Job</span>
-            </Link>
-          </div>
+          {(showAddProfile || showPostJob) && (
+            <div className="sm:hidden pb-3 flex space-x-2">
+              {showAddProfile && (
+                <Link
+                  to="/profile"
+                  className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-primary-600 text-white rounded-md text-sm font-medium hover:bg-primary-700 transition-colors duration-200"
+                >
+                  <Plus size={16} />
+                  <span>Add Profile</span>
+                </Link>
+              )}
+              {showPostJob && (
+                <Link
+                  to="/jobs/new"
+                  className="flex-1 flex items-center justify-center space-x-2 px-3 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700 transition-colors duration-200"
+                >
+                  <Plus size={16} />
+                  <span>Post Job</span>
+                </Link>
+              )}
+            </div>
+          )}
         </div>
       </header>
       <main className="flex-1">
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { Bell, CheckCheck } from 'lucide-react'
+import { useAuth } from '../context/AppContext'
+import { useNotifications } from '../context/NotificationContext'
+import { Notification } from '../types'
+import NotificationIcon from './NotificationIcon'
+
+// How many notifications the dropdown shows; the rest are on the notifications page
+const PREVIEW_COUNT = 6
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })
+
+// The header bell: unread count, the latest notifications and a link to the rest
+const NotificationBell: React.FC = () => {
+  const { user } = useAuth()
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications()
+  const navigate = useNavigate()
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    document.addEventListener('keydown', handleKey)
+    return () => {
+      document.removeEventListener('mousedown', handleClick)
+      document.removeEventListener('keydown', handleKey)
+    }
+  }, [isOpen])
+
+  if (!user) return null
+
+  const handleOpen = (notification: Notification) => {
+    setIsOpen(false)
+    if (!notification.readAt) {
+      markRead(notification.id).catch(error => console.error('Error marking notification as read:', error))
+    }
+    navigate(notification.link ?? '/notifications')
+  }
+
+  const handleMarkAllRead = () => {
+    markAllRead().catch(error => console.error('Error marking notifications as read:', error))
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="relative p-2 rounded-md text-gray-600 hover:text-gray-900 hover:bg-gray-50 transition-colors duration-200"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell size={18} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 flex items-center justify-center rounded-full bg-red-500 text-white text-[10px] font-semibold">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-20"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <p className="text-sm font-semibold text-gray-900">Notifications</p>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={handleMarkAllRead}
+                className="flex items-center space-x-1 text-xs text-primary-600 hover:text-primary-500"
+              >
+                <CheckCheck size={14} />
+                <span>Mark all as read</span>
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">Nothing new yet.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.slice(0, PREVIEW_COUNT).map(notification => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    role="menuitem"
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full flex items-start space-x-3 px-4 py-3 text-left hover:bg-gray-50 ${
+                      notification.readAt ? '' : 'bg-primary-50/40'
+                    }`}
+                  >
+                    <NotificationIcon kind={notification.kind} isUnread={!notification.readAt} />
+                    <span className="min-w-0">
+                      <span className={`block text-sm text-gray-900 ${notification.readAt ? '' : 'font-semibold'}`}>
+                        {notification.title}
+                      </span>
+                      <span className="block text-xs text-gray-600 truncate">{notification.body}</span>
+                      <span className="block text-xs text-gray-400 mt-0.5">{formatTime(notification.createdAt)}</span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <Link
+            to="/notifications"
+            role="menuitem"
+            onClick={() => setIsOpen(false)}
+            className="block px-4 py-2 border-t border-gray-100 text-sm text-center text-primary-600 hover:bg-gray-50 rounded-b-lg"
+          >
+            View all notifications
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default NotificationBell
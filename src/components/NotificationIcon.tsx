@@ -0,0 +1,32 @@
+import React from 'react'
+import { Bell, Briefcase, CalendarClock, FileClock, LucideIcon, Sparkles } from 'lucide-react'
+import { NotificationKind } from '../types'
+
+const KIND_ICONS: Record<NotificationKind, LucideIcon> = {
+  job_alert: Bell,
+  new_match: Sparkles,
+  application_status: Briefcase,
+  job_expiring: CalendarClock,
+  draft_expiring: FileClock
+}
+
+interface NotificationIconProps {
+  kind: NotificationKind
+  isUnread: boolean
+}
+
+// What a notification is about, at a glance
+const NotificationIcon: React.FC<NotificationIconProps> = ({ kind, isUnread }) => {
+  const Icon = KIND_ICONS[kind]
+  return (
+    <span
+      className={`flex-shrink-0 flex items-center justify-center w-8 h-8 rounded-full ${
+        isUnread ? 'bg-primary-100 text-primary-600' : 'bg-gray-100 text-gray-500'
+      }`}
+    >
+      <Icon size={16} />
+    </span>
+  )
+}
+
+export default NotificationIcon
@@ -0,0 +1,50 @@
+import React from 'react'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+
+interface PaginationProps {
+  page: number
+  pageCount: number
+  onChange: (page: number) => void
+}
+
+const Pagination: React.FC<PaginationProps> = ({ page, pageCount, onChange }) => {
+  if (pageCount <= 1) return null
+
+  return (
+    <nav className="flex items-center justify-center space-x-2 mt-6" aria-label="Pagination">
+      <button
+        type="button"
+        onClick={() => onChange(page - 1)}
+        disabled={page === 1}
+        className="btn-secondary p-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-label="Previous page"
+      >
+        <ChevronLeft size={16} />
+      </button>
+      {Array.from({ length: pageCount }, (_, index) => index + 1).map(number => (
+        <button
+          key={number}
+          type="button"
+          onClick={() => onChange(number)}
+          className={`w-9 h-9 rounded-md text-sm font-medium ${
+            number === page ? 'bg-primary-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+          }`}
+          aria-current={number === page ? 'page' : undefined}
+        >
+          {number}
+        </button>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange(page + 1)}
+        disabled={page === pageCount}
+        className="btn-secondary p-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-label="Next page"
+      >
+        <ChevronRight size={16} />
+      </button>
+    </nav>
+  )
+}
+
+export default Pagination
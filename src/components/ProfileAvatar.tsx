@@ -0,0 +1,29 @@
+import React from 'react'
+
+interface ProfileAvatarProps {
+  name: string
+  photo?: string
+  size?: 'sm' | 'md' | 'lg'
+}
+
+const sizeClasses = {
+  sm: 'w-8 h-8 text-sm',
+  md: 'w-12 h-12',
+  lg: 'w-20 h-20 text-2xl'
+}
+
+// The candidate's photo, or their initials when there is none
+const ProfileAvatar: React.FC<ProfileAvatarProps> = ({ name, photo, size = 'md' }) =>
+  photo ? (
+    <img
+      src={photo}
+      alt={name}
+      className={`${sizeClasses[size]} rounded-full object-cover`}
+    />
+  ) : (
+    <div className={`${sizeClasses[size]} rounded-full bg-primary-100 text-primary-700 flex items-center justify-center font-semibold`}>
+      {name.split(' ').map(part => part[0]).join('').slice(0, 2)}
+    </div>
+  )
+
+export default ProfileAvatar
@@ -0,0 +1,47 @@
+import React, { ReactNode } from 'react'
+import { Navigate, useLocation } from 'react-router-dom'
+import { useAuth } from '../context/AppContext'
+import { ROLE_LABELS } from '../schemas/auth'
+import { Permission, PERMISSION_DESCRIPTIONS } from '../utils/permissions'
+import AccessDenied from './AccessDenied'
+import LoadingSpinner from './LoadingSpinner'
+
+interface RequireAuthProps {
+  // Restricts the page to roles that grant this permission
+  permission?: Permission
+  children: ReactNode
+}
+
+/**
+ * Route guard that sends signed-out visitors to the login page, remembering
+ * where they were headed, and turns away roles without the permission.
+ */
+const RequireAuth: React.FC<RequireAuthProps> = ({ permission, children }) => {
+  const { user, sessionChecked, can } = useAuth()
+  const location = useLocation()
+
+  if (!sessionChecked) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return <Navigate to="/login" state={{ from: location }} replace />
+  }
+
+  if (permission && !can(permission)) {
+    return (
+      <AccessDenied>
+        You are signed in as {user.name}, and {ROLE_LABELS[user.role].toLowerCase()} accounts
+        can't {PERMISSION_DESCRIPTIONS[permission]}.
+      </AccessDenied>
+    )
+  }
+
+  return <>{children}</>
+}
+
+export default RequireAuth
@@ -0,0 +1,39 @@
+import React from 'react'
+import { Check, Sparkles, X } from 'lucide-react'
+
+interface ResumeSuggestionProps {
+  onAccept: () => void
+  onReject: () => void
+}
+
+// Class names for an input whose value was filled in from the resume
+export const suggestedFieldClass = 'ring-2 ring-amber-300 bg-amber-50'
+
+const ResumeSuggestion: React.FC<ResumeSuggestionProps> = ({ onAccept, onReject }) => (
+  <div className="mt-1 flex items-center justify-between text-xs text-amber-700">
+    <span className="flex items-center">
+      <Sparkles size={12} className="mr-1" />
+      Suggested from your resume
+    </span>
+    <span className="flex items-center space-x-2">
+      <button
+        type="button"
+        onClick={onAccept}
+        className="flex items-center text-green-700 hover:text-green-800"
+      >
+        <Check size={12} className="mr-0.5" />
+        Accept
+      </button>
+      <button
+        type="button"
+        onClick={onReject}
+        className="flex items-center text-gray-500 hover:text-gray-700"
+      >
+        <X size={12} className="mr-0.5" />
+        Reject
+      </button>
+    </span>
+  </div>
+)
+
+export default ResumeSuggestion
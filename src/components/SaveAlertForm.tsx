@@ -0,0 +1,97 @@
+import React, { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Link } from 'react-router-dom'
+import { AlertCircle, BellPlus, CheckCircle } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { ALERT_FREQUENCIES, ALERT_FREQUENCY_LABELS, AlertFormData, alertSchema } from '../schemas/alert'
+import { api, ApiError } from '../services/api'
+import { JobAlertSearch, UserData } from '../types'
+import { describeAlert } from '../utils/jobAlerts'
+import LoadingSpinner from './LoadingSpinner'
+
+interface SaveAlertFormProps {
+  defaultName: string
+  // What the alert looks for: chatbot answers or listing filters
+  criteria?: UserData
+  search?: JobAlertSearch
+  className?: string
+}
+
+/**
+ * Saves chatbot answers or job listing filters as a named job alert.
+ */
+const SaveAlertForm: React.FC<SaveAlertFormProps> = ({ defaultName, criteria, search, className = '' }) => {
+  const [isSaved, setIsSaved] = useState(false)
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting }
+  } = useForm<AlertFormData>({
+    resolver: zodResolver(alertSchema),
+    defaultValues: { name: defaultName, frequency: 'instant' }
+  })
+
+  const onSubmit = async (data: AlertFormData) => {
+    try {
+      await api.alerts.create({ ...data, criteria, search })
+      setIsSaved(true)
+      toast.success('Job alert saved')
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Failed to save the job alert')
+      console.error('Error saving job alert:', error)
+    }
+  }
+
+  if (isSaved) {
+    return (
+      <div className={`flex flex-wrap items-center gap-2 text-sm text-gray-700 ${className}`}>
+        <CheckCircle size={16} className="text-green-500" />
+        <span>Alert saved. New jobs that match will show up in your notifications.</span>
+        <Link to="/alerts" className="text-primary-600 hover:text-primary-500">Manage alerts</Link>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className={className}>
+      <h3 className="text-sm font-semibold text-gray-900 flex items-center space-x-2 mb-1">
+        <BellPlus size={16} className="text-primary-600" />
+        <span>Get told about new jobs like these</span>
+      </h3>
+      <p className="text-xs text-gray-500 mb-3">{describeAlert({ criteria, search })}</p>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="flex-1">
+          <input
+            {...register('name')}
+            type="text"
+            className={`input-field ${errors.name ? 'border-red-500' : ''}`}
+            placeholder="Name this alert"
+            aria-label="Alert name"
+          />
+          {errors.name && (
+            <p className="mt-1 text-sm text-red-600 flex items-center">
+              <AlertCircle size={14} className="mr-1" />
+              {errors.name.message}
+            </p>
+          )}
+        </div>
+        <select {...register('frequency')} className="input-field sm:w-40" aria-label="How often">
+          {ALERT_FREQUENCIES.map(frequency => (
+            <option key={frequency} value={frequency}>{ALERT_FREQUENCY_LABELS[frequency]}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="btn-primary flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting && <LoadingSpinner size="sm" />}
+          <span>Save alert</span>
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default SaveAlertForm
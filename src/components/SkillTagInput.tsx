@@ -0,0 +1,191 @@
+import React, { useId, useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { skillCategories } from '../data/skillTaxonomy'
+import { canonicalSkill, findSkill, relatedSkills, skillKey, suggestSkills } from '../utils/skills'
+
+interface SkillTagInputProps {
+  id?: string
+  // For inputs without a <label>
+  'aria-label'?: string
+  value: string[]
+  onChange: (skills: string[]) => void
+  onBlur?: () => void
+  placeholder?: string
+  // Extra classes for the field's frame, e.g. an error border
+  className?: string
+}
+
+/**
+ * A list of skills edited as tags. Typing suggests skills from the taxonomy,
+ * Enter or a comma adds one under its canonical name, and skills related to
+ * the chosen ones are offered underneath.
+ */
+const SkillTagInput: React.FC<SkillTagInputProps> = ({
+  id,
+  'aria-label': ariaLabel,
+  value,
+  onChange,
+  onBlur,
+  placeholder,
+  className = ''
+}) => {
+  const listboxId = useId()
+  const [text, setText] = useState('')
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const suggestions = suggestSkills(text, value)
+  const related = relatedSkills(value, 5)
+  const showSuggestions = isOpen && suggestions.length > 0
+
+  const add = (skills: string[]) => {
+    const added = skills
+      .map(canonicalSkill)
+      .filter((skill, index, all) =>
+        skill &&
+        !value.some(existing => skillKey(existing) === skillKey(skill)) &&
+        all.findIndex(other => skillKey(other) === skillKey(skill)) === index
+      )
+    if (added.length > 0) onChange([...value, ...added])
+    setText('')
+    setActiveIndex(0)
+  }
+
+  const remove = (skill: string) => onChange(value.filter(existing => existing !== skill))
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    // Typed or pasted commas finish the skills before them
+    const parts = event.target.value.split(',')
+    const rest = parts.pop() ?? ''
+    if (parts.length > 0) add(parts)
+    setText(rest)
+    setIsOpen(true)
+    setActiveIndex(0)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      if (suggestions.length === 0) return
+      event.preventDefault()
+      setIsOpen(true)
+      const step = event.key === 'ArrowDown' ? 1 : -1
+      setActiveIndex(current => (current + step + suggestions.length) % suggestions.length)
+    } else if (event.key === 'Enter') {
+      // Adding a skill shouldn't submit the surrounding form
+      if (!text.trim()) return
+      event.preventDefault()
+      add([showSuggestions ? suggestions[activeIndex].skill.name : text])
+    } else if (event.key === 'Escape') {
+      setIsOpen(false)
+    } else if (event.key === 'Backspace' && !text && value.length > 0) {
+      remove(value[value.length - 1])
+    }
+  }
+
+  const handleBlur = () => {
+    if (text.trim()) add([text])
+    setIsOpen(false)
+    onBlur?.()
+  }
+
+  return (
+    <div>
+      <div className="relative">
+        <div
+          className={`w-full px-2 py-1.5 border border-gray-300 rounded-lg flex flex-wrap items-center gap-1 focus-within:ring-2 focus-within:ring-primary-500 focus-within:border-transparent transition-colors duration-200 ${className}`}
+        >
+          {value.map(skill => {
+            const known = findSkill(skill) !== undefined
+            return (
+              <span
+                key={skill}
+                className={`flex items-center space-x-1 pl-2 pr-1 py-0.5 rounded-full text-sm ${
+                  known ? 'bg-primary-100 text-primary-700' : 'bg-gray-100 text-gray-700'
+                }`}
+                title={known ? undefined : 'Not in the skill list; matched by exact name only'}
+              >
+                <span>{skill}</span>
+                <button
+                  type="button"
+                  onClick={() => remove(skill)}
+                  className="rounded-full p-0.5 hover:bg-black/10"
+                  aria-label={`Remove ${skill}`}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            )
+          })}
+          <input
+            id={id}
+            aria-label={ariaLabel}
+            type="text"
+            value={text}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsOpen(true)}
+            onBlur={handleBlur}
+            placeholder={value.length === 0 ? placeholder : 'Add another skill'}
+            className="flex-1 min-w-[8rem] px-1 py-0.5 text-sm bg-transparent focus:outline-none"
+            role="combobox"
+            autoComplete="off"
+            aria-autocomplete="list"
+            aria-expanded={showSuggestions}
+            aria-controls={listboxId}
+            aria-activedescendant={showSuggestions ? `${listboxId}-${activeIndex}` : undefined}
+          />
+        </div>
+
+        {showSuggestions && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1 max-h-64 overflow-y-auto"
+          >
+            {suggestions.map(({ skill, alias }, index) => (
+              <li
+                key={skill.name}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keeps focus in the input, which would otherwise add the typed text on blur
+                onMouseDown={event => event.preventDefault()}
+                onClick={() => add([skill.name])}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-center justify-between px-3 py-2 text-sm cursor-pointer ${
+                  index === activeIndex ? 'bg-primary-50 text-primary-700' : 'text-gray-700'
+                }`}
+              >
+                <span>
+                  {skill.name}
+                  {alias && <span className="text-gray-400"> ({alias})</span>}
+                </span>
+                <span className="text-xs text-gray-400">{skillCategories[skill.category]}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {related.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 mt-2 text-xs">
+          <span className="text-gray-500">Related:</span>
+          {related.map(skill => (
+            <button
+              key={skill}
+              type="button"
+              onClick={() => add([skill])}
+              className="flex items-center space-x-0.5 px-2 py-0.5 rounded-full border border-gray-300 text-gray-600 hover:bg-gray-100"
+              aria-label={`Add ${skill}`}
+            >
+              <Plus size={10} />
+              <span>{skill}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SkillTagInput
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { Bell, Briefcase, ChevronDown, LogIn, LogOut, LucideIcon, MessageSquare, Plus, Shield, User } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth } from '../context/AppContext'
+import { ROLE_LABELS } from '../schemas/auth'
+import { Permission } from '../utils/permissions'
+import ProfileAvatar from './ProfileAvatar'
+
+// Shortcuts offered to roles with the matching permission
+const MENU_LINKS: { path: string; icon: LucideIcon; label: string; permission: Permission }[] = [
+  { path: '/profile', icon: User, label: 'My profile', permission: 'profile:create' },
+  { path: '/applications', icon: Briefcase, label: 'My applications', permission: 'job:apply' },
+  { path: '/alerts', icon: Bell, label: 'Job alerts', permission: 'alert:create' },
+  { path: '/inbox', icon: MessageSquare, label: 'Messages', permission: 'message:send' },
+  { path: '/jobs/new', icon: Plus, label: 'Post a job', permission: 'job:create' },
+  { path: '/admin', icon: Shield, label: 'Moderation', permission: 'moderation:access' }
+]
+
+// The signed-in user with a dropdown menu, or login and sign-up links
+const UserMenu: React.FC = () => {
+  const { user, sessionChecked, can, logOut } = useAuth()
+  const navigate = useNavigate()
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false)
+    }
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    document.addEventListener('keydown', handleKey)
+    return () => {
+      document.removeEventListener('mousedown', handleClick)
+      document.removeEventListener('keydown', handleKey)
+    }
+  }, [isOpen])
+
+  const handleLogOut = async () => {
+    setIsOpen(false)
+    await logOut()
+    toast.success('You have been logged out')
+    navigate('/')
+  }
+
+  if (!sessionChecked) return null
+
+  if (!user) {
+    return (
+      <div className="flex items-center space-x-2">
+        <Link
+          to="/login"
+          className="flex items-center space-x-1 px-3 py-2 rounded-md text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-50 transition-colors duration-200"
+        >
+          <LogIn size={16} />
+          <span>Log in</span>
+        </Link>
+        <Link
+          to="/signup"
+          className="hidden sm:block px-3 py-2 rounded-md text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors duration-200"
+        >
+          Sign up
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center space-x-2 p-1 rounded-md hover:bg-gray-50 transition-colors duration-200"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label="Account menu"
+      >
+        <ProfileAvatar name={user.name} size="sm" />
+        <span className="hidden md:inline text-sm font-medium text-gray-700">{user.name}</span>
+        <ChevronDown size={14} className="text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-56 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-20"
+        >
+          <div className="px-4 py-3 border-b border-gray-100">
+            <p className="text-sm font-medium text-gray-900 truncate">{user.name}</p>
+            <p className="text-xs text-gray-500 truncate">{user.email}</p>
+            <span className="inline-block mt-2 px-2 py-0.5 bg-primary-100 text-primary-700 rounded-full text-xs">
+              {ROLE_LABELS[user.role]}
+            </span>
+          </div>
+          {MENU_LINKS.filter(link => can(link.permission)).map(({ path, icon: Icon, label }) => (
+            <Link
+              key={path}
+              to={path}
+              role="menuitem"
+              onClick={() => setIsOpen(false)}
+              className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Icon size={14} />
+              <span>{label}</span>
+            </Link>
+          ))}
+          <button
+            type="button"
+            role="menuitem"
+            onClick={handleLogOut}
+            className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <LogOut size={14} />
+            <span>Log out</span>
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default UserMenu
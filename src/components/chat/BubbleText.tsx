@@ -0,0 +1,15 @@
+import React, { ReactNode } from 'react'
+
+interface BubbleTextProps {
+  isOwn: boolean
+  children: ReactNode
+}
+
+// The text box of a message, coloured by who sent it
+const BubbleText: React.FC<BubbleTextProps> = ({ isOwn, children }) => (
+  <div className={`p-3 rounded-lg ${isOwn ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-900'}`}>
+    <p className="text-sm whitespace-pre-line break-words">{children}</p>
+  </div>
+)
+
+export default BubbleText
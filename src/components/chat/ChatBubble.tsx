@@ -0,0 +1,23 @@
+import React, { ReactNode } from 'react'
+
+interface ChatBubbleProps {
+  // The current user's own messages sit on the right
+  isOwn: boolean
+  avatar: ReactNode
+  children: ReactNode
+}
+
+/**
+ * One message in a conversation: the sender's avatar beside the content,
+ * aligned by who sent it. Used by the chatbot and by direct messages.
+ */
+const ChatBubble: React.FC<ChatBubbleProps> = ({ isOwn, avatar, children }) => (
+  <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+    <div className={`flex items-start space-x-3 max-w-xs sm:max-w-md ${isOwn ? 'flex-row-reverse space-x-reverse' : ''}`}>
+      <div className="flex-shrink-0">{avatar}</div>
+      <div className="flex-1 min-w-0">{children}</div>
+    </div>
+  </div>
+)
+
+export default ChatBubble
@@ -0,0 +1,43 @@
+import React, { useState } from 'react'
+import MessageText from './MessageText'
+import { MessageRenderer } from './types'
+
+const formatYears = (years: number, max: number) =>
+  `${years}${years === max ? '+' : ''} year${years === 1 ? '' : 's'}`
+
+const ExperienceSlider: MessageRenderer<'experience_slider'> = ({ message, isActive, onAnswer }) => {
+  const [years, setYears] = useState(Math.min(3, message.max))
+
+  return (
+    <div className="space-y-2">
+      <MessageText message={message} />
+      {isActive && (
+        <div className="p-3 bg-white border border-gray-200 rounded-lg space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">Experience</span>
+            <span className="font-semibold text-gray-900">{formatYears(years, message.max)}</span>
+          </div>
+          <input
+            type="range"
+            min={message.min}
+            max={message.max}
+            step={1}
+            value={years}
+            onChange={(e) => setYears(Number(e.target.value))}
+            className="w-full accent-primary-600"
+            aria-label="Years of experience"
+          />
+          <button
+            type="button"
+            onClick={() => onAnswer(String(years))}
+            className="btn-primary text-sm py-1 w-full"
+          >
+            Confirm
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ExperienceSlider
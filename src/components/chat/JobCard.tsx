@@ -0,0 +1,43 @@
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { Briefcase, DollarSign, MapPin } from 'lucide-react'
+import { MessageRenderer } from './types'
+
+const JobCard: MessageRenderer<'job_card'> = ({ message }) => {
+  const { job } = message
+
+  return (
+    <div className="card w-64 sm:w-72 hover:shadow-md transition-shadow duration-200">
+      <h3 className="font-semibold text-gray-900">
+        <Link to={`/jobs/${job.id}`} className="hover:text-primary-600">{job.jobTitle}</Link>
+      </h3>
+      <p className="text-sm text-gray-600 mb-3">{job.companyName}</p>
+      <div className="space-y-1 text-sm text-gray-700">
+        <p className="flex items-center space-x-2">
+          <MapPin size={14} className="text-gray-400" />
+          <span>{job.location}</span>
+        </p>
+        <p className="flex items-center space-x-2">
+          <Briefcase size={14} className="text-gray-400" />
+          <span>{job.employmentType} · {job.experienceLevel}</span>
+        </p>
+        <p className="flex items-center space-x-2">
+          <DollarSign size={14} className="text-gray-400" />
+          <span>${job.salaryMin.toLocaleString()} - ${job.salaryMax.toLocaleString()}</span>
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-1 mt-3">
+        {job.requiredSkills.map((skill, index) => (
+          <span
+            key={index}
+            className="px-2 py-1 bg-primary-100 text-primary-700 rounded-full text-xs"
+          >
+            {skill}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default JobCard
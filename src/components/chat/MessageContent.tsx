@@ -0,0 +1,28 @@
+import React from 'react'
+import { MessageKind } from '../../chat/types'
+import ExperienceSlider from './ExperienceSlider'
+import JobCard from './JobCard'
+import MessageText from './MessageText'
+import ProfileCard from './ProfileCard'
+import QuickReplies from './QuickReplies'
+import SkillPicker from './SkillPicker'
+import { MessageRenderer, MessageRendererProps } from './types'
+
+const renderers: { [K in MessageKind]: MessageRenderer<K> } = {
+  text: ({ message }) => <MessageText message={message} />,
+  quick_replies: QuickReplies,
+  skill_picker: SkillPicker,
+  experience_slider: ExperienceSlider,
+  profile_card: ProfileCard,
+  job_card: JobCard
+}
+
+/**
+ * Renders a chat message with the renderer for its kind.
+ */
+const MessageContent: React.FC<MessageRendererProps> = (props) => {
+  const Renderer = renderers[props.message.kind] as MessageRenderer<MessageKind>
+  return <Renderer {...props} />
+}
+
+export default MessageContent
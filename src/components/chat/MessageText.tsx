@@ -0,0 +1,21 @@
+import React from 'react'
+import { ChatMessage } from '../../chat/types'
+import BubbleText from './BubbleText'
+
+interface MessageTextProps {
+  message: ChatMessage
+}
+
+/**
+ * The text bubble every message kind starts with.
+ */
+const MessageText: React.FC<MessageTextProps> = ({ message }) => (
+  <BubbleText isOwn={message.type === 'user'}>
+    {message.content || <span className="italic text-gray-500">No response</span>}
+    {message.status === 'streaming' && (
+      <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+    )}
+  </BubbleText>
+)
+
+export default MessageText
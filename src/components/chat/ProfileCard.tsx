@@ -0,0 +1,47 @@
+import React from 'react'
+import { Link } from 'react-router-dom'
+import ProfileAvatar from '../ProfileAvatar'
+import { MessageRenderer } from './types'
+
+const ProfileCard: MessageRenderer<'profile_card'> = ({ message }) => {
+  const { profile, score, reasons } = message.match
+
+  return (
+    <div className="card w-64 sm:w-72 hover:shadow-md transition-shadow duration-200">
+      <div className="flex items-center space-x-3 mb-3">
+        <ProfileAvatar name={profile.name} photo={profile.photo} />
+        <div className="flex-1">
+          <h3 className="font-semibold text-gray-900">
+            <Link to={`/profiles/${profile.id}`} className="hover:text-primary-600">{profile.name}</Link>
+          </h3>
+          <p className="text-sm text-gray-600">{profile.title}</p>
+        </div>
+        <span className="px-2 py-1 bg-green-100 text-green-700 rounded-full text-xs font-semibold">
+          {score}%
+        </span>
+      </div>
+      <div className="space-y-2 text-sm">
+        <p><span className="font-medium">Experience:</span> {profile.experience}</p>
+        <p><span className="font-medium">Location:</span> {profile.location}</p>
+        <div>
+          <span className="font-medium">Skills:</span>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {profile.skills.map((skill, index) => (
+              <span
+                key={index}
+                className="px-2 py-1 bg-primary-100 text-primary-700 rounded-full text-xs"
+              >
+                {skill}
+              </span>
+            ))}
+          </div>
+        </div>
+        {reasons.length > 0 && (
+          <p className="text-xs text-gray-500">Why: {reasons.join(', ')}</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ProfileCard
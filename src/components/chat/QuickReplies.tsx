@@ -0,0 +1,25 @@
+import React from 'react'
+import MessageText from './MessageText'
+import { MessageRenderer } from './types'
+
+const QuickReplies: MessageRenderer<'quick_replies'> = ({ message, isActive, onAnswer }) => (
+  <div className="space-y-2">
+    <MessageText message={message} />
+    {isActive && (
+      <div className="flex flex-wrap gap-2">
+        {message.options.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onAnswer(option)}
+            className="px-3 py-1 text-sm border border-chatbot-500 text-chatbot-700 rounded-full hover:bg-chatbot-50 transition-colors duration-200"
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    )}
+  </div>
+)
+
+export default QuickReplies
@@ -0,0 +1,77 @@
+import React, { useState } from 'react'
+import { Check } from 'lucide-react'
+import SkillTagInput from '../SkillTagInput'
+import MessageText from './MessageText'
+import { MessageRenderer } from './types'
+
+// Suggestions shown before "Show more"
+const COLLAPSED_COUNT = 12
+
+// Typed skills with autocomplete, plus one-click picks of the most common ones
+const SkillPicker: MessageRenderer<'skill_picker'> = ({ message, isActive, onAnswer }) => {
+  const [selected, setSelected] = useState<string[]>([])
+  const [expanded, setExpanded] = useState(false)
+
+  const toggle = (skill: string) => {
+    setSelected(prev => prev.includes(skill) ? prev.filter(item => item !== skill) : [...prev, skill])
+  }
+
+  const visible = expanded ? message.suggestions : message.suggestions.slice(0, COLLAPSED_COUNT)
+
+  return (
+    <div className="space-y-2">
+      <MessageText message={message} />
+      {isActive && (
+        <div className="space-y-2">
+          <SkillTagInput
+            value={selected}
+            onChange={setSelected}
+            placeholder="Type a skill, e.g. React"
+            className="bg-white"
+            aria-label="Type a skill"
+          />
+          <div className="flex flex-wrap gap-2" role="group" aria-label="Choose skills">
+            {visible.map(skill => {
+              const isSelected = selected.includes(skill)
+              return (
+                <button
+                  key={skill}
+                  type="button"
+                  onClick={() => toggle(skill)}
+                  aria-pressed={isSelected}
+                  className={`flex items-center space-x-1 px-3 py-1 text-sm rounded-full border transition-colors duration-200 ${
+                    isSelected
+                      ? 'bg-primary-600 border-primary-600 text-white'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {isSelected && <Check size={12} />}
+                  <span>{skill}</span>
+                </button>
+              )
+            })}
+            {message.suggestions.length > COLLAPSED_COUNT && (
+              <button
+                type="button"
+                onClick={() => setExpanded(prev => !prev)}
+                className="px-3 py-1 text-sm text-chatbot-600 hover:text-chatbot-700"
+              >
+                {expanded ? 'Show fewer' : 'Show more'}
+              </button>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => onAnswer(selected.join(', '))}
+            disabled={selected.length === 0}
+            className="btn-primary text-sm py-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {selected.length > 0 ? `Use ${selected.length} skill${selected.length === 1 ? '' : 's'}` : 'Pick your skills'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SkillPicker
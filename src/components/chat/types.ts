@@ -0,0 +1,11 @@
+import React from 'react'
+import { ChatMessage, MessageKind } from '../../chat/types'
+
+export interface MessageRendererProps<K extends MessageKind = MessageKind> {
+  message: Extract<ChatMessage, { kind: K }>
+  // Whether the message is the question currently waiting for an answer
+  isActive: boolean
+  onAnswer: (text: string) => void
+}
+
+export type MessageRenderer<K extends MessageKind> = React.FC<MessageRendererProps<K>>
@@ -0,0 +1,141 @@
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Check, CheckCheck, Send } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useAuth } from '../../context/AppContext'
+import { useAutoScroll } from '../../hooks/useAutoScroll'
+import { useThread } from '../../hooks/useThread'
+import { MessageFormData, messageSchema } from '../../schemas/message'
+import { ApiError } from '../../services/api'
+import { correspondentName, isReadByCorrespondent } from '../../utils/messaging'
+import BubbleText from '../chat/BubbleText'
+import ChatBubble from '../chat/ChatBubble'
+import LoadingSpinner from '../LoadingSpinner'
+import ProfileAvatar from '../ProfileAvatar'
+
+interface ConversationViewProps {
+  threadId: string
+}
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })
+
+/**
+ * An open message thread: the messages so far, a read receipt on the latest
+ * one the user sent, and a box to write the next one.
+ */
+const ConversationView: React.FC<ConversationViewProps> = ({ threadId }) => {
+  const { user } = useAuth()
+  const { thread, messages, isLoading, error, send } = useThread(threadId)
+  const { containerRef, onScroll } = useAutoScroll<HTMLDivElement>(messages)
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { isSubmitting }
+  } = useForm<MessageFormData>({
+    resolver: zodResolver(messageSchema),
+    defaultValues: { body: '' }
+  })
+
+  const onSubmit = async ({ body }: MessageFormData) => {
+    try {
+      await send(body)
+      reset()
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to send the message')
+      console.error('Error sending message:', err)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex justify-center items-center">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (error || !thread) {
+    return (
+      <div className="flex-1 flex justify-center items-center p-6">
+        <p className="text-gray-600">{error ?? 'Conversation not found.'}</p>
+      </div>
+    )
+  }
+
+  const name = correspondentName(thread, user?.id)
+  const lastOwnMessage = [...messages].reverse().find(message => message.senderId === user?.id)
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center space-x-3 px-6 py-4 border-b border-gray-200">
+        <ProfileAvatar name={name} size="sm" />
+        <div className="min-w-0">
+          <h2 className="font-semibold text-gray-900 truncate">{name}</h2>
+          <Link to={`/jobs/${thread.jobId}`} className="text-sm text-gray-500 hover:text-primary-600 truncate block">
+            {thread.jobTitle} · {thread.companyName}
+          </Link>
+        </div>
+      </div>
+
+      <div ref={containerRef} onScroll={onScroll} className="flex-1 overflow-y-auto p-6 space-y-4">
+        {messages.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">Say hello to {name}.</p>
+        ) : (
+          messages.map(message => {
+            const isOwn = message.senderId === user?.id
+            return (
+              <ChatBubble
+                key={message.id}
+                isOwn={isOwn}
+                avatar={<ProfileAvatar name={isOwn ? user?.name ?? '' : name} size="sm" />}
+              >
+                <BubbleText isOwn={isOwn}>{message.body}</BubbleText>
+                <p className={`flex items-center space-x-1 mt-1 text-xs text-gray-400 ${isOwn ? 'justify-end' : ''}`}>
+                  <span>{formatTime(message.createdAt)}</span>
+                  {message.id === lastOwnMessage?.id && (
+                    isReadByCorrespondent(thread, message) ? (
+                      <span className="flex items-center space-x-0.5 text-primary-600">
+                        <CheckCheck size={12} />
+                        <span>Read</span>
+                      </span>
+                    ) : (
+                      <span className="flex items-center space-x-0.5">
+                        <Check size={12} />
+                        <span>Sent</span>
+                      </span>
+                    )
+                  )}
+                </p>
+              </ChatBubble>
+            )
+          })
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="border-t border-gray-200 p-4 flex space-x-2">
+        <input
+          {...register('body')}
+          type="text"
+          className="flex-1 input-field"
+          placeholder={`Message ${name}...`}
+          aria-label="Message"
+          autoComplete="off"
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? <LoadingSpinner size="sm" /> : <Send size={16} />}
+          <span className="hidden sm:inline">Send</span>
+        </button>
+      </form>
+    </div>
+  )
+}
+
+export default ConversationView
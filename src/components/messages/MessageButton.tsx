@@ -0,0 +1,49 @@
+import React, { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { MessageSquare } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { api, ApiError } from '../../services/api'
+import LoadingSpinner from '../LoadingSpinner'
+
+interface MessageButtonProps {
+  jobId: string
+  // The candidate to message; without one the job's recruiter is messaged
+  profileId?: string
+  label?: string
+  className?: string
+}
+
+/**
+ * Opens the conversation about a job with a candidate or its recruiter,
+ * starting one if there is none yet.
+ */
+const MessageButton: React.FC<MessageButtonProps> = ({ jobId, profileId, label = 'Message', className = '' }) => {
+  const navigate = useNavigate()
+  const [isStarting, setIsStarting] = useState(false)
+
+  const handleClick = async () => {
+    setIsStarting(true)
+    try {
+      const thread = await api.threads.start(jobId, profileId)
+      navigate(`/inbox/${thread.id}`)
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Failed to open the conversation')
+      console.error('Error starting message thread:', error)
+      setIsStarting(false)
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isStarting}
+      className={`flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-500 disabled:opacity-50 ${className}`}
+    >
+      {isStarting ? <LoadingSpinner size="sm" /> : <MessageSquare size={14} />}
+      <span>{label}</span>
+    </button>
+  )
+}
+
+export default MessageButton
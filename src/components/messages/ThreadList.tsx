@@ -0,0 +1,73 @@
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { MessageThread } from '../../types'
+import { correspondentName } from '../../utils/messaging'
+import ProfileAvatar from '../ProfileAvatar'
+
+interface ThreadListProps {
+  threads: MessageThread[]
+  activeThreadId?: string
+  // The signed-in account, to tell the two sides of each thread apart
+  accountId?: string
+}
+
+const formatTime = (value: string) => {
+  const date = new Date(value)
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString(undefined, { timeStyle: 'short' })
+    : date.toLocaleDateString(undefined, { dateStyle: 'short' })
+}
+
+const ThreadList: React.FC<ThreadListProps> = ({ threads, activeThreadId, accountId }) => {
+  if (threads.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-6 px-4">No conversations yet.</p>
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {threads.map(thread => {
+        const name = correspondentName(thread, accountId)
+        const unread = thread.unreadCount ?? 0
+        return (
+          <li key={thread.id}>
+            <Link
+              to={`/inbox/${thread.id}`}
+              className={`flex items-start space-x-3 px-4 py-3 transition-colors duration-200 ${
+                thread.id === activeThreadId ? 'bg-primary-50' : 'hover:bg-gray-50'
+              }`}
+              aria-current={thread.id === activeThreadId ? 'page' : undefined}
+            >
+              <ProfileAvatar name={name} size="sm" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-baseline justify-between gap-2">
+                  <p className={`text-sm text-gray-900 truncate ${unread > 0 ? 'font-semibold' : 'font-medium'}`}>{name}</p>
+                  {thread.lastMessage && (
+                    <span className="text-xs text-gray-400 flex-shrink-0">{formatTime(thread.lastMessage.createdAt)}</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 truncate">{thread.jobTitle} · {thread.companyName}</p>
+                <div className="flex items-center justify-between gap-2 mt-0.5">
+                  <p className={`text-sm truncate ${unread > 0 ? 'text-gray-900' : 'text-gray-500'}`}>
+                    {thread.lastMessage
+                      ? `${thread.lastMessage.senderId === accountId ? 'You: ' : ''}${thread.lastMessage.body}`
+                      : 'No messages yet'}
+                  </p>
+                  {unread > 0 && (
+                    <span
+                      className="flex-shrink-0 min-w-[1.25rem] h-5 px-1.5 flex items-center justify-center rounded-full bg-primary-600 text-white text-xs font-semibold"
+                      aria-label={`${unread} unread`}
+                    >
+                      {unread}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </Link>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default ThreadList
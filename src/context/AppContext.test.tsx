@@ -0,0 +1,39 @@
+import { render, waitFor } from '@testing-library/react'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { api } from '../services/api'
+import { JOBS_KEY, PROFILES_KEY, STORAGE_PREFIX } from '../services/dataStore'
+import { AppProvider } from './AppContext'
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+const renderProvider = async () => {
+  const listProfiles = vi.spyOn(api.profiles, 'list').mockResolvedValue([])
+  vi.spyOn(api.jobs, 'list').mockResolvedValue([])
+  render(<AppProvider><div /></AppProvider>)
+  await waitFor(() => expect(listProfiles).toHaveBeenCalled())
+  listProfiles.mockClear()
+  return listProfiles
+}
+
+describe('AppProvider', () => {
+  it('reloads profiles and jobs when another tab writes them', async () => {
+    const listProfiles = await renderProvider()
+
+    window.dispatchEvent(new StorageEvent('storage', { key: PROFILES_KEY }))
+    window.dispatchEvent(new StorageEvent('storage', { key: JOBS_KEY }))
+
+    await waitFor(() => expect(listProfiles).toHaveBeenCalledTimes(2))
+  })
+
+  it('ignores other writes from other tabs', async () => {
+    const listProfiles = await renderProvider()
+
+    window.dispatchEvent(new StorageEvent('storage', { key: `${STORAGE_PREFIX}:realtime` }))
+    window.dispatchEvent(new StorageEvent('storage', { key: `${STORAGE_PREFIX}:chat-sessions` }))
+
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(listProfiles).not.toHaveBeenCalled()
+  })
+})
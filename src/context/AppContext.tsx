@@ -1,28 +1,43 @@
-import React, { createContext, useContext, useReducer, ReactNode } from 'react'
+import React, { createContext, useContext, useReducer, useEffect, useMemo, useCallback, ReactNode } from 'react'
+import { AuthSession, AuthUser, Credentials, JobPosting, JobStatus, NewRecord, Profile, SignUpData, StoredRecord } from '../types'
+import { api, ApiError } from '../services/api'
+import { JOBS_KEY, PROFILES_KEY } from '../services/dataStore'
+import { activeChatSession, SESSION_TOKEN_KEY, sessionToken } from '../services/session'
+import { hasPermission, Permission } from '../utils/permissions'
 
-interface User {
-  id?: string
-  name: string
-  email: string
+interface User extends AuthUser {
   isAuthenticated: boolean
 }
 
 interface AppState {
   user: User | null
+  // False until a stored session token has been checked with the server
+  sessionChecked: boolean
   loading: boolean
   error: string | null
+  profiles: Profile[]
+  jobs: JobPosting[]
 }
 
-type AppAction = 
+type AppAction =
   | { type: 'SET_USER'; payload: User }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'LOGOUT' }
+  | { type: 'SET_PROFILES'; payload: Profile[] }
+  | { type: 'UPSERT_PROFILE'; payload: Profile }
+  | { type: 'REMOVE_PROFILE'; payload: string }
+  | { type: 'SET_JOBS'; payload: JobPosting[] }
+  | { type: 'UPSERT_JOB'; payload: JobPosting }
+  | { type: 'REMOVE_JOB'; payload: string }
 
 const initialState: AppState = {
   user: null,
+  sessionChecked: !sessionToken.get(),
   loading: false,
   error: null,
+  profiles: [],
+  jobs: [],
 }
 
 const AppContext = createContext<{
@@ -30,16 +45,33 @@ const AppContext = createContext<{
   dispatch: React.Dispatch<AppAction>
 } | undefined>(undefined)
 
+const upsert = <T extends { id: string }>(records: T[], record: T) =>
+  records.some(existing => existing.id === record.id)
+    ? records.map(existing => (existing.id === record.id ? record : existing))
+    : [...records, record]
+
 function appReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
     case 'SET_USER':
-      return { ...state, user: action.payload, error: null }
+      return { ...state, user: action.payload, sessionChecked: true, error: null }
     case 'SET_LOADING':
       return { ...state, loading: action.payload }
     case 'SET_ERROR':
       return { ...state, error: action.payload, loading: false }
     case 'LOGOUT':
-      return { ...state, user: null }
+      return { ...state, user: null, sessionChecked: true }
+    case 'SET_PROFILES':
+      return { ...state, profiles: action.payload }
+    case 'UPSERT_PROFILE':
+      return { ...state, profiles: upsert(state.profiles, action.payload) }
+    case 'REMOVE_PROFILE':
+      return { ...state, profiles: state.profiles.filter(profile => profile.id !== action.payload) }
+    case 'SET_JOBS':
+      return { ...state, jobs: action.payload }
+    case 'UPSERT_JOB':
+      return { ...state, jobs: upsert(state.jobs, action.payload) }
+    case 'REMOVE_JOB':
+      return { ...state, jobs: state.jobs.filter(job => job.id !== action.payload) }
     default:
       return state
   }
@@ -48,6 +80,55 @@ function appReducer(state: AppState, action: AppAction): AppState {
 export function AppProvider({ children }: { children: ReactNode }) {
   const [state, dispatch] = useReducer(appReducer, initialState)
 
+  const loadData = useCallback(async () => {
+    dispatch({ type: 'SET_LOADING', payload: true })
+    try {
+      const [profiles, jobs] = await Promise.all([api.profiles.list(), api.jobs.list()])
+      dispatch({ type: 'SET_PROFILES', payload: profiles })
+      dispatch({ type: 'SET_JOBS', payload: jobs })
+      dispatch({ type: 'SET_LOADING', payload: false })
+    } catch (error) {
+      console.error('Error loading data:', error)
+      dispatch({ type: 'SET_ERROR', payload: 'Failed to load profiles and jobs' })
+    }
+  }, [])
+
+  const restoreSession = useCallback(async () => {
+    if (!sessionToken.get()) {
+      dispatch({ type: 'LOGOUT' })
+      return
+    }
+    try {
+      const session = await api.auth.session()
+      dispatch({ type: 'SET_USER', payload: { ...session.user, isAuthenticated: true } })
+    } catch (error) {
+      // Only forget the token when the server rejected it, not when it was unreachable
+      if (error instanceof ApiError && error.code === 'unauthorized') sessionToken.clear()
+      else console.error('Error restoring session:', error)
+      dispatch({ type: 'LOGOUT' })
+    }
+  }, [])
+
+  useEffect(() => {
+    restoreSession()
+  }, [restoreSession])
+
+  // Which postings the server returns depends on who is asking, so reload when that changes
+  const userId = state.user?.id
+  useEffect(() => {
+    loadData()
+  }, [loadData, userId])
+
+  // Keep in sync with profile and job writes made from other tabs, and with logging in or out there
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === SESSION_TOKEN_KEY) restoreSession()
+      else if (event.key === PROFILES_KEY || event.key === JOBS_KEY) loadData()
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [loadData, restoreSession])
+
   return (
     <AppContext.Provider value={{ state, dispatch }}>
       {children}
@@ -61,4 +142,138 @@ export function useApp() {
     throw new Error('useApp must be used within an AppProvider')
   }
   return context
-}
\ No newline at end of file
+}
+
+/**
+ * Raised when an update expected an older version of the record than the
+ * stored one, i.e. someone else saved it first. Carries the current record.
+ */
+export class RecordConflictError<T extends StoredRecord> extends Error {
+  constructor(public current: T) {
+    super('This record was changed by someone else')
+    this.name = 'RecordConflictError'
+  }
+}
+
+// Maps the API's 409 for a stale version to a RecordConflictError
+const conflictFrom = <T extends StoredRecord>(error: unknown) => {
+  const current = error instanceof ApiError && error.code === 'conflict'
+    ? (error.details as { current?: T } | undefined)?.current
+    : undefined
+  return current ? new RecordConflictError(current) : error
+}
+
+/**
+ * CRUD and query operations over the persisted profiles and job postings.
+ * Writes go through the API first and are then mirrored into app state.
+ * Updates given an `expectedVersion` fail with RecordConflictError when the
+ * record has been saved by someone else since that version.
+ */
+export function useDataStore() {
+  const { state, dispatch } = useApp()
+
+  const operations = useMemo(() => ({
+    // The server makes the signed-in user the owner
+    async createProfile(data: Omit<NewRecord<Profile>, 'ownerId'>) {
+      const profile = await api.profiles.create(data)
+      dispatch({ type: 'UPSERT_PROFILE', payload: profile })
+      return profile
+    },
+    async updateProfile(id: string, changes: Partial<NewRecord<Profile>>, expectedVersion?: number) {
+      try {
+        const profile = await api.profiles.update(id, changes, { expectedVersion })
+        dispatch({ type: 'UPSERT_PROFILE', payload: profile })
+        return profile
+      } catch (error) {
+        const conflict = conflictFrom<Profile>(error)
+        if (conflict instanceof RecordConflictError) dispatch({ type: 'UPSERT_PROFILE', payload: conflict.current })
+        throw conflict
+      }
+    },
+    async deleteProfile(id: string) {
+      await api.profiles.remove(id)
+      dispatch({ type: 'REMOVE_PROFILE', payload: id })
+    },
+    async createJob(data: Omit<NewRecord<JobPosting>, 'ownerId'>) {
+      const job = await api.jobs.create(data)
+      dispatch({ type: 'UPSERT_JOB', payload: job })
+      return job
+    },
+    async updateJob(id: string, changes: Partial<NewRecord<JobPosting>>, expectedVersion?: number) {
+      try {
+        const job = await api.jobs.update(id, changes, { expectedVersion })
+        dispatch({ type: 'UPSERT_JOB', payload: job })
+        return job
+      } catch (error) {
+        const conflict = conflictFrom<JobPosting>(error)
+        if (conflict instanceof RecordConflictError) dispatch({ type: 'UPSERT_JOB', payload: conflict.current })
+        throw conflict
+      }
+    },
+    async changeJobStatus(id: string, status: JobStatus) {
+      const job = await api.jobs.changeStatus(id, status)
+      dispatch({ type: 'UPSERT_JOB', payload: job })
+      return job
+    },
+    async deleteJob(id: string) {
+      await api.jobs.remove(id)
+      dispatch({ type: 'REMOVE_JOB', payload: id })
+    }
+  }), [dispatch])
+
+  return {
+    profiles: state.profiles,
+    jobs: state.jobs,
+    isLoading: state.loading,
+    getProfile: (id: string) => state.profiles.find(profile => profile.id === id),
+    getJob: (id: string) => state.jobs.find(job => job.id === id),
+    queryProfiles: (predicate: (profile: Profile) => boolean) => state.profiles.filter(predicate),
+    queryJobs: (predicate: (job: JobPosting) => boolean) => state.jobs.filter(predicate),
+    ...operations
+  }
+}
+
+/**
+ * The signed-in user, what their role permits, and the sign-up, login and
+ * logout operations. The session token is persisted so the user stays
+ * signed in across reloads.
+ */
+export function useAuth() {
+  const { state, dispatch } = useApp()
+  const userId = state.user?.id
+
+  const operations = useMemo(() => {
+    const startSession = (session: AuthSession) => {
+      sessionToken.set(session.token)
+      dispatch({ type: 'SET_USER', payload: { ...session.user, isAuthenticated: true } })
+      return session.user
+    }
+
+    return {
+      async signUp(data: SignUpData) {
+        return startSession(await api.auth.signUp(data))
+      },
+      async logIn(credentials: Credentials) {
+        return startSession(await api.auth.logIn(credentials))
+      },
+      async logOut() {
+        try {
+          await api.auth.logOut()
+        } catch (error) {
+          // The local session ends regardless; the token simply expires server-side
+          console.error('Error logging out:', error)
+        }
+        sessionToken.clear()
+        if (userId) activeChatSession.clear(userId)
+        dispatch({ type: 'LOGOUT' })
+      }
+    }
+  }, [dispatch, userId])
+
+  return {
+    user: state.user,
+    sessionChecked: state.sessionChecked,
+    can: (permission: Permission) => hasPermission(state.user, permission),
+    ...operations
+  }
+}
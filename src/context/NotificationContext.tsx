@@ -0,0 +1,112 @@
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { api } from '../services/api'
+import { Notification, NotificationKind } from '../types'
+import { useAuth } from './AppContext'
+
+// How often the inbox is checked while someone is signed in
+const POLL_INTERVAL = 30 * 1000
+
+// News worth a toast when it arrives; reminders just wait under the bell
+const TOASTED_KINDS: NotificationKind[] = ['job_alert', 'new_match', 'application_status']
+
+interface NotificationContextValue {
+  // Newest first
+  notifications: Notification[]
+  unreadCount: number
+  isLoading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+  markRead: (id: string) => Promise<void>
+  markAllRead: () => Promise<void>
+}
+
+const NotificationContext = createContext<NotificationContextValue | undefined>(undefined)
+
+/**
+ * Keeps the signed-in user's notifications up to date for the header bell
+ * and the notifications page, and raises a toast for news that arrives while
+ * the app is open.
+ */
+export function NotificationProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  const userId = user?.id
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Ids already loaded, so only new arrivals are toasted; null before the first load
+  const seenRef = useRef<Set<string> | null>(null)
+  // Bumped when the user changes, so loads started for the previous one are dropped
+  const generationRef = useRef(0)
+
+  const refresh = useCallback(async () => {
+    const generation = generationRef.current
+    try {
+      const loaded = await api.notifications.list()
+      if (generation !== generationRef.current) return
+
+      const seen = seenRef.current
+      if (seen) {
+        loaded
+          .filter(notification =>
+            !notification.readAt && !seen.has(notification.id) && TOASTED_KINDS.includes(notification.kind))
+          .reverse()
+          .forEach(notification => toast(notification.title))
+      }
+      seenRef.current = new Set(loaded.map(notification => notification.id))
+      setNotifications(loaded)
+      setError(null)
+    } catch (err) {
+      if (generation !== generationRef.current) return
+      setError('Failed to load your notifications.')
+      console.error('Error loading notifications:', err)
+    } finally {
+      if (generation === generationRef.current) setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    generationRef.current += 1
+    seenRef.current = null
+    setNotifications([])
+    setError(null)
+    if (!userId) {
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+    refresh()
+    const timer = setInterval(refresh, POLL_INTERVAL)
+    return () => clearInterval(timer)
+  }, [userId, refresh])
+
+  const markRead = useCallback(async (id: string) => {
+    const notification = await api.notifications.markRead(id)
+    setNotifications(prev => prev.map(existing => (existing.id === id ? notification : existing)))
+  }, [])
+
+  const markAllRead = useCallback(async () => {
+    await api.notifications.markAllRead()
+    const readAt = new Date().toISOString()
+    setNotifications(prev => prev.map(notification => ({ ...notification, readAt: notification.readAt ?? readAt })))
+  }, [])
+
+  const unreadCount = notifications.filter(notification => !notification.readAt).length
+
+  return (
+    <NotificationContext.Provider
+      value={{ notifications, unreadCount, isLoading, error, refresh, markRead, markAllRead }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  )
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationContext)
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider')
+  }
+  return context
+}
@@ -0,0 +1,131 @@
+export interface Place {
+  city: string
+  region?: string
+  country: string
+  aliases?: string[]
+}
+
+export interface Country {
+  name: string
+  aliases: string[]
+}
+
+export const countries: Country[] = [
+  { name: 'USA', aliases: ['us', 'u.s.', 'u.s.a.', 'united states', 'united states of america', 'america'] },
+  { name: 'UK', aliases: ['u.k.', 'united kingdom', 'great britain', 'britain', 'england', 'scotland'] },
+  { name: 'Canada', aliases: [] },
+  { name: 'Germany', aliases: ['de', 'deutschland'] },
+  { name: 'France', aliases: ['fr'] },
+  { name: 'Netherlands', aliases: ['nl', 'holland', 'the netherlands'] },
+  { name: 'Spain', aliases: ['es', 'espana', 'españa'] },
+  { name: 'Portugal', aliases: ['pt'] },
+  { name: 'Italy', aliases: ['it', 'italia'] },
+  { name: 'Ireland', aliases: ['ie'] },
+  { name: 'Sweden', aliases: ['se'] },
+  { name: 'Poland', aliases: ['pl'] },
+  { name: 'Switzerland', aliases: ['ch'] },
+  { name: 'Austria', aliases: ['at'] },
+  { name: 'India', aliases: ['in'] },
+  { name: 'China', aliases: ['cn'] },
+  { name: 'Japan', aliases: ['jp'] },
+  { name: 'Singapore', aliases: ['sg'] },
+  { name: 'Australia', aliases: ['au'] },
+  { name: 'New Zealand', aliases: ['nz'] },
+  { name: 'Brazil', aliases: ['br', 'brasil'] },
+  { name: 'Mexico', aliases: ['mx'] },
+  { name: 'Argentina', aliases: ['ar'] },
+  { name: 'Nigeria', aliases: ['ng'] },
+  { name: 'Kenya', aliases: ['ke'] },
+  { name: 'South Africa', aliases: ['za'] },
+  { name: 'Egypt', aliases: ['eg'] },
+  { name: 'UAE', aliases: ['united arab emirates', 'emirates'] }
+]
+
+export const usStates: Record<string, string> = {
+  AZ: 'Arizona',
+  CA: 'California',
+  CO: 'Colorado',
+  FL: 'Florida',
+  GA: 'Georgia',
+  IL: 'Illinois',
+  MA: 'Massachusetts',
+  ME: 'Maine',
+  MO: 'Missouri',
+  NY: 'New York',
+  OR: 'Oregon',
+  PA: 'Pennsylvania',
+  TX: 'Texas',
+  WA: 'Washington'
+}
+
+export const places: Place[] = [
+  { city: 'San Francisco', region: 'CA', country: 'USA', aliases: ['sf', 'san fran'] },
+  { city: 'Los Angeles', region: 'CA', country: 'USA', aliases: ['la'] },
+  { city: 'San Diego', region: 'CA', country: 'USA' },
+  { city: 'San Jose', region: 'CA', country: 'USA' },
+  { city: 'New York', region: 'NY', country: 'USA', aliases: ['nyc', 'new york city', 'manhattan', 'brooklyn'] },
+  { city: 'Seattle', region: 'WA', country: 'USA' },
+  { city: 'Austin', region: 'TX', country: 'USA' },
+  { city: 'Dallas', region: 'TX', country: 'USA' },
+  { city: 'Houston', region: 'TX', country: 'USA' },
+  { city: 'Paris', region: 'TX', country: 'USA' },
+  { city: 'Chicago', region: 'IL', country: 'USA' },
+  { city: 'Springfield', region: 'IL', country: 'USA' },
+  { city: 'Springfield', region: 'MA', country: 'USA' },
+  { city: 'Springfield', region: 'MO', country: 'USA' },
+  { city: 'Boston', region: 'MA', country: 'USA' },
+  { city: 'Portland', region: 'OR', country: 'USA' },
+  { city: 'Portland', region: 'ME', country: 'USA' },
+  { city: 'Denver', region: 'CO', country: 'USA' },
+  { city: 'Phoenix', region: 'AZ', country: 'USA' },
+  { city: 'Atlanta', region: 'GA', country: 'USA' },
+  { city: 'Miami', region: 'FL', country: 'USA' },
+  { city: 'Philadelphia', region: 'PA', country: 'USA', aliases: ['philly'] },
+  { city: 'Toronto', country: 'Canada' },
+  { city: 'Vancouver', country: 'Canada' },
+  { city: 'Montreal', country: 'Canada', aliases: ['montréal'] },
+  { city: 'London', country: 'UK' },
+  { city: 'London', country: 'Canada' },
+  { city: 'Manchester', country: 'UK' },
+  { city: 'Edinburgh', country: 'UK' },
+  { city: 'Dublin', country: 'Ireland' },
+  { city: 'Berlin', country: 'Germany' },
+  { city: 'Munich', country: 'Germany', aliases: ['münchen', 'muenchen'] },
+  { city: 'Hamburg', country: 'Germany' },
+  { city: 'Frankfurt', country: 'Germany' },
+  { city: 'Paris', country: 'France' },
+  { city: 'Lyon', country: 'France' },
+  { city: 'Amsterdam', country: 'Netherlands' },
+  { city: 'Rotterdam', country: 'Netherlands' },
+  { city: 'Madrid', country: 'Spain' },
+  { city: 'Barcelona', country: 'Spain' },
+  { city: 'Lisbon', country: 'Portugal', aliases: ['lisboa'] },
+  { city: 'Milan', country: 'Italy', aliases: ['milano'] },
+  { city: 'Rome', country: 'Italy', aliases: ['roma'] },
+  { city: 'Stockholm', country: 'Sweden' },
+  { city: 'Warsaw', country: 'Poland', aliases: ['warszawa'] },
+  { city: 'Zurich', country: 'Switzerland', aliases: ['zürich'] },
+  { city: 'Vienna', country: 'Austria', aliases: ['wien'] },
+  { city: 'Bangalore', country: 'India', aliases: ['bengaluru'] },
+  { city: 'Mumbai', country: 'India', aliases: ['bombay'] },
+  { city: 'Delhi', country: 'India', aliases: ['new delhi'] },
+  { city: 'Hyderabad', country: 'India' },
+  { city: 'Pune', country: 'India' },
+  { city: 'Beijing', country: 'China' },
+  { city: 'Shanghai', country: 'China' },
+  { city: 'Tokyo', country: 'Japan' },
+  { city: 'Singapore', country: 'Singapore' },
+  { city: 'Sydney', country: 'Australia' },
+  { city: 'Melbourne', country: 'Australia' },
+  { city: 'Auckland', country: 'New Zealand' },
+  { city: 'São Paulo', country: 'Brazil', aliases: ['sao paulo'] },
+  { city: 'Mexico City', country: 'Mexico', aliases: ['cdmx'] },
+  { city: 'Buenos Aires', country: 'Argentina' },
+  { city: 'Lagos', country: 'Nigeria' },
+  { city: 'Lagos', country: 'Portugal' },
+  { city: 'Nairobi', country: 'Kenya' },
+  { city: 'Cape Town', country: 'South Africa' },
+  { city: 'Johannesburg', country: 'South Africa', aliases: ['joburg'] },
+  { city: 'Cairo', country: 'Egypt' },
+  { city: 'Dubai', country: 'UAE' }
+]
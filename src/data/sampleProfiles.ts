@@ -0,0 +1,80 @@
+import { NewRecord, Profile } from '../types'
+
+// Seeded into the profile store on first run so matching has candidates to work with
+export const sampleProfiles: NewRecord<Profile>[] = [
+  {
+    photo: 'https://images.pexels.com/photos/2379004/pexels-photo-2379004.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&fit=crop',
+    fullName: 'Sarah Johnson',
+    email: 'sarah.johnson@example.com',
+    title: 'Senior Frontend Developer',
+    yearsExperience: 5,
+    location: 'San Francisco, CA',
+    skills: ['React', 'TypeScript', 'Node.js'],
+    jobTypes: ['Full-time', 'Remote']
+  },
+  {
+    photo: 'https://images.pexels.com/photos/1222271/pexels-photo-1222271.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&fit=crop',
+    fullName: 'Michael Chen',
+    email: 'michael.chen@example.com',
+    title: 'Full Stack Engineer',
+    yearsExperience: 7,
+    location: 'New York, NY',
+    skills: ['Python', 'React', 'AWS'],
+    jobTypes: ['Full-time', 'Contract']
+  },
+  {
+    photo: 'https://images.pexels.com/photos/1239291/pexels-photo-1239291.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&fit=crop',
+    fullName: 'Emily Rodriguez',
+    email: 'emily.rodriguez@example.com',
+    title: 'UX/UI Designer',
+    yearsExperience: 4,
+    location: 'Austin, TX',
+    skills: ['Figma', 'Design Systems', 'User Research'],
+    jobTypes: ['Full-time', 'Freelance']
+  },
+  {
+    fullName: 'David Okafor',
+    email: 'david.okafor@example.com',
+    title: 'Backend Engineer',
+    yearsExperience: 3,
+    location: 'London, UK',
+    skills: ['Node.js', 'PostgreSQL', 'Docker', 'TypeScript'],
+    jobTypes: ['Full-time', 'Remote']
+  },
+  {
+    fullName: 'Priya Sharma',
+    email: 'priya.sharma@example.com',
+    title: 'Data Scientist',
+    yearsExperience: 6,
+    location: 'Bangalore, India',
+    skills: ['Python', 'Machine Learning', 'SQL', 'TensorFlow'],
+    jobTypes: ['Full-time']
+  },
+  {
+    fullName: 'Lukas Weber',
+    email: 'lukas.weber@example.com',
+    title: 'DevOps Engineer',
+    yearsExperience: 9,
+    location: 'Berlin, Germany',
+    skills: ['AWS', 'Kubernetes', 'Terraform', 'Docker'],
+    jobTypes: ['Contract', 'Remote']
+  },
+  {
+    fullName: 'Aisha Bello',
+    email: 'aisha.bello@example.com',
+    title: 'Mobile Developer',
+    yearsExperience: 2,
+    location: 'Toronto, Canada',
+    skills: ['React Native', 'TypeScript', 'JavaScript'],
+    jobTypes: ['Full-time', 'Part-time']
+  },
+  {
+    fullName: 'Tom Becker',
+    email: 'tom.becker@example.com',
+    title: 'Frontend Developer',
+    yearsExperience: 1,
+    location: 'San Francisco, CA',
+    skills: ['JavaScript', 'React', 'CSS'],
+    jobTypes: ['Internship', 'Full-time']
+  }
+]
@@ -0,0 +1,95 @@
+export type SkillCategory =
+  | 'language'
+  | 'frontend'
+  | 'backend'
+  | 'mobile'
+  | 'cloud'
+  | 'devops'
+  | 'data'
+  | 'ai'
+  | 'design'
+
+export interface SkillDefinition {
+  name: string
+  category: SkillCategory
+  // Other lower-case spellings of the same skill
+  aliases: string[]
+  // Skills close enough to count as a partial match; links work both ways
+  related: string[]
+}
+
+export const skillCategories: Record<SkillCategory, string> = {
+  language: 'Languages',
+  frontend: 'Frontend',
+  backend: 'Backend',
+  mobile: 'Mobile',
+  cloud: 'Cloud',
+  devops: 'DevOps',
+  data: 'Data',
+  ai: 'AI & ML',
+  design: 'Design'
+}
+
+// In the order skills are suggested, most asked-for first
+export const skillTaxonomy: SkillDefinition[] = [
+  { name: 'React', category: 'frontend', aliases: ['reactjs', 'react.js', 'react js'], related: ['React Native', 'Next.js', 'Redux', 'JavaScript', 'Vue.js'] },
+  { name: 'React Native', category: 'mobile', aliases: ['rn', 'react-native'], related: ['Flutter'] },
+  { name: 'TypeScript', category: 'language', aliases: ['ts'], related: ['JavaScript'] },
+  { name: 'JavaScript', category: 'language', aliases: ['js', 'es6', 'ecmascript'], related: ['Node.js'] },
+  { name: 'Node.js', category: 'backend', aliases: ['node', 'nodejs', 'node js'], related: ['Express', 'TypeScript'] },
+  { name: 'Vue.js', category: 'frontend', aliases: ['vue', 'vuejs', 'vue js'], related: ['Angular', 'Svelte', 'JavaScript'] },
+  { name: 'Angular', category: 'frontend', aliases: ['angularjs', 'angular.js'], related: ['TypeScript', 'React'] },
+  { name: 'Python', category: 'language', aliases: ['py', 'python3'], related: ['Django', 'Flask', 'Pandas'] },
+  { name: 'Go', category: 'language', aliases: ['golang'], related: ['Rust'] },
+  { name: 'Java', category: 'language', aliases: [], related: ['Kotlin', 'Spring', 'C#'] },
+  { name: 'C#', category: 'language', aliases: ['csharp', 'c sharp'], related: ['.NET'] },
+  { name: 'C++', category: 'language', aliases: ['cpp'], related: ['C', 'Rust'] },
+  { name: 'AWS', category: 'cloud', aliases: ['amazon web services'], related: ['Google Cloud', 'Azure', 'Terraform'] },
+  { name: 'Google Cloud', category: 'cloud', aliases: ['gcp', 'google cloud platform'], related: ['Azure'] },
+  { name: 'Azure', category: 'cloud', aliases: ['microsoft azure'], related: ['.NET'] },
+  { name: 'Kubernetes', category: 'devops', aliases: ['k8s'], related: ['Docker', 'Terraform'] },
+  { name: 'Docker', category: 'devops', aliases: [], related: ['CI/CD'] },
+  { name: 'Terraform', category: 'devops', aliases: ['infrastructure as code', 'iac'], related: ['CI/CD'] },
+  { name: 'PostgreSQL', category: 'data', aliases: ['postgres', 'psql'], related: ['SQL', 'MySQL'] },
+  { name: 'MySQL', category: 'data', aliases: ['mariadb'], related: ['SQL'] },
+  { name: 'MongoDB', category: 'data', aliases: ['mongo'], related: ['Redis'] },
+  { name: 'SQL', category: 'data', aliases: ['structured query language'], related: ['Data Analysis'] },
+  { name: 'GraphQL', category: 'backend', aliases: ['gql'], related: ['REST APIs'] },
+  { name: 'CSS', category: 'frontend', aliases: ['css3'], related: ['HTML', 'Tailwind CSS'] },
+  { name: 'HTML', category: 'frontend', aliases: ['html5'], related: [] },
+  { name: 'Machine Learning', category: 'ai', aliases: ['ml'], related: ['TensorFlow', 'PyTorch', 'Python', 'Data Analysis'] },
+  { name: 'TensorFlow', category: 'ai', aliases: ['tf'], related: ['PyTorch'] },
+  { name: 'Figma', category: 'design', aliases: [], related: ['UX Design', 'Design Systems'] },
+  { name: 'UX Design', category: 'design', aliases: ['ux', 'user experience', 'ui/ux', 'ux/ui'], related: ['User Research', 'Design Systems'] },
+  { name: 'User Research', category: 'design', aliases: ['ux research', 'usability testing'], related: [] },
+  { name: 'Design Systems', category: 'design', aliases: ['design system'], related: ['CSS'] },
+  { name: 'Next.js', category: 'frontend', aliases: ['nextjs'], related: ['Node.js'] },
+  { name: 'Redux', category: 'frontend', aliases: ['redux toolkit', 'rtk'], related: [] },
+  { name: 'Svelte', category: 'frontend', aliases: ['sveltekit'], related: [] },
+  { name: 'Tailwind CSS', category: 'frontend', aliases: ['tailwind', 'tailwindcss'], related: [] },
+  { name: 'Express', category: 'backend', aliases: ['express.js', 'expressjs'], related: ['REST APIs'] },
+  { name: 'Django', category: 'backend', aliases: [], related: ['Flask'] },
+  { name: 'Flask', category: 'backend', aliases: [], related: ['REST APIs'] },
+  { name: 'Spring', category: 'backend', aliases: ['spring boot', 'springboot'], related: ['Kotlin'] },
+  { name: '.NET', category: 'backend', aliases: ['dotnet', 'asp.net', '.net core'], related: [] },
+  { name: 'Ruby on Rails', category: 'backend', aliases: ['rails', 'ror'], related: ['Ruby'] },
+  { name: 'REST APIs', category: 'backend', aliases: ['rest', 'restful apis', 'rest api'], related: [] },
+  { name: 'Ruby', category: 'language', aliases: [], related: [] },
+  { name: 'PHP', category: 'language', aliases: [], related: [] },
+  { name: 'Rust', category: 'language', aliases: [], related: [] },
+  { name: 'C', category: 'language', aliases: [], related: [] },
+  { name: 'Kotlin', category: 'language', aliases: [], related: ['Android'] },
+  { name: 'Swift', category: 'language', aliases: ['swiftui'], related: ['iOS'] },
+  { name: 'iOS', category: 'mobile', aliases: ['ios development'], related: ['React Native', 'Flutter'] },
+  { name: 'Android', category: 'mobile', aliases: ['android development'], related: ['React Native', 'Flutter'] },
+  { name: 'Flutter', category: 'mobile', aliases: [], related: [] },
+  { name: 'CI/CD', category: 'devops', aliases: ['ci', 'cicd', 'ci cd', 'continuous integration'], related: [] },
+  { name: 'Linux', category: 'devops', aliases: [], related: ['Docker'] },
+  { name: 'Git', category: 'devops', aliases: [], related: [] },
+  { name: 'Redis', category: 'data', aliases: [], related: [] },
+  { name: 'Kafka', category: 'data', aliases: ['apache kafka'], related: [] },
+  { name: 'Data Analysis', category: 'data', aliases: ['data analytics'], related: ['Pandas'] },
+  { name: 'Pandas', category: 'data', aliases: [], related: [] },
+  { name: 'PyTorch', category: 'ai', aliases: ['torch'], related: [] },
+  { name: 'NLP', category: 'ai', aliases: ['natural language processing'], related: ['Machine Learning'] }
+]
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api } from '../services/api'
+import { Application, ApplicationStage } from '../types'
+
+const newestFirst = (applications: Application[]) =>
+  [...applications].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+/**
+ * The applications the signed-in user may see, newest first: their own as a
+ * candidate, or the ones for a job they recruit for when `jobId` is given.
+ * Stage moves show up right away and are rolled back if the server refuses.
+ */
+export function useApplications(jobId?: string) {
+  const [applications, setApplications] = useState<Application[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setApplications(newestFirst(await api.applications.list(jobId ? { jobId } : undefined)))
+      setError(null)
+    } catch (err) {
+      setError('Failed to load applications.')
+      console.error('Error loading applications:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [jobId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const remember = (application: Application) =>
+    setApplications(prev => prev.map(existing => (existing.id === application.id ? application : existing)))
+
+  const apply = useCallback(async (applyTo: string, coverNote: string) => {
+    const application = await api.applications.apply(applyTo, coverNote)
+    setApplications(prev => [application, ...prev])
+    return application
+  }, [])
+
+  const moveTo = useCallback(async (application: Application, stage: ApplicationStage) => {
+    if (application.stage === stage) return
+    remember({ ...application, stage })
+    try {
+      remember(await api.applications.moveTo(application.id, stage))
+    } catch (err) {
+      remember(application)
+      throw err
+    }
+  }, [])
+
+  const addNote = useCallback(async (id: string, body: string) => {
+    remember(await api.applications.addNote(id, body))
+  }, [])
+
+  const withdraw = useCallback(async (id: string) => {
+    await api.applications.withdraw(id)
+    setApplications(prev => prev.filter(application => application.id !== id))
+  }, [])
+
+  return { applications, isLoading, error, refresh, apply, moveTo, addNote, withdraw }
+}
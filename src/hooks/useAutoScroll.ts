@@ -0,0 +1,33 @@
+import { useCallback, useLayoutEffect, useRef } from 'react'
+
+// How close to the bottom (in px) still counts as following the conversation
+const PINNED_THRESHOLD = 48
+
+/**
+ * Keeps a scroll container pinned to the bottom while its content grows,
+ * unless the user has scrolled up to read earlier messages. Scrolling is
+ * instant: smooth scrolls restarted on every streamed token would stutter.
+ */
+export function useAutoScroll<T extends HTMLElement>(content: unknown) {
+  const containerRef = useRef<T>(null)
+  const pinnedRef = useRef(true)
+
+  const onScroll = useCallback(() => {
+    const container = containerRef.current
+    if (!container) return
+    pinnedRef.current =
+      container.scrollHeight - container.scrollTop - container.clientHeight <= PINNED_THRESHOLD
+  }, [])
+
+  useLayoutEffect(() => {
+    const container = containerRef.current
+    if (container && pinnedRef.current) container.scrollTop = container.scrollHeight
+  }, [content])
+
+  // Follow the conversation again, e.g. after opening a different one
+  const stickToBottom = useCallback(() => {
+    pinnedRef.current = true
+  }, [])
+
+  return { containerRef, onScroll, stickToBottom }
+}
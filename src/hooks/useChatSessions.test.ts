@@ -0,0 +1,99 @@
+import { act, renderHook } from '@testing-library/react'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ChatSession } from '../chat/types'
+import { api } from '../services/api'
+import { ChatSnapshot, useChatSessions } from './useChatSessions'
+
+const snapshot = (title: string): ChatSnapshot => ({
+  title,
+  messages: [],
+  stepId: null,
+  answers: {},
+  matches: [],
+  isComplete: false
+})
+
+const stored = (id: string, data: ChatSnapshot): ChatSession => ({
+  ...data,
+  id,
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  version: 1
+})
+
+// A create the test finishes by hand, to save again while it is in flight
+const deferredCreate = () => {
+  let finish: (session: ChatSession) => void = () => undefined
+  const promise = new Promise<ChatSession>(resolve => {
+    finish = resolve
+  })
+  return { promise, finish }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  window.localStorage.clear()
+})
+
+describe('useChatSessions', () => {
+  it('creates the session on the first save and updates it afterwards', async () => {
+    const create = vi.spyOn(api.chatSessions, 'create').mockImplementation(async data => stored('first', data))
+    const update = vi.spyOn(api.chatSessions, 'update').mockImplementation(async (id, data) => stored(id, data as ChatSnapshot))
+    const { result } = renderHook(() => useChatSessions('user-1'))
+
+    await act(() => result.current.saveSession(snapshot('one')))
+    await act(() => result.current.saveSession(snapshot('two')))
+
+    expect(create).toHaveBeenCalledTimes(1)
+    expect(update).toHaveBeenCalledWith('first', snapshot('two'))
+    expect(result.current.activeSessionId).toBe('first')
+  })
+
+  it('reuses a create that is still running for the same conversation', async () => {
+    const pending = deferredCreate()
+    const create = vi.spyOn(api.chatSessions, 'create').mockReturnValue(pending.promise)
+    const update = vi.spyOn(api.chatSessions, 'update').mockImplementation(async (id, data) => stored(id, data as ChatSnapshot))
+    const { result } = renderHook(() => useChatSessions('user-1'))
+
+    await act(async () => {
+      const first = result.current.saveSession(snapshot('one'))
+      const second = result.current.saveSession(snapshot('two'))
+      pending.finish(stored('first', snapshot('one')))
+      await Promise.all([first, second])
+    })
+
+    expect(create).toHaveBeenCalledTimes(1)
+    expect(update).toHaveBeenCalledWith('first', snapshot('two'))
+  })
+
+  it('starts a fresh session when the conversation changed while a create was running', async () => {
+    const pending = deferredCreate()
+    const create = vi.spyOn(api.chatSessions, 'create')
+      .mockReturnValueOnce(pending.promise)
+      .mockImplementationOnce(async data => stored('second', data))
+    const update = vi.spyOn(api.chatSessions, 'update')
+    const { result } = renderHook(() => useChatSessions('user-1'))
+
+    await act(async () => {
+      const first = result.current.saveSession(snapshot('old conversation'))
+      result.current.detachSession()
+      const second = result.current.saveSession(snapshot('new conversation'))
+      pending.finish(stored('first', snapshot('old conversation')))
+      await Promise.all([first, second])
+    })
+
+    expect(create).toHaveBeenCalledTimes(2)
+    expect(create).toHaveBeenLastCalledWith(snapshot('new conversation'))
+    expect(update).not.toHaveBeenCalled()
+    expect(result.current.activeSessionId).toBe('second')
+  })
+
+  it('remembers the active session per user', async () => {
+    vi.spyOn(api.chatSessions, 'create').mockImplementation(async data => stored('first', data))
+    const { result } = renderHook(() => useChatSessions('user-1'))
+    await act(() => result.current.saveSession(snapshot('one')))
+
+    expect(renderHook(() => useChatSessions('user-1')).result.current.activeSessionId).toBe('first')
+    expect(renderHook(() => useChatSessions('user-2')).result.current.activeSessionId).toBeNull()
+  })
+})
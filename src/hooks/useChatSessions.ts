@@ -0,0 +1,101 @@
+import { useCallback, useRef, useState } from 'react'
+import { ChatSession } from '../chat/types'
+import { api } from '../services/api'
+import { activeChatSession } from '../services/session'
+import { NewRecord } from '../types'
+
+export type ChatSnapshot = Omit<NewRecord<ChatSession>, 'ownerId'>
+
+/**
+ * Tracks the signed-in user's saved chat sessions and which one the chatbot
+ * is writing to. The active session id survives reloads so the conversation
+ * can be resumed. Guests' conversations aren't saved.
+ */
+export function useChatSessions(userId: string | undefined) {
+  const [activeSessionId, setActiveSessionIdState] = useState<string | null>(
+    () => (userId ? activeChatSession.get(userId) : null)
+  )
+  const [sessions, setSessions] = useState<ChatSession[]>([])
+  const [isLoadingSessions, setIsLoadingSessions] = useState(false)
+  const activeIdRef = useRef(activeSessionId)
+  // The session being created for a new conversation, and which conversation it is for
+  const pendingCreate = useRef<{ generation: number; session: Promise<ChatSession> } | null>(null)
+  // Bumped whenever the active session changes, so late creates don't reattach
+  const generation = useRef(0)
+
+  const setActiveSessionId = useCallback((id: string | null) => {
+    activeIdRef.current = id
+    setActiveSessionIdState(id)
+    if (!userId) return
+    if (id) {
+      activeChatSession.set(userId, id)
+    } else {
+      activeChatSession.clear(userId)
+    }
+  }, [userId])
+
+  const refreshSessions = useCallback(async () => {
+    setIsLoadingSessions(true)
+    try {
+      const list = await api.chatSessions.list()
+      setSessions(list.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)))
+    } finally {
+      setIsLoadingSessions(false)
+    }
+  }, [])
+
+  /**
+   * Writes the snapshot to the active session, creating the session on the
+   * first save of a new conversation.
+   */
+  const saveSession = useCallback(async (snapshot: ChatSnapshot) => {
+    if (activeIdRef.current) {
+      return api.chatSessions.update(activeIdRef.current, snapshot)
+    }
+
+    // A create still running for an earlier conversation mustn't receive this one
+    const startedIn = generation.current
+    if (pendingCreate.current?.generation === startedIn) {
+      const created = await pendingCreate.current.session
+      return api.chatSessions.update(created.id, snapshot)
+    }
+
+    const session = api.chatSessions.create(snapshot)
+    pendingCreate.current = { generation: startedIn, session }
+    try {
+      const created = await session
+      if (startedIn === generation.current) setActiveSessionId(created.id)
+      return created
+    } finally {
+      if (pendingCreate.current?.session === session) pendingCreate.current = null
+    }
+  }, [setActiveSessionId])
+
+  const openSession = useCallback((session: ChatSession) => {
+    generation.current++
+    setActiveSessionId(session.id)
+  }, [setActiveSessionId])
+
+  const detachSession = useCallback(() => {
+    generation.current++
+    setActiveSessionId(null)
+  }, [setActiveSessionId])
+
+  const deleteSession = useCallback(async (id: string) => {
+    await api.chatSessions.remove(id)
+    setSessions(prev => prev.filter(session => session.id !== id))
+    if (activeIdRef.current === id) detachSession()
+  }, [detachSession])
+
+  return {
+    activeSessionId,
+    sessions,
+    isLoadingSessions,
+    refreshSessions,
+    loadSession: (id: string) => api.chatSessions.get(id),
+    saveSession,
+    openSession,
+    detachSession,
+    deleteSession
+  }
+}
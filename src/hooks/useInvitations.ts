@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api } from '../services/api'
+import { Invitation } from '../types'
+
+/**
+ * Invitations to apply the signed-in user may see: the ones addressed to them
+ * as a candidate, or the ones sent for a job they recruit for when `jobId`
+ * is given.
+ */
+export function useInvitations(jobId?: string) {
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setInvitations(await api.invitations.list(jobId ? { jobId } : undefined))
+      setError(null)
+    } catch (err) {
+      setError('Failed to load invitations.')
+      console.error('Error loading invitations:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [jobId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const invite = useCallback(async (inviteTo: string, profileId: string) => {
+    const invitation = await api.invitations.send(inviteTo, profileId)
+    setInvitations(prev => [...prev, invitation])
+    return invitation
+  }, [])
+
+  return { invitations, isLoading, error, refresh, invite }
+}
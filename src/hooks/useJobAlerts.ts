@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api } from '../services/api'
+import { JobAlert } from '../types'
+
+type NewAlert = Parameters<typeof api.alerts.create>[0]
+type AlertChanges = Parameters<typeof api.alerts.update>[1]
+
+/**
+ * The signed-in candidate's job alerts, newest first.
+ */
+export function useJobAlerts() {
+  const [alerts, setAlerts] = useState<JobAlert[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const loaded = await api.alerts.list()
+      setAlerts([...loaded].sort((a, b) => b.createdAt.localeCompare(a.createdAt)))
+      setError(null)
+    } catch (err) {
+      setError('Failed to load your job alerts.')
+      console.error('Error loading job alerts:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const create = useCallback(async (data: NewAlert) => {
+    const alert = await api.alerts.create(data)
+    setAlerts(prev => [alert, ...prev])
+    return alert
+  }, [])
+
+  const update = useCallback(async (id: string, changes: AlertChanges) => {
+    const alert = await api.alerts.update(id, changes)
+    setAlerts(prev => prev.map(existing => (existing.id === id ? alert : existing)))
+  }, [])
+
+  const remove = useCallback(async (id: string) => {
+    await api.alerts.remove(id)
+    setAlerts(prev => prev.filter(alert => alert.id !== id))
+  }, [])
+
+  return { alerts, isLoading, error, refresh, create, update, remove }
+}
@@ -0,0 +1,80 @@
+import { useCallback, useState } from 'react'
+import { JobFormData } from '../schemas/job'
+import { api, ApiError } from '../services/api'
+import { JobDraft } from '../types'
+
+/**
+ * Raised when a draft was saved somewhere else (another tab, say) after the
+ * version the form started from. Carries the newer draft.
+ */
+export class DraftConflictError extends Error {
+  constructor(public draft: JobDraft) {
+    super('This draft was changed somewhere else')
+    this.name = 'DraftConflictError'
+  }
+}
+
+const newestFirst = (drafts: JobDraft[]) =>
+  [...drafts].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+
+/**
+ * The recruiter's saved job drafts, most recently edited first.
+ */
+export function useJobDrafts() {
+  const [drafts, setDrafts] = useState<JobDraft[]>([])
+  const [isLoadingDrafts, setIsLoadingDrafts] = useState(false)
+
+  const refreshDrafts = useCallback(async () => {
+    setIsLoadingDrafts(true)
+    try {
+      setDrafts(newestFirst(await api.drafts.list()))
+    } finally {
+      setIsLoadingDrafts(false)
+    }
+  }, [])
+
+  const remember = (draft: JobDraft) =>
+    setDrafts(prev => newestFirst([draft, ...prev.filter(existing => existing.id !== draft.id)]))
+
+  /**
+   * Writes the form values over `base`, or to a new draft without one. Unless
+   * `overwrite` is set, throws DraftConflictError if the stored draft is newer
+   * than `base`.
+   */
+  const saveDraft = useCallback(async (
+    values: Partial<JobFormData>,
+    base: JobDraft | null,
+    { overwrite = false } = {}
+  ) => {
+    if (!base) {
+      const created = await api.drafts.create({ values })
+      remember(created)
+      return created
+    }
+
+    try {
+      // The server only applies the update if the draft is still at base's version
+      const updated = await api.drafts.update(
+        base.id,
+        { values },
+        { expectedVersion: overwrite ? undefined : base.version }
+      )
+      remember(updated)
+      return updated
+    } catch (error) {
+      // Deleted in the meantime: keep the work as a fresh draft
+      if (error instanceof ApiError && error.code === 'not_found') return saveDraft(values, null)
+      const current = error instanceof ApiError && error.code === 'conflict'
+        ? (error.details as { current?: JobDraft } | undefined)?.current
+        : undefined
+      throw current ? new DraftConflictError(current) : error
+    }
+  }, [])
+
+  const deleteDraft = useCallback(async (id: string) => {
+    await api.drafts.remove(id)
+    setDrafts(prev => prev.filter(draft => draft.id !== id))
+  }, [])
+
+  return { drafts, isLoadingDrafts, refreshDrafts, saveDraft, deleteDraft }
+}
@@ -0,0 +1,51 @@
+import { useCallback } from 'react'
+import { useSearchParams } from 'react-router-dom'
+
+export const numberParam = (value: string | null) => {
+  if (!value) return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+export const oneOf = <T extends string>(options: readonly T[]) => (value: string): value is T =>
+  (options as readonly string[]).includes(value)
+
+type ParamChanges = Record<string, string | string[] | undefined>
+
+/**
+ * Search screens keep their query in the URL so results can be bookmarked
+ * and shared. Any change other than paging goes back to the first page.
+ */
+export function useQueryParams() {
+  const [params, setParams] = useSearchParams()
+
+  const update = useCallback((changes: ParamChanges) => {
+    setParams(current => {
+      const next = new URLSearchParams(current)
+      Object.entries(changes).forEach(([key, value]) => {
+        next.delete(key)
+        const values = Array.isArray(value) ? value : value ? [value] : []
+        values.forEach(item => next.append(key, item))
+      })
+      if (!('page' in changes)) next.delete('page')
+      return next
+    }, { replace: true })
+  }, [setParams])
+
+  // Adds the value to a repeated parameter, or removes it if present
+  const toggle = useCallback((key: string, value: string) => {
+    const values = params.getAll(key)
+    update({ [key]: values.includes(value) ? values.filter(item => item !== value) : [...values, value] })
+  }, [params, update])
+
+  // Drops every parameter except the listed ones
+  const clear = useCallback((keep: string[] = []) => {
+    setParams(current => {
+      const next = new URLSearchParams()
+      keep.forEach(key => current.getAll(key).forEach(value => next.append(key, value)))
+      return next
+    }, { replace: true })
+  }, [setParams])
+
+  return { params, update, toggle, clear }
+}
@@ -0,0 +1,43 @@
+import { useEffect, useRef } from 'react'
+import { useAuth } from '../context/AppContext'
+import { realtime, RealtimeListener } from '../services/realtime'
+import { sessionToken } from '../services/session'
+
+// Every mounted listener shares one connection, opened for the current token
+const listeners = new Set<RealtimeListener>()
+let connection: { token: string; close: () => void } | null = null
+
+const connect = (token: string) => {
+  if (connection?.token === token) return
+  connection?.close()
+  connection = { token, close: realtime.connect(token, event => listeners.forEach(listener => listener(event))) }
+}
+
+const disconnectIfUnused = () => {
+  if (listeners.size > 0 || !connection) return
+  connection.close()
+  connection = null
+}
+
+/**
+ * Calls `listener` with the signed-in user's realtime events, such as new
+ * messages, while the component is mounted.
+ */
+export function useRealtime(listener: RealtimeListener) {
+  const userId = useAuth().user?.id
+  const listenerRef = useRef(listener)
+  listenerRef.current = listener
+
+  useEffect(() => {
+    const token = sessionToken.get()
+    if (!userId || !token) return
+
+    const forward: RealtimeListener = event => listenerRef.current(event)
+    listeners.add(forward)
+    connect(token)
+    return () => {
+      listeners.delete(forward)
+      disconnectIfUnused()
+    }
+  }, [userId])
+}
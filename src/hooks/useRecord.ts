@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from 'react'
+import { ApiError } from '../services/api'
+import { StoredRecord } from '../types'
+
+/**
+ * Resolves a record for a detail page: from app state when it is already
+ * loaded, otherwise from the API, since links can be opened directly.
+ * Without an id there is nothing to load, e.g. on a create form.
+ */
+export function useRecord<T extends StoredRecord>(
+  id: string | undefined,
+  cached: T | undefined,
+  load: (id: string) => Promise<T>,
+  label = 'record'
+) {
+  const [record, setRecord] = useState<T | null>(cached ?? null)
+  const [error, setError] = useState<string | null>(null)
+  // Callers pass inline loaders; a new function alone isn't a reason to load again
+  const loadRef = useRef(load)
+  loadRef.current = load
+
+  useEffect(() => {
+    if (cached) {
+      setRecord(cached)
+      setError(null)
+      return
+    }
+    let cancelled = false
+    setRecord(null)
+    setError(null)
+    if (!id) return
+    loadRef.current(id)
+      .then(found => {
+        if (!cancelled) setRecord(found)
+      })
+      .catch(err => {
+        if (cancelled) return
+        setError(err instanceof ApiError && err.code === 'not_found'
+          ? `This ${label} doesn't exist or has been removed.`
+          : `Failed to load this ${label}.`)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [id, cached, label])
+
+  return { record, error }
+}
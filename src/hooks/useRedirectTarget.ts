@@ -0,0 +1,11 @@
+import { Location, useLocation } from 'react-router-dom'
+
+/**
+ * The page RequireAuth was guarding when it sent the user to log in, so the
+ * login and sign-up screens can return them there afterwards.
+ */
+export function useRedirectTarget(): string | undefined {
+  const location = useLocation()
+  const from = (location.state as { from?: Location } | null)?.from
+  return from ? `${from.pathname}${from.search}` : undefined
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '../context/AppContext'
+import { api } from '../services/api'
+import { DirectMessage, MessageThread } from '../types'
+import { useRealtime } from './useRealtime'
+
+const markReadQuietly = (threadId: string) =>
+  api.threads.markRead(threadId).catch(error => console.error('Error marking thread as read:', error))
+
+/**
+ * One message thread and its messages, oldest first. The thread counts as
+ * read while it is open: on load and whenever a message arrives.
+ */
+export function useThread(threadId: string) {
+  const { user } = useAuth()
+  const [thread, setThread] = useState<MessageThread | null>(null)
+  const [messages, setMessages] = useState<DirectMessage[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const [loadedThread, loadedMessages] = await Promise.all([
+        api.threads.markRead(threadId),
+        api.threads.messages(threadId)
+      ])
+      setThread(loadedThread)
+      setMessages(loadedMessages)
+      setError(null)
+    } catch (err) {
+      setError('Failed to load this conversation.')
+      console.error('Error loading message thread:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [threadId])
+
+  useEffect(() => {
+    setIsLoading(true)
+    setThread(null)
+    setMessages([])
+    load()
+  }, [load])
+
+  useRealtime(event => {
+    if (event.type === 'resync') {
+      load()
+    } else if (event.type === 'message' && event.message.threadId === threadId) {
+      setMessages(prev => (prev.some(message => message.id === event.message.id) ? prev : [...prev, event.message]))
+      if (event.message.senderId !== user?.id) markReadQuietly(threadId)
+    } else if (event.type === 'read' && event.threadId === threadId) {
+      setThread(prev => prev && { ...prev, readAt: { ...prev.readAt, [event.readerId]: event.readAt } })
+    }
+  })
+
+  const send = useCallback(async (body: string) => {
+    const message = await api.threads.send(threadId, body)
+    setMessages(prev => (prev.some(existing => existing.id === message.id) ? prev : [...prev, message]))
+  }, [threadId])
+
+  return { thread, messages, isLoading, error, send }
+}
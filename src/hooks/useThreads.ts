@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api } from '../services/api'
+import { MessageThread } from '../types'
+import { useRealtime } from './useRealtime'
+
+/**
+ * The signed-in user's message threads, most recently active first. Kept
+ * current as messages arrive and threads are read.
+ */
+export function useThreads() {
+  const [threads, setThreads] = useState<MessageThread[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setThreads(await api.threads.list())
+      setError(null)
+    } catch (err) {
+      setError('Failed to load your messages.')
+      console.error('Error loading message threads:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  useRealtime(() => {
+    refresh()
+  })
+
+  const unreadCount = threads.reduce((total, thread) => total + (thread.unreadCount ?? 0), 0)
+
+  return { threads, unreadCount, isLoading, error, refresh }
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { createUpload, Upload, UploadState } from '../services/uploads'
+import { Attachment } from '../types'
+
+/**
+ * Runs one file upload at a time and exposes its progress. Starting a new
+ * upload cancels the previous one if it has not finished.
+ */
+export function useUpload() {
+  const [upload, setUpload] = useState<UploadState | null>(null)
+  const uploadRef = useRef<Upload | null>(null)
+
+  const start = useCallback((file: File, options: { replaces?: string } = {}) => {
+    uploadRef.current?.cancel()
+    const next = createUpload(file, { ...options, onChange: setUpload })
+    uploadRef.current = next
+    return next.start()
+  }, [])
+
+  const pause = useCallback(() => uploadRef.current?.pause(), [])
+  const resume = useCallback(() => uploadRef.current?.resume(), [])
+
+  // Shows a file stored earlier as if it had just been uploaded
+  const restore = useCallback((attachment: Attachment) => {
+    uploadRef.current?.cancel()
+    uploadRef.current = null
+    setUpload({
+      status: 'completed',
+      fileName: attachment.fileName,
+      uploadedBytes: attachment.size,
+      totalBytes: attachment.size,
+      attachment
+    })
+  }, [])
+
+  // Forgets the upload, cancelling it if it is still running
+  const clear = useCallback(() => {
+    uploadRef.current?.cancel()
+    uploadRef.current = null
+    setUpload(null)
+  }, [])
+
+  useEffect(() => () => uploadRef.current?.cancel(), [])
+
+  return { upload, start, pause, resume, restore, clear }
+}
@@ -0,0 +1,42 @@
+import { z } from 'zod'
+import { AlertFrequency } from '../types'
+import { jobFieldsSchema } from './job'
+
+export const MAX_ALERT_NAME_LENGTH = 60
+
+export const ALERT_FREQUENCIES: AlertFrequency[] = ['instant', 'daily']
+
+export const ALERT_FREQUENCY_LABELS: Record<AlertFrequency, string> = {
+  instant: 'Right away',
+  daily: 'Daily digest'
+}
+
+export const alertSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Please name your alert')
+    .max(MAX_ALERT_NAME_LENGTH, `Keep the name under ${MAX_ALERT_NAME_LENGTH} characters`),
+  frequency: z.enum(['instant', 'daily'])
+})
+
+export type AlertFormData = z.infer<typeof alertSchema>
+
+// Chatbot answers an alert is matched on; scoring a posting needs every one of them
+export const alertCriteriaSchema = z.object({
+  name: z.string(),
+  skills: z.array(z.string()),
+  location: z.string(),
+  yearsExperience: z.number().min(0),
+  jobType: z.string()
+})
+
+// Job listing filters an alert is matched on
+export const alertSearchSchema = z.object({
+  text: z.string().optional(),
+  experienceLevels: z.array(jobFieldsSchema.shape.experienceLevel).optional(),
+  employmentTypes: z.array(jobFieldsSchema.shape.employmentType).optional(),
+  salaryMin: z.number().optional(),
+  salaryMax: z.number().optional(),
+  location: z.string().optional(),
+  skills: z.array(z.string()).optional()
+})
@@ -0,0 +1,22 @@
+import { z } from 'zod'
+import { ApplicationStage } from '../types'
+
+export const MAX_COVER_NOTE_LENGTH = 2000
+export const MAX_NOTE_LENGTH = 1000
+
+// Pipeline stages, in the order applications move through them
+export const APPLICATION_STAGES: ApplicationStage[] = ['applied', 'screening', 'interview', 'offer', 'rejected']
+
+export const APPLICATION_STAGE_LABELS: Record<ApplicationStage, string> = {
+  applied: 'Applied',
+  screening: 'Screening',
+  interview: 'Interview',
+  offer: 'Offer',
+  rejected: 'Rejected'
+}
+
+export const applicationSchema = z.object({
+  coverNote: z.string().max(MAX_COVER_NOTE_LENGTH, `Keep your cover note under ${MAX_COVER_NOTE_LENGTH} characters`)
+})
+
+export type ApplicationFormData = z.infer<typeof applicationSchema>
@@ -0,0 +1,27 @@
+import { z } from 'zod'
+import { UserRole } from '../types'
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  job_seeker: 'Job seeker',
+  recruiter: 'Employer',
+  admin: 'Administrator'
+}
+
+export const loginSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+  password: z.string().min(1, 'Please enter your password')
+})
+
+export const signupSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  email: z.string().email('Please enter a valid email address'),
+  role: z.enum(['job_seeker', 'recruiter']),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  confirmPassword: z.string()
+}).refine(data => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword']
+})
+
+export type LoginFormData = z.infer<typeof loginSchema>
+export type SignupFormData = z.infer<typeof signupSchema>
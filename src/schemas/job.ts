@@ -0,0 +1,90 @@
+import { z } from 'zod'
+import { JobPosting, NewRecord } from '../types'
+import { splitList } from '../utils/search'
+import { canonicalSkills } from '../utils/skills'
+
+export const jobFieldsSchema = z.object({
+  jobTitle: z.string().min(3, 'Job title must be at least 3 characters'),
+  companyName: z.string().min(2, 'Company name must be at least 2 characters'),
+  jobDescription: z.string().min(50, 'Job description must be at least 50 characters'),
+  location: z.string().min(3, 'Location is required'),
+  requiredSkills: z.string().min(1, 'Please specify required skills'),
+  experienceLevel: z.enum(['Entry', 'Mid', 'Senior', 'Lead', 'Executive']),
+  salaryMin: z.number().min(0, 'Minimum salary must be positive'),
+  salaryMax: z.number().min(0, 'Maximum salary must be positive'),
+  employmentType: z.enum(['Full-time', 'Part-time', 'Contract', 'Freelance', 'Internship']),
+  contactEmail: z.string().email('Please enter a valid email address'),
+  // Calendar days as YYYY-MM-DD, the way date inputs hold them
+  postedDate: z.string().min(1, 'Please pick a publish date'),
+  expiresAt: z.string().optional()
+})
+
+export const jobSchema = jobFieldsSchema.refine(data => data.salaryMax >= data.salaryMin, {
+  message: "Maximum salary must be greater than or equal to minimum salary",
+  path: ["salaryMax"]
+}).refine(data => !data.expiresAt || data.expiresAt > data.postedDate, {
+  message: 'The expiry date must be after the publish date',
+  path: ['expiresAt']
+})
+
+export type JobFormData = z.infer<typeof jobSchema>
+
+export const JOB_FIELD_LABELS: Record<keyof JobFormData, string> = {
+  jobTitle: 'Job title',
+  companyName: 'Company',
+  jobDescription: 'Description',
+  location: 'Location',
+  requiredSkills: 'Required skills',
+  experienceLevel: 'Experience level',
+  salaryMin: 'Minimum salary',
+  salaryMax: 'Maximum salary',
+  employmentType: 'Employment type',
+  contactEmail: 'Contact email',
+  postedDate: 'Publish date',
+  expiresAt: 'Expiry date'
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// The local calendar day of a timestamp, as a date input value
+export const toDateInput = (value: string | Date) => {
+  const date = new Date(value)
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+export function toJobFormData(job: JobPosting): JobFormData {
+  return {
+    jobTitle: job.jobTitle,
+    companyName: job.companyName,
+    jobDescription: job.jobDescription,
+    location: job.location,
+    requiredSkills: job.requiredSkills.join(', '),
+    experienceLevel: job.experienceLevel,
+    salaryMin: job.salaryMin,
+    salaryMax: job.salaryMax,
+    employmentType: job.employmentType,
+    contactEmail: job.contactEmail,
+    postedDate: toDateInput(job.postedDate),
+    expiresAt: job.expiresAt ? toDateInput(job.expiresAt) : ''
+  }
+}
+
+/**
+ * Turns form values into posting fields. A publish date of today or earlier
+ * means right away; an unchanged one keeps the saved posting's exact time.
+ * Postings expire at the end of their expiry day.
+ */
+export function fromJobFormData(
+  { requiredSkills, postedDate, expiresAt, ...fields }: JobFormData,
+  saved?: JobPosting
+): NewRecord<JobPosting> {
+  const publishesLater = postedDate > toDateInput(new Date())
+  return {
+    ...fields,
+    requiredSkills: canonicalSkills(splitList(requiredSkills)),
+    postedDate: saved && toDateInput(saved.postedDate) === postedDate
+      ? saved.postedDate
+      : publishesLater ? new Date(`${postedDate}T00:00`).toISOString() : new Date().toISOString(),
+    expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59.999`).toISOString() : undefined
+  }
+}
@@ -0,0 +1,12 @@
+import { z } from 'zod'
+
+export const MAX_MESSAGE_LENGTH = 2000
+
+export const messageSchema = z.object({
+  body: z.string()
+    .trim()
+    .min(1, 'Write a message first')
+    .max(MAX_MESSAGE_LENGTH, `Keep messages under ${MAX_MESSAGE_LENGTH} characters`)
+})
+
+export type MessageFormData = z.infer<typeof messageSchema>
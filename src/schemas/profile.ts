@@ -0,0 +1,45 @@
+import { z } from 'zod'
+import { JOB_TYPES } from '../chat/parsing/jobTypes'
+import { Profile } from '../types'
+
+export const profileSchema = z.object({
+  fullName: z.string().min(2, 'Full name must be at least 2 characters'),
+  skills: z.string().min(1, 'Please enter at least one skill'),
+  yearsExperience: z.number().min(0, 'Experience cannot be negative').max(50, 'Experience cannot exceed 50 years'),
+  location: z.string().min(3, 'Please enter a valid location'),
+  // The kinds of work the candidate is open to, matched against job types
+  jobTypes: z.array(z.enum(JOB_TYPES)).min(1, 'Please pick at least one type of work'),
+  email: z.string().email('Please enter a valid email address'),
+  phone: z.string().optional(),
+  linkedinUrl: z.string().url('Please enter a valid LinkedIn URL').optional().or(z.literal('')),
+  resumeUrl: z.string().url('Please enter a valid resume URL').optional().or(z.literal(''))
+})
+
+export type ProfileFormData = z.infer<typeof profileSchema>
+
+export const PROFILE_FIELD_LABELS: Record<keyof ProfileFormData, string> = {
+  fullName: 'Full name',
+  skills: 'Skills',
+  yearsExperience: 'Years of experience',
+  location: 'Location',
+  jobTypes: 'Open to',
+  email: 'Email',
+  phone: 'Phone',
+  linkedinUrl: 'LinkedIn URL',
+  resumeUrl: 'Resume URL'
+}
+
+export function toProfileFormData(profile: Profile): ProfileFormData {
+  return {
+    fullName: profile.fullName,
+    skills: profile.skills.join(', '),
+    yearsExperience: profile.yearsExperience,
+    location: profile.location,
+    jobTypes: profile.jobTypes.filter((type): type is ProfileFormData['jobTypes'][number] =>
+      (JOB_TYPES as readonly string[]).includes(type)),
+    email: profile.email,
+    phone: profile.phone ?? '',
+    linkedinUrl: profile.linkedinUrl ?? '',
+    resumeUrl: profile.resumeUrl ?? ''
+  }
+}
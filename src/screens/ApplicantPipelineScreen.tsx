@@ -0,0 +1,306 @@
+import React, { useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { ArrowLeft, Download, FileText, GripVertical, MessageSquare, User } from 'lucide-react'
+import toast from 'react-hot-toast'
+import AccessDenied from '../components/AccessDenied'
+import Can from '../components/Can'
+import LoadingSpinner from '../components/LoadingSpinner'
+import MessageButton from '../components/messages/MessageButton'
+import { useAuth, useDataStore } from '../context/AppContext'
+import { useApplications } from '../hooks/useApplications'
+import { useRecord } from '../hooks/useRecord'
+import { APPLICATION_STAGE_LABELS, APPLICATION_STAGES, MAX_NOTE_LENGTH } from '../schemas/application'
+import { api, ApiError } from '../services/api'
+import { downloadAttachment } from '../services/uploads'
+import { Application, ApplicationStage } from '../types'
+import { canManage } from '../utils/permissions'
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' })
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+interface ApplicantCardProps {
+  application: Application
+  isSelected: boolean
+  onSelect: () => void
+  onMove: (stage: ApplicationStage) => void
+}
+
+const ApplicantCard: React.FC<ApplicantCardProps> = ({ application, isSelected, onSelect, onMove }) => (
+  <li
+    draggable
+    onDragStart={event => {
+      event.dataTransfer.setData('text/plain', application.id)
+      event.dataTransfer.effectAllowed = 'move'
+    }}
+    className={`bg-white rounded-lg border p-3 shadow-sm cursor-grab active:cursor-grabbing ${
+      isSelected ? 'border-primary-500 ring-1 ring-primary-500' : 'border-gray-200'
+    }`}
+  >
+    <div className="flex items-start space-x-2">
+      <GripVertical size={16} className="mt-0.5 flex-shrink-0 text-gray-300" />
+      <div className="min-w-0 flex-1">
+        <button
+          type="button"
+          onClick={onSelect}
+          className="font-medium text-gray-900 hover:text-primary-600 text-left truncate block w-full"
+        >
+          {application.candidateName}
+        </button>
+        <p className="text-xs text-gray-500">Applied {formatDate(application.createdAt)}</p>
+        {application.notes.length > 0 && (
+          <p className="text-xs text-gray-500 flex items-center mt-1">
+            <MessageSquare size={12} className="mr-1" />
+            {application.notes.length} {application.notes.length === 1 ? 'note' : 'notes'}
+          </p>
+        )}
+        {/* Moving without dragging, e.g. from the keyboard */}
+        <select
+          value={application.stage}
+          onChange={event => onMove(event.target.value as ApplicationStage)}
+          className="mt-2 w-full text-xs border border-gray-200 rounded px-1 py-0.5 text-gray-600"
+          aria-label={`Move ${application.candidateName} to stage`}
+        >
+          {APPLICATION_STAGES.map(stage => (
+            <option key={stage} value={stage}>{APPLICATION_STAGE_LABELS[stage]}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  </li>
+)
+
+interface ApplicantDetailsProps {
+  application: Application
+  onAddNote: (body: string) => Promise<void>
+}
+
+const ApplicantDetails: React.FC<ApplicantDetailsProps> = ({ application, onAddNote }) => {
+  const [note, setNote] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleDownload = async () => {
+    if (!application.resumeAttachmentId) return
+    try {
+      await downloadAttachment({ id: application.resumeAttachmentId, fileName: application.resumeFileName ?? 'resume' })
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Failed to download the resume')
+    }
+  }
+
+  const handleAddNote = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSaving(true)
+    try {
+      await onAddNote(note)
+      setNote('')
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Failed to save the note')
+      console.error('Error adding note:', error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="card mt-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">{application.candidateName}</h2>
+        <div className="flex items-center space-x-4 text-sm">
+          <Link
+            to={`/profiles/${application.profileId}`}
+            className="flex items-center space-x-1 text-primary-600 hover:text-primary-500"
+          >
+            <User size={14} />
+            <span>View profile</span>
+          </Link>
+          {application.resumeAttachmentId && (
+            <button
+              type="button"
+              onClick={handleDownload}
+              className="flex items-center space-x-1 text-primary-600 hover:text-primary-500"
+            >
+              <FileText size={14} />
+              <span>{application.resumeFileName ?? 'Resume'}</span>
+              <Download size={12} />
+            </button>
+          )}
+          <Can permission="message:send">
+            <MessageButton jobId={application.jobId} profileId={application.profileId} label="Message candidate" />
+          </Can>
+        </div>
+      </div>
+
+      <h3 className="text-sm font-semibold text-gray-900 mb-1">Cover note</h3>
+      <p className="text-gray-700 whitespace-pre-wrap mb-6">
+        {application.coverNote ?? <span className="text-gray-500">No cover note.</span>}
+      </p>
+
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">Notes</h3>
+      {application.notes.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-3">No notes yet. Only your team can see notes.</p>
+      ) : (
+        <ul className="space-y-3 mb-4">
+          {application.notes.map(entry => (
+            <li key={entry.id} className="bg-gray-50 rounded-lg p-3 text-sm">
+              <p className="text-gray-800 whitespace-pre-wrap">{entry.body}</p>
+              <p className="text-xs text-gray-500 mt-1">{entry.author} · {formatDateTime(entry.createdAt)}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleAddNote} className="space-y-2">
+        <textarea
+          value={note}
+          onChange={event => setNote(event.target.value)}
+          rows={3}
+          maxLength={MAX_NOTE_LENGTH}
+          className="input-field resize-none"
+          placeholder="Add a note about this candidate"
+          aria-label="New note"
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !note.trim()}
+          className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+        >
+          {isSaving && <LoadingSpinner size="sm" />}
+          <span>Add note</span>
+        </button>
+      </form>
+    </div>
+  )
+}
+
+/**
+ * The applicant pipeline for one job: a column per stage that the recruiter
+ * drags applications between, with the selected application's details and
+ * notes underneath.
+ */
+const ApplicantPipelineScreen: React.FC = () => {
+  const { id = '' } = useParams()
+  const { getJob } = useDataStore()
+  const { user } = useAuth()
+  const { record: job, error: loadError } = useRecord(id, getJob(id), api.jobs.get, 'job')
+  const { applications, isLoading, error, moveTo, addNote } = useApplications(id)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<ApplicationStage | null>(null)
+
+  const move = async (application: Application, stage: ApplicationStage) => {
+    try {
+      await moveTo(application, stage)
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to move the application')
+      console.error('Error moving application:', err)
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent, stage: ApplicationStage) => {
+    event.preventDefault()
+    setDropTarget(null)
+    const application = applications.find(candidate => candidate.id === event.dataTransfer.getData('text/plain'))
+    if (application) move(application, stage)
+  }
+
+  if (loadError) {
+    return (
+      <div className="max-w-2xl mx-auto p-6">
+        <div className="card text-center py-12">
+          <p className="text-gray-600">{loadError}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!job) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (!canManage(user, job, 'job:moderate')) {
+    return <AccessDenied>Only the recruiter who posted this job and moderators can see its applicants.</AccessDenied>
+  }
+
+  const selected = applications.find(application => application.id === selectedId)
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <Link
+        to={`/jobs/${job.id}`}
+        className="inline-flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900 mb-6"
+      >
+        <ArrowLeft size={16} />
+        <span>Back to the posting</span>
+      </Link>
+
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Applicants</h1>
+        <p className="text-gray-600">
+          {job.jobTitle} at {job.companyName} · {applications.length}{' '}
+          {applications.length === 1 ? 'application' : 'applications'}
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <div className="card text-center py-12">
+          <p className="text-gray-600">{error}</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            {APPLICATION_STAGES.map(stage => {
+              const column = applications.filter(application => application.stage === stage)
+              return (
+                <section
+                  key={stage}
+                  onDragOver={event => {
+                    event.preventDefault()
+                    setDropTarget(stage)
+                  }}
+                  onDragLeave={() => setDropTarget(current => (current === stage ? null : current))}
+                  onDrop={event => handleDrop(event, stage)}
+                  className={`rounded-lg p-3 min-h-[12rem] transition-colors duration-200 ${
+                    dropTarget === stage ? 'bg-primary-50 ring-2 ring-primary-300' : 'bg-gray-100'
+                  }`}
+                  aria-label={`${APPLICATION_STAGE_LABELS[stage]} stage`}
+                >
+                  <h2 className="text-sm font-semibold text-gray-700 mb-3 flex items-center justify-between">
+                    <span>{APPLICATION_STAGE_LABELS[stage]}</span>
+                    <span className="px-2 py-0.5 bg-white text-gray-600 rounded-full text-xs">{column.length}</span>
+                  </h2>
+                  <ul className="space-y-2">
+                    {column.map(application => (
+                      <ApplicantCard
+                        key={application.id}
+                        application={application}
+                        isSelected={application.id === selectedId}
+                        onSelect={() => setSelectedId(application.id)}
+                        onMove={next => move(application, next)}
+                      />
+                    ))}
+                  </ul>
+                </section>
+              )
+            })}
+          </div>
+
+          {applications.length === 0 && (
+            <p className="text-center text-gray-600 mt-6">Nobody has applied yet.</p>
+          )}
+
+          {selected && <ApplicantDetails application={selected} onAddNote={body => addNote(selected.id, body)} />}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default ApplicantPipelineScreen
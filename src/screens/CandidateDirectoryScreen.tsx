@@ -0,0 +1,238 @@
+import React, { useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { Briefcase, MapPin, Plus, Search } from 'lucide-react'
+import Can from '../components/Can'
+import LoadingSpinner from '../components/LoadingSpinner'
+import Pagination from '../components/Pagination'
+import ProfileAvatar from '../components/ProfileAvatar'
+import { useDataStore } from '../context/AppContext'
+import { numberParam, useQueryParams } from '../hooks/useQueryParams'
+import { Profile } from '../types'
+import { ProfileSearchQuery, ProfileSort, searchProfiles } from '../utils/profileSearch'
+import { mostCommon } from '../utils/search'
+
+const SORT_OPTIONS: { value: ProfileSort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'experience_high', label: 'Most experience' },
+  { value: 'experience_low', label: 'Least experience' },
+  { value: 'name', label: 'Name' }
+]
+
+// Skill filters offered besides the ones already selected
+const SUGGESTED_SKILL_COUNT = 12
+
+const PAGE_SIZE = 12
+
+const readQuery = (params: URLSearchParams): ProfileSearchQuery => ({
+  text: params.get('q') ?? '',
+  skills: params.getAll('skill'),
+  minYears: numberParam(params.get('minYears')),
+  maxYears: numberParam(params.get('maxYears')),
+  location: params.get('location') ?? '',
+  sort: SORT_OPTIONS.find(option => option.value === params.get('sort'))?.value ?? 'newest',
+  page: numberParam(params.get('page')) ?? 1,
+  pageSize: PAGE_SIZE
+})
+
+const CandidateCard: React.FC<{ profile: Profile }> = ({ profile }) => (
+  <li className="card hover:shadow-md transition-shadow duration-200">
+    <div className="flex items-center space-x-3 mb-3">
+      <ProfileAvatar name={profile.fullName} photo={profile.photo} />
+      <div className="min-w-0">
+        <Link to={`/profiles/${profile.id}`} className="font-semibold text-gray-900 hover:text-primary-600">
+          {profile.fullName}
+        </Link>
+        <p className="text-sm text-gray-600 truncate">{profile.title || 'Professional'}</p>
+      </div>
+    </div>
+    <div className="space-y-1 text-sm text-gray-700">
+      <p className="flex items-center space-x-2">
+        <Briefcase size={14} className="text-gray-400" />
+        <span>{profile.yearsExperience} {profile.yearsExperience === 1 ? 'year' : 'years'} of experience</span>
+      </p>
+      <p className="flex items-center space-x-2">
+        <MapPin size={14} className="text-gray-400" />
+        <span>{profile.location}</span>
+      </p>
+    </div>
+    <div className="flex flex-wrap gap-1 mt-3">
+      {profile.skills.map((skill, index) => (
+        <span key={index} className="px-2 py-1 bg-primary-100 text-primary-700 rounded-full text-xs">
+          {skill}
+        </span>
+      ))}
+    </div>
+  </li>
+)
+
+const CandidateDirectoryScreen: React.FC = () => {
+  const { profiles, isLoading } = useDataStore()
+  const { params, update: updateQuery, toggle, clear } = useQueryParams()
+  const query = useMemo(() => readQuery(params), [params])
+  const result = useMemo(() => searchProfiles(profiles, query), [profiles, query])
+  const skillOptions = useMemo(
+    () => [...new Set([
+      ...(query.skills ?? []),
+      ...mostCommon(profiles.flatMap(profile => profile.skills), SUGGESTED_SKILL_COUNT)
+    ])],
+    [profiles, query.skills]
+  )
+
+  const hasFilters = [...params.keys()].some(key => key !== 'sort' && key !== 'page')
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Candidates</h1>
+          <p className="text-gray-600">Find people by their skills, experience and location</p>
+        </div>
+        <Can permission="profile:create">
+          <Link to="/profile" className="btn-primary flex items-center space-x-2 self-start sm:self-auto">
+            <Plus size={16} />
+            <span>Add Profile</span>
+          </Link>
+        </Can>
+      </div>
+
+      <div className="relative mb-6">
+        <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="search"
+          value={query.text}
+          onChange={event => updateQuery({ q: event.target.value })}
+          className="input-field pl-10"
+          placeholder="Search by name, title or skill"
+          aria-label="Search candidates"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <aside className="card space-y-6 self-start">
+          <div>
+            <h2 className="text-sm font-semibold text-gray-900 mb-2">Years of experience</h2>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                min="0"
+                max="50"
+                value={query.minYears ?? ''}
+                onChange={event => updateQuery({ minYears: event.target.value })}
+                className="input-field"
+                placeholder="Min"
+                aria-label="Minimum years of experience"
+              />
+              <span className="text-gray-400">-</span>
+              <input
+                type="number"
+                min="0"
+                max="50"
+                value={query.maxYears ?? ''}
+                onChange={event => updateQuery({ maxYears: event.target.value })}
+                className="input-field"
+                placeholder="Max"
+                aria-label="Maximum years of experience"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="location-filter" className="block text-sm font-semibold text-gray-900 mb-2">
+              Location
+            </label>
+            <input
+              id="location-filter"
+              type="text"
+              value={query.location}
+              onChange={event => updateQuery({ location: event.target.value })}
+              className="input-field"
+              placeholder="City or country"
+            />
+          </div>
+
+          {skillOptions.length > 0 && (
+            <div>
+              <h2 className="text-sm font-semibold text-gray-900 mb-2">Skills</h2>
+              <div className="flex flex-wrap gap-2">
+                {skillOptions.map(skill => {
+                  const selected = query.skills?.includes(skill)
+                  return (
+                    <button
+                      key={skill}
+                      type="button"
+                      onClick={() => toggle('skill', skill)}
+                      className={`px-2 py-1 rounded-full text-xs border transition-colors duration-200 ${
+                        selected
+                          ? 'bg-primary-600 border-primary-600 text-white'
+                          : 'bg-white border-gray-300 text-gray-700 hover:border-primary-400'
+                      }`}
+                      aria-pressed={selected}
+                    >
+                      {skill}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={() => clear(['sort'])}
+              className="text-sm text-primary-600 hover:text-primary-500"
+            >
+              Clear all filters
+            </button>
+          )}
+        </aside>
+
+        <section className="lg:col-span-3">
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-sm text-gray-600" aria-live="polite">
+              {result.total} {result.total === 1 ? 'candidate' : 'candidates'} found
+            </p>
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>Sort by</span>
+              <select
+                value={query.sort}
+                onChange={event => updateQuery({ sort: event.target.value })}
+                className="input-field w-auto py-1"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {isLoading && profiles.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner />
+            </div>
+          ) : result.items.length === 0 ? (
+            <div className="card text-center py-12">
+              <p className="text-gray-600">
+                {profiles.length === 0
+                  ? 'No profiles have been created yet.'
+                  : 'No candidates match your search. Try removing some filters.'}
+              </p>
+            </div>
+          ) : (
+            <ul className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {result.items.map(profile => <CandidateCard key={profile.id} profile={profile} />)}
+            </ul>
+          )}
+
+          <Pagination
+            page={result.page}
+            pageCount={result.pageCount}
+            onChange={page => updateQuery({ page: String(page) })}
+          />
+        </section>
+      </div>
+    </div>
+  )
+}
+
+export default CandidateDirectoryScreen
@@ -1,179 +1,371 @@
-import React, { useState, useEffect, useRef } from 'react'
+import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Send, Bot, User as UserIcon, RotateCcw, Edit2 } from 'lucide-react'
+import { Send, Bot, User as UserIcon, RotateCcw, RotateCw, Edit2, History, Square } from 'lucide-react'
 import toast from 'react-hot-toast'
 import TypingIndicator from '../components/TypingIndicator'
 import LoadingSpinner from '../components/LoadingSpinner'
-
-interface ChatMessage {
-  id: string
-  type: 'bot' | 'user'
-  content: string
-  timestamp: Date
-  questionIndex?: number
-}
-
-interface UserData {
-  name: string
-  skills: string[]
-  location: string
-  yearsExperience: number
-  jobType: string
+import ChatSessionList from '../components/ChatSessionList'
+import ChatBubble from '../components/chat/ChatBubble'
+import MessageContent from '../components/chat/MessageContent'
+import SaveAlertForm from '../components/SaveAlertForm'
+import { ConversationData, JobPosting, RecruiterData, UserData } from '../types'
+import { api } from '../services/api'
+import { createId } from '../services/repository'
+import { useAuth, useDataStore } from '../context/AppContext'
+import { describeMatch, jobToCriteria, MatchResult } from '../utils/matching'
+import { createFlowEngine, FlowStep, FollowUp, StepInput } from '../chat/flow'
+import { conversationFlow } from '../chat/flows'
+import { toJobPosting } from '../chat/flows/recruiter'
+import { ChatMessage, ChatSession, MessageStatus } from '../chat/types'
+import { ChatSnapshot, useChatSessions } from '../hooks/useChatSessions'
+import { buildSystemPrompt, chatProvider, chatTools, historyFromMessages, runChatTurn } from '../chat/providers'
+import { createChunkBuffer, isAbortError, streamText } from '../chat/streaming'
+import { useAutoScroll } from '../hooks/useAutoScroll'
+
+const engine = createFlowEngine(conversationFlow)
+
+// Questions go to the chat provider instead of being taken as an answer
+const QUESTION = /\?\s*$/
+
+// Worded like a request; only sent to the chat provider when it doesn't answer
+// the current question, so a job title like "Help Desk Technician" still counts
+const REQUEST = /^(what|how|why|who|which|when|where|can|could|would|should|do|does|is|are|show|tell|find|search|list|help)\b/i
+
+const sessionTitle = (answers: Partial<ConversationData>) => {
+  if (answers.role === 'recruiter') return `Hiring: ${answers.jobTitle ?? 'new role'}`
+  if (answers.name) return `${answers.name}'s job search`
+  return 'New conversation'
 }
 
-interface MatchProfile {
-  id: string
-  photo: string
-  name: string
-  title: string
-  experience: string
-  location: string
-  skills: string[]
-}
-
-const questions = [
-  "What's your full name?",
-  "What are your key technical skills? (separate with commas)",
-  "Where are you located? (city, country)",
-  "How many years of professional experience do you have?",
-  "What type of job role are you seeking? (e.g., Full-time, Contract, Remote)"
-]
-
-const ChatbotScreen: React.FC = () => {
+const Chatbot: React.FC = () => {
+  const { createJob } = useDataStore()
+  const { user, can } = useAuth()
+  const userId = user?.id
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [currentInput, setCurrentInput] = useState('')
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
-  const [isTyping, setIsTyping] = useState(false)
-  const [userData, setUserData] = useState<Partial<UserData>>({})
+  const [currentStepId, setCurrentStepId] = useState<string | null>(null)
+  const [followUp, setFollowUp] = useState<FollowUp | null>(null)
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
+  const [answers, setAnswers] = useState<Partial<ConversationData>>({})
   const [isComplete, setIsComplete] = useState(false)
-  const [matches, setMatches] = useState<MatchProfile[]>([])
+  const [matches, setMatches] = useState<MatchResult[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
   const [editValue, setEditValue] = useState('')
-  const messagesEndRef = useRef<HTMLDivElement>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const { containerRef: messageListRef, onScroll: handleMessageListScroll, stickToBottom } =
+    useAutoScroll<HTMLDivElement>(messages)
+  const {
+    activeSessionId,
+    sessions,
+    isLoadingSessions,
+    refreshSessions,
+    loadSession,
+    saveSession,
+    openSession,
+    detachSession,
+    deleteSession
+  } = useChatSessions(userId)
+
+  // Timers and async work from a previous conversation check this token and bail out
+  const conversationRef = useRef(0)
+  const timersRef = useRef<ReturnType<typeof setTimeout>[]>([])
+  const unsavedSnapshotRef = useRef<ChatSnapshot | null>(null)
+  const streamAbortRef = useRef<AbortController | null>(null)
+
+  const flushSnapshot = useCallback(() => {
+    const snapshot = unsavedSnapshotRef.current
+    if (!snapshot) return
+    unsavedSnapshotRef.current = null
+    saveSession(snapshot).catch(error => {
+      console.error('Error saving chat session:', error)
+    })
+  }, [saveSession])
+
+  const endConversation = useCallback(() => {
+    conversationRef.current++
+    streamAbortRef.current?.abort()
+    streamAbortRef.current = null
+    timersRef.current.forEach(clearTimeout)
+    timersRef.current = []
+  }, [])
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+  // The conversation starts once, on mount, with whatever the first render had
+  const startConversation = () => {
+    if (activeSessionId) {
+      restoreSession(activeSessionId)
+    } else {
+      initializeChat()
+    }
   }
+  const startConversationRef = useRef(startConversation)
 
   useEffect(() => {
-    scrollToBottom()
-  }, [messages])
+    startConversationRef.current()
+    return () => {
+      flushSnapshot()
+      endConversation()
+    }
+  }, [flushSnapshot, endConversation])
 
+  // Autosave the conversation once a signed-in user has answered something
   useEffect(() => {
-    initializeChat()
-  }, [])
+    if (!userId || !messages.some(message => message.type === 'user')) return
+
+    unsavedSnapshotRef.current = {
+      title: sessionTitle(answers),
+      messages,
+      stepId: currentStepId,
+      followUp,
+      answers,
+      matches,
+      isComplete
+    }
+    const timer = setTimeout(flushSnapshot, 500)
+    return () => clearTimeout(timer)
+  }, [userId, messages, answers, currentStepId, followUp, matches, isComplete, flushSnapshot])
+
+  const schedule = (callback: () => void, delay: number) => {
+    const token = conversationRef.current
+    timersRef.current.push(setTimeout(() => {
+      if (token === conversationRef.current) callback()
+    }, delay))
+  }
+
+  const resetState = () => {
+    stickToBottom()
+    setMessages([])
+    setCurrentInput('')
+    setCurrentStepId(null)
+    setFollowUp(null)
+    setStreamingMessageId(null)
+    setAnswers({})
+    setIsComplete(false)
+    setMatches([])
+    setIsLoading(false)
+    setEditingMessageId(null)
+    setEditValue('')
+  }
 
   const initializeChat = () => {
     // Initial greeting
     const initialMessage: ChatMessage = {
       id: '1',
       type: 'bot',
-      content: "Hi! I'm here to help you find the perfect job match. Let's start with a few questions.",
-      timestamp: new Date()
+      kind: 'text',
+      content: "Hi! I'm here to help you find the perfect job match, or the right candidates for your role. Let's start with a few questions.",
+      timestamp: new Date().toISOString()
     }
     setMessages([initialMessage])
     
     // Ask first question after a delay
-    setTimeout(() => {
-      askQuestion(0)
+    const firstStep = engine.nextStep({})
+    if (!firstStep) return
+    setCurrentStepId(firstStep.id)
+    schedule(() => {
+      askQuestion(firstStep, {})
     }, 1500)
   }
 
+  const applySession = (session: ChatSession) => {
+    stickToBottom()
+    // A reply that was still streaming when the session was saved is only partial
+    setMessages(session.messages.map((message): ChatMessage =>
+      message.status === 'streaming' ? { ...message, status: 'stopped' } : message
+    ))
+    setAnswers(session.answers)
+    setCurrentStepId(session.stepId)
+    setFollowUp(session.followUp ?? null)
+    setMatches(session.matches)
+    setIsComplete(session.isComplete)
+
+    // Re-ask the current question if the user left before it was shown
+    const step = session.stepId ? engine.getStep(session.stepId) : undefined
+    const lastMessage = session.messages[session.messages.length - 1]
+    if (step && !(lastMessage?.type === 'bot' && lastMessage.stepId === step.id)) {
+      askQuestion(step, session.answers)
+    }
+  }
+
+  const restoreSession = async (sessionId: string) => {
+    const token = conversationRef.current
+    try {
+      const session = await loadSession(sessionId)
+      if (token === conversationRef.current) applySession(session)
+    } catch (error) {
+      console.error('Error restoring chat session:', error)
+      if (token !== conversationRef.current) return
+      detachSession()
+      initializeChat()
+    }
+  }
+
   const startOver = () => {
-    setMessages([])
-    setCurrentInput('')
-    setCurrentQuestionIndex(0)
-    setIsTyping(false)
-    setUserData({})
-    setIsComplete(false)
-    setMatches([])
-    setIsLoading(false)
-    setEditingMessageId(null)
-    setEditValue('')
+    flushSnapshot()
+    endConversation()
+    detachSession()
+    resetState()
     
     // Restart the conversation
-    setTimeout(() => {
+    schedule(() => {
       initializeChat()
     }, 500)
     
     toast.success('Chat restarted!')
   }
 
-  const askQuestion = (questionIndex: number) => {
-    if (questionIndex >= questions.length) return
+  const toggleHistory = () => {
+    if (!showHistory) {
+      flushSnapshot()
+      refreshSessions().catch(error => {
+        toast.error('Failed to load past conversations')
+        console.error('Error loading chat sessions:', error)
+      })
+    }
+    setShowHistory(prev => !prev)
+  }
 
-    setIsTyping(true)
-    setTimeout(() => {
-      const questionMessage: ChatMessage = {
-        id: Date.now().toString(),
-        type: 'bot',
-        content: questions[questionIndex],
-        timestamp: new Date()
+  const handleOpenSession = (session: ChatSession) => {
+    setShowHistory(false)
+    if (session.id === activeSessionId) return
+
+    flushSnapshot()
+    endConversation()
+    resetState()
+    openSession(session)
+    applySession(session)
+  }
+
+  const handleDeleteSession = async (session: ChatSession) => {
+    try {
+      const wasActive = session.id === activeSessionId
+      if (wasActive) {
+        unsavedSnapshotRef.current = null
+        endConversation()
       }
-      setMessages(prev => [...prev, questionMessage])
-      setIsTyping(false)
-    }, 1000)
+      await deleteSession(session.id)
+      if (wasActive) {
+        resetState()
+        initializeChat()
+      }
+      toast.success('Conversation deleted')
+    } catch (error) {
+      toast.error('Failed to delete conversation')
+      console.error('Error deleting chat session:', error)
+    }
   }
 
-  const validateResponse = (response: string, questionIndex: number): boolean => {
-    const trimmed = response.trim()
-    
-    switch (questionIndex) {
-      case 0: // Name
-        return trimmed.length >= 2
-      case 1: // Skills
-        return trimmed.length > 0
-      case 2: // Location
-        return trimmed.includes(',') && trimmed.length >= 3
-      case 3: // Experience
-        const years = parseInt(trimmed)
-        return !isNaN(years) && years >= 0 && years <= 50
-      case 4: // Job type
-        return trimmed.length > 0
-      default:
-        return true
+  /**
+   * Adds a bot message and streams its content in. Resolves with true when the
+   * message completed, false when it was stopped, failed or abandoned.
+   */
+  const streamMessage = async (
+    message: ChatMessage,
+    produce: (append: (chunk: string) => void, signal: AbortSignal) => Promise<void>
+  ) => {
+    const token = conversationRef.current
+    const controller = new AbortController()
+    streamAbortRef.current = controller
+    setMessages(prev => [...prev, { ...message, status: 'streaming' }])
+    setStreamingMessageId(message.id)
+
+    const buffer = createChunkBuffer(text => {
+      if (token !== conversationRef.current) return
+      setMessages(prev => prev.map(existing =>
+        existing.id === message.id ? { ...existing, content: existing.content + text } : existing
+      ))
+    })
+
+    let status: MessageStatus | undefined
+    try {
+      await produce(buffer.push, controller.signal)
+    } catch (error) {
+      status = controller.signal.aborted || isAbortError(error) ? 'stopped' : 'failed'
+      if (status === 'failed') console.error('Error streaming chat message:', error)
+    } finally {
+      buffer.flush()
+      if (streamAbortRef.current === controller) streamAbortRef.current = null
     }
+
+    if (token !== conversationRef.current) return false
+    setMessages(prev => prev.map(existing =>
+      existing.id === message.id ? { ...existing, status } : existing
+    ))
+    setStreamingMessageId(null)
+    if (status === 'failed') toast.error("Sorry, I couldn't finish that reply.")
+    return status === undefined
   }
 
-  const processResponse = (response: string, questionIndex: number) => {
-    const newUserData = { ...userData }
-    
-    switch (questionIndex) {
-      case 0:
-        newUserData.name = response.trim()
-        break
-      case 1:
-        newUserData.skills = response.split(',').map(skill => skill.trim()).filter(Boolean)
-        break
-      case 2:
-        newUserData.location = response.trim()
-        break
-      case 3:
-        newUserData.yearsExperience = parseInt(response.trim())
-        break
-      case 4:
-        newUserData.jobType = response.trim()
-        break
+  // Streams a canned bot message, offering `input` as a way to answer once it's shown
+  const streamBotText = (text: string, stepId?: string, input?: StepInput) =>
+    streamMessage(
+      {
+        id: createId(),
+        type: 'bot',
+        ...(input ?? { kind: 'text' }),
+        content: '',
+        timestamp: new Date().toISOString(),
+        stepId
+      },
+      async (append, signal) => {
+        for await (const token of streamText(text, { delay: 30, signal })) append(token)
+      }
+    )
+
+  const stopStreaming = () => {
+    streamAbortRef.current?.abort()
+  }
+
+  const askQuestion = (step: FlowStep<ConversationData>, data: Partial<ConversationData>) =>
+    streamBotText(engine.promptFor(step, data), step.id, step.input)
+
+  const askFollowUp = (question: FollowUp) => {
+    setFollowUp(question)
+    return streamBotText(question.question, question.stepId, {
+      kind: 'quick_replies',
+      options: question.options.map(option => option.label)
+    })
+  }
+
+  /**
+   * Streams the message again after it was stopped or failed: generated
+   * replies are regenerated, questions are asked again.
+   */
+  const retryMessage = (message: ChatMessage) => {
+    const index = messages.findIndex(existing => existing.id === message.id)
+    const transcript = messages.slice(0, index)
+    setMessages(prev => prev.filter(existing => existing.id !== message.id))
+
+    const userMessage = message.replyTo
+      ? transcript.find(existing => existing.id === message.replyTo)
+      : undefined
+    if (userMessage) {
+      generateReply(userMessage, transcript)
+      return
     }
-    
-    setUserData(newUserData)
-    return newUserData
+
+    if (followUp && followUp.stepId === message.stepId) {
+      askFollowUp(followUp)
+      return
+    }
+    const step = message.stepId ? engine.getStep(message.stepId) : undefined
+    if (step) askQuestion(step, answers)
   }
 
-  const handleEdit = (messageId: string, currentContent: string, questionIndex?: number) => {
+  const handleEdit = (messageId: string, currentContent: string) => {
     setEditingMessageId(messageId)
     setEditValue(currentContent)
   }
 
-  const saveEdit = async (messageId: string, questionIndex?: number) => {
+  const saveEdit = async (messageId: string, stepId?: string) => {
     if (!editValue.trim()) {
       toast.error('Please provide a valid response')
       return
     }
 
-    if (questionIndex !== undefined && !validateResponse(editValue, questionIndex)) {
-      toast.error('Please provide a valid response')
+    const result = stepId ? engine.submit(stepId, editValue, answers) : null
+    if (result && !result.success) {
+      toast.error(result.error)
       return
     }
 
@@ -185,8 +377,8 @@ const ChatbotScreen: React.FC = () => {
     ))
 
     // If this was a user response to a question, update the user data
-    if (questionIndex !== undefined) {
-      processResponse(editValue, questionIndex)
+    if (result?.success) {
+      setAnswers(result.data)
     }
 
     setEditingMessageId(null)
@@ -199,90 +391,190 @@ const ChatbotScreen: React.FC = () => {
     setEditValue('')
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    if (!currentInput.trim()) return
+    submitAnswer(currentInput)
+  }
 
-    if (!validateResponse(currentInput, currentQuestionIndex)) {
-      toast.error('Please provide a valid response')
+  /**
+   * Handles an answer, typed or picked from a question's quick replies.
+   */
+  const submitAnswer = async (text: string) => {
+    if (!text.trim()) return
+
+    // Once the questions are done, or when the user asks something, chat freely
+    if (!currentStepId || QUESTION.test(text.trim())) {
+      setCurrentInput('')
+      await askProvider(text)
+      return
+    }
+
+    const result = followUp
+      ? engine.answerFollowUp(followUp, text, answers)
+      : engine.submit(currentStepId, text, answers)
+    if (!result.success && !result.followUp) {
+      if (REQUEST.test(text.trim())) {
+        setCurrentInput('')
+        await askProvider(text)
+      } else {
+        toast.error(result.error)
+      }
       return
     }
 
     // Add user message
     const userMessage: ChatMessage = {
-      id: Date.now().toString(),
+      id: createId(),
       type: 'user',
-      content: currentInput,
-      timestamp: new Date(),
-      questionIndex: currentQuestionIndex
+      kind: 'text',
+      content: text,
+      timestamp: new Date().toISOString(),
+      stepId: currentStepId
     }
     setMessages(prev => [...prev, userMessage])
-
-    // Process the response
-    const updatedUserData = processResponse(currentInput, currentQuestionIndex)
     setCurrentInput('')
 
+    // The answer could mean several things, so ask which one was meant
+    if (!result.success) {
+      if (result.followUp) askFollowUp(result.followUp)
+      return
+    }
+
+    setFollowUp(null)
+    setAnswers(result.data)
+
     // Check if we're done with questions
-    if (currentQuestionIndex >= questions.length - 1) {
+    const next = engine.nextStep(result.data, currentStepId)
+    if (!next) {
+      setCurrentStepId(null)
       setIsComplete(true)
-      await submitUserData(updatedUserData as UserData)
+      if (result.data.role === 'recruiter') {
+        await postJobAndFindCandidates(result.data as RecruiterData)
+      } else {
+        await submitUserData(result.data as UserData)
+      }
     } else {
       // Ask next question
-      setCurrentQuestionIndex(prev => prev + 1)
-      setTimeout(() => {
-        askQuestion(currentQuestionIndex + 1)
+      setCurrentStepId(next.id)
+      schedule(() => {
+        askQuestion(next, result.data)
       }, 500)
     }
   }
 
+  /**
+   * Sends a free-form message to the chat provider, then picks the questions
+   * back up where the user left them.
+   */
+  const askProvider = async (text: string) => {
+    const userMessage: ChatMessage = {
+      id: createId(),
+      type: 'user',
+      kind: 'text',
+      content: text,
+      timestamp: new Date().toISOString()
+    }
+    setMessages(prev => [...prev, userMessage])
+
+    const result = await generateReply(userMessage, [...messages, userMessage])
+    if (!result.completed) return
+
+    const step = currentStepId ? engine.getStep(currentStepId) : undefined
+    if (step) {
+      setFollowUp(null)
+      askQuestion(step, result.data)
+    }
+  }
+
+  /**
+   * Streams the provider's reply to `userMessage`. Tools may update the
+   * collected answers along the way; resolves with the latest answers.
+   */
+  const generateReply = async (userMessage: ChatMessage, transcript: ChatMessage[]) => {
+    const token = conversationRef.current
+    let latest = answers
+    let foundJobs: JobPosting[] = []
+
+    const completed = await streamMessage(
+      {
+        id: createId(),
+        type: 'bot',
+        kind: 'text',
+        content: '',
+        timestamp: new Date().toISOString(),
+        replyTo: userMessage.id
+      },
+      async (append, signal) => {
+        await runChatTurn({
+          provider: chatProvider,
+          systemPrompt: buildSystemPrompt(answers),
+          history: historyFromMessages(transcript),
+          tools: chatTools,
+          context: {
+            getData: () => latest,
+            updateData: data => {
+              latest = data
+              if (token === conversationRef.current) setAnswers(data)
+            },
+            showJobs: jobs => {
+              foundJobs = jobs
+            }
+          },
+          signal,
+          onToken: append
+        })
+      }
+    )
+    // Jobs the provider looked up are shown as cards below its reply
+    if (completed && foundJobs.length > 0) {
+      setMessages(prev => [...prev, ...jobCards(foundJobs)])
+    }
+    return { completed, data: latest }
+  }
+
+  const jobCards = (jobs: JobPosting[]): ChatMessage[] =>
+    jobs.map(job => ({
+      id: createId(),
+      type: 'bot',
+      kind: 'job_card',
+      job,
+      content: `${job.jobTitle} at ${job.companyName} (${job.location})`,
+      timestamp: new Date().toISOString()
+    }))
+
+  const showMatches = (results: MatchResult[], introduction: string, emptyMessage: string, before: ChatMessage[] = []) => {
+    setMatches(results)
+
+    const intro: ChatMessage = {
+      id: createId(),
+      type: 'bot',
+      kind: 'text',
+      content: results.length > 0 ? introduction : emptyMessage,
+      timestamp: new Date().toISOString()
+    }
+    const cards: ChatMessage[] = results.map(match => ({
+      id: createId(),
+      type: 'bot',
+      kind: 'profile_card',
+      match,
+      content: describeMatch(match),
+      timestamp: new Date().toISOString()
+    }))
+    setMessages(prev => [...prev, ...before, intro, ...cards])
+  }
+
   const submitUserData = async (data: UserData) => {
+    const token = conversationRef.current
     setIsLoading(true)
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      // Mock response with sample profiles
-      const mockMatches: MatchProfile[] = [
-        {
-          id: '1',
-          photo: 'https://images.pexels.com/photos/2379004/pexels-photo-2379004.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&fit=crop',
-          name: 'Sarah Johnson',
-          title: 'Senior Frontend Developer',
-          experience: '5 years',
-          location: 'San Francisco, CA',
-          skills: ['React', 'TypeScript', 'Node.js']
-        },
-        {
-          id: '2',
-          photo: 'https://images.pexels.com/photos/1222271/pexels-photo-1222271.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&fit=crop',
-          name: 'Michael Chen',
-          title: 'Full Stack Engineer',
-          experience: '7 years',
-          location: 'New York, NY',
-          skills: ['Python', 'React', 'AWS']
-        },
-        {
-          id: '3',
-          photo: 'https://images.pexels.com/photos/1239291/pexels-photo-1239291.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&fit=crop',
-          name: 'Emily Rodriguez',
-          title: 'UX/UI Designer',
-          experience: '4 years',
-          location: 'Austin, TX',
-          skills: ['Figma', 'Design Systems', 'User Research']
-        }
-      ]
-      
-      setMatches(mockMatches)
-      
-      const successMessage: ChatMessage = {
-        id: Date.now().toString(),
-        type: 'bot',
-        content: `Perfect! Based on your profile, I found ${mockMatches.length} potential matches. Here are some professionals who might be great connections for you:`,
-        timestamp: new Date()
-      }
-      setMessages(prev => [...prev, successMessage])
-      
-      toast.success('Profile matches found!')
+      const results = await api.matches.find(data)
+      if (token !== conversationRef.current) return
+      showMatches(
+        results,
+        `Perfect! Based on your profile, I found ${results.length} potential matches. Here are some professionals who might be great connections for you:`,
+        "I couldn't find anyone who fits your profile closely enough yet. Try broadening your skills or job type."
+      )
+      if (results.length > 0) toast.success('Profile matches found!')
     } catch (error) {
       toast.error('Failed to find matches. Please try again.')
       console.error('Error submitting user data:', error)
@@ -291,6 +583,56 @@ const ChatbotScreen: React.FC = () => {
     }
   }
 
+  const postJobAndFindCandidates = async (data: RecruiterData) => {
+    const token = conversationRef.current
+    setIsLoading(true)
+
+    // Only employer accounts can publish, everyone else still sees who would fit
+    if (!user || !can('job:create')) {
+      try {
+        const results = await api.matches.find(jobToCriteria(data))
+        if (token !== conversationRef.current) return
+        showMatches(
+          results,
+          `Log in with an employer account to publish this posting. Meanwhile, I found ${results.length} candidates who could be a good fit:`,
+          'Log in with an employer account to publish this posting. No stored candidates match it closely yet.'
+        )
+      } catch (error) {
+        toast.error('Failed to find candidates. Please try again.')
+        console.error('Error finding candidates from chat:', error)
+      } finally {
+        setIsLoading(false)
+      }
+      return
+    }
+
+    try {
+      const job = await createJob(toJobPosting(data))
+      toast.success('Job posted successfully!')
+
+      const results = await api.matches.find(jobToCriteria(job))
+      if (token !== conversationRef.current) return
+      showMatches(
+        results,
+        `Your ${job.jobTitle} posting is live! I found ${results.length} candidates who could be a good fit:`,
+        `Your ${job.jobTitle} posting is live! No stored candidates match it closely yet, but they will be able to find it on the jobs page.`,
+        jobCards([job])
+      )
+    } catch (error) {
+      toast.error('Failed to post job. Please try again.')
+      console.error('Error posting job from chat:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // The question waiting for an answer, whose quick replies can be tapped
+  const lastMessage = messages[messages.length - 1]
+  const activeQuestionId =
+    lastMessage?.type === 'bot' && !lastMessage.status && lastMessage.stepId && lastMessage.stepId === currentStepId
+      ? lastMessage.id
+      : null
+
   return (
     <div className="max-w-4xl mx-auto p-4 h-screen flex flex-col">
       <div className="bg-gradient-to-r from-chatbot-500 to-primary-600 text-white p-6 rounded-t-xl">
@@ -303,94 +645,131 @@ const ChatbotScreen: React.FC = () => {
             </div>
           </div>
           
-          {/* Start Over Button */}
-          <button
-            onClick={startOver}
-            className="flex items-center space-x-2 px-4 py-2 bg-white/20 hover:bg-white/30 rounded-lg transition-colors duration-200"
-            title="Start Over"
-          >
-            <RotateCcw size={16} />
-            <span className="hidden sm:inline">Start Over</span>
-          </button>
+          <div className="flex items-center space-x-2">
+            {user && (
+              <button
+                onClick={toggleHistory}
+                className="flex items-center space-x-2 px-4 py-2 bg-white/20 hover:bg-white/30 rounded-lg transition-colors duration-200"
+                title="Past conversations"
+              >
+                <History size={16} />
+                <span className="hidden sm:inline">History</span>
+              </button>
+            )}
+
+            {/* Start Over Button */}
+            <button
+              onClick={startOver}
+              className="flex items-center space-x-2 px-4 py-2 bg-white/20 hover:bg-white/30 rounded-lg transition-colors duration-200"
+              title="Start Over"
+            >
+              <RotateCcw size={16} />
+              <span className="hidden sm:inline">Start Over</span>
+            </button>
+          </div>
         </div>
       </div>
 
-      <div className="flex-1 bg-white rounded-b-xl shadow-lg overflow-hidden flex flex-col">
-        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+      <div className="relative flex-1 bg-white rounded-b-xl shadow-lg overflow-hidden flex flex-col">
+        {showHistory && (
+          <ChatSessionList
+            sessions={sessions}
+            activeSessionId={activeSessionId}
+            isLoading={isLoadingSessions}
+            onOpen={handleOpenSession}
+            onDelete={handleDeleteSession}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
+        <div
+          ref={messageListRef}
+          onScroll={handleMessageListScroll}
+          className="flex-1 overflow-y-auto p-6 space-y-4"
+        >
           <AnimatePresence>
-            {messages.map((message) => (
+            {messages.filter(message => message.content || message.status !== 'streaming').map((message) => (
               <motion.div
                 key={message.id}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -20 }}
-                className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
               >
-                <div className={`flex items-start space-x-3 max-w-xs sm:max-w-md ${
-                  message.type === 'user' ? 'flex-row-reverse space-x-reverse' : ''
-                }`}>
-                  <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
-                    message.type === 'user' 
-                      ? 'bg-primary-600 text-white' 
-                      : 'bg-chatbot-500 text-white'
-                  }`}>
-                    {message.type === 'user' ? <UserIcon size={16} /> : <Bot size={16} />}
-                  </div>
-                  
-                  <div className="flex-1">
-                    {editingMessageId === message.id ? (
-                      <div className="space-y-2">
-                        <input
-                          type="text"
-                          value={editValue}
-                          onChange={(e) => setEditValue(e.target.value)}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                          autoFocus
-                        />
-                        <div className="flex space-x-2">
-                          <button
-                            onClick={() => saveEdit(message.id, message.questionIndex)}
-                            className="px-3 py-1 bg-primary-600 text-white text-sm rounded hover:bg-primary-700"
-                          >
-                            Save
-                          </button>
-                          <button
-                            onClick={cancelEdit}
-                            className="px-3 py-1 bg-gray-300 text-gray-700 text-sm rounded hover:bg-gray-400"
-                          >
-                            Cancel
-                          </button>
-                        </div>
+                <ChatBubble
+                  isOwn={message.type === 'user'}
+                  avatar={
+                    <div className={`w-8 h-8 rounded-full flex items-center justify-center text-white ${
+                      message.type === 'user' ? 'bg-primary-600' : 'bg-chatbot-500'
+                    }`}>
+                      {message.type === 'user' ? <UserIcon size={16} /> : <Bot size={16} />}
+                    </div>
+                  }
+                >
+                  {editingMessageId === message.id ? (
+                    <div className="space-y-2">
+                      <input
+                        type="text"
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        autoFocus
+                      />
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => saveEdit(message.id, message.stepId)}
+                          className="px-3 py-1 bg-primary-600 text-white text-sm rounded hover:bg-primary-700"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={cancelEdit}
+                          className="px-3 py-1 bg-gray-300 text-gray-700 text-sm rounded hover:bg-gray-400"
+                        >
+                          Cancel
+                        </button>
                       </div>
-                    ) : (
-                      <div className="group relative">
-                        <div className={`p-3 rounded-lg ${
-                          message.type === 'user'
-                            ? 'bg-primary-600 text-white'
-                            : 'bg-gray-100 text-gray-900'
-                        }`}>
-                          <p className="text-sm">{message.content}</p>
-                        </div>
-                        
-                        {/* Edit button for user messages */}
-                        {message.type === 'user' && !isComplete && (
+                    </div>
+                  ) : (
+                    <div className="group relative">
+                      <MessageContent
+                        message={message}
+                        isActive={message.id === activeQuestionId}
+                        onAnswer={submitAnswer}
+                      />
+
+                      {/* Partial or failed replies can be generated again */}
+                      {(message.status === 'stopped' || message.status === 'failed') && (
+                        <div className="flex items-center space-x-2 mt-1 text-xs text-gray-500">
+                          <span>{message.status === 'failed' ? 'Reply failed' : 'Stopped'}</span>
                           <button
-                            onClick={() => handleEdit(message.id, message.content, message.questionIndex)}
-                            className="absolute -right-8 top-1/2 transform -translate-y-1/2 opacity-0 group-hover:opacity-100 p-1 bg-gray-200 hover:bg-gray-300 rounded-full transition-all duration-200"
-                            title="Edit response"
+                            onClick={() => retryMessage(message)}
+                            disabled={streamingMessageId !== null}
+                            className="flex items-center space-x-1 text-chatbot-600 hover:text-chatbot-700 disabled:opacity-50"
                           >
-                            <Edit2 size={12} />
+                            <RotateCw size={12} />
+                            <span>Retry</span>
                           </button>
-                        )}
-                      </div>
-                    )}
-                  </div>
-                </div>
+                        </div>
+                      )}
+                      
+                      {/* Edit button for user messages */}
+                      {message.type === 'user' && !isComplete && (
+                        <button
+                          onClick={() => handleEdit(message.id, message.content)}
+                          className="absolute -right-8 top-1/2 transform -translate-y-1/2 opacity-0 group-hover:opacity-100 p-1 bg-gray-200 hover:bg-gray-300 rounded-full transition-all duration-200"
+                          title="Edit response"
+                        >
+                          <Edit2 size={12} />
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </ChatBubble>
               </motion.div>
             ))}
           </AnimatePresence>
 
-          {isTyping && (
+          {streamingMessageId && !messages.find(message => message.id === streamingMessageId)?.content && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -408,81 +787,83 @@ const ChatbotScreen: React.FC = () => {
             >
               <div className="flex items-center space-x-2">
                 <LoadingSpinner />
-                <span className="text-gray-600">Finding your matches...</span>
+                <span className="text-gray-600">
+                  {answers.role === 'recruiter' ? 'Posting your job and finding candidates...' : 'Finding your matches...'}
+                </span>
               </div>
             </motion.div>
           )}
 
-          {matches.length > 0 && (
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mt-6"
-            >
-              {matches.map((profile) => (
-                <div key={profile.id} className="card hover:shadow-md transition-shadow duration-200">
-                  <div className="flex items-center space-x-3 mb-3">
-                    <img
-                      src={profile.photo}
-                      alt={profile.name}
-                      className="w-12 h-12 rounded-full object-cover"
-                    />
-                    <div>
-                      <h3 className="font-semibold text-gray-900">{profile.name}</h3>
-                      <p className="text-sm text-gray-600">{profile.title}</p>
-                    </div>
-                  </div>
-                  <div className="space-y-2 text-sm">
-                    <p><span className="font-medium">Experience:</span> {profile.experience}</p>
-                    <p><span className="font-medium">Location:</span> {profile.location}</p>
-                    <div>
-                      <span className="font-medium">Skills:</span>
-                      <div className="flex flex-wrap gap-1 mt-1">
-                        {profile.skills.map((skill, index) => (
-                          <span
-                            key={index}
-                            className="px-2 py-1 bg-primary-100 text-primary-700 rounded-full text-xs"
-                          >
-                            {skill}
-                          </span>
-                        ))}
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </motion.div>
+          {/* Finished job seekers can keep getting jobs like their matches */}
+          {isComplete && !isLoading && answers.role === 'job_seeker' && can('alert:create') && (
+            <SaveAlertForm
+              key={activeSessionId ?? 'new'}
+              defaultName={`${answers.jobType ?? 'New'} jobs in ${answers.location ?? 'any location'}`}
+              criteria={{
+                name: answers.name ?? '',
+                skills: answers.skills ?? [],
+                location: answers.location ?? '',
+                yearsExperience: answers.yearsExperience ?? 0,
+                jobType: answers.jobType ?? ''
+              }}
+              className="card"
+            />
           )}
-
-          <div ref={messagesEndRef} />
         </div>
 
-        {!isComplete && (
-          <div className="border-t border-gray-200 p-4">
-            <form onSubmit={handleSubmit} className="flex space-x-2">
-              <input
-                type="text"
-                value={currentInput}
-                onChange={(e) => setCurrentInput(e.target.value)}
-                placeholder="Type your answer..."
-                className="flex-1 input-field"
-                disabled={isTyping}
-                aria-label="Chat input"
-              />
+        <div className="border-t border-gray-200 p-4">
+          <form onSubmit={handleSubmit} className="flex space-x-2">
+            <input
+              type="text"
+              value={currentInput}
+              onChange={(e) => setCurrentInput(e.target.value)}
+              placeholder={isComplete ? 'Ask me anything...' : 'Type your answer or ask a question...'}
+              className="flex-1 input-field"
+              disabled={streamingMessageId !== null}
+              aria-label="Chat input"
+            />
+            {streamingMessageId ? (
+              <button
+                type="button"
+                onClick={stopStreaming}
+                className="btn-secondary flex items-center space-x-2"
+                aria-label="Stop response"
+              >
+                <Square size={16} />
+                <span className="hidden sm:inline">Stop</span>
+              </button>
+            ) : (
               <button
                 type="submit"
-                disabled={!currentInput.trim() || isTyping}
+                disabled={!currentInput.trim()}
                 className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 aria-label="Send message"
               >
                 <Send size={16} />
               </button>
-            </form>
-          </div>
-        )}
+            )}
+          </form>
+        </div>
       </div>
     </div>
   )
 }
 
+/**
+ * The chatbot, with a fresh conversation for each account: logging in or out
+ * starts over rather than carrying the last conversation across.
+ */
+const ChatbotScreen: React.FC = () => {
+  const { user, sessionChecked } = useAuth()
+
+  if (!sessionChecked) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+  return <Chatbot key={user?.id ?? 'guest'} />
+}
+
 export default ChatbotScreen
\ No newline at end of file
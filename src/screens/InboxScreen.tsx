@@ -0,0 +1,54 @@
+import React from 'react'
+import { useParams } from 'react-router-dom'
+import { MessageSquare } from 'lucide-react'
+import LoadingSpinner from '../components/LoadingSpinner'
+import ConversationView from '../components/messages/ConversationView'
+import ThreadList from '../components/messages/ThreadList'
+import { useAuth } from '../context/AppContext'
+import { useThreads } from '../hooks/useThreads'
+
+/**
+ * Direct messages between recruiters and candidates: conversations on the
+ * left, the open one on the right. On small screens only one shows at a time.
+ */
+const InboxScreen: React.FC = () => {
+  const { threadId } = useParams<{ threadId: string }>()
+  const { user } = useAuth()
+  const { threads, unreadCount, isLoading, error } = useThreads()
+
+  return (
+    <div className="max-w-6xl mx-auto p-4 sm:p-6">
+      <div className="mb-4">
+        <h1 className="text-3xl font-bold text-gray-900 mb-1">Messages</h1>
+        <p className="text-gray-600">
+          {unreadCount > 0 ? `${unreadCount} unread` : 'Talk to recruiters and candidates about a job'}
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg overflow-hidden flex h-[calc(100vh-14rem)] min-h-[24rem]">
+        <aside className={`w-full md:w-80 md:flex-shrink-0 border-r border-gray-200 overflow-y-auto ${threadId ? 'hidden md:block' : ''}`}>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-gray-600 text-center py-6 px-4">{error}</p>
+          ) : (
+            <ThreadList threads={threads} activeThreadId={threadId} accountId={user?.id} />
+          )}
+        </aside>
+
+        {threadId ? (
+          <ConversationView key={threadId} threadId={threadId} />
+        ) : (
+          <div className="hidden md:flex flex-1 flex-col items-center justify-center text-center p-6 text-gray-500">
+            <MessageSquare size={32} className="text-gray-300 mb-3" />
+            <p>Pick a conversation, or message someone from an application or a candidate shortlist.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default InboxScreen
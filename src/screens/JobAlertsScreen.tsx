@@ -0,0 +1,128 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Bell, BellRing, Clock, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import LoadingSpinner from '../components/LoadingSpinner'
+import { useJobAlerts } from '../hooks/useJobAlerts'
+import { ALERT_FREQUENCIES, ALERT_FREQUENCY_LABELS } from '../schemas/alert'
+import { ApiError } from '../services/api'
+import { AlertFrequency, JobAlert } from '../types'
+import { describeAlert } from '../utils/jobAlerts'
+
+/**
+ * A candidate's saved searches: how often each one reports new jobs, and
+ * a way to stop the ones they no longer need.
+ */
+const JobAlertsScreen: React.FC = () => {
+  const { alerts, isLoading, error, update, remove } = useJobAlerts()
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const handleFrequencyChange = async (alert: JobAlert, frequency: AlertFrequency) => {
+    setBusyId(alert.id)
+    try {
+      await update(alert.id, { frequency })
+      toast.success(frequency === 'instant' ? 'You will hear about new jobs right away' : 'New jobs will arrive in a daily digest')
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to update the alert')
+      console.error('Error updating job alert:', err)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (alert: JobAlert) => {
+    if (!window.confirm(`Delete the alert "${alert.name}"?`)) return
+
+    setBusyId(alert.id)
+    try {
+      await remove(alert.id)
+      toast.success('Alert deleted')
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to delete the alert')
+      console.error('Error deleting job alert:', err)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Job Alerts</h1>
+          <p className="text-gray-600">Hear about new jobs that match your saved searches</p>
+        </div>
+        <Link to="/notifications" className="flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-500">
+          <BellRing size={16} />
+          <span>Go to notifications</span>
+        </Link>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <div className="card text-center py-12">
+          <p className="text-gray-600">{error}</p>
+        </div>
+      ) : alerts.length === 0 ? (
+        <div className="card text-center py-12">
+          <p className="text-gray-600 mb-4">You don't have any job alerts yet.</p>
+          <p className="text-sm text-gray-500">
+            Save a search from the <Link to="/jobs" className="text-primary-600 hover:text-primary-500">job listings</Link>
+            {' '}or finish a <Link to="/" className="text-primary-600 hover:text-primary-500">chat with the assistant</Link>.
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {alerts.map(alert => (
+            <li key={alert.id} className="card">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                <div className="min-w-0">
+                  <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+                    <Bell size={16} className="text-primary-500 shrink-0" />
+                    <span className="truncate">{alert.name}</span>
+                  </h2>
+                  <p className="text-sm text-gray-600 mt-1">{describeAlert(alert)}</p>
+                  {alert.frequency === 'daily' && alert.pendingJobIds.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-2 flex items-center space-x-1">
+                      <Clock size={12} />
+                      <span>
+                        {alert.pendingJobIds.length} {alert.pendingJobIds.length === 1 ? 'job' : 'jobs'} waiting for the next digest
+                      </span>
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <select
+                    value={alert.frequency}
+                    onChange={event => handleFrequencyChange(alert, event.target.value as AlertFrequency)}
+                    disabled={busyId === alert.id}
+                    className="input-field w-40"
+                    aria-label={`How often to send ${alert.name}`}
+                  >
+                    {ALERT_FREQUENCIES.map(frequency => (
+                      <option key={frequency} value={frequency}>{ALERT_FREQUENCY_LABELS[frequency]}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(alert)}
+                    disabled={busyId === alert.id}
+                    className="p-2 text-gray-500 hover:text-red-600 disabled:opacity-50"
+                    aria-label={`Delete ${alert.name}`}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default JobAlertsScreen
@@ -0,0 +1,220 @@
+import React, { useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { ArrowLeft, Copy, Edit, History, LucideIcon, Pause, Play, Send, Trash2, Users, XCircle } from 'lucide-react'
+import toast from 'react-hot-toast'
+import ApplyPanel from '../components/ApplyPanel'
+import JobDetails from '../components/JobDetails'
+import JobStatusBadge from '../components/JobStatusBadge'
+import LoadingSpinner from '../components/LoadingSpinner'
+import { useAuth, useDataStore } from '../context/AppContext'
+import { useJobDrafts } from '../hooks/useJobDrafts'
+import { useRecord } from '../hooks/useRecord'
+import { toDateInput, toJobFormData } from '../schemas/job'
+import { api, ApiError } from '../services/api'
+import { JobPosting, JobStatus } from '../types'
+import { isClosed, isListed, JOB_STATUS_LABELS, jobStatus, jobStatusHistory, nextStatuses } from '../utils/jobLifecycle'
+import { canManage } from '../utils/permissions'
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' })
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+// The button offered for moving a posting into each status
+const STATUS_ACTIONS: Record<JobStatus, { label: string; icon: LucideIcon }> = {
+  scheduled: { label: 'Schedule', icon: Send },
+  published: { label: 'Publish now', icon: Play },
+  paused: { label: 'Pause', icon: Pause },
+  closed: { label: 'Close', icon: XCircle },
+  expired: { label: 'Expire', icon: XCircle }
+}
+
+const statusNotice = (job: JobPosting) => {
+  const history = jobStatusHistory(job)
+  const since = history.length > 0 ? history[history.length - 1].changedAt : job.updatedAt
+  switch (jobStatus(job)) {
+    case 'scheduled':
+      return `This posting is scheduled to go live on ${formatDate(job.postedDate)}.`
+    case 'paused':
+      return 'This posting is paused and hidden from job listings for now.'
+    case 'closed':
+      return `This posting was closed on ${formatDate(since)} and no longer accepts candidates.`
+    case 'expired':
+      return `This posting expired on ${formatDate(since)} and no longer accepts candidates.`
+    default:
+      return null
+  }
+}
+
+// Status changes, edit, repost and delete for the posting's recruiter and moderators
+const JobActions: React.FC<{ job: JobPosting }> = ({ job }) => {
+  const { changeJobStatus, deleteJob } = useDataStore()
+  const { can } = useAuth()
+  const { saveDraft } = useJobDrafts()
+  const navigate = useNavigate()
+  const [pending, setPending] = useState<JobStatus | 'repost' | 'delete' | null>(null)
+
+  const changeStatus = async (status: JobStatus) => {
+    if (status === 'closed' && !window.confirm(`Close the ${job.jobTitle} posting? Closed postings can't be reopened.`)) {
+      return
+    }
+
+    setPending(status)
+    try {
+      await changeJobStatus(job.id, status)
+      toast.success(`Job posting ${JOB_STATUS_LABELS[status].toLowerCase()}`)
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Failed to update the job posting')
+      console.error('Error changing job status:', error)
+    } finally {
+      setPending(null)
+    }
+  }
+
+  // Copies the posting into a new draft that starts its own lifecycle
+  const repost = async () => {
+    setPending('repost')
+    try {
+      const draft = await saveDraft({ ...toJobFormData(job), postedDate: toDateInput(new Date()), expiresAt: '' }, null)
+      navigate(`/jobs/new?draft=${draft.id}`)
+    } catch (error) {
+      toast.error('Failed to copy the job posting')
+      console.error('Error reposting job:', error)
+      setPending(null)
+    }
+  }
+
+  const remove = async () => {
+    if (!window.confirm(`Delete the ${job.jobTitle} posting? This cannot be undone.`)) return
+
+    setPending('delete')
+    try {
+      await deleteJob(job.id)
+      toast.success('Job posting deleted')
+      navigate('/jobs')
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Failed to delete the job posting')
+      console.error('Error deleting job:', error)
+      setPending(null)
+    }
+  }
+
+  const status = jobStatus(job)
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Link to={`/jobs/${job.id}/applicants`} className="btn-secondary flex items-center space-x-2">
+        <Users size={16} />
+        <span>Applicants</span>
+      </Link>
+      <Link to={`/jobs/${job.id}/edit`} className="btn-secondary flex items-center space-x-2">
+        <Edit size={16} />
+        <span>Edit</span>
+      </Link>
+      {nextStatuses(job).map(next => {
+        const { label, icon: Icon } = STATUS_ACTIONS[next]
+        return (
+          <button
+            key={next}
+            type="button"
+            onClick={() => changeStatus(next)}
+            disabled={pending !== null}
+            className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+          >
+            {pending === next ? <LoadingSpinner size="sm" /> : <Icon size={16} />}
+            <span>{next === 'published' && status === 'paused' ? 'Resume' : label}</span>
+          </button>
+        )
+      })}
+      {/* Drafts belong to whoever saves them, so moderators can't repost */}
+      {isClosed(job) && can('job:create') && (
+        <button
+          type="button"
+          onClick={repost}
+          disabled={pending !== null}
+          className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+        >
+          {pending === 'repost' ? <LoadingSpinner size="sm" /> : <Copy size={16} />}
+          <span>Repost as draft</span>
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={remove}
+        disabled={pending !== null}
+        className="btn-secondary flex items-center space-x-2 text-red-600 hover:text-red-700 disabled:opacity-50"
+      >
+        {pending === 'delete' ? <LoadingSpinner size="sm" /> : <Trash2 size={16} />}
+        <span>Delete</span>
+      </button>
+    </div>
+  )
+}
+
+const StatusHistory: React.FC<{ job: JobPosting }> = ({ job }) => {
+  const history = jobStatusHistory(job)
+  if (history.length === 0) return null
+
+  return (
+    <div className="card max-w-3xl mt-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-3 flex items-center">
+        <History size={18} className="mr-2 text-gray-400" />
+        Status history
+      </h3>
+      <ol className="space-y-2 text-sm">
+        {[...history].reverse().map((change, index) => (
+          <li key={index} className="flex flex-wrap items-center gap-2">
+            <span className="font-medium text-gray-900 w-20">{JOB_STATUS_LABELS[change.status]}</span>
+            <span className="text-gray-600">{formatDateTime(change.changedAt)}</span>
+            <span className="text-gray-500">{change.changedBy ? `by ${change.changedBy}` : 'automatically'}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+const JobDetailScreen: React.FC = () => {
+  const { id = '' } = useParams()
+  const { getJob } = useDataStore()
+  const { user } = useAuth()
+  const { record: job, error } = useRecord(id, getJob(id), api.jobs.get, 'job')
+  const canEdit = job !== null && canManage(user, job, 'job:moderate')
+  const notice = job && statusNotice(job)
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <Link to="/jobs" className="inline-flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft size={16} />
+          <span>All jobs</span>
+        </Link>
+        {job && canEdit && <JobActions job={job} />}
+      </div>
+
+      {notice && (
+        <div className="max-w-3xl mb-6 rounded-lg border border-gray-200 bg-gray-50 p-4 text-sm text-gray-700 flex items-center space-x-2">
+          <JobStatusBadge job={job} />
+          <span>{notice}</span>
+        </div>
+      )}
+
+      {error ? (
+        <div className="card text-center py-12">
+          <p className="text-gray-600">{error}</p>
+        </div>
+      ) : job ? (
+        <>
+          <JobDetails job={job} />
+          {canEdit ? <StatusHistory job={job} /> : isListed(job) && <ApplyPanel job={job} />}
+        </>
+      ) : (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default JobDetailScreen
@@ -0,0 +1,338 @@
+import React, { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { BellPlus, Briefcase, DollarSign, MapPin, Plus, Search } from 'lucide-react'
+import Can from '../components/Can'
+import JobStatusBadge from '../components/JobStatusBadge'
+import LoadingSpinner from '../components/LoadingSpinner'
+import Pagination from '../components/Pagination'
+import SaveAlertForm from '../components/SaveAlertForm'
+import { useAuth, useDataStore } from '../context/AppContext'
+import { numberParam, oneOf, useQueryParams } from '../hooks/useQueryParams'
+import { MAX_ALERT_NAME_LENGTH } from '../schemas/alert'
+import { jobFieldsSchema } from '../schemas/job'
+import { EmploymentType, ExperienceLevel, JobPosting } from '../types'
+import { toAlertSearch } from '../utils/jobAlerts'
+import { isListed } from '../utils/jobLifecycle'
+import { JobSearchQuery, JobSort, searchJobs } from '../utils/jobSearch'
+import { mostCommon } from '../utils/search'
+
+const EXPERIENCE_LEVELS = jobFieldsSchema.shape.experienceLevel.options
+const EMPLOYMENT_TYPES = jobFieldsSchema.shape.employmentType.options
+
+const SORT_OPTIONS: { value: JobSort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'salary_high', label: 'Highest salary' },
+  { value: 'salary_low', label: 'Lowest salary' }
+]
+
+// Skill filters offered besides the ones already selected
+const SUGGESTED_SKILL_COUNT = 12
+
+const readQuery = (params: URLSearchParams): JobSearchQuery => ({
+  text: params.get('q') ?? '',
+  experienceLevels: params.getAll('level').filter(oneOf<ExperienceLevel>(EXPERIENCE_LEVELS)),
+  employmentTypes: params.getAll('type').filter(oneOf<EmploymentType>(EMPLOYMENT_TYPES)),
+  salaryMin: numberParam(params.get('salaryMin')),
+  salaryMax: numberParam(params.get('salaryMax')),
+  location: params.get('location') ?? '',
+  skills: params.getAll('skill'),
+  sort: SORT_OPTIONS.find(option => option.value === params.get('sort'))?.value ?? 'newest',
+  page: numberParam(params.get('page')) ?? 1
+})
+
+const formatPostedDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' })
+
+const JobListItem: React.FC<{ job: JobPosting; showStatus: boolean }> = ({ job, showStatus }) => (
+  <li className="card hover:shadow-md transition-shadow duration-200">
+    <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+      <div>
+        <Link to={`/jobs/${job.id}`} className="text-lg font-semibold text-gray-900 hover:text-primary-600">
+          {job.jobTitle}
+        </Link>
+        <p className="text-sm text-gray-600">{job.companyName}</p>
+      </div>
+      <div className="flex items-center space-x-2">
+        {showStatus && <JobStatusBadge job={job} />}
+        <span className="text-xs text-gray-500">Posted {formatPostedDate(job.postedDate)}</span>
+      </div>
+    </div>
+    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-sm text-gray-700">
+      <span className="flex items-center space-x-1">
+        <MapPin size={14} className="text-gray-400" />
+        <span>{job.location}</span>
+      </span>
+      <span className="flex items-center space-x-1">
+        <Briefcase size={14} className="text-gray-400" />
+        <span>{job.employmentType} · {job.experienceLevel}</span>
+      </span>
+      <span className="flex items-center space-x-1">
+        <DollarSign size={14} className="text-gray-400" />
+        <span>${job.salaryMin.toLocaleString()} - ${job.salaryMax.toLocaleString()}</span>
+      </span>
+    </div>
+    <p className="mt-3 text-sm text-gray-600 line-clamp-2">{job.jobDescription}</p>
+    <div className="flex flex-wrap gap-1 mt-3">
+      {job.requiredSkills.map((skill, index) => (
+        <span key={index} className="px-2 py-1 bg-primary-100 text-primary-700 rounded-full text-xs">
+          {skill}
+        </span>
+      ))}
+    </div>
+  </li>
+)
+
+const JobListingsScreen: React.FC = () => {
+  const { jobs: allJobs, isLoading } = useDataStore()
+  const { user, can } = useAuth()
+  const { params, update: updateQuery, toggle, clear } = useQueryParams()
+  // Recruiters can list their own postings in every status
+  const showMine = params.get('mine') === '1' && user !== null && can('job:create')
+  const jobs = useMemo(
+    () => allJobs.filter(job => (showMine ? job.ownerId === user?.id : isListed(job))),
+    [allJobs, showMine, user]
+  )
+  const query = useMemo(() => readQuery(params), [params])
+  const result = useMemo(() => searchJobs(jobs, query), [jobs, query])
+  const skillOptions = useMemo(
+    () => [...new Set([
+      ...(query.skills ?? []),
+      ...mostCommon(jobs.flatMap(job => job.requiredSkills), SUGGESTED_SKILL_COUNT)
+    ])],
+    [jobs, query.skills]
+  )
+
+  const hasFilters = [...params.keys()].some(key => key !== 'sort' && key !== 'page')
+  const [isSavingSearch, setIsSavingSearch] = useState(false)
+  const alertSearch = useMemo(() => toAlertSearch(query), [query])
+  const alertName = (query.text || query.skills?.join(', ') || query.location || 'My job search')
+    .slice(0, MAX_ALERT_NAME_LENGTH)
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Jobs</h1>
+          <p className="text-gray-600">Browse the open positions</p>
+        </div>
+        <Can permission="job:create">
+          <Link to="/jobs/new" className="btn-primary flex items-center space-x-2 self-start sm:self-auto">
+            <Plus size={16} />
+            <span>Post a Job</span>
+          </Link>
+        </Can>
+        <Can permission="alert:create">
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={() => setIsSavingSearch(prev => !prev)}
+              aria-expanded={isSavingSearch}
+              className="btn-secondary flex items-center space-x-2 self-start sm:self-auto"
+            >
+              <BellPlus size={16} />
+              <span>Save search</span>
+            </button>
+          )}
+        </Can>
+      </div>
+
+      {isSavingSearch && hasFilters && (
+        // Keyed by the filters so changing them starts a fresh form
+        <SaveAlertForm
+          key={JSON.stringify(alertSearch)}
+          defaultName={alertName}
+          search={alertSearch}
+          className="card mb-6"
+        />
+      )}
+
+      <div className="relative mb-6">
+        <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="search"
+          value={query.text}
+          onChange={event => updateQuery({ q: event.target.value })}
+          className="input-field pl-10"
+          placeholder="Search by title, company or description"
+          aria-label="Search jobs"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <aside className="card space-y-6 self-start">
+          <Can permission="job:create">
+            <label className="flex items-center space-x-2 text-sm font-semibold text-gray-900">
+              <input
+                type="checkbox"
+                checked={showMine}
+                onChange={event => updateQuery({ mine: event.target.checked ? '1' : '' })}
+              />
+              <span>Only my postings, in any status</span>
+            </label>
+          </Can>
+
+          <div>
+            <h2 className="text-sm font-semibold text-gray-900 mb-2">Experience level</h2>
+            {EXPERIENCE_LEVELS.map(level => (
+              <label key={level} className="flex items-center space-x-2 text-sm text-gray-700 py-0.5">
+                <input
+                  type="checkbox"
+                  checked={query.experienceLevels?.includes(level)}
+                  onChange={() => toggle('level', level)}
+                />
+                <span>{level}</span>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <h2 className="text-sm font-semibold text-gray-900 mb-2">Employment type</h2>
+            {EMPLOYMENT_TYPES.map(type => (
+              <label key={type} className="flex items-center space-x-2 text-sm text-gray-700 py-0.5">
+                <input
+                  type="checkbox"
+                  checked={query.employmentTypes?.includes(type)}
+                  onChange={() => toggle('type', type)}
+                />
+                <span>{type}</span>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <h2 className="text-sm font-semibold text-gray-900 mb-2">Salary (USD)</h2>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                min="0"
+                step="1000"
+                value={query.salaryMin ?? ''}
+                onChange={event => updateQuery({ salaryMin: event.target.value })}
+                className="input-field"
+                placeholder="Min"
+                aria-label="Minimum salary"
+              />
+              <span className="text-gray-400">-</span>
+              <input
+                type="number"
+                min="0"
+                step="1000"
+                value={query.salaryMax ?? ''}
+                onChange={event => updateQuery({ salaryMax: event.target.value })}
+                className="input-field"
+                placeholder="Max"
+                aria-label="Maximum salary"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="location-filter" className="block text-sm font-semibold text-gray-900 mb-2">
+              Location
+            </label>
+            <input
+              id="location-filter"
+              type="text"
+              value={query.location}
+              onChange={event => updateQuery({ location: event.target.value })}
+              className="input-field"
+              placeholder="City or Remote"
+            />
+          </div>
+
+          {skillOptions.length > 0 && (
+            <div>
+              <h2 className="text-sm font-semibold text-gray-900 mb-2">Required skills</h2>
+              <div className="flex flex-wrap gap-2">
+                {skillOptions.map(skill => {
+                  const selected = query.skills?.includes(skill)
+                  return (
+                    <button
+                      key={skill}
+                      type="button"
+                      onClick={() => toggle('skill', skill)}
+                      className={`px-2 py-1 rounded-full text-xs border transition-colors duration-200 ${
+                        selected
+                          ? 'bg-primary-600 border-primary-600 text-white'
+                          : 'bg-white border-gray-300 text-gray-700 hover:border-primary-400'
+                      }`}
+                      aria-pressed={selected}
+                    >
+                      {skill}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={() => clear(['sort'])}
+              className="text-sm text-primary-600 hover:text-primary-500"
+            >
+              Clear all filters
+            </button>
+          )}
+        </aside>
+
+        <section className="lg:col-span-3">
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-sm text-gray-600" aria-live="polite">
+              {result.total} {result.total === 1 ? 'job' : 'jobs'} found
+            </p>
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>Sort by</span>
+              <select
+                value={query.sort}
+                onChange={event => updateQuery({ sort: event.target.value })}
+                className="input-field w-auto py-1"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {isLoading && jobs.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner />
+            </div>
+          ) : result.items.length === 0 ? (
+            <div className="card text-center py-12">
+              {jobs.length === 0 ? (
+                <>
+                  <p className="text-gray-600 mb-4">
+                    {showMine ? "You haven't posted any jobs yet." : 'No jobs are open right now.'}
+                  </p>
+                  <Can permission="job:create">
+                    <Link to="/jobs/new" className="text-primary-600 hover:text-primary-500">
+                      {showMine ? 'Post your first job' : 'Post the first one'}
+                    </Link>
+                  </Can>
+                </>
+              ) : (
+                <p className="text-gray-600">No jobs match your search. Try removing some filters.</p>
+              )}
+            </div>
+          ) : (
+            <ul className="space-y-4">
+              {result.items.map(job => <JobListItem key={job.id} job={job} showStatus={showMine} />)}
+            </ul>
+          )}
+
+          <Pagination
+            page={result.page}
+            pageCount={result.pageCount}
+            onChange={page => updateQuery({ page: String(page) })}
+          />
+        </section>
+      </div>
+    </div>
+  )
+}
+
+export default JobListingsScreen
@@ -1,91 +1,291 @@
-import React, { useState } from 'react'
-import { useForm } from 'react-hook-form'
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { Controller, useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { z } from 'zod'
+import { Link, useParams, useSearchParams } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import { Eye, Save, Send, AlertCircle, CheckCircle } from 'lucide-react'
+import { Eye, Save, Send, AlertCircle, CheckCircle, FileText } from 'lucide-react'
 import toast from 'react-hot-toast'
+import AccessDenied from '../components/AccessDenied'
+import CandidateShortlist from '../components/CandidateShortlist'
+import ChangeSummary from '../components/ChangeSummary'
+import ConflictBanner from '../components/ConflictBanner'
+import JobDetails from '../components/JobDetails'
+import JobDraftList from '../components/JobDraftList'
 import LoadingSpinner from '../components/LoadingSpinner'
+import SkillTagInput from '../components/SkillTagInput'
+import { RecordConflictError, useAuth, useDataStore } from '../context/AppContext'
+import { DraftConflictError, useJobDrafts } from '../hooks/useJobDrafts'
+import { useRecord } from '../hooks/useRecord'
+import { api } from '../services/api'
+import { fromJobFormData, JOB_FIELD_LABELS, jobSchema, JobFormData, toDateInput, toJobFormData } from '../schemas/job'
+import { JobDraft, JobPosting } from '../types'
+import { diffFields } from '../utils/diff'
+import { jobStatus } from '../utils/jobLifecycle'
+import { canManage } from '../utils/permissions'
+import { splitList } from '../utils/search'
 
-const jobSchema = z.object({
-  jobTitle: z.string().min(3, 'Job title must be at least 3 characters'),
-  companyName: z.string().min(2, 'Company name must be at least 2 characters'),
-  jobDescription: z.string().min(50, 'Job description must be at least 50 characters'),
-  location: z.string().min(3, 'Location is required'),
-  requiredSkills: z.string().min(1, 'Please specify required skills'),
-  experienceLevel: z.enum(['Entry', 'Mid', 'Senior', 'Lead', 'Executive']),
-  salaryMin: z.number().min(0, 'Minimum salary must be positive'),
-  salaryMax: z.number().min(0, 'Maximum salary must be positive'),
-  employmentType: z.enum(['Full-time', 'Part-time', 'Contract', 'Freelance', 'Internship']),
-  contactEmail: z.string().email('Please enter a valid email address')
-}).refine(data => data.salaryMax >= data.salaryMin, {
-  message: "Maximum salary must be greater than or equal to minimum salary",
-  path: ["salaryMax"]
+// How long the form has to be idle before an edit is saved to the draft
+const AUTOSAVE_DELAY = 1000
+
+const defaultValues = (): Partial<JobFormData> => ({
+  requiredSkills: '',
+  experienceLevel: 'Mid',
+  employmentType: 'Full-time',
+  postedDate: toDateInput(new Date())
 })
 
-type JobFormData = z.infer<typeof jobSchema>
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'failed'
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString(undefined, { timeStyle: 'short' })
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' })
 
+// A date input's day as a timestamp, for previews
+const fromDateInput = (value?: string) => (value ? new Date(`${value}T00:00`).toISOString() : undefined)
+
+/**
+ * Posts a job, or edits the posting in the route. Drafts and autosave are
+ * only used for new postings; edits are saved against the version the form
+ * was loaded from, like profile edits.
+ */
 const JobPostingScreen: React.FC = () => {
+  const { id } = useParams()
+  const isEditing = id !== undefined
+  // A draft to open straight away, e.g. one made by reposting a closed job
+  const [searchParams, setSearchParams] = useSearchParams()
+  const draftToOpen = searchParams.get('draft')
+  const { getJob, createJob, updateJob } = useDataStore()
+  const { user } = useAuth()
+  const { record, error: loadError } = useRecord(id, id ? getJob(id) : undefined, api.jobs.get, 'job posting')
+  const { drafts, isLoadingDrafts, refreshDrafts, saveDraft, deleteDraft } = useJobDrafts()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isDraft, setIsDraft] = useState(false)
+  const [draft, setDraft] = useState<JobDraft | null>(null)
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle')
+  // A newer version of the open draft, saved somewhere else
+  const [conflict, setConflict] = useState<JobDraft | null>(null)
+  const [showDrafts, setShowDrafts] = useState(false)
   const [showPreview, setShowPreview] = useState(false)
-  const [submitSuccess, setSubmitSuccess] = useState(false)
+  const [submitted, setSubmitted] = useState<JobPosting | null>(null)
+  // The stored posting being edited, and a newer version saved by someone else
+  const [base, setBase] = useState<JobPosting | null>(null)
+  const [newerJob, setNewerJob] = useState<JobPosting | null>(null)
+
+  // Refs mirror the draft state for the autosave timer and the save queue
+  const draftRef = useRef<JobDraft | null>(null)
+  const conflictRef = useRef<JobDraft | null>(null)
+  const unsavedValuesRef = useRef<Partial<JobFormData> | null>(null)
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout>>()
+  const saveQueueRef = useRef<Promise<boolean>>(Promise.resolve(true))
 
   const {
     register,
+    control,
     handleSubmit,
     formState: { errors, isValid },
     watch,
     reset,
-    setValue
+    getValues
   } = useForm<JobFormData>({
     resolver: zodResolver(jobSchema),
     mode: 'onChange',
-    defaultValues: {
-      experienceLevel: 'Mid',
-      employmentType: 'Full-time'
-    }
+    defaultValues: defaultValues()
   })
 
   const watchedData = watch()
 
-  const saveDraft = async () => {
+  const attachDraft = useCallback((next: JobDraft | null) => {
+    draftRef.current = next
+    setDraft(next)
+  }, [])
+
+  const showConflict = useCallback((next: JobDraft | null) => {
+    conflictRef.current = next
+    setConflict(next)
+  }, [])
+
+  const loadBase = useCallback((job: JobPosting) => {
+    setBase(job)
+    setNewerJob(null)
+    reset(toJobFormData(job))
+  }, [reset])
+
+  useEffect(() => {
+    if (record && record.id !== base?.id) loadBase(record)
+  }, [record, base?.id, loadBase])
+
+  const changes = base ? diffFields(toJobFormData(base), watchedData, JOB_FIELD_LABELS) : []
+  // Once a posting is live its publish date is history
+  const canReschedule = !base || jobStatus(base) === 'scheduled'
+
+  useEffect(() => {
+    if (isEditing) return
+    refreshDrafts().catch(error => {
+      console.error('Error loading drafts:', error)
+    })
+  }, [refreshDrafts, isEditing])
+
+  /**
+   * Saves the latest unsaved values to the open draft. Saves run one after
+   * another so a new draft is only created once. While a conflict is shown
+   * nothing is written unless the recruiter chose to overwrite.
+   */
+  const flushDraft = useCallback((options: { overwrite?: boolean } = {}) => {
+    clearTimeout(autosaveTimerRef.current)
+    const values = unsavedValuesRef.current
+    if (!values || (conflictRef.current && !options.overwrite)) return saveQueueRef.current
+
+    unsavedValuesRef.current = null
+    setSaveStatus('saving')
+    const save = saveQueueRef.current.then(async () => {
+      try {
+        attachDraft(await saveDraft(values, draftRef.current, options))
+        setSaveStatus('saved')
+        return true
+      } catch (error) {
+        // Keep the work so it is saved with the next attempt
+        unsavedValuesRef.current ??= values
+        if (error instanceof DraftConflictError) {
+          showConflict(error.draft)
+          setSaveStatus('idle')
+        } else {
+          setSaveStatus('failed')
+          console.error('Error saving draft:', error)
+        }
+        return false
+      }
+    })
+    saveQueueRef.current = save
+    return save
+  }, [saveDraft, attachDraft, showConflict])
+
+  const saveNow = async () => {
     setIsDraft(true)
-    try {
-      // Simulate saving draft
-      await new Promise(resolve => setTimeout(resolve, 1000))
+    unsavedValuesRef.current = getValues()
+    const saved = await flushDraft()
+    setIsDraft(false)
+    if (saved) {
       toast.success('Draft saved successfully!')
-    } catch (error) {
+    } else if (!conflictRef.current) {
       toast.error('Failed to save draft')
+    }
+  }
+
+  const openDraft = useCallback(async (draftId: string) => {
+    setShowDrafts(false)
+    if (draftId === draftRef.current?.id) return
+
+    // Whatever is in the form now stays in its own draft
+    await flushDraft()
+    try {
+      const latest = await api.drafts.get(draftId)
+      unsavedValuesRef.current = null
+      showConflict(null)
+      attachDraft(latest)
+      reset({ ...defaultValues(), ...latest.values })
+      setSaveStatus('idle')
+      toast.success('Draft restored')
+    } catch (error) {
+      toast.error('Failed to open draft')
+      console.error('Error opening draft:', error)
+    }
+  }, [flushDraft, attachDraft, showConflict, reset])
+
+  useEffect(() => {
+    if (isEditing || !draftToOpen) return
+    openDraft(draftToOpen)
+    setSearchParams({}, { replace: true })
+  }, [draftToOpen, isEditing, openDraft, setSearchParams])
+
+  // Autosave typed edits; reset() and restoring a draft don't count as edits
+  useEffect(() => {
+    const subscription = watch((values, { type }) => {
+      if (type !== 'change' || isEditing) return
+      unsavedValuesRef.current = values as Partial<JobFormData>
+      clearTimeout(autosaveTimerRef.current)
+      autosaveTimerRef.current = setTimeout(flushDraft, AUTOSAVE_DELAY)
+    })
+    return () => subscription.unsubscribe()
+  }, [watch, isEditing, flushDraft])
+
+  useEffect(() => () => {
+    flushDraft()
+  }, [flushDraft])
+
+  const removeDraft = async (target: JobDraft) => {
+    try {
+      await deleteDraft(target.id)
+      if (target.id === draftRef.current?.id) {
+        // The form keeps its values; further edits start a new draft
+        attachDraft(null)
+        showConflict(null)
+        setSaveStatus('idle')
+      }
+      toast.success('Draft deleted')
+    } catch (error) {
+      toast.error('Failed to delete draft')
+      console.error('Error deleting draft:', error)
+    }
+  }
+
+  const loadNewerDraft = () => {
+    if (!conflict) return
+    unsavedValuesRef.current = null
+    attachDraft(conflict)
+    reset({ ...defaultValues(), ...conflict.values })
+    showConflict(null)
+  }
+
+  const keepMyChanges = () => {
+    unsavedValuesRef.current = getValues()
+    showConflict(null)
+    flushDraft({ overwrite: true })
+  }
+
+  const saveChanges = async (data: JobFormData, expectedVersion?: number) => {
+    if (!base) return
+    setIsSubmitting(true)
+    try {
+      const job = await updateJob(base.id, fromJobFormData(data, base), expectedVersion ?? base.version)
+      loadBase(job)
+      setSubmitted(job)
+      toast.success('Job posting updated successfully!')
+    } catch (error) {
+      if (error instanceof RecordConflictError) {
+        setNewerJob(error.current)
+        return
+      }
+      toast.error('Failed to save your changes. Please try again.')
+      console.error('Error updating job:', error)
     } finally {
-      setIsDraft(false)
+      setIsSubmitting(false)
     }
   }
 
+  // Saves over the newer version, which the recruiter has chosen to replace
+  const overwriteNewerJob = () => {
+    if (newerJob) handleSubmit(data => saveChanges(data, newerJob.version))()
+  }
+
   const onSubmit = async (data: JobFormData) => {
+    if (isEditing) return saveChanges(data)
+
     setIsSubmitting(true)
+    // The posting supersedes the draft, so drop any pending autosave
+    clearTimeout(autosaveTimerRef.current)
+    unsavedValuesRef.current = null
+    await saveQueueRef.current
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      const jobData = {
-        ...data,
-        requiredSkills: data.requiredSkills.split(',').map(skill => skill.trim()),
-        postedDate: new Date().toISOString(),
-        id: Date.now().toString()
+      const job = await createJob(fromJobFormData(data))
+      if (draftRef.current) {
+        await deleteDraft(draftRef.current.id)
+        attachDraft(null)
+        setSaveStatus('idle')
       }
-      
-      console.log('Job posting data:', jobData)
-      
-      setSubmitSuccess(true)
+
+      setSubmitted(job)
       toast.success('Job posted successfully!')
-      
-      // Reset form after success
-      setTimeout(() => {
-        reset()
-        setSubmitSuccess(false)
-      }, 3000)
-      
     } catch (error) {
       toast.error('Failed to post job. Please try again.')
       console.error('Error posting job:', error)
@@ -94,7 +294,12 @@ const JobPostingScreen: React.FC = () => {
     }
   }
 
-  if (submitSuccess) {
+  const postAnother = () => {
+    reset(defaultValues())
+    setSubmitted(null)
+  }
+
+  if (submitted) {
     return (
       <div className="max-w-4xl mx-auto p-6">
         <motion.div
@@ -103,13 +308,59 @@ const JobPostingScreen: React.FC = () => {
           className="text-center py-12"
         >
           <CheckCircle className="mx-auto h-16 w-16 text-green-500 mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Job Posted Successfully!</h2>
-          <p className="text-gray-600">Your job posting is now live and visible to potential candidates.</p>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            {isEditing ? 'Job Posting Updated!' : 'Job Posted Successfully!'}
+          </h2>
+          <p className="text-gray-600 mb-6">
+            {isEditing
+              ? 'Candidates will see the updated posting right away.'
+              : jobStatus(submitted) === 'scheduled'
+                ? `Your job posting will go live on ${formatDate(submitted.postedDate)}.`
+                : 'Your job posting is now live and visible to potential candidates.'}
+          </p>
+          <div className="flex justify-center space-x-4">
+            <Link to={`/jobs/${submitted.id}`} className="btn-primary">View posting</Link>
+            {isEditing ? (
+              <button type="button" onClick={() => setSubmitted(null)} className="btn-secondary">
+                Keep editing
+              </button>
+            ) : (
+              <>
+                <Link to={`/jobs/${submitted.id}/edit`} className="btn-secondary">Edit posting</Link>
+                <button type="button" onClick={postAnother} className="btn-secondary">
+                  Post another job
+                </button>
+              </>
+            )}
+          </div>
         </motion.div>
+        {!isEditing && <CandidateShortlist job={submitted} />}
       </div>
     )
   }
 
+  if (isEditing && loadError) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="card text-center py-12">
+          <p className="text-gray-600">{loadError}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (isEditing && !base) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (base && !canManage(user, base, 'job:moderate')) {
+    return <AccessDenied>Only the recruiter who posted this job and moderators can edit it.</AccessDenied>
+  }
+
   if (showPreview) {
     return (
       <div className="max-w-4xl mx-auto p-6">
@@ -123,57 +374,14 @@ const JobPostingScreen: React.FC = () => {
           </button>
         </div>
 
-        <div className="card max-w-3xl">
-          <div className="mb-6">
-            <h2 className="text-2xl font-bold text-gray-900 mb-2">{watchedData.jobTitle}</h2>
-            <p className="text-lg text-gray-700 mb-1">{watchedData.companyName}</p>
-            <p className="text-gray-600">{watchedData.location}</p>
-          </div>
-
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-            <div className="bg-gray-50 p-3 rounded-lg">
-              <p className="text-sm font-medium text-gray-700">Experience Level</p>
-              <p className="text-gray-900">{watchedData.experienceLevel}</p>
-            </div>
-            <div className="bg-gray-50 p-3 rounded-lg">
-              <p className="text-sm font-medium text-gray-700">Employment Type</p>
-              <p className="text-gray-900">{watchedData.employmentType}</p>
-            </div>
-            <div className="bg-gray-50 p-3 rounded-lg">
-              <p className="text-sm font-medium text-gray-700">Salary Range</p>
-              <p className="text-gray-900">
-                ${watchedData.salaryMin?.toLocaleString()} - ${watchedData.salaryMax?.toLocaleString()}
-              </p>
-            </div>
-          </div>
-
-          <div className="mb-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">Job Description</h3>
-            <div className="prose max-w-none">
-              <p className="text-gray-700 whitespace-pre-wrap">{watchedData.jobDescription}</p>
-            </div>
-          </div>
-
-          <div className="mb-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">Required Skills</h3>
-            <div className="flex flex-wrap gap-2">
-              {watchedData.requiredSkills?.split(',').map((skill, index) => (
-                <span
-                  key={index}
-                  className="px-3 py-1 bg-primary-100 text-primary-700 rounded-full text-sm"
-                >
-                  {skill.trim()}
-                </span>
-              ))}
-            </div>
-          </div>
-
-          <div className="border-t pt-4">
-            <p className="text-sm text-gray-600">
-              Contact: {watchedData.contactEmail}
-            </p>
-          </div>
-        </div>
+        <JobDetails
+          job={{
+            ...watchedData,
+            requiredSkills: splitList(watchedData.requiredSkills ?? ''),
+            postedDate: fromDateInput(watchedData.postedDate),
+            expiresAt: fromDateInput(watchedData.expiresAt)
+          }}
+        />
       </div>
     )
   }
@@ -181,10 +389,56 @@ const JobPostingScreen: React.FC = () => {
   return (
     <div className="max-w-4xl mx-auto p-6">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Post a Job</h1>
-        <p className="text-gray-600">Create a compelling job posting to attract the best candidates</p>
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">{isEditing ? 'Edit Job Posting' : 'Post a Job'}</h1>
+            <p className="text-gray-600">
+              {isEditing
+                ? 'Update the posting; candidates see your changes as soon as you save'
+                : 'Create a compelling job posting to attract the best candidates'}
+            </p>
+          </div>
+          {!isEditing && (
+            <button
+              type="button"
+              onClick={() => setShowDrafts(open => !open)}
+              className="btn-secondary flex items-center space-x-2"
+              aria-expanded={showDrafts}
+            >
+              <FileText size={16} />
+              <span>Drafts{drafts.length > 0 ? ` (${drafts.length})` : ''}</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      {showDrafts && (
+        <div className="card mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Saved drafts</h2>
+          <JobDraftList
+            drafts={drafts}
+            activeDraftId={draft?.id ?? null}
+            isLoading={isLoadingDrafts}
+            onOpen={selected => openDraft(selected.id)}
+            onDelete={removeDraft}
+          />
+        </div>
+      )}
+
+      {conflict && (
+        <ConflictBanner onLoadNewer={loadNewerDraft} onOverwrite={keepMyChanges}>
+          This draft was changed somewhere else at {formatTime(conflict.updatedAt)}, after you started editing.
+          Saving now would overwrite that version.
+        </ConflictBanner>
+      )}
+
+      {newerJob && (
+        <ConflictBanner onLoadNewer={() => loadBase(newerJob)} onOverwrite={overwriteNewerJob}>
+          This posting was changed somewhere else at {formatTime(newerJob.updatedAt)}, after you started editing.
+          Saving now would overwrite that version.
+        </ConflictBanner>
+      )}
+
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
         <div className="card">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Basic Information</h2>
@@ -294,12 +548,19 @@ const JobPostingScreen: React.FC = () => {
             <label htmlFor="requiredSkills" className="block text-sm font-medium text-gray-700 mb-1">
               Required Skills *
             </label>
-            <input
-              {...register('requiredSkills')}
-              type="text"
-              id="requiredSkills"
-              className={`input-field ${errors.requiredSkills ? 'border-red-500' : ''}`}
-              placeholder="React, TypeScript, Node.js, AWS (separate with commas)"
+            <Controller
+              name="requiredSkills"
+              control={control}
+              render={({ field }) => (
+                <SkillTagInput
+                  id="requiredSkills"
+                  value={splitList(field.value ?? '')}
+                  onChange={skills => field.onChange(skills.join(', '))}
+                  onBlur={field.onBlur}
+                  className={errors.requiredSkills ? 'border-red-500' : ''}
+                  placeholder="Start typing a skill, e.g. TypeScript"
+                />
+              )}
             />
             {errors.requiredSkills && (
               <p className="mt-1 text-sm text-red-600 flex items-center">
@@ -394,26 +655,90 @@ const JobPostingScreen: React.FC = () => {
           </div>
         </div>
 
-        <div className="flex flex-col sm:flex-row justify-between space-y-2 sm:space-y-0 sm:space-x-4">
-          <div className="flex space-x-2">
-            <button
-              type="button"
-              onClick={saveDraft}
-              disabled={isDraft}
-              className="btn-secondary flex items-center space-x-2"
-            >
-              {isDraft ? (
-                <>
-                  <LoadingSpinner size="sm" />
-                  <span>Saving...</span>
-                </>
+        <div className="card">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Publishing</h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="postedDate" className="block text-sm font-medium text-gray-700 mb-1">
+                Publish Date *
+              </label>
+              <input
+                {...register('postedDate')}
+                type="date"
+                id="postedDate"
+                readOnly={!canReschedule}
+                className={`input-field ${errors.postedDate ? 'border-red-500' : ''} ${canReschedule ? '' : 'bg-gray-50'}`}
+              />
+              {errors.postedDate ? (
+                <p className="mt-1 text-sm text-red-600 flex items-center">
+                  <AlertCircle size={14} className="mr-1" />
+                  {errors.postedDate.message}
+                </p>
               ) : (
-                <>
-                  <Save size={16} />
-                  <span>Save Draft</span>
-                </>
+                <p className="mt-1 text-xs text-gray-500">
+                  {canReschedule
+                    ? 'Pick a later day to schedule the posting; today publishes it right away.'
+                    : 'The posting has already been published.'}
+                </p>
               )}
-            </button>
+            </div>
+
+            <div>
+              <label htmlFor="expiresAt" className="block text-sm font-medium text-gray-700 mb-1">
+                Expiry Date
+              </label>
+              <input
+                {...register('expiresAt')}
+                type="date"
+                id="expiresAt"
+                className={`input-field ${errors.expiresAt ? 'border-red-500' : ''}`}
+              />
+              {errors.expiresAt ? (
+                <p className="mt-1 text-sm text-red-600 flex items-center">
+                  <AlertCircle size={14} className="mr-1" />
+                  {errors.expiresAt.message}
+                </p>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500">The posting closes automatically at the end of this day.</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {changes.length > 0 && <ChangeSummary changes={changes} />}
+
+        <div className="flex flex-col sm:flex-row justify-between space-y-2 sm:space-y-0 sm:space-x-4">
+          <div className="flex space-x-2">
+            {isEditing ? (
+              <button
+                type="button"
+                onClick={() => base && loadBase(base)}
+                disabled={isSubmitting || changes.length === 0}
+                className="btn-secondary"
+              >
+                Discard Changes
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={saveNow}
+                disabled={isDraft}
+                className="btn-secondary flex items-center space-x-2"
+              >
+                {isDraft ? (
+                  <>
+                    <LoadingSpinner size="sm" />
+                    <span>Saving...</span>
+                  </>
+                ) : (
+                  <>
+                    <Save size={16} />
+                    <span>Save Draft</span>
+                  </>
+                )}
+              </button>
+            )}
 
             <button
               type="button"
@@ -423,22 +748,28 @@ const JobPostingScreen: React.FC = () => {
               <Eye size={16} />
               <span>Preview</span>
             </button>
+
+            <span className="self-center text-sm text-gray-500" aria-live="polite">
+              {saveStatus === 'saving' && 'Saving draft...'}
+              {saveStatus === 'saved' && draft && `Draft saved at ${formatTime(draft.updatedAt)}`}
+              {saveStatus === 'failed' && <span className="text-red-600">Couldn't save draft</span>}
+            </span>
           </div>
 
           <button
             type="submit"
-            disabled={!isValid || isSubmitting}
+            disabled={!isValid || isSubmitting || (isEditing && changes.length === 0)}
             className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isSubmitting ? (
               <>
                 <LoadingSpinner size="sm" />
-                <span>Posting Job...</span>
+                <span>{isEditing ? 'Saving Changes...' : 'Posting Job...'}</span>
               </>
             ) : (
               <>
                 <Send size={16} />
-                <span>Post Job</span>
+                <span>{isEditing ? 'Save Changes' : 'Post Job'}</span>
               </>
             )}
           </button>
@@ -0,0 +1,106 @@
+import React from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Link, Navigate, useLocation } from 'react-router-dom'
+import { AlertCircle, LogIn } from 'lucide-react'
+import toast from 'react-hot-toast'
+import LoadingSpinner from '../components/LoadingSpinner'
+import { useAuth } from '../context/AppContext'
+import { useRedirectTarget } from '../hooks/useRedirectTarget'
+import { LoginFormData, loginSchema } from '../schemas/auth'
+import { ApiError } from '../services/api'
+
+const LoginScreen: React.FC = () => {
+  const { user, logIn } = useAuth()
+  const location = useLocation()
+  const redirectTo = useRedirectTarget()
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting }
+  } = useForm<LoginFormData>({
+    resolver: zodResolver(loginSchema)
+  })
+
+  if (user) {
+    return <Navigate to={redirectTo ?? '/'} replace />
+  }
+
+  const onSubmit = async (data: LoginFormData) => {
+    try {
+      const account = await logIn(data)
+      toast.success(`Welcome back, ${account.name}!`)
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Failed to log in. Please try again.')
+      console.error('Error logging in:', error)
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto p-6">
+      <div className="mb-8 text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Log in</h1>
+        <p className="text-gray-600">Welcome back to Profile Matcher</p>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="card space-y-4">
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+            Email Address
+          </label>
+          <input
+            {...register('email')}
+            type="email"
+            id="email"
+            autoComplete="email"
+            className={`input-field ${errors.email ? 'border-red-500' : ''}`}
+            placeholder="your.email@example.com"
+          />
+          {errors.email && (
+            <p className="mt-1 text-sm text-red-600 flex items-center">
+              <AlertCircle size={14} className="mr-1" />
+              {errors.email.message}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+            Password
+          </label>
+          <input
+            {...register('password')}
+            type="password"
+            id="password"
+            autoComplete="current-password"
+            className={`input-field ${errors.password ? 'border-red-500' : ''}`}
+          />
+          {errors.password && (
+            <p className="mt-1 text-sm text-red-600 flex items-center">
+              <AlertCircle size={14} className="mr-1" />
+              {errors.password.message}
+            </p>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="btn-primary w-full flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? <LoadingSpinner size="sm" /> : <LogIn size={16} />}
+          <span>{isSubmitting ? 'Logging in...' : 'Log in'}</span>
+        </button>
+
+        <p className="text-sm text-gray-600 text-center">
+          New here?{' '}
+          <Link to="/signup" state={location.state} className="text-primary-600 hover:text-primary-500">
+            Create an account
+          </Link>
+        </p>
+      </form>
+    </div>
+  )
+}
+
+export default LoginScreen
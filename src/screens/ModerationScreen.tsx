@@ -0,0 +1,195 @@
+import React, { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Briefcase, Search, Trash2, Users } from 'lucide-react'
+import toast from 'react-hot-toast'
+import LoadingSpinner from '../components/LoadingSpinner'
+import Pagination from '../components/Pagination'
+import ProfileAvatar from '../components/ProfileAvatar'
+import { useDataStore } from '../context/AppContext'
+import { numberParam, useQueryParams } from '../hooks/useQueryParams'
+import { ApiError } from '../services/api'
+import { JOB_STATUS_LABELS, jobStatus } from '../utils/jobLifecycle'
+import { searchJobs } from '../utils/jobSearch'
+import { searchProfiles } from '../utils/profileSearch'
+
+type Tab = 'profiles' | 'jobs'
+
+const PAGE_SIZE = 20
+
+const formatCreatedAt = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+interface ModerationRowProps {
+  to: string
+  title: string
+  subtitle: string
+  createdAt: string
+  avatar?: React.ReactNode
+  isRemoving: boolean
+  onRemove: () => void
+}
+
+const ModerationRow: React.FC<ModerationRowProps> = ({
+  to,
+  title,
+  subtitle,
+  createdAt,
+  avatar,
+  isRemoving,
+  onRemove
+}) => (
+  <li className="flex items-center justify-between gap-4 py-3">
+    <div className="flex items-center space-x-3 min-w-0">
+      {avatar}
+      <div className="min-w-0">
+        <Link to={to} className="font-medium text-gray-900 hover:text-primary-600 truncate block">
+          {title}
+        </Link>
+        <p className="text-sm text-gray-600 truncate">{subtitle}</p>
+      </div>
+    </div>
+    <div className="flex items-center space-x-4 flex-shrink-0">
+      <span className="hidden md:inline text-xs text-gray-500">Created {formatCreatedAt(createdAt)}</span>
+      <button
+        type="button"
+        onClick={onRemove}
+        disabled={isRemoving}
+        className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+      >
+        {isRemoving ? <LoadingSpinner size="sm" /> : <Trash2 size={14} />}
+        <span>Remove</span>
+      </button>
+    </div>
+  </li>
+)
+
+/**
+ * Lets admins review every profile and job posting and take down the ones
+ * that break the rules.
+ */
+const ModerationScreen: React.FC = () => {
+  const { profiles, jobs, isLoading, deleteProfile, deleteJob } = useDataStore()
+  const { params, update: updateQuery } = useQueryParams()
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  const tab: Tab = params.get('tab') === 'jobs' ? 'jobs' : 'profiles'
+  const text = params.get('q') ?? ''
+  const page = numberParam(params.get('page')) ?? 1
+
+  const profileResult = useMemo(
+    () => searchProfiles(profiles, { text, page, pageSize: PAGE_SIZE }),
+    [profiles, text, page]
+  )
+  const jobResult = useMemo(
+    () => searchJobs(jobs, { text, page, pageSize: PAGE_SIZE }),
+    [jobs, text, page]
+  )
+  const result = tab === 'profiles' ? profileResult : jobResult
+
+  const remove = async (id: string, label: string, removeRecord: (id: string) => Promise<void>) => {
+    if (!window.confirm(`Remove ${label}? This cannot be undone.`)) return
+
+    setRemovingId(id)
+    try {
+      await removeRecord(id)
+      toast.success(`Removed ${label}`)
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : `Failed to remove ${label}`)
+      console.error('Error removing record:', error)
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const tabs: { value: Tab; label: string; icon: typeof Users; count: number }[] = [
+    { value: 'profiles', label: 'Profiles', icon: Users, count: profiles.length },
+    { value: 'jobs', label: 'Job postings', icon: Briefcase, count: jobs.length }
+  ]
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Moderation</h1>
+        <p className="text-gray-600">Review all profiles and job postings and remove the ones that break the rules</p>
+      </div>
+
+      <div className="flex space-x-2 mb-4" role="tablist">
+        {tabs.map(({ value, label, icon: Icon, count }) => (
+          <button
+            key={value}
+            type="button"
+            role="tab"
+            aria-selected={tab === value}
+            onClick={() => updateQuery({ tab: value })}
+            className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+              tab === value ? 'text-primary-600 bg-primary-50' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+            }`}
+          >
+            <Icon size={16} />
+            <span>{label}</span>
+            <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full text-xs">{count}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="relative mb-4">
+        <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="search"
+          value={text}
+          onChange={event => updateQuery({ q: event.target.value })}
+          className="input-field pl-10"
+          placeholder={tab === 'profiles' ? 'Search by name, title or skill' : 'Search by title, company or description'}
+          aria-label={tab === 'profiles' ? 'Search profiles' : 'Search job postings'}
+        />
+      </div>
+
+      <div className="card">
+        {isLoading && result.total === 0 ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : result.total === 0 ? (
+          <p className="text-gray-600 text-center py-12">
+            {text ? 'Nothing matches your search.' : `There are no ${tab === 'profiles' ? 'profiles' : 'job postings'} yet.`}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {tab === 'profiles'
+              ? profileResult.items.map(profile => (
+                <ModerationRow
+                  key={profile.id}
+                  to={`/profiles/${profile.id}`}
+                  title={profile.fullName}
+                  subtitle={`${profile.title || 'Professional'} · ${profile.email}`}
+                  createdAt={profile.createdAt}
+                  avatar={<ProfileAvatar name={profile.fullName} photo={profile.photo} size="sm" />}
+                  isRemoving={removingId === profile.id}
+                  onRemove={() => remove(profile.id, `${profile.fullName}'s profile`, deleteProfile)}
+                />
+              ))
+              : jobResult.items.map(job => (
+                <ModerationRow
+                  key={job.id}
+                  to={`/jobs/${job.id}`}
+                  title={job.jobTitle}
+                  subtitle={`${job.companyName} · ${job.contactEmail} · ${JOB_STATUS_LABELS[jobStatus(job)]}`}
+                  createdAt={job.createdAt}
+                  isRemoving={removingId === job.id}
+                  onRemove={() => remove(job.id, `the ${job.jobTitle} posting`, deleteJob)}
+                />
+              ))}
+          </ul>
+        )}
+      </div>
+
+      <Pagination
+        page={result.page}
+        pageCount={result.pageCount}
+        onChange={next => updateQuery({ page: String(next) })}
+      />
+    </div>
+  )
+}
+
+export default ModerationScreen
@@ -0,0 +1,136 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Building2, Calendar, Mail, Undo2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import ApplicationStageBadge from '../components/ApplicationStageBadge'
+import LoadingSpinner from '../components/LoadingSpinner'
+import MessageButton from '../components/messages/MessageButton'
+import { useApplications } from '../hooks/useApplications'
+import { useInvitations } from '../hooks/useInvitations'
+import { ApiError } from '../services/api'
+import { Application } from '../types'
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' })
+
+/**
+ * The jobs a candidate has applied to and where each application stands,
+ * after any invitations to apply they haven't acted on yet.
+ */
+const MyApplicationsScreen: React.FC = () => {
+  const { applications, isLoading, error, withdraw } = useApplications()
+  const { invitations } = useInvitations()
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null)
+
+  const handleWithdraw = async (application: Application) => {
+    if (!window.confirm(`Withdraw your application for ${application.jobTitle}?`)) return
+
+    setWithdrawingId(application.id)
+    try {
+      await withdraw(application.id)
+      toast.success('Application withdrawn')
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to withdraw the application')
+      console.error('Error withdrawing application:', err)
+    } finally {
+      setWithdrawingId(null)
+    }
+  }
+
+  const pendingInvitations = isLoading
+    ? []
+    : invitations.filter(invitation => !applications.some(application => application.jobId === invitation.jobId))
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">My Applications</h1>
+        <p className="text-gray-600">Follow the jobs you've applied to</p>
+      </div>
+
+      {pendingInvitations.length > 0 && (
+        <div className="card mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">Invitations to apply</h2>
+          <ul className="space-y-3">
+            {pendingInvitations.map(invitation => (
+              <li key={invitation.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span className="flex items-center space-x-2 text-gray-700">
+                  <Mail size={14} className="text-primary-500" />
+                  <span>
+                    {invitation.invitedBy} invited you to apply for{' '}
+                    <span className="font-medium">{invitation.jobTitle}</span> at {invitation.companyName}
+                  </span>
+                </span>
+                <span className="flex items-center gap-4">
+                  <MessageButton jobId={invitation.jobId} label="Message recruiter" />
+                  <Link to={`/jobs/${invitation.jobId}`} className="text-primary-600 hover:text-primary-500">
+                    View job
+                  </Link>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <div className="card text-center py-12">
+          <p className="text-gray-600">{error}</p>
+        </div>
+      ) : applications.length === 0 ? (
+        <div className="card text-center py-12">
+          <p className="text-gray-600 mb-4">You haven't applied to any jobs yet.</p>
+          <Link to="/jobs" className="text-primary-600 hover:text-primary-500">Browse open jobs</Link>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {applications.map(application => (
+            <li key={application.id} className="card">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                <div>
+                  <Link
+                    to={`/jobs/${application.jobId}`}
+                    className="text-lg font-semibold text-gray-900 hover:text-primary-600"
+                  >
+                    {application.jobTitle}
+                  </Link>
+                  <p className="text-sm text-gray-600 flex items-center space-x-1">
+                    <Building2 size={14} className="text-gray-400" />
+                    <span>{application.companyName}</span>
+                  </p>
+                </div>
+                <ApplicationStageBadge stage={application.stage} />
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-2 mt-3 text-sm text-gray-600">
+                <span className="flex items-center space-x-1">
+                  <Calendar size={14} className="text-gray-400" />
+                  <span>
+                    Applied {formatDate(application.createdAt)}
+                    {application.updatedAt !== application.createdAt && ` · updated ${formatDate(application.updatedAt)}`}
+                  </span>
+                </span>
+                <span className="flex items-center gap-4">
+                  <MessageButton jobId={application.jobId} label="Message recruiter" />
+                  <button
+                    type="button"
+                    onClick={() => handleWithdraw(application)}
+                    disabled={withdrawingId === application.id}
+                    className="flex items-center space-x-1 text-sm text-gray-600 hover:text-red-600 disabled:opacity-50"
+                  >
+                    {withdrawingId === application.id ? <LoadingSpinner size="sm" /> : <Undo2 size={14} />}
+                    <span>Withdraw</span>
+                  </button>
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default MyApplicationsScreen
@@ -0,0 +1,164 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Bell, Building2, CheckCheck, MailOpen, MapPin } from 'lucide-react'
+import toast from 'react-hot-toast'
+import LoadingSpinner from '../components/LoadingSpinner'
+import NotificationIcon from '../components/NotificationIcon'
+import { useAuth } from '../context/AppContext'
+import { useNotifications } from '../context/NotificationContext'
+import { Notification } from '../types'
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+type Filter = 'all' | 'unread'
+
+/**
+ * Everything the app has told the signed-in user, newest first. Opening a
+ * notification marks it as read.
+ */
+const NotificationsScreen: React.FC = () => {
+  const { can } = useAuth()
+  const { notifications, unreadCount, isLoading, error, markRead, markAllRead } = useNotifications()
+  const [openId, setOpenId] = useState<string | null>(null)
+  const [filter, setFilter] = useState<Filter>('all')
+
+  // The open notification stays put while it is read, even under Unread
+  const shown = filter === 'unread'
+    ? notifications.filter(notification => !notification.readAt || notification.id === openId)
+    : notifications
+
+  const handleOpen = (notification: Notification) => {
+    setOpenId(current => (current === notification.id ? null : notification.id))
+    if (notification.readAt) return
+    markRead(notification.id).catch(err => console.error('Error marking notification as read:', err))
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead()
+    } catch (err) {
+      toast.error('Failed to mark your notifications as read')
+      console.error('Error marking notifications as read:', err)
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Notifications</h1>
+          <p className="text-gray-600">
+            {unreadCount > 0 ? `${unreadCount} unread` : 'You are all caught up'}
+          </p>
+        </div>
+        <div className="flex items-center gap-4 text-sm">
+          <div className="flex rounded-md border border-gray-300 overflow-hidden" role="group" aria-label="Show">
+            {(['all', 'unread'] as Filter[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setFilter(option)}
+                aria-pressed={filter === option}
+                className={`px-3 py-1 ${filter === option ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {option === 'all' ? 'All' : 'Unread'}
+              </button>
+            ))}
+          </div>
+          {can('alert:create') && (
+            <Link to="/alerts" className="flex items-center space-x-1 text-primary-600 hover:text-primary-500">
+              <Bell size={16} />
+              <span>Job alerts</span>
+            </Link>
+          )}
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              onClick={handleMarkAllRead}
+              className="flex items-center space-x-1 text-gray-600 hover:text-gray-900"
+            >
+              <CheckCheck size={16} />
+              <span>Mark all as read</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <div className="card text-center py-12">
+          <p className="text-gray-600">{error}</p>
+        </div>
+      ) : shown.length === 0 ? (
+        <div className="card text-center py-12">
+          <MailOpen size={32} className="mx-auto text-gray-300 mb-3" />
+          <p className="text-gray-600">
+            {filter === 'unread' ? 'No unread notifications.' : 'Nothing here yet. News about your jobs and applications will show up here.'}
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {shown.map(notification => {
+            const isOpen = openId === notification.id
+            return (
+              <li
+                key={notification.id}
+                className={`card ${notification.readAt ? '' : 'border-l-4 border-l-primary-500 bg-primary-50/40'}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => handleOpen(notification)}
+                  aria-expanded={isOpen}
+                  className="w-full text-left flex items-start gap-3"
+                >
+                  <NotificationIcon kind={notification.kind} isUnread={!notification.readAt} />
+                  <div className="min-w-0 flex-1">
+                    <p className={`text-gray-900 ${notification.readAt ? '' : 'font-semibold'}`}>{notification.title}</p>
+                    <p className="text-sm text-gray-600 mt-1">{notification.body}</p>
+                  </div>
+                  <span className="text-xs text-gray-500 shrink-0">{formatTime(notification.createdAt)}</span>
+                </button>
+
+                {isOpen && notification.jobs && notification.jobs.length > 0 && (
+                  <ul className="mt-4 divide-y divide-gray-100 border-t border-gray-100">
+                    {notification.jobs.map(job => (
+                      <li key={job.id} className="py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <div>
+                          <Link to={`/jobs/${job.id}`} className="font-medium text-gray-900 hover:text-primary-600">
+                            {job.jobTitle}
+                          </Link>
+                          <p className="text-gray-600 flex flex-wrap items-center gap-x-3">
+                            <span className="flex items-center space-x-1">
+                              <Building2 size={12} className="text-gray-400" />
+                              <span>{job.companyName}</span>
+                            </span>
+                            <span className="flex items-center space-x-1">
+                              <MapPin size={12} className="text-gray-400" />
+                              <span>{job.location}</span>
+                            </span>
+                          </p>
+                        </div>
+                        <Link to={`/jobs/${job.id}`} className="text-primary-600 hover:text-primary-500">View job</Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {isOpen && notification.link && !notification.jobs?.length && (
+                  <Link to={notification.link} className="inline-block mt-3 text-sm text-primary-600 hover:text-primary-500">
+                    Open
+                  </Link>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default NotificationsScreen
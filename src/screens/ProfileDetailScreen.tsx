@@ -0,0 +1,171 @@
+import React from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { ArrowLeft, Briefcase, Download, Edit, ExternalLink, FileText, Linkedin, Mail, MapPin, Phone } from 'lucide-react'
+import toast from 'react-hot-toast'
+import LoadingSpinner from '../components/LoadingSpinner'
+import ProfileAvatar from '../components/ProfileAvatar'
+import { useAuth, useDataStore } from '../context/AppContext'
+import { useRecord } from '../hooks/useRecord'
+import { api, ApiError } from '../services/api'
+import { downloadAttachment } from '../services/uploads'
+import { Profile } from '../types'
+import { canManage } from '../utils/permissions'
+
+const ProfileDetails: React.FC<{ profile: Profile }> = ({ profile }) => {
+  const handleDownload = async () => {
+    if (!profile.resumeAttachmentId) return
+    try {
+      await downloadAttachment({ id: profile.resumeAttachmentId, fileName: profile.resumeFileName ?? 'resume' })
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Failed to download the resume')
+    }
+  }
+
+  const hasResume = Boolean(profile.resumeUrl || profile.resumeAttachmentId)
+
+  return (
+    <div className="card max-w-3xl">
+      <div className="flex items-center space-x-4 mb-6">
+        <ProfileAvatar name={profile.fullName} photo={profile.photo} size="lg" />
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{profile.fullName}</h2>
+          <p className="text-lg text-gray-700">{profile.title || 'Professional'}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <p className="text-sm font-medium text-gray-700 flex items-center">
+            <Briefcase size={14} className="mr-1 text-gray-400" />
+            Experience
+          </p>
+          <p className="text-gray-900">
+            {profile.yearsExperience} {profile.yearsExperience === 1 ? 'year' : 'years'}
+          </p>
+        </div>
+        <div className="bg-gray-50 p-3 rounded-lg">
+          <p className="text-sm font-medium text-gray-700 flex items-center">
+            <MapPin size={14} className="mr-1 text-gray-400" />
+            Location
+          </p>
+          <p className="text-gray-900">{profile.location}</p>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Skills</h3>
+        <div className="flex flex-wrap gap-2">
+          {profile.skills.map((skill, index) => (
+            <span
+              key={index}
+              className="px-3 py-1 bg-primary-100 text-primary-700 rounded-full text-sm"
+            >
+              {skill}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {profile.jobTypes.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Looking for</h3>
+          <p className="text-gray-700">{profile.jobTypes.join(', ')}</p>
+        </div>
+      )}
+
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Resume</h3>
+        {hasResume ? (
+          <div className="space-y-2">
+            {profile.resumeAttachmentId && (
+              <button
+                type="button"
+                onClick={handleDownload}
+                className="flex items-center space-x-2 text-primary-600 hover:text-primary-500"
+              >
+                <FileText size={16} />
+                <span>{profile.resumeFileName ?? 'Resume'}</span>
+                <Download size={14} />
+              </button>
+            )}
+            {profile.resumeUrl && (
+              <a
+                href={profile.resumeUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center space-x-2 text-primary-600 hover:text-primary-500"
+              >
+                <ExternalLink size={16} />
+                <span>View online resume</span>
+              </a>
+            )}
+          </div>
+        ) : (
+          <p className="text-gray-500">No resume provided.</p>
+        )}
+      </div>
+
+      <div className="border-t pt-4 space-y-2 text-sm text-gray-700">
+        <a href={`mailto:${profile.email}`} className="flex items-center space-x-2 hover:text-primary-600">
+          <Mail size={14} className="text-gray-400" />
+          <span>{profile.email}</span>
+        </a>
+        {profile.phone && (
+          <a href={`tel:${profile.phone}`} className="flex items-center space-x-2 hover:text-primary-600">
+            <Phone size={14} className="text-gray-400" />
+            <span>{profile.phone}</span>
+          </a>
+        )}
+        {profile.linkedinUrl && (
+          <a
+            href={profile.linkedinUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center space-x-2 hover:text-primary-600"
+          >
+            <Linkedin size={14} className="text-gray-400" />
+            <span>LinkedIn profile</span>
+          </a>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const ProfileDetailScreen: React.FC = () => {
+  const { id = '' } = useParams()
+  const { getProfile } = useDataStore()
+  const { user } = useAuth()
+  const { record: profile, error } = useRecord(id, getProfile(id), api.profiles.get, 'profile')
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <Link to="/profiles" className="inline-flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft size={16} />
+          <span>All candidates</span>
+        </Link>
+        {profile && canManage(user, profile, 'profile:moderate') && (
+          <Link to={`/profiles/${profile.id}/edit`} className="btn-secondary flex items-center space-x-2">
+            <Edit size={16} />
+            <span>Edit profile</span>
+          </Link>
+        )}
+      </div>
+
+      {error ? (
+        <div className="card text-center py-12">
+          <p className="text-gray-600">{error}</p>
+        </div>
+      ) : profile ? (
+        <ProfileDetails profile={profile} />
+      ) : (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ProfileDetailScreen
@@ -1,57 +1,200 @@
-import React, { useState } from 'react'
-import { useForm } from 'react-hook-form'
+import React, { useCallback, useEffect, useState } from 'react'
+import { Controller, PathValue, useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { z } from 'zod'
+import { Link, Navigate, useParams } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import { Upload, X, CheckCircle, AlertCircle } from 'lucide-react'
+import { CheckCircle, AlertCircle, Sparkles } from 'lucide-react'
 import toast from 'react-hot-toast'
+import AccessDenied from '../components/AccessDenied'
+import ChangeSummary from '../components/ChangeSummary'
+import ConflictBanner from '../components/ConflictBanner'
+import FileUpload from '../components/FileUpload'
 import LoadingSpinner from '../components/LoadingSpinner'
+import ResumeSuggestion, { suggestedFieldClass } from '../components/ResumeSuggestion'
+import SkillTagInput from '../components/SkillTagInput'
+import { RecordConflictError, useAuth, useDataStore } from '../context/AppContext'
+import { useRecord } from '../hooks/useRecord'
+import { useUpload } from '../hooks/useUpload'
+import { JOB_TYPES } from '../chat/parsing/jobTypes'
+import { PROFILE_FIELD_LABELS, ProfileFormData, profileSchema, toProfileFormData } from '../schemas/profile'
+import { api, ApiError } from '../services/api'
+import { parseResume, ResumeFields, ResumeParseError } from '../services/resume'
+import { downloadAttachment } from '../services/uploads'
+import { Profile } from '../types'
+import { diffFields, FieldChange } from '../utils/diff'
+import { canManage } from '../utils/permissions'
+import { splitList } from '../utils/search'
+import { canonicalSkills } from '../utils/skills'
 
-const profileSchema = z.object({
-  fullName: z.string().min(2, 'Full name must be at least 2 characters'),
-  skills: z.string().min(1, 'Please enter at least one skill'),
-  yearsExperience: z.number().min(0, 'Experience cannot be negative').max(50, 'Experience cannot exceed 50 years'),
-  location: z.string().min(3, 'Please enter a valid location'),
-  email: z.string().email('Please enter a valid email address'),
-  phone: z.string().optional(),
-  linkedinUrl: z.string().url('Please enter a valid LinkedIn URL').optional().or(z.literal('')),
-  resumeUrl: z.string().url('Please enter a valid resume URL').optional().or(z.literal(''))
+type SuggestedField = Exclude<keyof ProfileFormData, 'resumeUrl' | 'jobTypes'>
+
+const SUGGESTED_FIELDS: SuggestedField[] = ['fullName', 'email', 'phone', 'location', 'skills', 'yearsExperience', 'linkedinUrl']
+
+const toFormValues = ({ skills, ...fields }: ResumeFields): Partial<ProfileFormData> => ({
+  ...fields,
+  ...(skills && { skills: skills.join(', ') })
 })
 
-type ProfileFormData = z.infer<typeof profileSchema>
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString(undefined, { timeStyle: 'short' })
 
+/**
+ * Creates a profile, or edits the one in the route. Edits are saved against
+ * the version the form was loaded from, so changes someone else saved in the
+ * meantime are never silently overwritten.
+ */
 const ProfileScreen: React.FC = () => {
+  const { id } = useParams()
+  const isEditing = id !== undefined
+  const { profiles, getProfile, createProfile, updateProfile } = useDataStore()
+  const { user } = useAuth()
+  const { record, error: loadError } = useRecord(id, id ? getProfile(id) : undefined, api.profiles.get, 'profile')
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [uploadProgress, setUploadProgress] = useState(0)
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null)
-  const [submitSuccess, setSubmitSuccess] = useState(false)
+  const {
+    upload,
+    start: startUpload,
+    pause: pauseUpload,
+    resume: resumeUpload,
+    restore: restoreUpload,
+    clear: clearUpload
+  } = useUpload()
+  // The stored version being edited, and a newer one saved by someone else
+  const [base, setBase] = useState<Profile | null>(null)
+  const [conflict, setConflict] = useState<Profile | null>(null)
+  const [isLoadingResume, setIsLoadingResume] = useState(false)
+  const [submitted, setSubmitted] = useState<Profile | null>(null)
+  const [isParsing, setIsParsing] = useState(false)
+  // Values filled in from the resume, and what the fields held before
+  const [suggestions, setSuggestions] = useState<Partial<ProfileFormData>>({})
+  const [previousValues, setPreviousValues] = useState<Partial<ProfileFormData>>({})
 
   const {
     register,
+    control,
     handleSubmit,
     formState: { errors, isValid },
     watch,
-    reset
+    reset,
+    setValue,
+    getValues
   } = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
-    mode: 'onChange'
+    mode: 'onChange',
+    defaultValues: isEditing ? undefined : { fullName: user?.name ?? '', email: user?.email ?? '', skills: '', jobTypes: [] }
   })
 
+  const uploadStatus = upload?.status
+  const uploadPending = uploadStatus === 'hashing' || uploadStatus === 'uploading' ||
+    uploadStatus === 'paused' || uploadStatus === 'failed'
+
+  useEffect(() => {
+    if (uploadStatus === 'completed') toast.success('File uploaded successfully')
+  }, [uploadStatus])
+
   const watchedFields = watch()
-  const completedFields = Object.values(watchedFields).filter(Boolean).length
+  const completedFields = Object.values(watchedFields)
+    .filter(value => (Array.isArray(value) ? value.length > 0 : Boolean(value))).length
   const totalFields = Object.keys(watchedFields).length
   const progressPercentage = Math.round((completedFields / totalFields) * 100)
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
+  // Puts a stored version of the profile into the form, resume included
+  const loadBase = useCallback(async (profile: Profile) => {
+    setBase(profile)
+    setConflict(null)
+    reset(toProfileFormData(profile))
+    setSuggestions({})
+    setPreviousValues({})
+    clearUpload()
+    if (!profile.resumeAttachmentId) return
+
+    setIsLoadingResume(true)
+    try {
+      restoreUpload(await api.attachments.get(profile.resumeAttachmentId))
+    } catch (error) {
+      console.error('Error loading resume:', error)
+    } finally {
+      setIsLoadingResume(false)
+    }
+  }, [reset, clearUpload, restoreUpload])
+
+  useEffect(() => {
+    if (record && record.id !== base?.id) loadBase(record)
+  }, [record, base?.id, loadBase])
+
+  const resumeChange: FieldChange[] = base && !isLoadingResume && upload?.attachment?.id !== base.resumeAttachmentId
+    ? [{ field: 'resume', label: 'Resume file', before: base.resumeFileName ?? '', after: upload?.attachment?.fileName ?? '' }]
+    : []
+  const changes = base
+    ? [...diffFields(toProfileFormData(base), watchedFields, PROFILE_FIELD_LABELS), ...resumeChange]
+    : []
+
+  const setField = <K extends SuggestedField>(field: K, value: ProfileFormData[K] | undefined) =>
+    setValue(field, value as PathValue<ProfileFormData, K>, { shouldValidate: true, shouldDirty: true })
+
+  const pendingSuggestions = SUGGESTED_FIELDS.filter(field =>
+    suggestions[field] !== undefined && watchedFields[field] === suggestions[field]
+  )
+  const isSuggested = (field: SuggestedField) => pendingSuggestions.includes(field)
+
+  const clearSuggestions = (fields: SuggestedField[]) => {
+    const remove = <T extends Partial<ProfileFormData>>(values: T) =>
+      Object.fromEntries(Object.entries(values).filter(([field]) => !fields.includes(field as SuggestedField))) as T
+    setSuggestions(remove)
+    setPreviousValues(remove)
+  }
+
+  const acceptSuggestions = (fields: SuggestedField[]) => clearSuggestions(fields)
+
+  const rejectSuggestions = (fields: SuggestedField[]) => {
+    fields.forEach(field => setField(field, previousValues[field]))
+    clearSuggestions(fields)
+  }
+
+  const suggestionFor = (field: SuggestedField) =>
+    isSuggested(field) && (
+      <ResumeSuggestion
+        onAccept={() => acceptSuggestions([field])}
+        onReject={() => rejectSuggestions([field])}
+      />
+    )
 
+  const prefillFromResume = async (file: File) => {
+    setIsParsing(true)
+    try {
+      const values = toFormValues(await parseResume(file))
+      const current = getValues()
+      const fields = SUGGESTED_FIELDS.filter(field => values[field] !== undefined && values[field] !== current[field])
+      if (fields.length === 0) {
+        toast('No new details found in your resume')
+        return
+      }
+
+      const suggested: Partial<ProfileFormData> = {}
+      const previous: Partial<ProfileFormData> = {}
+      for (const field of fields) {
+        Object.assign(suggested, { [field]: values[field] })
+        Object.assign(previous, { [field]: current[field] })
+        setField(field, values[field])
+      }
+      setSuggestions(suggested)
+      setPreviousValues(previous)
+      toast.success(`Filled in ${fields.length} field${fields.length === 1 ? '' : 's'} from your resume`)
+    } catch (error) {
+      toast.error(error instanceof ResumeParseError ? error.message : "We couldn't read your resume")
+      console.error('Error parsing resume:', error)
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const handleFileSelect = (file: File) => {
     // Validate file type and size
-    const allowedTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
+    // Only formats the resume parser can read, so every upload can pre-fill the form
+    const allowedTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
     const maxSize = 5 * 1024 * 1024 // 5MB
 
     if (!allowedTypes.includes(file.type)) {
-      toast.error('Please upload a PDF or DOC file')
+      toast.error('Please upload a PDF or DOCX file')
       return
     }
 
@@ -60,60 +203,85 @@ const ProfileScreen: React.FC = () => {
       return
     }
 
-    // Simulate upload progress
-    setUploadProgress(0)
-    const interval = setInterval(() => {
-      setUploadProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(interval)
-          setUploadedFile(file)
-          toast.success('File uploaded successfully')
-          return 100
-        }
-        return prev + 10
-      })
-    }, 200)
+    // A stored resume that is not on a saved profile yet can simply be swapped out
+    startUpload(file, { replaces: unsavedAttachmentId() })
+    prefillFromResume(file)
+  }
+
+  // The saved profile's resume is only deleted once the profile no longer uses it
+  const unsavedAttachmentId = () => {
+    const attachmentId = upload?.attachment?.id
+    return attachmentId !== base?.resumeAttachmentId ? attachmentId : undefined
+  }
+
+  const removeAttachment = (attachmentId: string) => {
+    api.attachments.remove(attachmentId).catch(error => {
+      console.error('Error removing resume:', error)
+    })
   }
 
   const removeFile = () => {
-    setUploadedFile(null)
-    setUploadProgress(0)
+    const attachmentId = unsavedAttachmentId()
+    clearUpload()
+    if (attachmentId) removeAttachment(attachmentId)
+  }
+
+  const handleDownload = async () => {
+    if (!upload?.attachment) return
+    try {
+      await downloadAttachment(upload.attachment)
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Failed to download the file')
+    }
   }
 
-  const onSubmit = async (data: ProfileFormData) => {
+  const saveProfile = async (data: ProfileFormData, expectedVersion?: number) => {
+    if (uploadPending) {
+      toast.error('Please finish or remove your resume upload first')
+      return
+    }
+
+    const values = {
+      ...data,
+      skills: canonicalSkills(splitList(data.skills)),
+      resumeFileName: upload?.attachment?.fileName,
+      resumeAttachmentId: upload?.attachment?.id
+    }
+
     setIsSubmitting(true)
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      const profileData = {
-        ...data,
-        skills: data.skills.split(',').map(skill => skill.trim()),
-        resumeFile: uploadedFile
+      if (base) {
+        const profile = await updateProfile(base.id, values, expectedVersion ?? base.version)
+        if (base.resumeAttachmentId && base.resumeAttachmentId !== profile.resumeAttachmentId) {
+          removeAttachment(base.resumeAttachmentId)
+        }
+        await loadBase(profile)
+        setSubmitted(profile)
+        toast.success('Profile updated successfully!')
+      } else {
+        setSubmitted(await createProfile(values))
+        toast.success('Profile created successfully!')
       }
-      
-      console.log('Profile data:', profileData)
-      
-      setSubmitSuccess(true)
-      toast.success('Profile created successfully!')
-      
-      // Reset form after success
-      setTimeout(() => {
-        reset()
-        setUploadedFile(null)
-        setUploadProgress(0)
-        setSubmitSuccess(false)
-      }, 3000)
-      
     } catch (error) {
-      toast.error('Failed to create profile. Please try again.')
-      console.error('Error creating profile:', error)
+      if (error instanceof RecordConflictError) {
+        setConflict(error.current)
+        return
+      }
+      toast.error(base ? 'Failed to save your changes. Please try again.' : 'Failed to create profile. Please try again.')
+      console.error('Error saving profile:', error)
     } finally {
       setIsSubmitting(false)
     }
   }
 
-  if (submitSuccess) {
+  const onSubmit = (data: ProfileFormData) => saveProfile(data)
+
+  // Saves over the newer version, which the user has chosen to replace
+  const overwriteConflict = () => {
+    if (conflict) handleSubmit(data => saveProfile(data, conflict.version))()
+  }
+
+  if (submitted) {
     return (
       <div className="max-w-2xl mx-auto p-6">
         <motion.div
@@ -122,18 +290,62 @@ const ProfileScreen: React.FC = () => {
           className="text-center py-12"
         >
           <CheckCircle className="mx-auto h-16 w-16 text-green-500 mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Profile Created Successfully!</h2>
-          <p className="text-gray-600">Your profile has been saved and is now visible to potential employers.</p>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            {isEditing ? 'Profile Updated Successfully!' : 'Profile Created Successfully!'}
+          </h2>
+          <p className="text-gray-600 mb-6">Your profile has been saved and is now visible to potential employers.</p>
+          <div className="flex justify-center space-x-4">
+            <Link to={`/profiles/${submitted.id}`} className="btn-primary">View profile</Link>
+            {isEditing ? (
+              <button type="button" onClick={() => setSubmitted(null)} className="btn-secondary">
+                Keep editing
+              </button>
+            ) : (
+              <Link to={`/profiles/${submitted.id}/edit`} className="btn-secondary">Edit profile</Link>
+            )}
+          </div>
         </motion.div>
       </div>
     )
   }
 
+  // Job seekers have one profile, so creating another means editing theirs
+  const ownProfile = !isEditing && user ? profiles.find(profile => profile.ownerId === user.id) : undefined
+  if (ownProfile) {
+    return <Navigate to={`/profiles/${ownProfile.id}/edit`} replace />
+  }
+
+  if (isEditing && loadError) {
+    return (
+      <div className="max-w-2xl mx-auto p-6">
+        <div className="card text-center py-12">
+          <p className="text-gray-600">{loadError}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (isEditing && !base) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (base && !canManage(user, base, 'profile:moderate')) {
+    return <AccessDenied>Only {base.fullName} and moderators can edit this profile.</AccessDenied>
+  }
+
   return (
     <div className="max-w-2xl mx-auto p-6">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Create Your Profile</h1>
-        <p className="text-gray-600">Build a comprehensive profile to attract the right opportunities</p>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">{isEditing ? 'Edit Profile' : 'Create Your Profile'}</h1>
+        <p className="text-gray-600">
+          {isEditing
+            ? 'Keep your details up to date so the right opportunities find you'
+            : 'Build a comprehensive profile to attract the right opportunities'}
+        </p>
         
         {/* Progress Indicator */}
         <div className="mt-4">
@@ -152,7 +364,39 @@ const ProfileScreen: React.FC = () => {
         </div>
       </div>
 
+      {conflict && (
+        <ConflictBanner onLoadNewer={() => loadBase(conflict)} onOverwrite={overwriteConflict}>
+          This profile was changed somewhere else at {formatTime(conflict.updatedAt)}, after you started editing.
+          Saving now would overwrite that version.
+        </ConflictBanner>
+      )}
+
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        {pendingSuggestions.length > 0 && (
+          <div className="flex items-center justify-between rounded-lg border border-amber-200 bg-amber-50 p-4">
+            <p className="text-sm text-amber-800 flex items-center">
+              <Sparkles size={16} className="mr-2" />
+              {pendingSuggestions.length} field{pendingSuggestions.length === 1 ? ' was' : 's were'} filled in from your resume. Please review the highlighted values.
+            </p>
+            <div className="flex space-x-2 shrink-0 ml-4">
+              <button
+                type="button"
+                onClick={() => acceptSuggestions(pendingSuggestions)}
+                className="text-sm font-medium text-green-700 hover:text-green-800"
+              >
+                Accept all
+              </button>
+              <button
+                type="button"
+                onClick={() => rejectSuggestions(pendingSuggestions)}
+                className="text-sm font-medium text-gray-600 hover:text-gray-800"
+              >
+                Reject all
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="card">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Basic Information</h2>
           
@@ -165,7 +409,7 @@ const ProfileScreen: React.FC = () => {
                 {...register('fullName')}
                 type="text"
                 id="fullName"
-                className={`input-field ${errors.fullName ? 'border-red-500' : ''}`}
+                className={`input-field ${errors.fullName ? 'border-red-500' : ''} ${isSuggested('fullName') ? suggestedFieldClass : ''}`}
                 placeholder="Enter your full name"
               />
               {errors.fullName && (
@@ -174,6 +418,7 @@ const ProfileScreen: React.FC = () => {
                   {errors.fullName.message}
                 </p>
               )}
+              {suggestionFor('fullName')}
             </div>
 
             <div>
@@ -184,7 +429,7 @@ const ProfileScreen: React.FC = () => {
                 {...register('email')}
                 type="email"
                 id="email"
-                className={`input-field ${errors.email ? 'border-red-500' : ''}`}
+                className={`input-field ${errors.email ? 'border-red-500' : ''} ${isSuggested('email') ? suggestedFieldClass : ''}`}
                 placeholder="your.email@example.com"
               />
               {errors.email && (
@@ -193,6 +438,7 @@ const ProfileScreen: React.FC = () => {
                   {errors.email.message}
                 </p>
               )}
+              {suggestionFor('email')}
             </div>
           </div>
 
@@ -205,9 +451,10 @@ const ProfileScreen: React.FC = () => {
                 {...register('phone')}
                 type="tel"
                 id="phone"
-                className="input-field"
+                className={`input-field ${isSuggested('phone') ? suggestedFieldClass : ''}`}
                 placeholder="+1 (555) 123-4567"
               />
+              {suggestionFor('phone')}
             </div>
 
             <div>
@@ -218,7 +465,7 @@ const ProfileScreen: React.FC = () => {
                 {...register('location')}
                 type="text"
                 id="location"
-                className={`input-field ${errors.location ? 'border-red-500' : ''}`}
+                className={`input-field ${errors.location ? 'border-red-500' : ''} ${isSuggested('location') ? suggestedFieldClass : ''}`}
                 placeholder="City, Country"
               />
               {errors.location && (
@@ -227,6 +474,7 @@ const ProfileScreen: React.FC = () => {
                   {errors.location.message}
                 </p>
               )}
+              {suggestionFor('location')}
             </div>
           </div>
         </div>
@@ -238,12 +486,19 @@ const ProfileScreen: React.FC = () => {
             <label htmlFor="skills" className="block text-sm font-medium text-gray-700 mb-1">
               Skills *
             </label>
-            <input
-              {...register('skills')}
-              type="text"
-              id="skills"
-              className={`input-field ${errors.skills ? 'border-red-500' : ''}`}
-              placeholder="React, TypeScript, Node.js, Python (separate with commas)"
+            <Controller
+              name="skills"
+              control={control}
+              render={({ field }) => (
+                <SkillTagInput
+                  id="skills"
+                  value={splitList(field.value ?? '')}
+                  onChange={skills => field.onChange(skills.join(', '))}
+                  onBlur={field.onBlur}
+                  className={`${errors.skills ? 'border-red-500' : ''} ${isSuggested('skills') ? suggestedFieldClass : ''}`}
+                  placeholder="Start typing a skill, e.g. React"
+                />
+              )}
             />
             {errors.skills && (
               <p className="mt-1 text-sm text-red-600 flex items-center">
@@ -251,6 +506,7 @@ const ProfileScreen: React.FC = () => {
                 {errors.skills.message}
               </p>
             )}
+            {suggestionFor('skills')}
           </div>
 
           <div>
@@ -263,7 +519,7 @@ const ProfileScreen: React.FC = () => {
               id="yearsExperience"
               min="0"
               max="50"
-              className={`input-field ${errors.yearsExperience ? 'border-red-500' : ''}`}
+              className={`input-field ${errors.yearsExperience ? 'border-red-500' : ''} ${isSuggested('yearsExperience') ? suggestedFieldClass : ''}`}
               placeholder="5"
             />
             {errors.yearsExperience && (
@@ -272,8 +528,29 @@ const ProfileScreen: React.FC = () => {
                 {errors.yearsExperience.message}
               </p>
             )}
+            {suggestionFor('yearsExperience')}
           </div>
 
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">
+              Open To *
+            </legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {JOB_TYPES.map(type => (
+                <label key={type} className="flex items-center space-x-2 text-sm text-gray-700 py-0.5">
+                  <input {...register('jobTypes')} type="checkbox" value={type} />
+                  <span>{type}</span>
+                </label>
+              ))}
+            </div>
+            {errors.jobTypes && (
+              <p className="mt-1 text-sm text-red-600 flex items-center">
+                <AlertCircle size={14} className="mr-1" />
+                {errors.jobTypes.message}
+              </p>
+            )}
+          </fieldset>
+
           <div>
             <label htmlFor="linkedinUrl" className="block text-sm font-medium text-gray-700 mb-1">
               LinkedIn Profile URL
@@ -282,7 +559,7 @@ const ProfileScreen: React.FC = () => {
               {...register('linkedinUrl')}
               type="url"
               id="linkedinUrl"
-              className={`input-field ${errors.linkedinUrl ? 'border-red-500' : ''}`}
+              className={`input-field ${errors.linkedinUrl ? 'border-red-500' : ''} ${isSuggested('linkedinUrl') ? suggestedFieldClass : ''}`}
               placeholder="https://linkedin.com/in/yourprofile"
             />
             {errors.linkedinUrl && (
@@ -291,6 +568,7 @@ const ProfileScreen: React.FC = () => {
                 {errors.linkedinUrl.message}
               </p>
             )}
+            {suggestionFor('linkedinUrl')}
           </div>
         </div>
 
@@ -324,81 +602,58 @@ const ProfileScreen: React.FC = () => {
                 Upload Resume File
               </label>
               
-              {!uploadedFile ? (
-                <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-primary-400 transition-colors duration-200">
-                  <Upload className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-                  <div className="text-sm text-gray-600 mb-2">
-                    <label htmlFor="resume-upload" className="cursor-pointer text-primary-600 hover:text-primary-500">
-                      Click to upload
-                    </label>
-                    <span> or drag and drop</span>
-                  </div>
-                  <p className="text-xs text-gray-500">PDF, DOC up to 5MB</p>
-                  <input
-                    id="resume-upload"
-                    type="file"
-                    className="hidden"
-                    accept=".pdf,.doc,.docx"
-                    onChange={handleFileUpload}
-                  />
-                </div>
-              ) : (
-                <div className="border border-gray-300 rounded-lg p-4">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-3">
-                      <CheckCircle className="h-5 w-5 text-green-500" />
-                      <span className="text-sm font-medium text-gray-900">{uploadedFile.name}</span>
-                    </div>
-                    <button
-                      type="button"
-                      onClick={removeFile}
-                      className="text-gray-400 hover:text-gray-600"
-                    >
-                      <X size={16} />
-                    </button>
-                  </div>
-                </div>
-              )}
+              <FileUpload
+                id="resume-upload"
+                accept=".pdf,.docx"
+                hint="PDF or DOCX up to 5MB. We'll fill in your details from it."
+                upload={upload}
+                onSelect={handleFileSelect}
+                onPause={pauseUpload}
+                onResume={resumeUpload}
+                onRemove={removeFile}
+                onDownload={handleDownload}
+              />
 
-              {uploadProgress > 0 && uploadProgress < 100 && (
-                <div className="mt-2">
-                  <div className="flex justify-between text-sm text-gray-600 mb-1">
-                    <span>Uploading...</span>
-                    <span>{uploadProgress}%</span>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div
-                      className="bg-primary-600 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${uploadProgress}%` }}
-                    />
-                  </div>
-                </div>
+              {isParsing && (
+                <p className="mt-2 text-sm text-gray-600 flex items-center">
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  Reading your resume...
+                </p>
               )}
             </div>
           </div>
         </div>
 
+        {changes.length > 0 && <ChangeSummary changes={changes} />}
+
         <div className="flex justify-end space-x-4">
           <button
             type="button"
-            onClick={() => reset()}
+            onClick={() => {
+              if (base) {
+                loadBase(base)
+                return
+              }
+              reset()
+              clearSuggestions(SUGGESTED_FIELDS)
+            }}
             className="btn-secondary"
-            disabled={isSubmitting}
+            disabled={isSubmitting || (isEditing && changes.length === 0)}
           >
-            Reset Form
+            {isEditing ? 'Discard Changes' : 'Reset Form'}
           </button>
           <button
             type="submit"
-            disabled={!isValid || isSubmitting}
+            disabled={!isValid || isSubmitting || uploadPending || (isEditing && changes.length === 0)}
             className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isSubmitting ? (
               <>
                 <LoadingSpinner size="sm" />
-                <span>Creating Profile...</span>
+                <span>{isEditing ? 'Saving Changes...' : 'Creating Profile...'}</span>
               </>
             ) : (
-              <span>Create Profile</span>
+              <span>{isEditing ? 'Save Changes' : 'Create Profile'}</span>
             )}
           </button>
         </div>
@@ -0,0 +1,191 @@
+import React from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Link, Navigate, useLocation } from 'react-router-dom'
+import { AlertCircle, Briefcase, User, UserPlus } from 'lucide-react'
+import toast from 'react-hot-toast'
+import LoadingSpinner from '../components/LoadingSpinner'
+import { useAuth } from '../context/AppContext'
+import { useRedirectTarget } from '../hooks/useRedirectTarget'
+import { ROLE_LABELS, SignupFormData, signupSchema } from '../schemas/auth'
+import { ApiError } from '../services/api'
+import { UserRole } from '../types'
+
+const ROLE_OPTIONS: { value: UserRole; icon: typeof User; description: string }[] = [
+  { value: 'job_seeker', icon: User, description: 'Create a profile and get matched with jobs' },
+  { value: 'recruiter', icon: Briefcase, description: 'Post jobs and find candidates' }
+]
+
+// Where a new account goes first when it wasn't sent here from another page
+const LANDING_PAGES: Record<UserRole, string> = {
+  job_seeker: '/profile',
+  recruiter: '/jobs/new',
+  admin: '/admin'
+}
+
+const SignupScreen: React.FC = () => {
+  const { user, signUp } = useAuth()
+  const location = useLocation()
+  const redirectTo = useRedirectTarget()
+  const {
+    register,
+    handleSubmit,
+    setError,
+    watch,
+    formState: { errors, isSubmitting }
+  } = useForm<SignupFormData>({
+    resolver: zodResolver(signupSchema),
+    defaultValues: { role: 'job_seeker' }
+  })
+
+  const selectedRole = watch('role')
+
+  if (user) {
+    return <Navigate to={redirectTo ?? LANDING_PAGES[user.role]} replace />
+  }
+
+  const onSubmit = async ({ name, email, password, role }: SignupFormData) => {
+    try {
+      const account = await signUp({ name, email, password, role })
+      toast.success(`Welcome, ${account.name}!`)
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 'conflict') {
+        setError('email', { message: error.message })
+        return
+      }
+      toast.error(error instanceof ApiError ? error.message : 'Failed to create your account. Please try again.')
+      console.error('Error signing up:', error)
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto p-6">
+      <div className="mb-8 text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Create an account</h1>
+        <p className="text-gray-600">Join Profile Matcher as a job seeker or an employer</p>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="card space-y-4">
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-2">I am a...</legend>
+          <div className="grid grid-cols-2 gap-3">
+            {ROLE_OPTIONS.map(({ value, icon: Icon, description }) => (
+              <label
+                key={value}
+                className={`cursor-pointer rounded-lg border p-3 transition-colors duration-200 ${
+                  selectedRole === value
+                    ? 'border-primary-600 bg-primary-50'
+                    : 'border-gray-300 hover:border-primary-400'
+                }`}
+              >
+                <input {...register('role')} type="radio" value={value} className="sr-only" />
+                <span className="flex items-center space-x-2 font-medium text-gray-900">
+                  <Icon size={16} />
+                  <span>{ROLE_LABELS[value]}</span>
+                </span>
+                <span className="block mt-1 text-xs text-gray-600">{description}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div>
+          <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+            Full Name
+          </label>
+          <input
+            {...register('name')}
+            type="text"
+            id="name"
+            autoComplete="name"
+            className={`input-field ${errors.name ? 'border-red-500' : ''}`}
+            placeholder="Enter your full name"
+          />
+          {errors.name && (
+            <p className="mt-1 text-sm text-red-600 flex items-center">
+              <AlertCircle size={14} className="mr-1" />
+              {errors.name.message}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+            Email Address
+          </label>
+          <input
+            {...register('email')}
+            type="email"
+            id="email"
+            autoComplete="email"
+            className={`input-field ${errors.email ? 'border-red-500' : ''}`}
+            placeholder="your.email@example.com"
+          />
+          {errors.email && (
+            <p className="mt-1 text-sm text-red-600 flex items-center">
+              <AlertCircle size={14} className="mr-1" />
+              {errors.email.message}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+            Password
+          </label>
+          <input
+            {...register('password')}
+            type="password"
+            id="password"
+            autoComplete="new-password"
+            className={`input-field ${errors.password ? 'border-red-500' : ''}`}
+            placeholder="At least 8 characters"
+          />
+          {errors.password && (
+            <p className="mt-1 text-sm text-red-600 flex items-center">
+              <AlertCircle size={14} className="mr-1" />
+              {errors.password.message}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+            Confirm Password
+          </label>
+          <input
+            {...register('confirmPassword')}
+            type="password"
+            id="confirmPassword"
+            autoComplete="new-password"
+            className={`input-field ${errors.confirmPassword ? 'border-red-500' : ''}`}
+          />
+          {errors.confirmPassword && (
+            <p className="mt-1 text-sm text-red-600 flex items-center">
+              <AlertCircle size={14} className="mr-1" />
+              {errors.confirmPassword.message}
+            </p>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="btn-primary w-full flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? <LoadingSpinner size="sm" /> : <UserPlus size={16} />}
+          <span>{isSubmitting ? 'Creating account...' : 'Sign up'}</span>
+        </button>
+
+        <p className="text-sm text-gray-600 text-center">
+          Already have an account?{' '}
+          <Link to="/login" state={location.state} className="text-primary-600 hover:text-primary-500">
+            Log in
+          </Link>
+        </p>
+      </form>
+    </div>
+  )
+}
+
+export default SignupScreen
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createApiClient } from './client'
+import { ApiError } from './errors'
+import { ApiAdapter, ApiResponse } from './types'
+
+// An adapter answering with the given responses in turn
+const adapterFor = (...responses: ApiResponse[]) => {
+  let call = 0
+  return vi.fn<Parameters<ApiAdapter>, ReturnType<ApiAdapter>>(async () => responses[Math.min(call++, responses.length - 1)])
+}
+
+const serverError: ApiResponse = { status: 503, data: { message: 'Try again later' } }
+
+describe('createApiClient', () => {
+  it('retries failed idempotent requests', async () => {
+    const adapter = adapterFor(serverError, { status: 200, data: [] })
+    const api = createApiClient({ adapter, retryDelay: 0 })
+
+    expect(await api.jobs.list()).toEqual([])
+    expect(adapter).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry requests that may already have been applied', async () => {
+    const adapter = adapterFor(serverError, { status: 201, data: {} })
+    const api = createApiClient({ adapter, retryDelay: 0 })
+
+    await expect(api.applications.apply('job-1', '')).rejects.toMatchObject({ code: 'server', status: 503 })
+    expect(adapter).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not retry client errors', async () => {
+    const adapter = adapterFor({ status: 409, data: { message: 'Changed', details: { current: 1 } } })
+    const api = createApiClient({ adapter, retryDelay: 0 })
+
+    const error = await api.jobs.get('job-1').catch(caught => caught)
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({ code: 'conflict', message: 'Changed', details: { current: 1 } })
+    expect(adapter).toHaveBeenCalledTimes(1)
+  })
+
+  it('sends the token and the expected version', async () => {
+    const adapter = adapterFor({ status: 200, data: {} })
+    const api = createApiClient({ adapter, getToken: () => 'token-1' })
+
+    await api.jobs.update('job-1', { jobTitle: 'Engineer', expiresAt: undefined }, { expectedVersion: 3 })
+
+    expect(adapter.mock.calls[0][0]).toEqual({
+      method: 'PATCH',
+      path: '/jobs/job-1',
+      body: { jobTitle: 'Engineer', expiresAt: null },
+      headers: { Authorization: 'Bearer token-1', 'If-Match': '3' }
+    })
+  })
+})
@@ -0,0 +1,207 @@
+import {
+  Application,
+  ApplicationStage,
+  Attachment,
+  AuthSession,
+  Credentials,
+  DirectMessage,
+  Invitation,
+  JobAlert,
+  JobDraft,
+  JobPosting,
+  JobStatus,
+  MessageThread,
+  NewRecord,
+  Notification,
+  Profile,
+  SignUpData,
+  StoredRecord,
+  UploadSession,
+  UserData
+} from '../../types'
+import { MatchResult } from '../../utils/matching'
+import { ChatSession } from '../../chat/types'
+import { ApiError, errorFromException, errorFromResponse } from './errors'
+import { ApiAdapter, ApiRequest, HttpMethod } from './types'
+
+interface ApiClientOptions {
+  adapter: ApiAdapter
+  retries?: number
+  retryDelay?: number
+  // Bearer token sent with every request while a user is signed in
+  getToken?: () => string | null
+}
+
+interface RequestOptions {
+  signal?: AbortSignal
+  // Overrides the client's retries, for any method: only pass it for requests that are safe to repeat
+  retries?: number
+}
+
+interface UpdateOptions extends RequestOptions {
+  // Only apply the update if the record is still at this version
+  expectedVersion?: number
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Sending these twice has the same effect as sending them once. A POST or PATCH
+// that failed on the way back may already have been applied, so those aren't retried.
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE']
+
+// JSON drops undefined values, so fields being cleared are sent as null
+const withClearedFields = (changes: object) =>
+  Object.fromEntries(Object.entries(changes).map(([field, value]) => [field, value === undefined ? null : value]))
+
+export function createApiClient({ adapter, retries = 2, retryDelay = 300, getToken }: ApiClientOptions) {
+  /**
+   * Sends a request through the adapter, mapping failures to ApiError and
+   * retrying network, rate-limit and server errors of idempotent requests
+   * with exponential backoff.
+   */
+  const request = async <T>(req: ApiRequest, options: RequestOptions = {}): Promise<T> => {
+    const defaultRetries = IDEMPOTENT_METHODS.includes(req.method) ? retries : 0
+    const maxAttempts = (options.retries ?? defaultRetries) + 1
+    const token = getToken?.()
+    const outgoing = token ? { ...req, headers: { Authorization: `Bearer ${token}`, ...req.headers } } : req
+
+    for (let attempt = 1; ; attempt++) {
+      let error: ApiError
+      try {
+        const response = await adapter(outgoing, options.signal)
+        if (response.status >= 200 && response.status < 300) {
+          return response.data as T
+        }
+        error = errorFromResponse(response)
+      } catch (exception) {
+        error = errorFromException(exception)
+      }
+
+      if (!error.isRetryable || attempt >= maxAttempts || options.signal?.aborted) {
+        throw error
+      }
+      await wait(retryDelay * 2 ** (attempt - 1))
+    }
+  }
+
+  const resource = <T extends StoredRecord>(basePath: string) => ({
+    list: (query?: ApiRequest['query'], options?: RequestOptions) =>
+      request<T[]>({ method: 'GET', path: basePath, query }, options),
+    get: (id: string, options?: RequestOptions) =>
+      request<T>({ method: 'GET', path: `${basePath}/${id}` }, options),
+    create: (data: NewRecord<T>, options?: RequestOptions) =>
+      request<T>({ method: 'POST', path: basePath, body: data }, options),
+    update: (id: string, changes: Partial<NewRecord<T>>, { expectedVersion, ...options }: UpdateOptions = {}) =>
+      request<T>({
+        method: 'PATCH',
+        path: `${basePath}/${id}`,
+        body: withClearedFields(changes),
+        headers: expectedVersion === undefined ? undefined : { 'If-Match': String(expectedVersion) }
+      }, options),
+    remove: (id: string, options?: RequestOptions) =>
+      request<void>({ method: 'DELETE', path: `${basePath}/${id}` }, options)
+  })
+
+  return {
+    request,
+    profiles: resource<Profile>('/profiles'),
+    jobs: {
+      ...resource<JobPosting>('/jobs'),
+      changeStatus: (id: string, status: JobStatus, options?: RequestOptions) =>
+        request<JobPosting>({ method: 'POST', path: `/jobs/${id}/status`, body: { status } }, options),
+      matches: (id: string, options?: RequestOptions) =>
+        request<MatchResult[]>({ method: 'GET', path: `/jobs/${id}/matches` }, options)
+    },
+    drafts: resource<JobDraft>('/drafts'),
+    applications: {
+      list: (query?: { jobId?: string }, options?: RequestOptions) =>
+        request<Application[]>({ method: 'GET', path: '/applications', query }, options),
+      get: (id: string, options?: RequestOptions) =>
+        request<Application>({ method: 'GET', path: `/applications/${id}` }, options),
+      apply: (jobId: string, coverNote: string, options?: RequestOptions) =>
+        request<Application>({ method: 'POST', path: '/applications', body: { jobId, coverNote } }, options),
+      moveTo: (id: string, stage: ApplicationStage, options?: RequestOptions) =>
+        request<Application>({ method: 'PATCH', path: `/applications/${id}`, body: { stage } }, options),
+      addNote: (id: string, body: string, options?: RequestOptions) =>
+        request<Application>({ method: 'POST', path: `/applications/${id}/notes`, body: { body } }, options),
+      withdraw: (id: string, options?: RequestOptions) =>
+        request<void>({ method: 'DELETE', path: `/applications/${id}` }, options)
+    },
+    invitations: {
+      list: (query?: { jobId?: string }, options?: RequestOptions) =>
+        request<Invitation[]>({ method: 'GET', path: '/invitations', query }, options),
+      send: (jobId: string, profileId: string, options?: RequestOptions) =>
+        request<Invitation>({ method: 'POST', path: '/invitations', body: { jobId, profileId } }, options)
+    },
+    alerts: {
+      list: (options?: RequestOptions) =>
+        request<JobAlert[]>({ method: 'GET', path: '/alerts' }, options),
+      create: (data: Pick<JobAlert, 'name' | 'frequency' | 'criteria' | 'search'>, options?: RequestOptions) =>
+        request<JobAlert>({ method: 'POST', path: '/alerts', body: data }, options),
+      update: (id: string, changes: Partial<Pick<JobAlert, 'name' | 'frequency'>>, options?: RequestOptions) =>
+        request<JobAlert>({ method: 'PATCH', path: `/alerts/${id}`, body: changes }, options),
+      remove: (id: string, options?: RequestOptions) =>
+        request<void>({ method: 'DELETE', path: `/alerts/${id}` }, options)
+    },
+    notifications: {
+      list: (options?: RequestOptions) =>
+        request<Notification[]>({ method: 'GET', path: '/notifications' }, options),
+      markRead: (id: string, options?: RequestOptions) =>
+        request<Notification>({ method: 'POST', path: `/notifications/${id}/read` }, options),
+      markAllRead: (options?: RequestOptions) =>
+        request<void>({ method: 'POST', path: '/notifications/read-all' }, options)
+    },
+    threads: {
+      list: (options?: RequestOptions) =>
+        request<MessageThread[]>({ method: 'GET', path: '/threads' }, options),
+      get: (id: string, options?: RequestOptions) =>
+        request<MessageThread>({ method: 'GET', path: `/threads/${id}` }, options),
+      // Opens the thread about the job with the candidate's profile, or with the job's recruiter without one
+      start: (jobId: string, profileId?: string, options?: RequestOptions) =>
+        request<MessageThread>({ method: 'POST', path: '/threads', body: { jobId, profileId } }, options),
+      messages: (id: string, options?: RequestOptions) =>
+        request<DirectMessage[]>({ method: 'GET', path: `/threads/${id}/messages` }, options),
+      send: (id: string, body: string, options?: RequestOptions) =>
+        request<DirectMessage>({ method: 'POST', path: `/threads/${id}/messages`, body: { body } }, options),
+      markRead: (id: string, options?: RequestOptions) =>
+        request<MessageThread>({ method: 'POST', path: `/threads/${id}/read` }, options)
+    },
+    chatSessions: resource<ChatSession>('/chat-sessions'),
+    auth: {
+      signUp: (data: SignUpData, options?: RequestOptions) =>
+        request<AuthSession>({ method: 'POST', path: '/auth/signup', body: data }, options),
+      logIn: (credentials: Credentials, options?: RequestOptions) =>
+        request<AuthSession>({ method: 'POST', path: '/auth/login', body: credentials }, options),
+      session: (options?: RequestOptions) =>
+        request<AuthSession>({ method: 'GET', path: '/auth/session' }, options),
+      logOut: (options?: RequestOptions) =>
+        request<void>({ method: 'POST', path: '/auth/logout' }, options)
+    },
+    matches: {
+      find: (userData: UserData, options?: RequestOptions) =>
+        request<MatchResult[]>({ method: 'POST', path: '/matches', body: userData }, options)
+    },
+    uploads: {
+      start: (data: Omit<NewRecord<UploadSession>, 'receivedChunks' | 'ownerId'>, options?: RequestOptions) =>
+        request<UploadSession>({ method: 'POST', path: '/uploads', body: data }, options),
+      get: (id: string, options?: RequestOptions) =>
+        request<UploadSession>({ method: 'GET', path: `/uploads/${id}` }, options),
+      putChunk: (id: string, index: number, chunk: Blob, options?: RequestOptions) =>
+        request<UploadSession>({ method: 'PUT', path: `/uploads/${id}/chunks/${index}`, body: chunk }, options),
+      complete: (id: string, options?: RequestOptions) =>
+        request<Attachment>({ method: 'POST', path: `/uploads/${id}/complete` }, options),
+      cancel: (id: string, options?: RequestOptions) =>
+        request<void>({ method: 'DELETE', path: `/uploads/${id}` }, options)
+    },
+    attachments: {
+      get: (id: string, options?: RequestOptions) =>
+        request<Attachment>({ method: 'GET', path: `/attachments/${id}` }, options),
+      download: (id: string, options?: RequestOptions) =>
+        request<Blob>({ method: 'GET', path: `/attachments/${id}/content` }, options),
+      remove: (id: string, options?: RequestOptions) =>
+        request<void>({ method: 'DELETE', path: `/attachments/${id}` }, options)
+    }
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
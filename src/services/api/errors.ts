@@ -0,0 +1,61 @@
+import { ApiErrorBody, ApiResponse } from './types'
+
+export type ApiErrorCode =
+  | 'network'
+  | 'aborted'
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'validation'
+  | 'rate_limited'
+  | 'server'
+  | 'unknown'
+
+export class ApiError extends Error {
+  constructor(
+    public code: ApiErrorCode,
+    message: string,
+    public status = 0,
+    public details?: unknown
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+
+  get isRetryable() {
+    return this.code === 'network' || this.code === 'rate_limited' || this.code === 'server'
+  }
+}
+
+const codeForStatus = (status: number): ApiErrorCode => {
+  if (status === 400) return 'bad_request'
+  if (status === 401) return 'unauthorized'
+  if (status === 403) return 'forbidden'
+  if (status === 404) return 'not_found'
+  if (status === 409) return 'conflict'
+  if (status === 422) return 'validation'
+  if (status === 429) return 'rate_limited'
+  if (status >= 500) return 'server'
+  return 'unknown'
+}
+
+export function errorFromResponse(response: ApiResponse): ApiError {
+  const body = (response.data ?? {}) as ApiErrorBody
+  return new ApiError(
+    codeForStatus(response.status),
+    body.message || `Request failed with status ${response.status}`,
+    response.status,
+    body.details
+  )
+}
+
+export function errorFromException(error: unknown): ApiError {
+  if (error instanceof ApiError) return error
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new ApiError('aborted', 'Request was cancelled')
+  }
+  const message = error instanceof Error ? error.message : 'Network request failed'
+  return new ApiError('network', message)
+}
@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createFetchAdapter } from './fetchAdapter'
+
+const respond = (body: BodyInit | null, init: ResponseInit) => {
+  const fetch = vi.fn<[RequestInfo | URL, RequestInit?], Promise<Response>>(async () => new Response(body, init))
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('createFetchAdapter', () => {
+  it('sends JSON bodies and parses JSON responses', async () => {
+    const fetch = respond(JSON.stringify({ id: 'job-1' }), { status: 201, headers: { 'Content-Type': 'application/json' } })
+    const adapter = createFetchAdapter('https://api.example.com/')
+
+    const response = await adapter({ method: 'POST', path: '/jobs', body: { jobTitle: 'Engineer' }, query: { draft: true, page: undefined } })
+
+    expect(response).toEqual({ status: 201, data: { id: 'job-1' } })
+    const [url, init] = fetch.mock.calls[0]
+    expect(String(url)).toBe('https://api.example.com/jobs?draft=true')
+    expect(init?.body).toBe(JSON.stringify({ jobTitle: 'Engineer' }))
+  })
+
+  it('returns files as blobs', async () => {
+    respond('file contents', { status: 200, headers: { 'Content-Type': 'text/plain' } })
+
+    const { data } = await createFetchAdapter('/api')({ method: 'GET', path: '/attachments/1/content' })
+
+    expect(await (data as Blob).text()).toBe('file contents')
+  })
+
+  it('keeps the status of error pages that are not JSON', async () => {
+    respond('<html><body>Bad gateway</body></html>', { status: 502, headers: { 'Content-Type': 'text/html' } })
+
+    expect(await createFetchAdapter('/api')({ method: 'GET', path: '/jobs' })).toEqual({ status: 502, data: undefined })
+  })
+})
@@ -0,0 +1,45 @@
+import { ApiAdapter } from './types'
+
+// Gateways and proxies answer some errors with HTML pages, which carry nothing but their status
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Adapter for a real HTTP backend that speaks JSON.
+ */
+export function createFetchAdapter(baseUrl: string): ApiAdapter {
+  return async (request, signal) => {
+    const url = new URL(`${baseUrl.replace(/\/$/, '')}${request.path}`, window.location.origin)
+    Object.entries(request.query ?? {}).forEach(([key, value]) => {
+      if (value !== undefined) url.searchParams.set(key, String(value))
+    })
+
+    // Files and upload chunks are sent as raw bytes, everything else as JSON
+    const binary = request.body instanceof Blob
+    const response = await fetch(url, {
+      method: request.method,
+      headers: {
+        'Content-Type': binary ? 'application/octet-stream' : 'application/json',
+        ...request.headers
+      },
+      body: binary ? (request.body as Blob) : request.body === undefined ? undefined : JSON.stringify(request.body),
+      signal
+    })
+
+    const contentType = response.headers.get('Content-Type') ?? ''
+    if (response.ok && contentType && !contentType.includes('json')) {
+      return { status: response.status, data: await response.blob() }
+    }
+
+    const text = await response.text()
+    return {
+      status: response.status,
+      data: text ? parseJson(text) : undefined
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { createApiClient } from './client'
+import { createFetchAdapter } from './fetchAdapter'
+import { createMockAdapter } from './mock'
+import { sessionToken } from '../session'
+
+const baseUrl = import.meta.env.VITE_API_URL
+
+// Without a configured backend the app talks to the in-process mock server
+export const api = createApiClient({
+  adapter: baseUrl
+    ? createFetchAdapter(baseUrl)
+    : createMockAdapter({ latency: import.meta.env.MODE === 'test' ? 0 : 400 }),
+  getToken: sessionToken.get
+})
+
+export { createApiClient } from './client'
+export type { ApiClient } from './client'
+export { ApiError } from './errors'
+export type { ApiErrorCode } from './errors'
+export type { ApiAdapter, ApiRequest, ApiResponse } from './types'
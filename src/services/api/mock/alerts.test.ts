@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Caller, createTestApi, jobFields, TestApi } from '../../../test/mockApi'
+import { alertRepository } from '../../dataStore'
+
+const HOUR = 60 * 60 * 1000
+
+let test: TestApi
+let recruiter: Caller
+let seeker: Caller
+
+const saveAlert = (frequency: string, body: Record<string, unknown> = { search: { skills: ['React'] } }) =>
+  test.request(seeker, 'POST', '/alerts', { name: 'React jobs', frequency, ...body })
+
+const inbox = async () => (await test.request(seeker, 'GET', '/notifications')).data as { title: string; jobs: { id: string }[] }[]
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2026-03-02T09:00:00Z'))
+  test = createTestApi()
+  recruiter = await test.signUp('Riley', 'recruiter')
+  seeker = await test.signUp('Sam', 'job_seeker')
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('saving an alert', () => {
+  it('needs either complete chatbot criteria or listing filters', async () => {
+    const criteria = { name: 'Sam', skills: ['React'], location: 'Berlin', yearsExperience: 3, jobType: 'Full-time' }
+
+    expect((await saveAlert('instant', { criteria })).status).toBe(201)
+    expect((await saveAlert('instant', {})).status).toBe(422)
+    expect((await saveAlert('instant', { criteria, search: {} })).status).toBe(422)
+    expect((await saveAlert('instant', { criteria: { ...criteria, skills: 'React' } })).status).toBe(422)
+    expect((await saveAlert('instant', { search: { experienceLevels: ['Wizard'] } })).status).toBe(422)
+  })
+
+  it('is only for job seekers, who only see their own alerts', async () => {
+    await saveAlert('instant')
+    const other = await test.signUp('Alex', 'job_seeker')
+
+    expect((await test.request(recruiter, 'POST', '/alerts', { name: 'Mine', frequency: 'instant', search: {} })).status).toBe(403)
+    expect((await test.request(other, 'GET', '/alerts')).data).toEqual([])
+  })
+})
+
+describe('instant alerts', () => {
+  it('announce matching postings as they go live', async () => {
+    await saveAlert('instant')
+    const jobId = await test.create(recruiter, '/jobs', jobFields)
+    await test.create(recruiter, '/jobs', { ...jobFields, requiredSkills: ['Python'] })
+
+    expect(await inbox()).toEqual([expect.objectContaining({ title: 'New job for "React jobs"', jobs: [expect.objectContaining({ id: jobId })] })])
+  })
+
+  it('survive a broken alert', async () => {
+    await saveAlert('instant')
+    alertRepository.create({
+      ownerId: seeker.id,
+      name: 'Broken',
+      frequency: 'instant',
+      search: { skills: 'React' as unknown as string[] },
+      pendingJobIds: [],
+      lastDigestAt: new Date().toISOString()
+    })
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    expect((await test.request(recruiter, 'POST', '/jobs', jobFields)).status).toBe(201)
+    expect(await inbox()).toHaveLength(1)
+  })
+})
+
+describe('daily alerts', () => {
+  it('collect matches into one digest a day after the last one', async () => {
+    await saveAlert('daily')
+    const first = await test.create(recruiter, '/jobs', jobFields)
+    const second = await test.create(recruiter, '/jobs', { ...jobFields, jobTitle: 'React Developer' })
+
+    vi.setSystemTime(Date.now() + 23 * HOUR)
+    expect(await inbox()).toEqual([])
+
+    vi.setSystemTime(Date.now() + HOUR)
+    expect(await inbox()).toEqual([expect.objectContaining({
+      title: '2 new jobs for "React jobs"',
+      jobs: [expect.objectContaining({ id: first }), expect.objectContaining({ id: second })]
+    })])
+  })
+
+  it('leave out postings that closed in the meantime', async () => {
+    await saveAlert('daily')
+    const closed = await test.create(recruiter, '/jobs', jobFields)
+    const open = await test.create(recruiter, '/jobs', jobFields)
+    await test.request(recruiter, 'POST', `/jobs/${closed}/status`, { status: 'closed' })
+
+    vi.setSystemTime(Date.now() + 24 * HOUR)
+    expect(await inbox()).toEqual([expect.objectContaining({ jobs: [expect.objectContaining({ id: open })] })])
+  })
+})
@@ -0,0 +1,162 @@
+import { z } from 'zod'
+import { JobAlert, JobPosting, NotificationJob } from '../../../types'
+import { alertCriteriaSchema, alertSchema, alertSearchSchema } from '../../../schemas/alert'
+import { alertMatches } from '../../../utils/jobAlerts'
+import { isListed } from '../../../utils/jobLifecycle'
+import { hasPermission } from '../../../utils/permissions'
+import { alertRepository, jobRepository } from '../../dataStore'
+import { authenticate } from './auth'
+import { notify } from './notify'
+import { fail, json, MockContext, MockRoute } from './router'
+
+// Daily alerts send what they collected at most this often
+const DIGEST_INTERVAL = 24 * 60 * 60 * 1000
+
+// An alert matches on either chatbot answers or listing filters, never both
+const alertTargetSchema = z.object({
+  criteria: alertCriteriaSchema.optional(),
+  search: alertSearchSchema.optional()
+}).refine(({ criteria, search }) => !criteria !== !search)
+
+const summarize = (job: JobPosting): NotificationJob => ({
+  id: job.id,
+  jobTitle: job.jobTitle,
+  companyName: job.companyName,
+  location: job.location
+})
+
+const unauthorized = () => fail(401, 'unauthorized', 'Please log in to continue')
+
+// Postings that closed while waiting for the digest are left out
+const sendDigest = (alert: JobAlert, now: string) => {
+  const jobs = alert.pendingJobIds
+    .map(id => jobRepository.get(id))
+    .filter((job): job is JobPosting => job !== undefined && isListed(job))
+  if (jobs.length > 0) {
+    notify({
+      recipientId: alert.ownerId,
+      kind: 'job_alert',
+      title: `${jobs.length} new ${jobs.length === 1 ? 'job' : 'jobs'} for "${alert.name}"`,
+      body: jobs.map(job => `${job.jobTitle} at ${job.companyName}`).join(', '),
+      link: jobs.length === 1 ? `/jobs/${jobs[0].id}` : undefined,
+      jobs: jobs.map(summarize)
+    })
+  }
+  alertRepository.update(alert.id, { pendingJobIds: [], lastDigestAt: now })
+}
+
+/**
+ * Sends the daily digests that have fallen due.
+ */
+export const deliverDueDigests = (now = new Date()) => {
+  for (const alert of alertRepository.query(record => record.frequency === 'daily' && record.pendingJobIds.length > 0)) {
+    if (now.getTime() - new Date(alert.lastDigestAt).getTime() >= DIGEST_INTERVAL) {
+      sendDigest(alert, now.toISOString())
+    }
+  }
+}
+
+/**
+ * Tells the owners of matching alerts about a posting that just went live:
+ * instant alerts notify right away, daily ones keep it for the next digest.
+ */
+export const announceJob = (job: JobPosting) => {
+  for (const alert of alertRepository.list()) {
+    // A broken alert mustn't fail the request that published the posting, or keep it from other alerts
+    try {
+      if (alert.ownerId === job.ownerId || !alertMatches(alert, job)) continue
+      if (alert.frequency === 'instant') {
+        notify({
+          recipientId: alert.ownerId,
+          kind: 'job_alert',
+          title: `New job for "${alert.name}"`,
+          body: `${job.jobTitle} at ${job.companyName} · ${job.location}`,
+          link: `/jobs/${job.id}`,
+          jobs: [summarize(job)]
+        })
+      } else {
+        alertRepository.update(alert.id, { pendingJobIds: [...alert.pendingJobIds, job.id] })
+      }
+    } catch (error) {
+      console.error(`Job alert ${alert.id} failed for job ${job.id}:`, error)
+    }
+  }
+}
+
+// Resolves the caller's own alert, or the response to send instead
+const findAlert = ({ params, headers }: MockContext) => {
+  const account = authenticate(headers)
+  if (!account) return { denied: unauthorized() }
+  const alert = alertRepository.get(params.id)
+  if (!alert || alert.ownerId !== account.id) return { denied: fail(404, 'not_found', 'Record not found') }
+  return { alert }
+}
+
+/**
+ * Job alerts: searches a candidate saves to hear about new postings. Each
+ * account only sees its own.
+ */
+export const alertRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/alerts',
+    handler: ({ headers }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+      return json(alertRepository.query(alert => alert.ownerId === account.id))
+    }
+  },
+  {
+    method: 'POST',
+    path: '/alerts',
+    handler: ({ headers, body }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+      if (!hasPermission(account, 'alert:create')) {
+        return fail(403, 'forbidden', 'Only job seekers can save job alerts')
+      }
+
+      const parsed = alertSchema.safeParse(body)
+      if (!parsed.success) return fail(422, 'validation', parsed.error.issues[0].message)
+      const target = alertTargetSchema.safeParse(body)
+      if (!target.success) {
+        return fail(422, 'validation', 'An alert needs either complete chatbot criteria or listing filters')
+      }
+
+      return json(alertRepository.create({
+        ...parsed.data,
+        ...target.data,
+        ownerId: account.id,
+        pendingJobIds: [],
+        // The first digest goes out a day after the alert is saved
+        lastDigestAt: new Date().toISOString()
+      }), 201)
+    }
+  },
+  {
+    method: 'PATCH',
+    path: '/alerts/:id',
+    handler: context => {
+      const { denied, alert } = findAlert(context)
+      if (denied) return denied
+
+      const parsed = alertSchema.partial().safeParse(context.body)
+      if (!parsed.success) return fail(422, 'validation', parsed.error.issues[0].message)
+      // Switching to instant sends what was waiting for the digest
+      if (parsed.data.frequency === 'instant' && alert.pendingJobIds.length > 0) {
+        sendDigest(alert, new Date().toISOString())
+      }
+      return json(alertRepository.update(alert.id, parsed.data))
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/alerts/:id',
+    handler: context => {
+      const { denied, alert } = findAlert(context)
+      if (denied) return denied
+      alertRepository.remove(alert.id)
+      return json(undefined, 204)
+    }
+  }
+]
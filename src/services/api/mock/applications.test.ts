@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { Caller, createTestApi, jobFields, profileFields, TestApi } from '../../../test/mockApi'
+
+let test: TestApi
+let recruiter: Caller
+let seeker: Caller
+let jobId: string
+
+const apply = (caller: Caller, body: Record<string, unknown> = {}) =>
+  test.request(caller, 'POST', '/applications', { jobId, ...body })
+
+beforeEach(async () => {
+  test = createTestApi()
+  recruiter = await test.signUp('Riley', 'recruiter')
+  seeker = await test.signUp('Sam', 'job_seeker')
+  jobId = await test.create(recruiter, '/jobs', jobFields)
+  await test.create(seeker, '/profiles', profileFields)
+})
+
+describe('applying', () => {
+  it('sends the candidate profile to the job', async () => {
+    const { status, data } = await apply(seeker, { coverNote: '  Hi!  ' })
+
+    expect(status).toBe(201)
+    expect(data).toMatchObject({ jobId, candidateId: seeker.id, candidateName: 'Ana Lee', coverNote: 'Hi!', stage: 'applied' })
+  })
+
+  it('is only possible once per job', async () => {
+    await apply(seeker)
+
+    expect((await apply(seeker)).status).toBe(409)
+  })
+
+  it('needs a profile and the job seeker role', async () => {
+    const newcomer = await test.signUp('Alex', 'job_seeker')
+
+    expect((await apply(newcomer)).status).toBe(422)
+    expect((await apply(recruiter)).status).toBe(403)
+  })
+
+  it('is closed once the job is no longer listed', async () => {
+    await test.request(recruiter, 'POST', `/jobs/${jobId}/status`, { status: 'paused' })
+
+    expect((await apply(seeker)).status).toBe(409)
+  })
+})
+
+describe('the applicant pipeline', () => {
+  let applicationId: string
+
+  beforeEach(async () => {
+    applicationId = ((await apply(seeker)).data as { id: string }).id
+  })
+
+  it('lets the recruiter move applications between stages and tells the candidate', async () => {
+    const { data } = await test.request(recruiter, 'PATCH', `/applications/${applicationId}`, { stage: 'interview' })
+    expect(data).toMatchObject({ stage: 'interview' })
+
+    const { data: inbox } = await test.request(seeker, 'GET', '/notifications')
+    expect(inbox).toEqual([expect.objectContaining({ kind: 'application_status' })])
+  })
+
+  it('only accepts known stages', async () => {
+    const response = await test.request(recruiter, 'PATCH', `/applications/${applicationId}`, { stage: 'hired' })
+
+    expect(response.status).toBe(422)
+  })
+
+  it('keeps stages and notes in the recruiter\'s hands', async () => {
+    expect((await test.request(seeker, 'PATCH', `/applications/${applicationId}`, { stage: 'offer' })).status).toBe(403)
+    expect((await test.request(seeker, 'POST', `/applications/${applicationId}/notes`, { body: 'Great' })).status).toBe(403)
+  })
+
+  it('hides recruiter notes from the candidate', async () => {
+    await test.request(recruiter, 'POST', `/applications/${applicationId}/notes`, { body: 'Strong portfolio' })
+
+    expect((await test.request(recruiter, 'GET', `/applications/${applicationId}`)).data)
+      .toMatchObject({ notes: [{ body: 'Strong portfolio', author: 'Riley' }] })
+    expect((await test.request(seeker, 'GET', `/applications/${applicationId}`)).data).toMatchObject({ notes: [] })
+  })
+
+  it('is hidden from other recruiters', async () => {
+    const other = await test.signUp('Morgan', 'recruiter')
+
+    expect((await test.request(other, 'GET', `/applications/${applicationId}`)).status).toBe(404)
+    expect((await test.request(other, 'GET', '/applications')).data).toEqual([])
+  })
+
+  it('lets only the candidate withdraw', async () => {
+    expect((await test.request(recruiter, 'DELETE', `/applications/${applicationId}`)).status).toBe(403)
+    expect((await test.request(seeker, 'DELETE', `/applications/${applicationId}`)).status).toBe(204)
+  })
+})
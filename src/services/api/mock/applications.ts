@@ -0,0 +1,160 @@
+import { Account, Application } from '../../../types'
+import { APPLICATION_STAGE_LABELS, APPLICATION_STAGES, MAX_COVER_NOTE_LENGTH, MAX_NOTE_LENGTH } from '../../../schemas/application'
+import { isListed } from '../../../utils/jobLifecycle'
+import { canManage, hasPermission } from '../../../utils/permissions'
+import { applicationRepository, jobRepository, profileRepository } from '../../dataStore'
+import { createId } from '../../repository'
+import { authenticate } from './auth'
+import { notify } from './notify'
+import { bodyFields, fail, isOneOf, json, MockContext, MockRoute } from './router'
+
+type Viewer = 'candidate' | 'recruiter'
+
+// How the account relates to the application, if it may see it at all
+const viewerOf = (account: Account, application: Application): Viewer | undefined => {
+  const job = jobRepository.get(application.jobId)
+  if (job ? canManage(account, job, 'job:moderate') : hasPermission(account, 'job:moderate')) return 'recruiter'
+  if (application.candidateId === account.id) return 'candidate'
+  return undefined
+}
+
+// Recruiter notes are internal
+const present = (application: Application, viewer: Viewer): Application =>
+  viewer === 'recruiter' ? application : { ...application, notes: [] }
+
+const unauthorized = () => fail(401, 'unauthorized', 'Please log in to continue')
+
+// Resolves the application and the caller's view of it, or the response to send instead
+const findApplication = ({ params, headers }: MockContext) => {
+  const account = authenticate(headers)
+  if (!account) return { denied: unauthorized() }
+  const application = applicationRepository.get(params.id)
+  const viewer = application && viewerOf(account, application)
+  if (!application || !viewer) return { denied: fail(404, 'not_found', 'Record not found') }
+  return { account, application, viewer }
+}
+
+/**
+ * Job applications. Candidates apply with their stored profile and see their
+ * own applications; the job's recruiter and moderators see everyone who
+ * applied, move them through the pipeline and keep notes.
+ */
+export const applicationRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/applications',
+    handler: ({ headers, query }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+
+      const visible = applicationRepository
+        .query(application => !query.jobId || application.jobId === query.jobId)
+        .map(application => ({ application, viewer: viewerOf(account, application) }))
+        .filter(({ viewer }) => viewer !== undefined)
+        .map(({ application, viewer }) => present(application, viewer as Viewer))
+      return json(visible)
+    }
+  },
+  {
+    method: 'GET',
+    path: '/applications/:id',
+    handler: context => {
+      const { denied, application, viewer } = findApplication(context)
+      return denied ?? json(present(application, viewer))
+    }
+  },
+  {
+    method: 'POST',
+    path: '/applications',
+    handler: ({ headers, body }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+      if (!hasPermission(account, 'job:apply')) {
+        return fail(403, 'forbidden', 'Only job seekers can apply to jobs')
+      }
+
+      const { jobId, coverNote = '' } = bodyFields(body)
+      if (typeof coverNote !== 'string' || coverNote.length > MAX_COVER_NOTE_LENGTH) {
+        return fail(422, 'validation', `coverNote must be text of at most ${MAX_COVER_NOTE_LENGTH} characters`)
+      }
+      const job = typeof jobId === 'string' ? jobRepository.get(jobId) : undefined
+      if (!job) return fail(404, 'not_found', 'Record not found')
+      if (!isListed(job)) return fail(409, 'conflict', 'This job is no longer accepting applications')
+
+      const [profile] = profileRepository.query(record => record.ownerId === account.id)
+      if (!profile) return fail(422, 'validation', 'Create your profile before applying')
+      const applied = applicationRepository.query(record => record.jobId === job.id && record.candidateId === account.id)
+      if (applied.length > 0) return fail(409, 'conflict', 'You have already applied to this job')
+
+      return json(applicationRepository.create({
+        jobId: job.id,
+        profileId: profile.id,
+        candidateId: account.id,
+        jobTitle: job.jobTitle,
+        companyName: job.companyName,
+        candidateName: profile.fullName,
+        resumeAttachmentId: profile.resumeAttachmentId,
+        resumeFileName: profile.resumeFileName,
+        coverNote: coverNote.trim() || undefined,
+        stage: 'applied',
+        notes: []
+      }), 201)
+    }
+  },
+  {
+    method: 'PATCH',
+    path: '/applications/:id',
+    handler: context => {
+      const { denied, application, viewer } = findApplication(context)
+      if (denied) return denied
+      if (viewer !== 'recruiter') return fail(403, 'forbidden', 'Only the recruiter can move applications')
+
+      const { stage } = bodyFields(context.body)
+      if (!isOneOf(APPLICATION_STAGES, stage)) {
+        return fail(422, 'validation', `stage must be one of ${APPLICATION_STAGES.join(', ')}`)
+      }
+      if (stage !== application.stage) {
+        notify({
+          recipientId: application.candidateId,
+          kind: 'application_status',
+          title: `Your application for "${application.jobTitle}" moved on`,
+          body: `${application.companyName} moved it to ${APPLICATION_STAGE_LABELS[stage]}`,
+          link: '/applications'
+        })
+      }
+      return json(applicationRepository.update(application.id, { stage }))
+    }
+  },
+  {
+    method: 'POST',
+    path: '/applications/:id/notes',
+    handler: context => {
+      const { denied, account, application, viewer } = findApplication(context)
+      if (denied) return denied
+      if (viewer !== 'recruiter') return fail(403, 'forbidden', 'Only the recruiter can add notes')
+
+      const { body } = bodyFields(context.body)
+      const text = typeof body === 'string' ? body.trim() : ''
+      if (!text || text.length > MAX_NOTE_LENGTH) {
+        return fail(422, 'validation', `A note needs between 1 and ${MAX_NOTE_LENGTH} characters`)
+      }
+      return json(applicationRepository.update(application.id, {
+        notes: [
+          ...application.notes,
+          { id: createId(), body: text, author: account.name, createdAt: new Date().toISOString() }
+        ]
+      }))
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/applications/:id',
+    handler: context => {
+      const { denied, application, viewer } = findApplication(context)
+      if (denied) return denied
+      if (viewer !== 'candidate') return fail(403, 'forbidden', 'Only the candidate can withdraw an application')
+      applicationRepository.remove(application.id)
+      return json(undefined, 204)
+    }
+  }
+]
@@ -0,0 +1,187 @@
+import { Account, AuthSession, AuthUser, UserRole } from '../../../types'
+import { sha256 } from '../../../utils/checksum'
+import { canManage, hasPermission, Permission } from '../../../utils/permissions'
+import { accessTokenRepository, accountRepository } from '../../dataStore'
+import { bodyFields, fail, isOneOf, json, MockContext, MockRoute } from './router'
+
+const SESSION_DURATION = 7 * 24 * 60 * 60 * 1000
+const MIN_PASSWORD_LENGTH = 8
+// Admins can't sign up; they use the demo account below
+const ROLES: UserRole[] = ['job_seeker', 'recruiter']
+
+export const DEMO_ADMIN = {
+  name: 'Site Admin',
+  email: 'admin@profilematcher.local',
+  password: 'admin-demo'
+}
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('')
+
+const hashPassword = (password: string, salt: string) => sha256(new Blob([salt, password]))
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+const seedAdminAccount = async () => {
+  if (accountRepository.query(account => account.role === 'admin').length > 0) return
+
+  const passwordSalt = randomHex(16)
+  accountRepository.create({
+    name: DEMO_ADMIN.name,
+    email: DEMO_ADMIN.email,
+    role: 'admin',
+    passwordHash: await hashPassword(DEMO_ADMIN.password, passwordSalt),
+    passwordSalt
+  })
+}
+
+const toAuthUser = ({ id, name, email, role }: Account): AuthUser => ({ id, name, email, role })
+
+const issueSession = (account: Account): AuthSession => {
+  const { token, expiresAt } = accessTokenRepository.create({
+    token: randomHex(32),
+    accountId: account.id,
+    expiresAt: new Date(Date.now() + SESSION_DURATION).toISOString()
+  })
+  return { token, expiresAt, user: toAuthUser(account) }
+}
+
+const bearerToken = (headers: Record<string, string>) =>
+  /^Bearer (.+)$/.exec(headers.Authorization ?? '')?.[1]
+
+// The request's access token, dropping it once it has expired
+const validAccessToken = (headers: Record<string, string>) => {
+  const token = bearerToken(headers)
+  const [accessToken] = token ? accessTokenRepository.query(record => record.token === token) : []
+  if (!accessToken) return undefined
+  if (new Date(accessToken.expiresAt).getTime() <= Date.now()) {
+    accessTokenRepository.remove(accessToken.id)
+    return undefined
+  }
+  return accessToken
+}
+
+/**
+ * Resolves the account behind the request's bearer token, if it is still valid.
+ */
+export function authenticate(headers: Record<string, string>): Account | undefined {
+  const accessToken = validAccessToken(headers)
+  return accessToken && accountRepository.get(accessToken.accountId)
+}
+
+/**
+ * Write guard for crudRoutes over owned records: creating needs
+ * `createPermission`, changing or removing needs ownership or `moderatePermission`.
+ */
+export const authorizeOwnedWrites = (createPermission: Permission, moderatePermission: Permission) =>
+  ({ headers }: MockContext, record?: { ownerId?: string }) => {
+    const account = authenticate(headers)
+    if (!account) return fail(401, 'unauthorized', 'Please log in to continue')
+
+    const allowed = record
+      ? canManage(account, record, moderatePermission)
+      : hasPermission(account, createPermission)
+    return allowed ? undefined : fail(403, 'forbidden', 'You do not have permission to do that')
+  }
+
+/**
+ * Stamps a new record with the account creating it, whatever the request said.
+ */
+export const withOwner = <T extends { ownerId?: string }>(data: T, { headers }: MockContext): T =>
+  ({ ...data, ownerId: authenticate(headers)?.id })
+
+/**
+ * Guard for crudRoutes over private records, for reads and writes alike:
+ * creating and listing need `permission`, anything else is only for the
+ * record's owner. Other accounts' records answer 404, as if they didn't exist.
+ */
+export const authorizeOwner = (permission?: Permission) =>
+  ({ headers }: MockContext, record?: { ownerId?: string }) => {
+    const account = authenticate(headers)
+    if (!account) return fail(401, 'unauthorized', 'Please log in to continue')
+
+    if (record) {
+      return record.ownerId !== undefined && record.ownerId === account.id
+        ? undefined
+        : fail(404, 'not_found', 'Record not found')
+    }
+    return !permission || hasPermission(account, permission)
+      ? undefined
+      : fail(403, 'forbidden', 'You do not have permission to do that')
+  }
+
+/**
+ * Mock identity provider: accounts sign up or log in with an email and
+ * password and receive a bearer token that expires after a week.
+ */
+export const authRoutes: MockRoute[] = [
+  {
+    method: 'POST',
+    path: '/auth/signup',
+    handler: async ({ body }) => {
+      const { name, email, password, role } = bodyFields(body)
+      if (typeof name !== 'string' || !name.trim() || typeof email !== 'string' || !email.includes('@')) {
+        return fail(422, 'validation', 'A name and a valid email are required')
+      }
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return fail(422, 'validation', `Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      }
+      if (!isOneOf(ROLES, role)) {
+        return fail(422, 'validation', `role must be one of ${ROLES.join(', ')}`)
+      }
+      await seedAdminAccount()
+      if (accountRepository.query(account => account.email === normalizeEmail(email)).length > 0) {
+        return fail(409, 'conflict', 'An account with this email already exists')
+      }
+
+      const passwordSalt = randomHex(16)
+      const account = accountRepository.create({
+        name: name.trim(),
+        email: normalizeEmail(email),
+        role,
+        passwordHash: await hashPassword(password, passwordSalt),
+        passwordSalt
+      })
+      return json(issueSession(account), 201)
+    }
+  },
+  {
+    method: 'POST',
+    path: '/auth/login',
+    handler: async ({ body }) => {
+      const { email, password } = bodyFields(body)
+      if (typeof email !== 'string' || typeof password !== 'string') {
+        return fail(422, 'validation', 'email and password are required')
+      }
+      await seedAdminAccount()
+
+      const [account] = accountRepository.query(record => record.email === normalizeEmail(email))
+      // Same answer for an unknown email and a wrong password
+      if (!account || await hashPassword(password, account.passwordSalt) !== account.passwordHash) {
+        return fail(401, 'unauthorized', 'Incorrect email or password')
+      }
+      return json(issueSession(account))
+    }
+  },
+  {
+    method: 'GET',
+    path: '/auth/session',
+    handler: ({ headers }) => {
+      const accessToken = validAccessToken(headers)
+      const account = accessToken && accountRepository.get(accessToken.accountId)
+      if (!accessToken || !account) {
+        return fail(401, 'unauthorized', 'Your session has expired, please log in again')
+      }
+      return json<AuthSession>({ token: accessToken.token, expiresAt: accessToken.expiresAt, user: toAuthUser(account) })
+    }
+  },
+  {
+    method: 'POST',
+    path: '/auth/logout',
+    handler: ({ headers }) => {
+      const accessToken = validAccessToken(headers)
+      if (accessToken) accessTokenRepository.remove(accessToken.id)
+      return json(undefined, 204)
+    }
+  }
+]
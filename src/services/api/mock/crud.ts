@@ -0,0 +1,109 @@
+import { NewRecord, StoredRecord } from '../../../types'
+import { ApiResponse } from '../types'
+import { Repository } from '../../repository'
+import { bodyFields, fail, json, MockContext, MockRoute } from './router'
+
+interface CrudOptions<T extends StoredRecord> {
+  // Checks a write before it happens; `record` is missing for creates.
+  // Returning a response rejects the request with it.
+  authorize?: (context: MockContext, record?: T) => ApiResponse | undefined
+  // Checks a read the same way; `record` is missing for lists, which only
+  // show the records that pass. Reads are public without it.
+  authorizeRead?: (context: MockContext, record?: T) => ApiResponse | undefined
+  // Fields only the server sets; they are dropped from request bodies
+  readOnlyFields?: (keyof T)[]
+  // Completes a new record before it is stored, e.g. with read-only fields
+  prepare?: (data: NewRecord<T>, context: MockContext) => NewRecord<T>
+  // Runs once a new record is stored, e.g. to tell others about it
+  afterCreate?: (record: T) => void
+  // Runs before every read, e.g. to apply changes that fall due over time
+  beforeRead?: () => void
+}
+
+/**
+ * Standard list/get/create/update/delete routes for a repository-backed
+ * collection. Reads are public unless guarded with `authorizeRead`, writes
+ * can be guarded with `authorize`.
+ * Updates sent with an If-Match version are rejected with 409 when the
+ * record has moved on since, so concurrent edits don't overwrite each other.
+ */
+export function crudRoutes<T extends StoredRecord>(
+  basePath: string,
+  repository: Repository<T>,
+  {
+    authorize = () => undefined,
+    authorizeRead = () => undefined,
+    readOnlyFields = [],
+    prepare = data => data,
+    afterCreate = () => undefined,
+    beforeRead = () => undefined
+  }: CrudOptions<T> = {}
+): MockRoute[] {
+  // A null in an update clears the field
+  const toChanges = (body: unknown) =>
+    Object.fromEntries(Object.entries(bodyFields(body))
+      .filter(([field]) => !readOnlyFields.includes(field as keyof T))
+      .map(([field, value]) => [field, value === null ? undefined : value])) as Partial<NewRecord<T>>
+
+  return [
+    {
+      method: 'GET',
+      path: basePath,
+      handler: context => {
+        beforeRead()
+        const denied = authorizeRead(context)
+        if (denied) return denied
+        return json(repository.list().filter(record => !authorizeRead(context, record)))
+      }
+    },
+    {
+      method: 'GET',
+      path: `${basePath}/:id`,
+      handler: context => {
+        beforeRead()
+        const record = repository.get(context.params.id)
+        if (!record) return fail(404, 'not_found', 'Record not found')
+        return authorizeRead(context, record) ?? json(record)
+      }
+    },
+    {
+      method: 'POST',
+      path: basePath,
+      handler: context => {
+        const denied = authorize(context)
+        if (denied) return denied
+        const record = repository.create(prepare(toChanges(context.body) as NewRecord<T>, context))
+        afterCreate(record)
+        return json(record, 201)
+      }
+    },
+    {
+      method: 'PATCH',
+      path: `${basePath}/:id`,
+      handler: context => {
+        const record = repository.get(context.params.id)
+        if (!record) return fail(404, 'not_found', 'Record not found')
+        const denied = authorize(context, record)
+        if (denied) return denied
+
+        const expectedVersion = context.headers['If-Match']
+        if (expectedVersion !== undefined && Number(expectedVersion) !== record.version) {
+          return fail(409, 'conflict', 'This record was changed by someone else', { current: record })
+        }
+        return json(repository.update(record.id, toChanges(context.body)))
+      }
+    },
+    {
+      method: 'DELETE',
+      path: `${basePath}/:id`,
+      handler: context => {
+        const record = repository.get(context.params.id)
+        if (!record) return fail(404, 'not_found', 'Record not found')
+        const denied = authorize(context, record)
+        if (denied) return denied
+        repository.remove(record.id)
+        return json(undefined, 204)
+      }
+    }
+  ]
+}
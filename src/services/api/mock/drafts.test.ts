@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Caller, createTestApi, TestApi } from '../../../test/mockApi'
+import { DRAFT_LIFETIME_DAYS } from './drafts'
+
+const DAY = 24 * 60 * 60 * 1000
+
+let test: TestApi
+let owner: Caller
+let other: Caller
+let draftId: string
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2026-03-01T09:00:00Z'))
+  test = createTestApi()
+  owner = await test.signUp('Riley', 'recruiter')
+  other = await test.signUp('Morgan', 'recruiter')
+  draftId = await test.create(owner, '/drafts', { values: { jobTitle: 'Engineer' }, ownerId: other.id })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('drafts', () => {
+  it('belong to whoever saves them', async () => {
+    const { data } = await test.request(owner, 'GET', `/drafts/${draftId}`)
+
+    expect(data).toMatchObject({ ownerId: owner.id })
+  })
+
+  it('are only listed for their owner', async () => {
+    expect((await test.request(owner, 'GET', '/drafts')).data).toHaveLength(1)
+    expect((await test.request(other, 'GET', '/drafts')).data).toHaveLength(0)
+    expect((await test.request(null, 'GET', '/drafts')).status).toBe(401)
+  })
+
+  it('are hidden from everyone else', async () => {
+    expect((await test.request(other, 'GET', `/drafts/${draftId}`)).status).toBe(404)
+    expect((await test.request(other, 'PATCH', `/drafts/${draftId}`, { values: {} })).status).toBe(404)
+    expect((await test.request(other, 'DELETE', `/drafts/${draftId}`)).status).toBe(404)
+    expect((await test.request(owner, 'DELETE', `/drafts/${draftId}`)).status).toBe(204)
+  })
+
+  it('can only be saved by recruiters', async () => {
+    const seeker = await test.signUp('Sam', 'job_seeker')
+
+    expect((await test.request(seeker, 'POST', '/drafts', { values: {} })).status).toBe(403)
+  })
+})
+
+describe('saving a draft', () => {
+  const save = (version: number, jobTitle: string) => test.api({
+    method: 'PATCH',
+    path: `/drafts/${draftId}`,
+    body: { values: { jobTitle } },
+    headers: { ...owner.headers, 'If-Match': String(version) }
+  })
+
+  it('moves it to the next version', async () => {
+    const { data: draft } = await test.request(owner, 'GET', `/drafts/${draftId}`)
+    const { status, data } = await save((draft as { version: number }).version, 'Lead Engineer')
+
+    expect(status).toBe(200)
+    expect(data).toMatchObject({ version: (draft as { version: number }).version + 1, values: { jobTitle: 'Lead Engineer' } })
+  })
+
+  it('is rejected with the newer draft when based on an old version', async () => {
+    const { data: draft } = await test.request(owner, 'GET', `/drafts/${draftId}`)
+    const { version } = draft as { version: number }
+    await save(version, 'Lead Engineer')
+
+    const { status, data } = await save(version, 'Staff Engineer')
+
+    expect(status).toBe(409)
+    expect(data).toMatchObject({ code: 'conflict', details: { current: { values: { jobTitle: 'Lead Engineer' } } } })
+  })
+})
+
+describe('draft expiry', () => {
+  const openAfter = async (days: number) => {
+    vi.setSystemTime(Date.now() + days * DAY)
+    // Sessions run out after a week, so log in again
+    const caller = await test.logIn('riley@example.com')
+    return test.request(caller, 'GET', `/drafts/${draftId}`)
+  }
+
+  it(`keeps drafts for ${DRAFT_LIFETIME_DAYS} days after their last change`, async () => {
+    expect((await openAfter(DRAFT_LIFETIME_DAYS - 1)).status).toBe(200)
+  })
+
+  it('deletes drafts left alone for longer', async () => {
+    expect((await openAfter(DRAFT_LIFETIME_DAYS)).status).toBe(404)
+  })
+
+  it('reminds the owner once, shortly before a draft is deleted', async () => {
+    vi.setSystemTime(Date.now() + (DRAFT_LIFETIME_DAYS - 2) * DAY)
+    const caller = await test.logIn('riley@example.com')
+
+    await test.request(caller, 'GET', '/notifications')
+    const { data } = await test.request(caller, 'GET', '/notifications')
+
+    expect(data).toEqual([
+      expect.objectContaining({ kind: 'draft_expiring', link: `/jobs/new?draft=${draftId}` })
+    ])
+  })
+})
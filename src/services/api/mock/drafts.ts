@@ -0,0 +1,55 @@
+import { JobDraft } from '../../../types'
+import { draftRepository } from '../../dataStore'
+import { authorizeOwner, withOwner } from './auth'
+import { crudRoutes } from './crud'
+import { notify } from './notify'
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Drafts nobody has changed for this many days are deleted
+export const DRAFT_LIFETIME_DAYS = 30
+
+// Owners are reminded this long before a draft is deleted
+const EXPIRY_NOTICE = 3 * DAY
+
+const expiresAt = (draft: JobDraft) => new Date(draft.updatedAt).getTime() + DRAFT_LIFETIME_DAYS * DAY
+
+const removeExpiredDrafts = () => {
+  const now = Date.now()
+  draftRepository
+    .query(draft => expiresAt(draft) <= now)
+    .forEach(draft => draftRepository.remove(draft.id))
+}
+
+/**
+ * Reminds owners of drafts that are about to be deleted. Saving the draft
+ * again restarts its lifetime, and with it the reminder.
+ */
+export const remindExpiringDrafts = (now = new Date()) => {
+  for (const draft of draftRepository.query(record => record.ownerId !== undefined)) {
+    const timeLeft = expiresAt(draft) - now.getTime()
+    if (timeLeft <= 0 || timeLeft > EXPIRY_NOTICE) continue
+    notify({
+      recipientId: draft.ownerId as string,
+      kind: 'draft_expiring',
+      title: `Your draft "${draft.values.jobTitle || 'Untitled job'}" expires soon`,
+      body: `Drafts are deleted after ${DRAFT_LIFETIME_DAYS} days without changes. Open it before ${new Date(expiresAt(draft)).toLocaleDateString(undefined, { dateStyle: 'medium' })} to keep it.`,
+      link: `/jobs/new?draft=${draft.id}`,
+      subjectId: `${draft.id}@${draft.updatedAt}`
+    }, { once: true })
+  }
+}
+
+const authorizeDrafts = authorizeOwner('job:create')
+
+/**
+ * Job drafts, private to whoever saved them and deleted once they have been
+ * left alone for DRAFT_LIFETIME_DAYS.
+ */
+export const draftRoutes = crudRoutes('/drafts', draftRepository, {
+  authorize: authorizeDrafts,
+  authorizeRead: authorizeDrafts,
+  readOnlyFields: ['ownerId'],
+  prepare: withOwner,
+  beforeRead: removeExpiredDrafts
+})
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createTestApi, profileFields, TestApi } from '../../../test/mockApi'
+
+let test: TestApi
+
+beforeEach(() => {
+  test = createTestApi()
+})
+
+describe('chat sessions', () => {
+  it('are private to their owner', async () => {
+    const owner = await test.signUp('Sam', 'job_seeker')
+    const other = await test.signUp('Alex', 'job_seeker')
+    const { data } = await test.request(owner, 'POST', '/chat-sessions', { title: 'Chat', messages: [], ownerId: other.id })
+    const id = (data as { id: string }).id
+
+    expect(data).toMatchObject({ ownerId: owner.id })
+    expect((await test.request(other, 'GET', '/chat-sessions')).data).toHaveLength(0)
+    expect((await test.request(other, 'GET', `/chat-sessions/${id}`)).status).toBe(404)
+    expect((await test.request(other, 'PATCH', `/chat-sessions/${id}`, { title: 'Mine' })).status).toBe(404)
+    expect((await test.request(null, 'POST', '/chat-sessions', { messages: [] })).status).toBe(401)
+  })
+})
+
+describe('profiles and jobs', () => {
+  it('are owned by the caller, whatever the body says', async () => {
+    const seeker = await test.signUp('Sam', 'job_seeker')
+    const recruiter = await test.signUp('Riley', 'recruiter')
+
+    const { data: created } = await test.request(seeker, 'POST', '/profiles', { ...profileFields, ownerId: recruiter.id })
+    expect(created).toMatchObject({ ownerId: seeker.id })
+
+    const id = (created as { id: string }).id
+    const { data: updated } = await test.request(seeker, 'PATCH', `/profiles/${id}`, { ownerId: recruiter.id })
+    expect(updated).toMatchObject({ ownerId: seeker.id })
+
+    const { data: job } = await test.request(recruiter, 'POST', '/jobs', { jobTitle: 'Engineer', ownerId: seeker.id, status: 'closed' })
+    expect(job).toMatchObject({ ownerId: recruiter.id, status: 'published' })
+  })
+
+  it('can only be created with the right permission', async () => {
+    const seeker = await test.signUp('Sam', 'job_seeker')
+    const recruiter = await test.signUp('Riley', 'recruiter')
+
+    expect((await test.request(null, 'POST', '/profiles', profileFields)).status).toBe(401)
+    expect((await test.request(recruiter, 'POST', '/profiles', profileFields)).status).toBe(403)
+    expect((await test.request(seeker, 'POST', '/jobs', { jobTitle: 'Engineer' })).status).toBe(403)
+  })
+
+  it('can be changed by their owner or a moderator only', async () => {
+    const seeker = await test.signUp('Sam', 'job_seeker')
+    const other = await test.signUp('Alex', 'job_seeker')
+    const admin = await test.logInAsAdmin()
+    const id = await test.create(seeker, '/profiles', profileFields)
+
+    expect((await test.request(other, 'PATCH', `/profiles/${id}`, { title: 'Lead' })).status).toBe(403)
+    expect((await test.request(admin, 'PATCH', `/profiles/${id}`, { title: 'Lead' })).status).toBe(200)
+    expect((await test.request(seeker, 'DELETE', `/profiles/${id}`)).status).toBe(204)
+  })
+})
+
+describe('profiles', () => {
+  it('are limited to one per account', async () => {
+    const seeker = await test.signUp('Sam', 'job_seeker')
+    const id = await test.create(seeker, '/profiles', profileFields)
+
+    const { status, data } = await test.request(seeker, 'POST', '/profiles', { ...profileFields, title: 'Designer' })
+    expect(status).toBe(409)
+    expect(data).toMatchObject({ details: { current: { id } } })
+
+    await test.request(seeker, 'DELETE', `/profiles/${id}`)
+    expect((await test.request(seeker, 'POST', '/profiles', profileFields)).status).toBe(201)
+  })
+})
@@ -0,0 +1,81 @@
+import { Profile, UserData } from '../../../types'
+import { matchProfiles, toMatchProfile } from '../../../utils/matching'
+import { chatSessionRepository, profileRepository, seedDataStore } from '../../dataStore'
+import { ApiAdapter } from '../types'
+import { alertRoutes } from './alerts'
+import { applicationRoutes } from './applications'
+import { authenticate, authorizeOwnedWrites, authorizeOwner, authRoutes, withOwner } from './auth'
+import { crudRoutes } from './crud'
+import { draftRoutes } from './drafts'
+import { invitationRoutes } from './invitations'
+import { announceCandidate, jobRoutes } from './jobs'
+import { messageRoutes } from './messages'
+import { notificationRoutes } from './notifications'
+import { createRouter, fail, json, MockContext, MockRoute } from './router'
+import { storageRoutes } from './storage'
+
+interface MockAdapterOptions {
+  latency?: number
+}
+
+const matchRoutes: MockRoute[] = [
+  {
+    method: 'POST',
+    path: '/matches',
+    handler: ({ body }) => {
+      const userData = body as UserData
+      if (!Array.isArray(userData?.skills)) {
+        return fail(422, 'validation', 'skills must be an array')
+      }
+      return json(matchProfiles(userData, profileRepository.list().map(toMatchProfile)))
+    }
+  }
+]
+
+const authorizeProfileWrites = authorizeOwnedWrites('profile:create', 'profile:moderate')
+
+// Each account has at most one profile, which its applications are sent from
+const authorizeProfiles = (context: MockContext, profile?: Profile) => {
+  const denied = authorizeProfileWrites(context, profile)
+  if (denied || profile) return denied
+  const account = authenticate(context.headers)
+  const existing = profileRepository.query(record => record.ownerId === account?.id)
+  return existing.length > 0
+    ? fail(409, 'conflict', 'You already have a profile', { current: existing[0] })
+    : undefined
+}
+
+/**
+ * In-process stand-in for the backend, persisting to the local data store.
+ */
+export function createMockAdapter({ latency = 0 }: MockAdapterOptions = {}): ApiAdapter {
+  seedDataStore()
+
+  return createRouter([
+    ...crudRoutes('/profiles', profileRepository, {
+      authorize: authorizeProfiles,
+      readOnlyFields: ['ownerId'],
+      prepare: withOwner,
+      afterCreate: announceCandidate
+    }),
+    ...jobRoutes,
+    ...applicationRoutes,
+    ...invitationRoutes,
+    ...alertRoutes,
+    ...notificationRoutes,
+    ...messageRoutes,
+    ...draftRoutes,
+    ...crudRoutes('/chat-sessions', chatSessionRepository, {
+      authorize: authorizeOwner(),
+      authorizeRead: authorizeOwner(),
+      readOnlyFields: ['ownerId'],
+      prepare: withOwner
+    }),
+    ...matchRoutes,
+    ...storageRoutes,
+    ...authRoutes
+  ], latency)
+}
+
+export { createRouter, json, fail }
+export type { MockRoute }
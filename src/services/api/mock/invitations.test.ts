@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { Caller, createTestApi, jobFields, profileFields, TestApi } from '../../../test/mockApi'
+
+let test: TestApi
+let recruiter: Caller
+let seeker: Caller
+let jobId: string
+let profileId: string
+
+const invite = (caller: Caller, body: Record<string, unknown> = { jobId, profileId }) =>
+  test.request(caller, 'POST', '/invitations', body)
+
+beforeEach(async () => {
+  test = createTestApi()
+  recruiter = await test.signUp('Riley', 'recruiter')
+  seeker = await test.signUp('Sam', 'job_seeker')
+  jobId = await test.create(recruiter, '/jobs', jobFields)
+  profileId = await test.create(seeker, '/profiles', profileFields)
+})
+
+describe('invitations', () => {
+  it('are sent by the job\'s recruiter to the candidate\'s account', async () => {
+    const { status, data } = await invite(recruiter)
+
+    expect(status).toBe(201)
+    expect(data).toMatchObject({ jobId, profileId, candidateId: seeker.id, invitedBy: 'Riley' })
+  })
+
+  it('can only be sent by the job\'s recruiter or a moderator', async () => {
+    const other = await test.signUp('Morgan', 'recruiter')
+    const admin = await test.logInAsAdmin()
+
+    expect((await invite(other)).status).toBe(403)
+    expect((await invite(seeker)).status).toBe(403)
+    expect((await test.request(null, 'POST', '/invitations', { jobId, profileId })).status).toBe(401)
+    expect((await invite(admin)).status).toBe(201)
+  })
+
+  it('are sent once per candidate, for published jobs only', async () => {
+    await invite(recruiter)
+    expect((await invite(recruiter)).status).toBe(409)
+
+    await test.request(recruiter, 'POST', `/jobs/${jobId}/status`, { status: 'paused' })
+    const otherProfile = await test.create(await test.signUp('Alex', 'job_seeker'), '/profiles', profileFields)
+    expect((await invite(recruiter, { jobId, profileId: otherProfile })).status).toBe(409)
+  })
+
+  it('are listed for the candidate and the job\'s recruiter only', async () => {
+    await invite(recruiter)
+    const other = await test.signUp('Morgan', 'recruiter')
+
+    expect((await test.request(seeker, 'GET', '/invitations')).data).toHaveLength(1)
+    expect((await test.api({ method: 'GET', path: '/invitations', query: { jobId }, headers: recruiter.headers })).data)
+      .toHaveLength(1)
+    expect((await test.request(other, 'GET', '/invitations')).data).toEqual([])
+  })
+})
@@ -0,0 +1,58 @@
+import { isListed } from '../../../utils/jobLifecycle'
+import { canManage } from '../../../utils/permissions'
+import { invitationRepository, jobRepository, profileRepository } from '../../dataStore'
+import { authenticate } from './auth'
+import { bodyFields, fail, json, MockRoute } from './router'
+
+const unauthorized = () => fail(401, 'unauthorized', 'Please log in to continue')
+
+/**
+ * Invitations to apply. A job's recruiter invites candidates from its
+ * shortlist; invited candidates see the invitations addressed to their account.
+ */
+export const invitationRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/invitations',
+    handler: ({ headers, query }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+
+      return json(invitationRepository.query(invitation => {
+        if (query.jobId && invitation.jobId !== query.jobId) return false
+        if (invitation.candidateId === account.id) return true
+        const job = jobRepository.get(invitation.jobId)
+        return job !== undefined && canManage(account, job, 'job:moderate')
+      }))
+    }
+  },
+  {
+    method: 'POST',
+    path: '/invitations',
+    handler: ({ headers, body }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+
+      const { jobId, profileId } = bodyFields(body)
+      const job = typeof jobId === 'string' ? jobRepository.get(jobId) : undefined
+      const profile = typeof profileId === 'string' ? profileRepository.get(profileId) : undefined
+      if (!job || !profile) return fail(404, 'not_found', 'Record not found')
+      if (!canManage(account, job, 'job:moderate')) {
+        return fail(403, 'forbidden', 'Only the recruiter who posted this job can invite candidates')
+      }
+      if (!isListed(job)) return fail(409, 'conflict', 'Candidates can only be invited to published jobs')
+      const invited = invitationRepository.query(record => record.jobId === job.id && record.profileId === profile.id)
+      if (invited.length > 0) return fail(409, 'conflict', `${profile.fullName} has already been invited`)
+
+      return json(invitationRepository.create({
+        jobId: job.id,
+        profileId: profile.id,
+        candidateId: profile.ownerId,
+        jobTitle: job.jobTitle,
+        companyName: job.companyName,
+        candidateName: profile.fullName,
+        invitedBy: account.name
+      }), 201)
+    }
+  }
+]
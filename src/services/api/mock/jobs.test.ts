@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { Caller, createTestApi, jobFields, profileFields, TestApi } from '../../../test/mockApi'
+import { JobPosting, NewRecord } from '../../../types'
+import { MatchResult } from '../../../utils/matching'
+import { jobRepository } from '../../dataStore'
+
+let test: TestApi
+let recruiter: Caller
+let seeker: Caller
+
+beforeEach(async () => {
+  test = createTestApi()
+  recruiter = await test.signUp('Riley', 'recruiter')
+  seeker = await test.signUp('Sam', 'job_seeker')
+})
+
+describe('job statuses', () => {
+  it('go live right away, or on a future posted date', async () => {
+    const future = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+
+    expect((await test.request(recruiter, 'POST', '/jobs', jobFields)).data).toMatchObject({ status: 'published' })
+    expect((await test.request(recruiter, 'POST', '/jobs', { ...jobFields, postedDate: future })).data)
+      .toMatchObject({ status: 'scheduled', postedDate: future })
+  })
+
+  it('only change the way the lifecycle allows, recording who changed them', async () => {
+    const id = await test.create(recruiter, '/jobs', jobFields)
+    const changeTo = (status: string) => test.request(recruiter, 'POST', `/jobs/${id}/status`, { status })
+
+    expect((await changeTo('paused')).data).toMatchObject({ status: 'paused' })
+    expect((await changeTo('closed')).data).toMatchObject({
+      status: 'closed',
+      statusHistory: [{ status: 'published' }, { status: 'paused' }, { status: 'closed', changedBy: 'Riley' }]
+    })
+    expect((await changeTo('published')).status).toBe(409)
+    expect((await changeTo('archived')).status).toBe(422)
+  })
+
+  it('can only be changed by the recruiter', async () => {
+    const id = await test.create(recruiter, '/jobs', jobFields)
+
+    expect((await test.request(seeker, 'POST', `/jobs/${id}/status`, { status: 'closed' })).status).toBe(403)
+  })
+})
+
+describe('unpublished jobs', () => {
+  let jobId: string
+
+  beforeEach(async () => {
+    jobId = await test.create(recruiter, '/jobs', jobFields)
+    await test.request(recruiter, 'POST', `/jobs/${jobId}/status`, { status: 'paused' })
+  })
+
+  it('are hidden from everyone but their recruiter and moderators', async () => {
+    const admin = await test.logInAsAdmin()
+
+    expect((await test.request(recruiter, 'GET', `/jobs/${jobId}`)).status).toBe(200)
+    expect((await test.request(admin, 'GET', `/jobs/${jobId}`)).status).toBe(200)
+    expect((await test.request(seeker, 'GET', `/jobs/${jobId}`)).status).toBe(404)
+    expect((await test.request(null, 'GET', `/jobs/${jobId}`)).status).toBe(404)
+  })
+
+  it('are left out of other accounts\' listings', async () => {
+    const listed = async (caller: Caller | null) =>
+      ((await test.request(caller, 'GET', '/jobs')).data as JobPosting[]).map(job => job.id)
+
+    expect(await listed(recruiter)).toContain(jobId)
+    expect(await listed(seeker)).not.toContain(jobId)
+    expect(await listed(null)).not.toContain(jobId)
+  })
+})
+
+describe('postings archived before statuses existed', () => {
+  it('are closed as of their archive date', async () => {
+    const archivedAt = '2026-01-10T12:00:00.000Z'
+    const legacy = jobRepository.create({
+      ...jobFields,
+      postedDate: '2026-01-01T12:00:00.000Z',
+      ownerId: recruiter.id,
+      archivedAt
+    } as NewRecord<JobPosting>)
+
+    expect((await test.request(seeker, 'GET', `/jobs/${legacy.id}`)).status).toBe(404)
+    expect(jobRepository.get(legacy.id)).toMatchObject({
+      status: 'closed',
+      statusHistory: [{ status: 'closed', changedAt: archivedAt }]
+    })
+  })
+})
+
+describe('the candidate shortlist', () => {
+  it('ranks stored candidates for the job\'s recruiter only', async () => {
+    const jobId = await test.create(recruiter, '/jobs', jobFields)
+    await test.create(seeker, '/profiles', { ...profileFields, fullName: 'Sam Reed' })
+
+    const { data } = await test.request(recruiter, 'GET', `/jobs/${jobId}/matches`)
+    const shortlist = data as MatchResult[]
+    expect(shortlist.length).toBeLessThanOrEqual(10)
+    expect(shortlist.map(match => match.profile.name)).toContain('Sam Reed')
+    expect(shortlist.map(match => match.score)).toEqual([...shortlist.map(match => match.score)].sort((a, b) => b - a))
+
+    expect((await test.request(seeker, 'GET', `/jobs/${jobId}/matches`)).status).toBe(403)
+  })
+
+  it('tells recruiters about new candidates who fit their listed jobs', async () => {
+    await test.create(recruiter, '/jobs', jobFields)
+    await test.create(seeker, '/profiles', { ...profileFields, fullName: 'Sam Reed' })
+
+    const { data } = await test.request(recruiter, 'GET', '/notifications')
+    expect(data).toEqual([expect.objectContaining({ kind: 'new_match', title: 'New candidate for "Frontend Engineer"' })])
+  })
+})
@@ -0,0 +1,163 @@
+import { JobPosting, JobStatus, NewRecord, Profile } from '../../../types'
+import { canChangeStatus, dueStatusChanges, isListed, JOB_STATUS_LABELS, jobStatus } from '../../../utils/jobLifecycle'
+import { jobToCriteria, matchProfiles, scoreProfile, toMatchProfile } from '../../../utils/matching'
+import { canManage } from '../../../utils/permissions'
+import { jobRepository, profileRepository } from '../../dataStore'
+import { announceJob } from './alerts'
+import { authenticate, authorizeOwnedWrites } from './auth'
+import { crudRoutes } from './crud'
+import { notify } from './notify'
+import { bodyFields, fail, isOneOf, json, MockContext, MockRoute } from './router'
+
+const authorizeJobWrites = authorizeOwnedWrites('job:create', 'job:moderate')
+
+// Only published postings are public; the rest are for their recruiter and moderators
+const authorizeJobReads = ({ headers }: MockContext, job?: JobPosting) =>
+  !job || isListed(job) || canManage(authenticate(headers), job, 'job:moderate')
+    ? undefined
+    : fail(404, 'not_found', 'Record not found')
+
+const JOB_STATUSES = Object.keys(JOB_STATUS_LABELS) as JobStatus[]
+
+// How many candidates a posting's shortlist ranks
+const SHORTLIST_SIZE = 10
+
+// How well a new candidate has to fit a posting for its recruiter to hear about them
+const NEW_MATCH_MIN_SCORE = 70
+
+// Recruiters are reminded this long before a posting expires
+const EXPIRY_NOTICE = 3 * 24 * 60 * 60 * 1000
+
+// Publishes scheduled postings and expires old ones once they fall due
+const applyDueStatusChanges = () => {
+  const now = new Date()
+  for (const job of jobRepository.list()) {
+    const due = dueStatusChanges(job, now)
+    if (due.length === 0) continue
+    const updated = jobRepository.update(job.id, {
+      status: due[due.length - 1].status,
+      statusHistory: [...(job.statusHistory ?? []), ...due]
+    })
+    if (jobStatus(updated) === 'published') announceJob(updated)
+  }
+}
+
+/**
+ * Reminds recruiters of listed postings that expire soon. A new expiry date
+ * earns a new reminder.
+ */
+export const remindExpiringJobs = (now = new Date()) => {
+  for (const job of jobRepository.query(record => record.ownerId !== undefined && record.expiresAt !== undefined)) {
+    const timeLeft = new Date(job.expiresAt as string).getTime() - now.getTime()
+    if (!isListed(job) || timeLeft <= 0 || timeLeft > EXPIRY_NOTICE) continue
+    notify({
+      recipientId: job.ownerId as string,
+      kind: 'job_expiring',
+      title: `"${job.jobTitle}" expires soon`,
+      body: `It stops taking applications on ${new Date(job.expiresAt as string).toLocaleDateString(undefined, { dateStyle: 'medium' })}. Move the expiry date to keep it open.`,
+      link: `/jobs/${job.id}/edit`,
+      subjectId: `${job.id}@${job.expiresAt}`
+    }, { once: true })
+  }
+}
+
+/**
+ * Tells recruiters about a new candidate who fits one of their listed postings.
+ */
+export const announceCandidate = (profile: Profile) => {
+  const candidate = toMatchProfile(profile)
+  for (const job of jobRepository.query(record => record.ownerId !== undefined && record.ownerId !== profile.ownerId)) {
+    if (!isListed(job)) continue
+    const { score } = scoreProfile(jobToCriteria(job), candidate)
+    if (score < NEW_MATCH_MIN_SCORE) continue
+    notify({
+      recipientId: job.ownerId as string,
+      kind: 'new_match',
+      title: `New candidate for "${job.jobTitle}"`,
+      body: `${profile.fullName} is a ${score}% match`,
+      link: `/profiles/${profile.id}`,
+      subjectId: profile.id
+    })
+  }
+}
+
+// New postings belong to whoever posts them and go live on their posted
+// date, or right away without one
+const prepareJob = (data: NewRecord<JobPosting>, { headers }: MockContext): NewRecord<JobPosting> => {
+  const now = new Date().toISOString()
+  const postedDate = data.postedDate && data.postedDate > now ? data.postedDate : now
+  const status: JobStatus = postedDate > now ? 'scheduled' : 'published'
+  return {
+    ...data,
+    ownerId: authenticate(headers)?.id,
+    postedDate,
+    status,
+    statusHistory: [{ status, changedAt: now, changedBy: authenticate(headers)?.name }]
+  }
+}
+
+/**
+ * Job postings with a status lifecycle. Statuses are server-owned: they move
+ * by time (scheduled to published, open to expired) or through the status
+ * route, which only allows the changes the lifecycle permits. The matches
+ * route ranks stored candidates against a posting for its recruiter.
+ */
+export const jobRoutes: MockRoute[] = [
+  ...crudRoutes('/jobs', jobRepository, {
+    authorize: authorizeJobWrites,
+    authorizeRead: authorizeJobReads,
+    readOnlyFields: ['ownerId', 'status', 'statusHistory'],
+    prepare: prepareJob,
+    afterCreate: job => {
+      if (jobStatus(job) === 'published') announceJob(job)
+    },
+    beforeRead: applyDueStatusChanges
+  }),
+  {
+    method: 'POST',
+    path: '/jobs/:id/status',
+    handler: context => {
+      applyDueStatusChanges()
+      const job = jobRepository.get(context.params.id)
+      if (!job) return fail(404, 'not_found', 'Record not found')
+      const denied = authorizeJobWrites(context, job)
+      if (denied) return denied
+
+      const { status } = bodyFields(context.body)
+      if (!isOneOf(JOB_STATUSES, status)) {
+        return fail(422, 'validation', `status must be one of ${JOB_STATUSES.join(', ')}`)
+      }
+      if (!canChangeStatus(job, status)) {
+        const current = JOB_STATUS_LABELS[jobStatus(job)].toLowerCase()
+        return fail(409, 'conflict', `A ${current} posting can't be ${JOB_STATUS_LABELS[status].toLowerCase()}`)
+      }
+
+      const now = new Date().toISOString()
+      const goesLive = job.status === 'scheduled' && status === 'published'
+      const updated = jobRepository.update(job.id, {
+        status,
+        statusHistory: [
+          ...(job.statusHistory ?? []),
+          { status, changedAt: now, changedBy: authenticate(context.headers)?.name }
+        ],
+        // Publishing a scheduled posting early moves its posted date up
+        ...(goesLive && { postedDate: now })
+      })
+      if (goesLive) announceJob(updated)
+      return json(updated)
+    }
+  },
+  {
+    method: 'GET',
+    path: '/jobs/:id/matches',
+    handler: context => {
+      const job = jobRepository.get(context.params.id)
+      if (!job) return fail(404, 'not_found', 'Record not found')
+      const denied = authorizeJobWrites(context, job)
+      if (denied) return denied
+
+      const candidates = profileRepository.list().map(toMatchProfile)
+      return json(matchProfiles(jobToCriteria(job), candidates, { limit: SHORTLIST_SIZE }))
+    }
+  }
+]
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Caller, createTestApi, jobFields, profileFields, TestApi } from '../../../test/mockApi'
+import { MessageThread } from '../../../types'
+
+let test: TestApi
+let recruiter: Caller
+let seeker: Caller
+let jobId: string
+let profileId: string
+
+// Moves the clock on so each message has its own timestamp
+const later = () => vi.setSystemTime(Date.now() + 1000)
+
+const send = async (caller: Caller, threadId: string, body: string) => {
+  later()
+  return test.request(caller, 'POST', `/threads/${threadId}/messages`, { body })
+}
+
+const unread = async (caller: Caller) =>
+  ((await test.request(caller, 'GET', '/threads')).data as MessageThread[]).map(thread => thread.unreadCount)
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2026-03-02T09:00:00Z'))
+  test = createTestApi()
+  recruiter = await test.signUp('Riley', 'recruiter')
+  seeker = await test.signUp('Sam', 'job_seeker')
+  jobId = await test.create(recruiter, '/jobs', jobFields)
+  profileId = await test.create(seeker, '/profiles', profileFields)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('starting a thread', () => {
+  it('lets the recruiter reach a candidate about their job, once per job and candidate', async () => {
+    const { status, data } = await test.request(recruiter, 'POST', '/threads', { jobId, profileId })
+    expect(status).toBe(201)
+    expect(data).toMatchObject({ jobId, recruiterId: recruiter.id, candidateId: seeker.id, candidateName: 'Ana Lee' })
+
+    const again = await test.request(recruiter, 'POST', '/threads', { jobId, profileId })
+    expect(again).toMatchObject({ status: 200, data: { id: (data as MessageThread).id } })
+  })
+
+  it('lets candidates reach the recruiter only after applying or being invited', async () => {
+    expect((await test.request(seeker, 'POST', '/threads', { jobId })).status).toBe(403)
+
+    await test.request(seeker, 'POST', '/applications', { jobId })
+    expect((await test.request(seeker, 'POST', '/threads', { jobId })).data)
+      .toMatchObject({ recruiterId: recruiter.id, candidateId: seeker.id })
+  })
+
+  it('keeps other recruiters from using someone else\'s job', async () => {
+    const other = await test.signUp('Morgan', 'recruiter')
+
+    expect((await test.request(other, 'POST', '/threads', { jobId, profileId })).status).toBe(403)
+  })
+})
+
+describe('a thread', () => {
+  let threadId: string
+
+  beforeEach(async () => {
+    threadId = await test.create(recruiter, '/threads', { jobId, profileId })
+  })
+
+  it('is only open to its two participants', async () => {
+    const other = await test.signUp('Alex', 'job_seeker')
+
+    expect((await test.request(other, 'GET', `/threads/${threadId}`)).status).toBe(404)
+    expect((await test.request(other, 'GET', `/threads/${threadId}/messages`)).status).toBe(404)
+    expect((await send(other, threadId, 'Hi')).status).toBe(404)
+    expect((await test.request(other, 'GET', '/threads')).data).toEqual([])
+  })
+
+  it('counts the messages each participant has not read yet', async () => {
+    await send(recruiter, threadId, 'Hi Ana')
+    await send(recruiter, threadId, 'Are you free to talk?')
+
+    expect(await unread(seeker)).toEqual([2])
+    expect(await unread(recruiter)).toEqual([0])
+
+    later()
+    await test.request(seeker, 'POST', `/threads/${threadId}/read`)
+    expect(await unread(seeker)).toEqual([0])
+
+    await send(seeker, threadId, 'Sure!')
+    expect(await unread(recruiter)).toEqual([1])
+  })
+
+  it('rejects empty messages', async () => {
+    expect((await send(recruiter, threadId, '   ')).status).toBe(422)
+  })
+})
@@ -0,0 +1,163 @@
+import { Account, MessageThread } from '../../../types'
+import { messageSchema } from '../../../schemas/message'
+import { hasPermission } from '../../../utils/permissions'
+import {
+  accountRepository,
+  applicationRepository,
+  invitationRepository,
+  jobRepository,
+  messageRepository,
+  profileRepository,
+  threadRepository
+} from '../../dataStore'
+import { authenticate } from './auth'
+import { publish } from './realtime'
+import { bodyFields, fail, json, MockContext, MockRoute } from './router'
+
+const unauthorized = () => fail(401, 'unauthorized', 'Please log in to continue')
+
+const participants = (thread: MessageThread) => [thread.recruiterId, thread.candidateId]
+
+const unreadCount = (thread: MessageThread, accountId: string) => {
+  const readAt = thread.readAt[accountId] ?? ''
+  return messageRepository.query(message =>
+    message.threadId === thread.id && message.senderId !== accountId && message.createdAt > readAt
+  ).length
+}
+
+// The thread as the account sees it, with its own unread count
+const present = (thread: MessageThread, account: Account): MessageThread =>
+  ({ ...thread, unreadCount: unreadCount(thread, account.id) })
+
+const lastActivity = (thread: MessageThread) => thread.lastMessage?.createdAt ?? thread.createdAt
+
+// Resolves the thread and the caller taking part in it, or the response to send instead
+const findThread = ({ params, headers }: MockContext) => {
+  const account = authenticate(headers)
+  if (!account) return { denied: unauthorized() }
+  const thread = threadRepository.get(params.id)
+  if (!thread || !participants(thread).includes(account.id)) {
+    return { denied: fail(404, 'not_found', 'Record not found') }
+  }
+  return { account, thread }
+}
+
+/**
+ * Direct messages between a job's recruiter and a candidate, one thread per
+ * job and candidate. Recruiters start threads with candidates they found for
+ * the job; candidates with the recruiter of a job they applied or were invited
+ * to. New messages and read receipts are pushed to both participants.
+ */
+export const messageRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/threads',
+    handler: ({ headers }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+
+      return json(threadRepository
+        .query(thread => participants(thread).includes(account.id))
+        .sort((a, b) => lastActivity(b).localeCompare(lastActivity(a)))
+        .map(thread => present(thread, account)))
+    }
+  },
+  {
+    method: 'POST',
+    path: '/threads',
+    handler: ({ headers, body }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+      if (!hasPermission(account, 'message:send')) {
+        return fail(403, 'forbidden', 'Only recruiters and job seekers can send messages')
+      }
+
+      const { jobId, profileId } = bodyFields(body)
+      const job = typeof jobId === 'string' ? jobRepository.get(jobId) : undefined
+      if (!job) return fail(404, 'not_found', 'Record not found')
+      if (!job.ownerId) return fail(422, 'validation', 'This job has no recruiter to message')
+
+      let candidate: { id: string; name: string }
+      if (job.ownerId === account.id) {
+        const profile = typeof profileId === 'string' ? profileRepository.get(profileId) : undefined
+        if (!profile) return fail(404, 'not_found', 'Record not found')
+        if (!profile.ownerId) return fail(422, 'validation', `${profile.fullName} has no account to message`)
+        candidate = { id: profile.ownerId, name: profile.fullName }
+      } else {
+        const [application] = applicationRepository.query(record => record.jobId === job.id && record.candidateId === account.id)
+        const invited = invitationRepository.query(record => record.jobId === job.id && record.candidateId === account.id)
+        if (!application && invited.length === 0) {
+          return fail(403, 'forbidden', "You can message the recruiter once you've applied or been invited")
+        }
+        candidate = { id: account.id, name: application?.candidateName ?? invited[0].candidateName }
+      }
+
+      const [existing] = threadRepository.query(thread => thread.jobId === job.id && thread.candidateId === candidate.id)
+      if (existing) return json(present(existing, account))
+
+      const recruiter = accountRepository.get(job.ownerId)
+      return json(present(threadRepository.create({
+        jobId: job.id,
+        recruiterId: job.ownerId,
+        candidateId: candidate.id,
+        jobTitle: job.jobTitle,
+        companyName: job.companyName,
+        recruiterName: recruiter?.name ?? job.companyName,
+        candidateName: candidate.name,
+        readAt: {}
+      }), account), 201)
+    }
+  },
+  {
+    method: 'GET',
+    path: '/threads/:id',
+    handler: context => {
+      const { denied, account, thread } = findThread(context)
+      return denied ?? json(present(thread, account))
+    }
+  },
+  {
+    method: 'GET',
+    path: '/threads/:id/messages',
+    handler: context => {
+      const { denied, thread } = findThread(context)
+      if (denied) return denied
+      return json(messageRepository
+        .query(message => message.threadId === thread.id)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt)))
+    }
+  },
+  {
+    method: 'POST',
+    path: '/threads/:id/messages',
+    handler: context => {
+      const { denied, account, thread } = findThread(context)
+      if (denied) return denied
+
+      const parsed = messageSchema.safeParse(context.body ?? {})
+      if (!parsed.success) return fail(422, 'validation', parsed.error.issues[0].message)
+
+      const message = messageRepository.create({ threadId: thread.id, senderId: account.id, body: parsed.data.body })
+      threadRepository.update(thread.id, {
+        lastMessage: { senderId: account.id, body: message.body, createdAt: message.createdAt },
+        // Sending a message means having read everything before it
+        readAt: { ...thread.readAt, [account.id]: message.createdAt }
+      })
+      publish(participants(thread), { type: 'message', message })
+      return json(message, 201)
+    }
+  },
+  {
+    method: 'POST',
+    path: '/threads/:id/read',
+    handler: context => {
+      const { denied, account, thread } = findThread(context)
+      if (denied) return denied
+
+      const readAt = new Date().toISOString()
+      const updated = threadRepository.update(thread.id, { readAt: { ...thread.readAt, [account.id]: readAt } })
+      publish(participants(thread), { type: 'read', threadId: thread.id, readerId: account.id, readAt })
+      return json(present(updated, account))
+    }
+  }
+]
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { Caller, createTestApi, TestApi } from '../../../test/mockApi'
+import { Notification } from '../../../types'
+import { notify } from './notify'
+
+let test: TestApi
+let owner: Caller
+let other: Caller
+
+const send = (subjectId: string, options?: { once: boolean }) => notify({
+  recipientId: owner.id,
+  kind: 'job_expiring',
+  title: 'Your job expires soon',
+  body: 'Move the expiry date to keep it open',
+  subjectId
+}, options)
+
+const inbox = async (caller: Caller) => (await test.request(caller, 'GET', '/notifications')).data as Notification[]
+
+beforeEach(async () => {
+  test = createTestApi()
+  owner = await test.signUp('Riley', 'recruiter')
+  other = await test.signUp('Morgan', 'recruiter')
+})
+
+describe('notify', () => {
+  it('sends a notification every time by default', async () => {
+    send('job-1')
+    send('job-1')
+
+    expect(await inbox(owner)).toHaveLength(2)
+  })
+
+  it('sends a notification once per kind and subject when asked to', async () => {
+    send('job-1', { once: true })
+    send('job-1', { once: true })
+    send('job-2', { once: true })
+
+    expect((await inbox(owner)).map(notification => notification.subjectId).sort()).toEqual(['job-1', 'job-2'])
+  })
+})
+
+describe('the inbox', () => {
+  it('only holds the account\'s own notifications', async () => {
+    send('job-1')
+
+    expect(await inbox(other)).toEqual([])
+    expect((await test.request(null, 'GET', '/notifications')).status).toBe(401)
+  })
+
+  it('marks notifications read one at a time or all at once', async () => {
+    send('job-1')
+    send('job-2')
+    const [first] = await inbox(owner)
+
+    expect((await test.request(other, 'POST', `/notifications/${first.id}/read`)).status).toBe(404)
+    expect((await test.request(owner, 'POST', `/notifications/${first.id}/read`)).data)
+      .toMatchObject({ readAt: expect.any(String) })
+    expect((await inbox(owner)).filter(notification => !notification.readAt)).toHaveLength(1)
+
+    await test.request(owner, 'POST', '/notifications/read-all')
+    expect((await inbox(owner)).every(notification => notification.readAt)).toBe(true)
+  })
+})
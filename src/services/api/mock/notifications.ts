@@ -0,0 +1,66 @@
+import { notificationRepository } from '../../dataStore'
+import { deliverDueDigests } from './alerts'
+import { authenticate } from './auth'
+import { remindExpiringDrafts } from './drafts'
+import { remindExpiringJobs } from './jobs'
+import { fail, json, MockRoute } from './router'
+
+const unauthorized = () => fail(401, 'unauthorized', 'Please log in to continue')
+
+// Sends whatever has fallen due since the inbox was last read
+const deliverDueNotifications = () => {
+  const now = new Date()
+  deliverDueDigests(now)
+  remindExpiringJobs(now)
+  remindExpiringDrafts(now)
+}
+
+/**
+ * The signed-in account's inbox, newest first. Reading it also sends any
+ * job alert digests and expiry reminders that have fallen due.
+ */
+export const notificationRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    path: '/notifications',
+    handler: ({ headers }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+
+      deliverDueNotifications()
+      return json(notificationRepository
+        .query(notification => notification.recipientId === account.id)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)))
+    }
+  },
+  {
+    method: 'POST',
+    path: '/notifications/read-all',
+    handler: ({ headers }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+
+      const readAt = new Date().toISOString()
+      notificationRepository
+        .query(notification => notification.recipientId === account.id && !notification.readAt)
+        .forEach(notification => notificationRepository.update(notification.id, { readAt }))
+      return json(undefined, 204)
+    }
+  },
+  {
+    method: 'POST',
+    path: '/notifications/:id/read',
+    handler: ({ headers, params }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+
+      const notification = notificationRepository.get(params.id)
+      if (!notification || notification.recipientId !== account.id) {
+        return fail(404, 'not_found', 'Record not found')
+      }
+      return json(notification.readAt
+        ? notification
+        : notificationRepository.update(notification.id, { readAt: new Date().toISOString() }))
+    }
+  }
+]
@@ -0,0 +1,20 @@
+import { NewRecord, Notification } from '../../../types'
+import { notificationRepository } from '../../dataStore'
+
+type NewNotification = Omit<NewRecord<Notification>, 'readAt'>
+
+/**
+ * Puts a notification in the recipient's inbox. With `once`, it is skipped
+ * when they already had one of the same kind about the same subject.
+ */
+export const notify = (notification: NewNotification, { once = false } = {}) => {
+  if (once) {
+    const sent = notificationRepository.query(existing =>
+      existing.recipientId === notification.recipientId &&
+      existing.kind === notification.kind &&
+      existing.subjectId === notification.subjectId
+    )
+    if (sent.length > 0) return
+  }
+  notificationRepository.create(notification)
+}
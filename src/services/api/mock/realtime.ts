@@ -0,0 +1,38 @@
+import { RealtimeEvent } from '../../realtime/types'
+import { STORAGE_PREFIX } from '../../dataStore'
+
+// Events are relayed to other tabs through storage events on this key
+const RELAY_KEY = `${STORAGE_PREFIX}:realtime`
+
+export interface RealtimeEnvelope {
+  recipientIds: string[]
+  event: RealtimeEvent
+}
+
+type EnvelopeListener = (envelope: RealtimeEnvelope) => void
+
+const listeners = new Set<EnvelopeListener>()
+
+/**
+ * Sends an event to the recipients' connections, in this tab and in others.
+ */
+export const publish = (recipientIds: string[], event: RealtimeEvent) => {
+  const envelope: RealtimeEnvelope = { recipientIds, event }
+  listeners.forEach(listener => listener(envelope))
+  window.localStorage.setItem(RELAY_KEY, JSON.stringify(envelope))
+}
+
+/**
+ * Listens to every published event, whichever tab published it.
+ */
+export const subscribe = (listener: EnvelopeListener) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === RELAY_KEY && event.newValue) listener(JSON.parse(event.newValue) as RealtimeEnvelope)
+  }
+  listeners.add(listener)
+  window.addEventListener('storage', handleStorage)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('storage', handleStorage)
+  }
+}
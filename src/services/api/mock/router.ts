@@ -0,0 +1,90 @@
+import { ApiAdapter, ApiResponse, HttpMethod } from '../types'
+
+export interface MockContext {
+  params: Record<string, string>
+  query: Record<string, string>
+  body: unknown
+  headers: Record<string, string>
+}
+
+export type MockHandler = (context: MockContext) => ApiResponse | Promise<ApiResponse>
+
+export interface MockRoute {
+  method: HttpMethod
+  path: string
+  handler: MockHandler
+}
+
+export const json = <T>(data: T, status = 200): ApiResponse<T> => ({ status, data })
+
+// Request bodies are untrusted, so their fields come out unknown for handlers to check
+export const bodyFields = (body: unknown): Record<string, unknown> =>
+  typeof body === 'object' && body !== null && !(body instanceof Blob) ? body as Record<string, unknown> : {}
+
+export const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  values.includes(value as T)
+
+export const fail = (status: number, code: string, message: string, details?: unknown): ApiResponse => ({
+  status,
+  data: { code, message, details }
+})
+
+const matchPath = (pattern: string, path: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean)
+  const pathParts = path.split('/').filter(Boolean)
+  if (patternParts.length !== pathParts.length) return null
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i])
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null
+    }
+  }
+  return params
+}
+
+// Round-trip plain data through JSON so handlers see what a server would
+const serialize = <T>(value: T): T =>
+  value === undefined || value instanceof Blob ? value : JSON.parse(JSON.stringify(value))
+
+/**
+ * Builds an in-process adapter that dispatches requests to route handlers,
+ * optionally delaying each response to mimic network latency.
+ */
+export function createRouter(routes: MockRoute[], latency = 0): ApiAdapter {
+  return async (request, signal) => {
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency))
+    }
+    if (signal?.aborted) {
+      throw new DOMException('The request was aborted', 'AbortError')
+    }
+
+    for (const route of routes) {
+      if (route.method !== request.method) continue
+      const params = matchPath(route.path, request.path)
+      if (!params) continue
+
+      try {
+        const response = await route.handler({
+          params,
+          query: Object.fromEntries(
+            Object.entries(request.query ?? {})
+              .filter(([, value]) => value !== undefined)
+              .map(([key, value]) => [key, String(value)])
+          ),
+          body: serialize(request.body),
+          headers: request.headers ?? {}
+        })
+        return { status: response.status, data: serialize(response.data) }
+      } catch (error) {
+        console.error(`Mock handler for ${request.method} ${request.path} failed:`, error)
+        return fail(500, 'internal', 'Internal server error')
+      }
+    }
+
+    return fail(404, 'not_found', `No mock route for ${request.method} ${request.path}`)
+  }
+}
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { Caller, createTestApi, TestApi } from '../../../test/mockApi'
+import { sha256 } from '../../../utils/checksum'
+
+const content = new Blob(['hello'])
+// SHA-256 of "hello"
+const checksum = '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824'
+
+let test: TestApi
+let owner: Caller
+let other: Caller
+
+const startUpload = (caller: Caller) => test.create(caller, '/uploads', {
+  fileName: 'resume.txt',
+  contentType: 'text/plain',
+  size: content.size,
+  chunkSize: 3,
+  checksum
+})
+
+const putChunks = async (caller: Caller, id: string, chunks: string[]) => {
+  for (const [index, chunk] of chunks.entries()) {
+    await test.request(caller, 'PUT', `/uploads/${id}/chunks/${index}`, new Blob([chunk]))
+  }
+}
+
+beforeEach(async () => {
+  test = createTestApi()
+  owner = await test.signUp('Sam', 'job_seeker')
+  other = await test.signUp('Alex', 'job_seeker')
+})
+
+describe('uploads', () => {
+  it('store the file once every chunk has arrived and matches the checksum', async () => {
+    const id = await startUpload(owner)
+
+    expect((await test.request(owner, 'PUT', `/uploads/${id}/chunks/1`, new Blob(['lo']))).data)
+      .toMatchObject({ receivedChunks: [1] })
+    expect((await test.request(owner, 'POST', `/uploads/${id}/complete`)).data)
+      .toMatchObject({ code: 'conflict', details: { missing: [0] } })
+
+    await putChunks(owner, id, ['hel'])
+    const { status, data } = await test.request(owner, 'POST', `/uploads/${id}/complete`)
+    expect(status).toBe(201)
+    expect(data).toMatchObject({ fileName: 'resume.txt', size: 5, checksum, ownerId: owner.id })
+
+    const { data: stored } = await test.request(null, 'GET', `/attachments/${(data as { id: string }).id}/content`)
+    expect(await sha256(stored as Blob)).toBe(checksum)
+  })
+
+  it('reject chunks of the wrong size or out of range', async () => {
+    const id = await startUpload(owner)
+
+    expect((await test.request(owner, 'PUT', `/uploads/${id}/chunks/0`, new Blob(['he']))).status).toBe(400)
+    expect((await test.request(owner, 'PUT', `/uploads/${id}/chunks/2`, new Blob(['x']))).status).toBe(400)
+  })
+
+  it('discard content that does not match its checksum', async () => {
+    const id = await startUpload(owner)
+    await putChunks(owner, id, ['jel', 'lo'])
+
+    expect((await test.request(owner, 'POST', `/uploads/${id}/complete`)).status).toBe(422)
+    expect((await test.request(owner, 'GET', `/uploads/${id}`)).status).toBe(404)
+  })
+
+  it('refuse files over 5MB', async () => {
+    const response = await test.request(owner, 'POST', '/uploads', {
+      fileName: 'video.mp4', size: 6 * 1024 * 1024, chunkSize: 1024, checksum
+    })
+
+    expect(response.status).toBe(422)
+  })
+
+  it('require an account and belong to whoever started them', async () => {
+    const id = await startUpload(owner)
+
+    expect((await test.request(null, 'POST', '/uploads', { fileName: 'a', checksum, size: 1, chunkSize: 1 })).status).toBe(401)
+    expect((await test.request(other, 'GET', `/uploads/${id}`)).status).toBe(404)
+    expect((await test.request(other, 'PUT', `/uploads/${id}/chunks/0`, new Blob(['hel']))).status).toBe(404)
+    expect((await test.request(other, 'DELETE', `/uploads/${id}`)).status).toBe(404)
+    expect((await test.request(owner, 'DELETE', `/uploads/${id}`)).status).toBe(204)
+  })
+})
+
+describe('attachments', () => {
+  it('can be removed by their owner or a moderator only', async () => {
+    const admin = await test.logInAsAdmin()
+    const upload = async () => {
+      const id = await startUpload(owner)
+      await putChunks(owner, id, ['hel', 'lo'])
+      return ((await test.request(owner, 'POST', `/uploads/${id}/complete`)).data as { id: string }).id
+    }
+    const first = await upload()
+    const second = await upload()
+
+    expect((await test.request(null, 'DELETE', `/attachments/${first}`)).status).toBe(401)
+    expect((await test.request(other, 'DELETE', `/attachments/${first}`)).status).toBe(403)
+    expect((await test.request(owner, 'DELETE', `/attachments/${first}`)).status).toBe(204)
+    expect((await test.request(admin, 'DELETE', `/attachments/${second}`)).status).toBe(204)
+    expect((await test.request(null, 'GET', `/attachments/${second}/content`)).status).toBe(404)
+  })
+})
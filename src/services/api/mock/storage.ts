@@ -0,0 +1,189 @@
+import { UploadSession } from '../../../types'
+import { sha256 } from '../../../utils/checksum'
+import { canManage } from '../../../utils/permissions'
+import { attachmentRepository, fileStore, uploadRepository } from '../../dataStore'
+import { authenticate } from './auth'
+import { bodyFields, fail, json, MockContext, MockRoute } from './router'
+
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024
+
+// File contents are kept in the file store; the metadata is persisted like any other record
+const chunkPrefix = (uploadId: string) => `uploads/${uploadId}/`
+const chunkKey = (uploadId: string, index: number) => `${chunkPrefix(uploadId)}${index}`
+const contentKey = (attachmentId: string) => `attachments/${attachmentId}`
+
+const chunkCount = (size: number, chunkSize: number) => Math.max(1, Math.ceil(size / chunkSize))
+
+const unauthorized = () => fail(401, 'unauthorized', 'Please log in to continue')
+
+// Reports the chunks the file store actually holds
+const withReceivedChunks = async (session: UploadSession): Promise<UploadSession> => {
+  const keys = await fileStore.keys(chunkPrefix(session.id))
+  const received = keys.map(key => Number(key.slice(chunkPrefix(session.id).length))).sort((a, b) => a - b)
+  return { ...session, receivedChunks: received }
+}
+
+const discardUpload = async (session: UploadSession) => {
+  const keys = await fileStore.keys(chunkPrefix(session.id))
+  await Promise.all(keys.map(key => fileStore.remove(key)))
+  uploadRepository.remove(session.id)
+}
+
+// Resolves the caller's own upload session, or the response to send instead
+const findUpload = ({ params, headers }: MockContext) => {
+  const account = authenticate(headers)
+  if (!account) return { denied: unauthorized() }
+  const session = uploadRepository.get(params.id)
+  if (!session || session.ownerId !== account.id) return { denied: fail(404, 'not_found', 'Upload not found') }
+  return { session }
+}
+
+/**
+ * Mock object storage: files are sent in chunks to an upload session, which
+ * is verified against its checksum and turned into an attachment on completion.
+ * Uploads belong to whoever started them; attachments can be downloaded by
+ * anyone, but only removed by their owner or a profile moderator.
+ */
+export const storageRoutes: MockRoute[] = [
+  {
+    method: 'POST',
+    path: '/uploads',
+    handler: ({ body, headers }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+
+      const { fileName, contentType, size, chunkSize, checksum } = bodyFields(body)
+      if (typeof fileName !== 'string' || typeof checksum !== 'string') {
+        return fail(422, 'validation', 'fileName and checksum are required')
+      }
+      if (typeof size !== 'number' || typeof chunkSize !== 'number' || !(size >= 0) || !(chunkSize > 0)) {
+        return fail(422, 'validation', 'size and chunkSize must be positive numbers')
+      }
+      if (size > MAX_UPLOAD_SIZE) {
+        return fail(422, 'validation', 'File size must be less than 5MB')
+      }
+      const session = uploadRepository.create({
+        fileName,
+        contentType: typeof contentType === 'string' && contentType ? contentType : 'application/octet-stream',
+        size,
+        chunkSize,
+        checksum,
+        receivedChunks: [],
+        ownerId: account.id
+      })
+      return json(session, 201)
+    }
+  },
+  {
+    method: 'GET',
+    path: '/uploads/:id',
+    handler: async context => {
+      const { session, denied } = findUpload(context)
+      return session ? json(await withReceivedChunks(session)) : denied
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/uploads/:id/chunks/:index',
+    handler: async context => {
+      const { session, denied } = findUpload(context)
+      if (!session) return denied
+      const { params, body } = context
+
+      const index = Number(params.index)
+      const count = chunkCount(session.size, session.chunkSize)
+      if (!Number.isInteger(index) || index < 0 || index >= count) {
+        return fail(400, 'bad_request', `Chunk index must be between 0 and ${count - 1}`)
+      }
+      if (!(body instanceof Blob)) return fail(400, 'bad_request', 'Chunk body must be binary')
+
+      const expected = Math.min(session.chunkSize, session.size - index * session.chunkSize)
+      if (body.size !== Math.max(expected, 0)) {
+        return fail(400, 'bad_request', `Chunk ${index} should be ${expected} bytes`)
+      }
+
+      await fileStore.put(chunkKey(session.id, index), body)
+      return json(await withReceivedChunks(session))
+    }
+  },
+  {
+    method: 'POST',
+    path: '/uploads/:id/complete',
+    handler: async context => {
+      const { session, denied } = findUpload(context)
+      if (!session) return denied
+
+      const count = chunkCount(session.size, session.chunkSize)
+      const received = await Promise.all(
+        Array.from({ length: count }, (_, index) => fileStore.get(chunkKey(session.id, index)))
+      )
+      const missing = received.flatMap((chunk, index) => (chunk ? [] : [index]))
+      if (missing.length > 0) {
+        return fail(409, 'conflict', 'Upload is missing chunks', { missing })
+      }
+
+      const content = new Blob(received as Blob[], { type: session.contentType })
+      if (await sha256(content) !== session.checksum) {
+        await discardUpload(session)
+        return fail(422, 'validation', 'Uploaded content does not match its checksum')
+      }
+
+      const attachment = attachmentRepository.create({
+        fileName: session.fileName,
+        contentType: session.contentType,
+        size: session.size,
+        checksum: session.checksum,
+        ownerId: session.ownerId
+      })
+      await fileStore.put(contentKey(attachment.id), content)
+      await discardUpload(session)
+      return json(attachment, 201)
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/uploads/:id',
+    handler: async context => {
+      const { session, denied } = findUpload(context)
+      if (!session) return denied
+      await discardUpload(session)
+      return json(undefined, 204)
+    }
+  },
+  {
+    method: 'GET',
+    path: '/attachments/:id',
+    handler: ({ params }) => {
+      const attachment = attachmentRepository.get(params.id)
+      return attachment ? json(attachment) : fail(404, 'not_found', 'Attachment not found')
+    }
+  },
+  {
+    method: 'GET',
+    path: '/attachments/:id/content',
+    handler: async ({ params }) => {
+      if (!attachmentRepository.get(params.id)) return fail(404, 'not_found', 'Attachment not found')
+      const content = await fileStore.get(contentKey(params.id))
+      return content
+        ? json(content)
+        : fail(404, 'not_found', 'The file is no longer available, please upload it again')
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/attachments/:id',
+    handler: async ({ params, headers }) => {
+      const account = authenticate(headers)
+      if (!account) return unauthorized()
+      const attachment = attachmentRepository.get(params.id)
+      if (!attachment) return fail(404, 'not_found', 'Attachment not found')
+      if (!canManage(account, attachment, 'profile:moderate')) {
+        return fail(403, 'forbidden', 'You do not have permission to do that')
+      }
+
+      await fileStore.remove(contentKey(attachment.id))
+      attachmentRepository.remove(attachment.id)
+      return json(undefined, 204)
+    }
+  }
+]
@@ -0,0 +1,26 @@
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+export interface ApiRequest {
+  method: HttpMethod
+  path: string
+  query?: Record<string, string | number | boolean | undefined>
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+export interface ApiResponse<T = unknown> {
+  status: number
+  data: T
+}
+
+/**
+ * Transport used by the API client. Adapters resolve with the raw response
+ * (including error statuses) and only reject when the request never completed.
+ */
+export type ApiAdapter = (request: ApiRequest, signal?: AbortSignal) => Promise<ApiResponse>
+
+export interface ApiErrorBody {
+  code?: string
+  message?: string
+  details?: unknown
+}
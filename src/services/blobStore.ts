@@ -0,0 +1,71 @@
+export interface BlobStore {
+  get(key: string): Promise<Blob | undefined>
+  put(key: string, blob: Blob): Promise<void>
+  remove(key: string): Promise<void>
+  // The stored keys that start with `prefix`
+  keys(prefix: string): Promise<string[]>
+}
+
+const STORE_NAME = 'blobs'
+
+const createMemoryBlobStore = (): BlobStore => {
+  const blobs = new Map<string, Blob>()
+  return {
+    get: async key => blobs.get(key),
+    put: async (key, blob) => {
+      blobs.set(key, blob)
+    },
+    remove: async key => {
+      blobs.delete(key)
+    },
+    keys: async prefix => [...blobs.keys()].filter(key => key.startsWith(prefix))
+  }
+}
+
+/**
+ * Creates a key-value store for file contents, which are too large for
+ * localStorage. Files are kept in IndexedDB so they survive reloads; where
+ * IndexedDB is unavailable they only live in memory.
+ */
+export function createBlobStore(
+  databaseName: string,
+  factory: IDBFactory | undefined = globalThis.indexedDB
+): BlobStore {
+  if (!factory) return createMemoryBlobStore()
+
+  let database: Promise<IDBDatabase> | undefined
+  const open = () => database ??= new Promise((resolve, reject) => {
+    const request = factory.open(databaseName, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      database = undefined
+      reject(request.error)
+    }
+  })
+
+  // Settles once the transaction is done, so writes are durable when it resolves
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const transaction = (await open()).transaction(STORE_NAME, mode)
+    const request = operation(transaction.objectStore(STORE_NAME))
+    return new Promise<T>((resolve, reject) => {
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  return {
+    get: key => run<Blob | undefined>('readonly', store => store.get(key)),
+    put: async (key, blob) => {
+      await run('readwrite', store => store.put(blob, key))
+    },
+    remove: async key => {
+      await run('readwrite', store => store.delete(key))
+    },
+    keys: async prefix => {
+      const keys = await run('readonly', store => store.getAllKeys(IDBKeyRange.bound(prefix, `${prefix}\uffff`)))
+      return keys.map(String)
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  AccessToken,
+  Account,
+  Application,
+  Attachment,
+  DirectMessage,
+  Invitation,
+  JobAlert,
+  JobDraft,
+  JobPosting,
+  MessageThread,
+  Notification,
+  Profile,
+  UploadSession
+} from '../types'
+import { ChatSession } from '../chat/types'
+import { sampleProfiles } from '../data/sampleProfiles'
+import { createBlobStore } from './blobStore'
+import { createRepository } from './repository'
+
+export const STORAGE_PREFIX = 'profile-matcher'
+
+const SEEDED_KEY = `${STORAGE_PREFIX}:seeded`
+
+// The collections the app keeps in memory, and reloads when another tab writes them
+export const PROFILES_KEY = `${STORAGE_PREFIX}:profiles`
+export const JOBS_KEY = `${STORAGE_PREFIX}:jobs`
+
+export const profileRepository = createRepository<Profile>(PROFILES_KEY)
+export const jobRepository = createRepository<JobPosting>(JOBS_KEY)
+export const draftRepository = createRepository<JobDraft>(`${STORAGE_PREFIX}:drafts`)
+export const applicationRepository = createRepository<Application>(`${STORAGE_PREFIX}:applications`)
+export const invitationRepository = createRepository<Invitation>(`${STORAGE_PREFIX}:invitations`)
+export const alertRepository = createRepository<JobAlert>(`${STORAGE_PREFIX}:alerts`)
+export const notificationRepository = createRepository<Notification>(`${STORAGE_PREFIX}:notifications`)
+export const threadRepository = createRepository<MessageThread>(`${STORAGE_PREFIX}:threads`)
+export const messageRepository = createRepository<DirectMessage>(`${STORAGE_PREFIX}:messages`)
+export const chatSessionRepository = createRepository<ChatSession>(`${STORAGE_PREFIX}:chat-sessions`)
+export const attachmentRepository = createRepository<Attachment>(`${STORAGE_PREFIX}:attachments`)
+export const uploadRepository = createRepository<UploadSession>(`${STORAGE_PREFIX}:uploads`)
+export const accountRepository = createRepository<Account>(`${STORAGE_PREFIX}:accounts`)
+export const accessTokenRepository = createRepository<AccessToken>(`${STORAGE_PREFIX}:access-tokens`)
+// Contents of uploaded files and of the chunks of uploads in progress
+export const fileStore = createBlobStore(`${STORAGE_PREFIX}:files`)
+
+/**
+ * Fills the profile store with sample candidates the first time the app runs.
+ * The flag keeps deleted samples from coming back on the next load.
+ */
+export function seedDataStore() {
+  if (window.localStorage.getItem(SEEDED_KEY)) return
+
+  if (profileRepository.list().length === 0) {
+    sampleProfiles.forEach(profile => profileRepository.create(profile))
+  }
+  window.localStorage.setItem(SEEDED_KEY, new Date().toISOString())
+}
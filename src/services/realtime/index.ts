@@ -0,0 +1,10 @@
+import { createLocalTransport } from './local'
+import { createWebSocketTransport } from './websocket'
+
+const url = import.meta.env.VITE_REALTIME_URL
+
+// Without a configured realtime server, events come from the in-process mock API
+export const realtime = url ? createWebSocketTransport({ url }) : createLocalTransport()
+
+export { createLocalTransport, createWebSocketTransport }
+export type { RealtimeEvent, RealtimeListener, RealtimeTransport } from './types'
@@ -0,0 +1,20 @@
+import { authenticate } from '../api/mock/auth'
+import { subscribe } from '../api/mock/realtime'
+import { RealtimeTransport } from './types'
+
+/**
+ * In-process stand-in for the realtime server: delivers what the mock API
+ * publishes to the account the token belongs to.
+ */
+export function createLocalTransport(): RealtimeTransport {
+  return {
+    name: 'local',
+    connect: (token, listener) => {
+      const account = authenticate({ Authorization: `Bearer ${token}` })
+      if (!account) return () => undefined
+      return subscribe(({ recipientIds, event }) => {
+        if (recipientIds.includes(account.id)) listener(event)
+      })
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { DirectMessage } from '../../types'
+
+export type RealtimeEvent =
+  | { type: 'message'; message: DirectMessage }
+  | { type: 'read'; threadId: string; readerId: string; readAt: string }
+  // Raised by a transport whose connection came back: events may have been missed
+  | { type: 'resync' }
+
+export type RealtimeListener = (event: RealtimeEvent) => void
+
+/**
+ * Pushes server events to the signed-in account as they happen. Transports
+ * only deliver; messages are sent and read through the API.
+ */
+export interface RealtimeTransport {
+  name: string
+  // Starts delivering the token's events to the listener; the returned function stops
+  connect: (token: string, listener: RealtimeListener) => () => void
+}
@@ -0,0 +1,58 @@
+import { RealtimeEvent, RealtimeTransport } from './types'
+
+interface WebSocketTransportOptions {
+  url: string
+  reconnectDelay?: number
+  maxReconnectDelay?: number
+}
+
+/**
+ * Receives events from a realtime server over a WebSocket, one JSON event per
+ * frame. Dropped connections are reopened with exponential backoff.
+ */
+export function createWebSocketTransport({
+  url,
+  reconnectDelay = 1000,
+  maxReconnectDelay = 30000
+}: WebSocketTransportOptions): RealtimeTransport {
+  return {
+    name: 'websocket',
+    connect: (token, listener) => {
+      let socket: WebSocket | null = null
+      let timer: ReturnType<typeof setTimeout> | undefined
+      let failures = 0
+      let isClosed = false
+
+      const open = () => {
+        // Browsers can't set headers on a WebSocket, so the token goes in the URL
+        const target = new URL(url)
+        target.searchParams.set('token', token)
+        socket = new WebSocket(target)
+
+        socket.onopen = () => {
+          if (failures > 0) listener({ type: 'resync' })
+          failures = 0
+        }
+        socket.onmessage = ({ data }) => {
+          try {
+            listener(JSON.parse(data) as RealtimeEvent)
+          } catch (error) {
+            console.error('Ignoring malformed realtime event:', error)
+          }
+        }
+        socket.onclose = () => {
+          if (isClosed) return
+          timer = setTimeout(open, Math.min(reconnectDelay * 2 ** failures, maxReconnectDelay))
+          failures += 1
+        }
+      }
+
+      open()
+      return () => {
+        isClosed = true
+        clearTimeout(timer)
+        socket?.close()
+      }
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { NewRecord, StoredRecord } from '../types'
+
+export class RecordNotFoundError extends Error {
+  constructor(storageKey: string, id: string) {
+    super(`No record with id "${id}" in ${storageKey}`)
+    this.name = 'RecordNotFoundError'
+  }
+}
+
+export interface Repository<T extends StoredRecord> {
+  list(): T[]
+  get(id: string): T | undefined
+  create(data: NewRecord<T>): T
+  update(id: string, changes: Partial<NewRecord<T>>): T
+  remove(id: string): boolean
+  query(predicate: (record: T) => boolean): T[]
+}
+
+export const createId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+/**
+ * Creates a typed collection persisted as a JSON array under a single
+ * localStorage key. Every write bumps `version` and `updatedAt`.
+ */
+export function createRepository<T extends StoredRecord>(
+  storageKey: string,
+  storage: Storage = window.localStorage
+): Repository<T> {
+  const read = (): T[] => {
+    try {
+      const raw = storage.getItem(storageKey)
+      return raw ? (JSON.parse(raw) as T[]) : []
+    } catch (error) {
+      console.error(`Failed to read ${storageKey}:`, error)
+      return []
+    }
+  }
+
+  const write = (records: T[]) => {
+    storage.setItem(storageKey, JSON.stringify(records))
+  }
+
+  return {
+    list: read,
+
+    get(id) {
+      return read().find(record => record.id === id)
+    },
+
+    create(data) {
+      const now = new Date().toISOString()
+      const record = { ...data, id: createId(), createdAt: now, updatedAt: now, version: 1 } as T
+      write([...read(), record])
+      return record
+    },
+
+    update(id, changes) {
+      const records = read()
+      const index = records.findIndex(record => record.id === id)
+      if (index === -1) throw new RecordNotFoundError(storageKey, id)
+
+      const current = records[index]
+      const updated = {
+        ...current,
+        ...changes,
+        id: current.id,
+        createdAt: current.createdAt,
+        updatedAt: new Date().toISOString(),
+        version: current.version + 1
+      } as T
+      records[index] = updated
+      write(records)
+      return updated
+    },
+
+    remove(id) {
+      const records = read()
+      const remaining = records.filter(record => record.id !== id)
+      if (remaining.length === records.length) return false
+      write(remaining)
+      return true
+    },
+
+    query(predicate) {
+      return read().filter(predicate)
+    }
+  }
+}
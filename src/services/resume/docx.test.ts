@@ -0,0 +1,98 @@
+import { deflateRawSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { extractDocxText } from './docx'
+
+interface ZipFile {
+  name: string
+  content: string
+  compress?: boolean
+}
+
+// Builds a minimal zip archive; the reader doesn't check CRCs, so they are left at zero
+const zip = (files: ZipFile[]): ArrayBuffer => {
+  const encoder = new TextEncoder()
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const raw = encoder.encode(file.content)
+    const data = file.compress ? new Uint8Array(deflateRawSync(raw)) : raw
+    const method = file.compress ? 8 : 0
+
+    const local = new Uint8Array(30 + name.length + data.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(8, method, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, raw.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+    local.set(data, 30 + name.length)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(10, method, true)
+    centralView.setUint32(20, data.length, true)
+    centralView.setUint32(24, raw.length, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  }
+
+  const directorySize = centrals.reduce((total, central) => total + central.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, files.length, true)
+  endView.setUint16(10, files.length, true)
+  endView.setUint32(12, directorySize, true)
+  endView.setUint32(16, offset, true)
+
+  const archive = new Uint8Array(offset + directorySize + end.length)
+  let position = 0
+  for (const part of [...locals, ...centrals, end]) {
+    archive.set(part, position)
+    position += part.length
+  }
+  return archive.buffer
+}
+
+const documentXml = `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:body>
+    <w:p><w:r><w:t>Ana Lee</w:t></w:r></w:p>
+    <w:p><w:r><w:t>Skills:</w:t><w:tab/><w:t xml:space="preserve">React, </w:t></w:r><w:r><w:t>TypeScript</w:t></w:r></w:p>
+    <w:p><w:r><w:t>Line one</w:t><w:br/><w:t>Line two</w:t></w:r></w:p>
+  </w:body>
+</w:document>`
+
+describe('extractDocxText', () => {
+  it('reads the paragraphs of the document body', async () => {
+    const docx = zip([
+      { name: '[Content_Types].xml', content: '<Types/>' },
+      { name: 'word/document.xml', content: documentXml }
+    ])
+
+    expect(await extractDocxText(docx)).toBe('Ana Lee\nSkills:\tReact, TypeScript\nLine one\nLine two')
+  })
+
+  it('inflates compressed entries', async () => {
+    const docx = zip([{ name: 'word/document.xml', content: documentXml, compress: true }])
+
+    expect(await extractDocxText(docx)).toContain('Ana Lee')
+  })
+
+  it('rejects archives without a document body and files that are not archives', async () => {
+    await expect(extractDocxText(zip([{ name: 'word/styles.xml', content: '<w:styles/>' }])))
+      .rejects.toThrow('The file has no document body')
+    await expect(extractDocxText(new TextEncoder().encode('plain text').buffer))
+      .rejects.toThrow('Not a zip archive')
+  })
+})
@@ -0,0 +1,79 @@
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+interface ZipEntry {
+  name: string
+  method: number
+  compressedSize: number
+  offset: number
+}
+
+const readEntries = (view: DataView): ZipEntry[] => {
+  // The end-of-central-directory record sits in the last 64 KB (after an optional comment)
+  let end = -1
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) throw new Error('Not a zip archive')
+
+  const count = view.getUint16(end + 10, true)
+  let position = view.getUint32(end + 16, true)
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < count && view.getUint32(position, true) === CENTRAL_DIRECTORY_ENTRY; i++) {
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    entries.push({
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      offset: view.getUint32(position + 42, true),
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + position + 46, nameLength))
+    })
+    position += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+const readEntry = async (view: DataView, entry: ZipEntry): Promise<Uint8Array> => {
+  if (view.getUint32(entry.offset, true) !== LOCAL_FILE_HEADER) throw new Error('Corrupt zip entry')
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true)
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize)
+
+  if (entry.method === 0) return data
+  if (entry.method !== 8) throw new Error(`Unsupported zip compression method ${entry.method}`)
+
+  const stream = new Response(data).body!.pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Extracts the paragraph text of a .docx file. A .docx is a zip archive, so
+ * this reads `word/document.xml` using the browser's built-in decompression.
+ */
+export async function extractDocxText(buffer: ArrayBuffer): Promise<string> {
+  const view = new DataView(buffer)
+  const entry = readEntries(view).find(candidate => candidate.name === 'word/document.xml')
+  if (!entry) throw new Error('The file has no document body')
+
+  const xml = new TextDecoder().decode(await readEntry(view, entry))
+  const document = new DOMParser().parseFromString(xml, 'application/xml')
+
+  return Array.from(document.getElementsByTagName('w:p'))
+    .map(paragraph =>
+      Array.from(paragraph.getElementsByTagName('*'))
+        .map(node => {
+          if (node.tagName === 'w:t') return node.textContent ?? ''
+          if (node.tagName === 'w:tab') return '\t'
+          if (node.tagName === 'w:br') return '\n'
+          return ''
+        })
+        .join('')
+    )
+    .join('\n')
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { parseResumeText } from './fields'
+
+const now = new Date('2026-06-15T12:00:00Z')
+
+const resume = `
+ANA LEE
+Berlin, Germany | ana.lee@example.com | +49 30 1234 5678
+linkedin.com/in/ana-lee-dev
+
+Summary
+Frontend developer who enjoys design systems.
+
+Skills
+• Languages: TypeScript, JavaScript
+• Frameworks: React, Next.js
+
+Experience
+Senior Developer, Acme — Jan 2020 - Present
+Developer, Globex — Mar 2016 to Dec 2019
+Worked with Docker and PostgreSQL.
+
+Education
+BSc Computer Science, 2010 - 2014
+`
+
+describe('parseResumeText', () => {
+  it('picks the contact details from the top of the resume', () => {
+    expect(parseResumeText(resume, now)).toMatchObject({
+      fullName: 'Ana Lee',
+      email: 'ana.lee@example.com',
+      phone: '+49 30 1234 5678',
+      linkedinUrl: 'https://www.linkedin.com/in/ana-lee-dev',
+      location: 'Berlin, Germany'
+    })
+  })
+
+  it('takes skills from the skills section and known skills mentioned elsewhere', () => {
+    const { skills } = parseResumeText(resume, now)
+
+    expect(skills).toEqual(expect.arrayContaining(['TypeScript', 'JavaScript', 'React', 'Next.js', 'Docker', 'PostgreSQL']))
+  })
+
+  it('adds up the work history, leaving out education', () => {
+    expect(parseResumeText(resume, now).yearsExperience).toBe(10)
+  })
+
+  it('counts overlapping jobs once', () => {
+    const text = 'Experience\nAcme, 2018 - 2022\nGlobex, 2020 - 2024'
+
+    expect(parseResumeText(text, now).yearsExperience).toBe(6)
+  })
+
+  it('prefers the experience the resume states', () => {
+    expect(parseResumeText('Five years of professional experience\nAcme, 2024 - present', now).yearsExperience).toBe(5)
+  })
+
+  it('leaves out what it cannot find', () => {
+    expect(parseResumeText('Curriculum Vitae\nLooking for new challenges', now)).toEqual({})
+  })
+})
@@ -0,0 +1,181 @@
+import { places } from '../../data/gazetteer'
+import { SKILL_NAMES } from '../../utils/skills'
+import { parseLocation, parseSkills, wordsToNumbers } from '../../chat/parsing'
+
+export interface ResumeFields {
+  fullName?: string
+  email?: string
+  phone?: string
+  linkedinUrl?: string
+  location?: string
+  skills?: string[]
+  yearsExperience?: number
+}
+
+interface Section {
+  heading: string | null
+  lines: string[]
+}
+
+const HEADING = /^(summary|profile|about( me)?|objective|(technical |core |key )?skills|technologies|tech stack|core competencies|(work |professional )?experience|employment( history)?|work history|education|projects|certifications?|languages|interests|awards|publications|references)\s*:?$/i
+const SKILLS_HEADING = /^((technical |core |key )?skills|technologies|tech stack|core competencies)\b/i
+const EDUCATION_HEADING = /^education\b/i
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/
+const PHONE = /(?:\+?\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}/
+const LINKEDIN = /(?:https?:\/\/)?(?:[\w-]+\.)?linkedin\.com\/in\/([\w%-]+)/i
+const NAME = /^[A-Z][a-zA-Z'’-]+(?:\s+[A-Z][a-zA-Z'’.-]*){1,3}$/
+const NAME_UPPERCASE = /^[A-Z'’-]+(?:\s+[A-Z'’.-]+){1,3}$/
+const NOT_A_NAME = /\b(resume|résumé|curriculum|vitae|cv)\b/i
+const STATED_EXPERIENCE = /(\d+(?:\.\d+)?)\s*\+?\s*(?:years?|yrs?)(?:\s+of)?(?:\s+[a-z-]+){0,2}?\s+experience/i
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const DATE = '(?:(jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\\.?\\s+|(\\d{1,2})[/.])?((?:19|20)\\d{2})'
+const DATE_RANGE = new RegExp(`${DATE}\\s*(?:-|–|—|to|until)\\s*(?:${DATE}|(present|current|now|today))`, 'gi')
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Canonical skill names long enough to look for anywhere in the text
+const SCANNED_SKILLS = SKILL_NAMES
+  .filter(skill => skill.length > 2)
+  .map(skill => ({ skill, pattern: new RegExp(`(^|[^\\w])${escapeRegExp(skill)}(?![\\w+#])`, 'i') }))
+
+const titleCase = (value: string) =>
+  value.toLowerCase().replace(/(^|[\s'’-])(\p{L})/gu, (_, separator: string, letter: string) => separator + letter.toUpperCase())
+
+const splitSections = (lines: string[]): Section[] => {
+  const sections: Section[] = [{ heading: null, lines: [] }]
+  for (const line of lines) {
+    const [heading, ...rest] = line.split(':')
+    const inline = rest.join(':').trim()
+    // "Languages: English, Spanish" inside another section is content, not a heading
+    if (HEADING.test(heading.trim()) && (!inline || SKILLS_HEADING.test(heading.trim()))) {
+      sections.push({ heading: heading.trim(), lines: inline ? [inline] : [] })
+    } else {
+      sections[sections.length - 1].lines.push(line)
+    }
+  }
+  return sections
+}
+
+const findName = (lines: string[]) => {
+  const line = lines
+    .slice(0, 5)
+    .find(candidate => !NOT_A_NAME.test(candidate) && !HEADING.test(candidate) &&
+      (NAME.test(candidate) || NAME_UPPERCASE.test(candidate)))
+  if (!line) return undefined
+  return NAME_UPPERCASE.test(line) ? titleCase(line) : line
+}
+
+const findPhone = (text: string) => {
+  const match = text.match(PHONE)?.[0].trim()
+  const digits = match?.replace(/\D/g, '').length ?? 0
+  return match && digits >= 9 && digits <= 15 ? match : undefined
+}
+
+const findLocation = (lines: string[]) => {
+  const labelled = lines.find(line => /^(location|address|based in)\s*:/i.test(line))
+  const candidates = labelled ? [labelled.slice(labelled.indexOf(':') + 1)] : lines.slice(0, 8)
+
+  for (const candidate of candidates) {
+    for (const place of places) {
+      const match = candidate.match(new RegExp(`\\b${escapeRegExp(place.city)}(?:,\\s*[A-Za-z][A-Za-z .]*[A-Za-z])?`))
+      if (!match) continue
+      const parsed = parseLocation(match[0])
+      return parsed.status === 'ok' ? parsed.value : match[0]
+    }
+  }
+  return labelled ? labelled.slice(labelled.indexOf(':') + 1).trim() || undefined : undefined
+}
+
+// Sentences that end up in a skills section are not skills
+const isSkillLike = (entry: string) => entry.length <= 30 && entry.split(' ').length <= 3
+
+const findSkills = (text: string, sections: Section[]) => {
+  const listed = sections
+    .filter(section => section.heading && SKILLS_HEADING.test(section.heading))
+    .flatMap(section => section.lines)
+    .map(line => line.replace(/^[•·\-*–]\s*/, '').replace(/^[^:]{1,30}:\s*/, ''))
+    .join(', ')
+  const parsed = listed ? parseSkills(listed) : undefined
+  const fromSection = parsed?.status === 'ok' ? parsed.value.filter(isSkillLike) : []
+  const mentioned = SCANNED_SKILLS.filter(({ pattern }) => pattern.test(text)).map(({ skill }) => skill)
+
+  const skills = [...fromSection]
+  for (const skill of mentioned) {
+    if (!skills.some(existing => existing.toLowerCase() === skill.toLowerCase())) skills.push(skill)
+  }
+  return skills.length > 0 ? skills : undefined
+}
+
+const monthIndex = (monthName: string | undefined, monthNumber: string | undefined, year: string) => {
+  const month = monthName
+    ? MONTHS.indexOf(monthName.slice(0, 3).toLowerCase())
+    : monthNumber ? Math.min(Math.max(Number(monthNumber) - 1, 0), 11) : 0
+  return Number(year) * 12 + month
+}
+
+/**
+ * Adds up the date ranges of the work history, counting overlapping jobs once.
+ */
+const yearsFromDateRanges = (lines: string[], now: Date) => {
+  const current = now.getFullYear() * 12 + now.getMonth()
+  const ranges: [number, number][] = []
+
+  for (const match of lines.join('\n').matchAll(DATE_RANGE)) {
+    const start = monthIndex(match[1], match[2], match[3])
+    const end = match[7] ? current : monthIndex(match[4], match[5], match[6])
+    if (end >= start && start <= current) ranges.push([start, Math.min(end, current)])
+  }
+  if (ranges.length === 0) return undefined
+
+  ranges.sort((a, b) => a[0] - b[0])
+  let months = 0
+  let [spanStart, spanEnd] = ranges[0]
+  for (const [start, end] of ranges.slice(1)) {
+    if (start > spanEnd) {
+      months += spanEnd - spanStart
+      ;[spanStart, spanEnd] = [start, end]
+    } else {
+      spanEnd = Math.max(spanEnd, end)
+    }
+  }
+  months += spanEnd - spanStart
+  return Math.round(months / 12)
+}
+
+const findYearsExperience = (text: string, sections: Section[], now: Date) => {
+  const stated = wordsToNumbers(text).match(STATED_EXPERIENCE)
+  if (stated) return Math.min(Number(stated[1]), 50)
+
+  // Degrees have date ranges too; only count the rest
+  const workLines = sections
+    .filter(section => !section.heading || !EDUCATION_HEADING.test(section.heading))
+    .flatMap(section => section.lines)
+  const years = yearsFromDateRanges(workLines, now)
+  return years === undefined ? undefined : Math.min(years, 50)
+}
+
+/**
+ * Picks profile fields out of the plain text of a resume. Every field is a
+ * best guess and is left out when nothing convincing is found.
+ */
+export function parseResumeText(text: string, now = new Date()): ResumeFields {
+  const lines = text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean)
+  const sections = splitSections(lines)
+  const linkedin = text.match(LINKEDIN)
+
+  const fields: ResumeFields = {
+    fullName: findName(lines),
+    email: text.match(EMAIL)?.[0],
+    phone: findPhone(text.replace(LINKEDIN, '')),
+    linkedinUrl: linkedin ? `https://www.linkedin.com/in/${linkedin[1]}` : undefined,
+    location: findLocation(lines),
+    skills: findSkills(text, sections),
+    yearsExperience: findYearsExperience(text, sections, now)
+  }
+
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as ResumeFields
+}
@@ -0,0 +1,40 @@
+import { extractDocxText } from './docx'
+import { extractPdfText } from './pdf'
+import { parseResumeText, ResumeFields } from './fields'
+
+export class ResumeParseError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message)
+    this.name = 'ResumeParseError'
+  }
+}
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+const extractText = (file: File, buffer: ArrayBuffer) => {
+  const name = file.name.toLowerCase()
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return extractPdfText(buffer)
+  if (file.type === DOCX_TYPE || name.endsWith('.docx')) return extractDocxText(buffer)
+  throw new ResumeParseError('Only PDF and DOCX resumes can be read automatically')
+}
+
+/**
+ * Reads a resume file in the browser and suggests profile fields from it.
+ */
+export async function parseResume(file: File): Promise<ResumeFields> {
+  let text: string
+  try {
+    text = await extractText(file, await file.arrayBuffer())
+  } catch (error) {
+    if (error instanceof ResumeParseError) throw error
+    throw new ResumeParseError("We couldn't read the text in this file", error)
+  }
+
+  if (!text.trim()) {
+    throw new ResumeParseError('This file has no selectable text (is it a scanned image?)')
+  }
+  return parseResumeText(text)
+}
+
+export { parseResumeText }
+export type { ResumeFields }
@@ -0,0 +1,31 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api'
+
+/**
+ * Extracts the text of a PDF page by page. pdf.js is loaded on demand so it
+ * only weighs on the bundle when someone actually uploads a PDF.
+ */
+export async function extractPdfText(buffer: ArrayBuffer): Promise<string> {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.js?url')
+  ])
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc
+
+  const document = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise
+  try {
+    const pages: string[] = []
+    for (let number = 1; number <= document.numPages; number++) {
+      const page = await document.getPage(number)
+      const content = await page.getTextContent()
+      pages.push(
+        content.items
+          .filter((item): item is TextItem => 'str' in item)
+          .map(item => item.str + (item.hasEOL ? '\n' : ''))
+          .join('')
+      )
+    }
+    return pages.join('\n')
+  } finally {
+    await document.destroy()
+  }
+}
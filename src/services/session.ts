@@ -0,0 +1,26 @@
+import { STORAGE_PREFIX } from './dataStore'
+
+export const SESSION_TOKEN_KEY = `${STORAGE_PREFIX}:session-token`
+
+/**
+ * The signed-in user's bearer token, kept in localStorage so the session
+ * survives reloads and is shared between tabs.
+ */
+export const sessionToken = {
+  get: () => window.localStorage.getItem(SESSION_TOKEN_KEY),
+  set: (token: string) => window.localStorage.setItem(SESSION_TOKEN_KEY, token),
+  clear: () => window.localStorage.removeItem(SESSION_TOKEN_KEY)
+}
+
+const activeChatSessionKey = (userId: string) => `${STORAGE_PREFIX}:active-chat-session:${userId}`
+
+/**
+ * The chat session each account was last writing to, so the chatbot can pick
+ * it back up after a reload. Kept per account and forgotten on logout, so the
+ * next person to log in doesn't land in someone else's conversation.
+ */
+export const activeChatSession = {
+  get: (userId: string) => window.localStorage.getItem(activeChatSessionKey(userId)),
+  set: (userId: string, sessionId: string) => window.localStorage.setItem(activeChatSessionKey(userId), sessionId),
+  clear: (userId: string) => window.localStorage.removeItem(activeChatSessionKey(userId))
+}
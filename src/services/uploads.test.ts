@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createTestApi } from '../test/mockApi'
+import { ApiAdapter, createApiClient } from './api'
+import { createUpload, UploadState } from './uploads'
+
+const file = new File(['hello world'], 'resume.txt', { type: 'text/plain' })
+
+let adapter: ReturnType<typeof vi.fn<Parameters<ApiAdapter>, ReturnType<ApiAdapter>>>
+let client: ReturnType<typeof createApiClient>
+// Chunk requests for these indexes fail once, as if the connection dropped
+let dropped: number[]
+
+const chunkRequests = () => adapter.mock.calls
+  .map(([request]) => request)
+  .filter(request => request.method === 'PUT')
+  .map(request => Number(request.path.split('/').pop()))
+
+beforeEach(async () => {
+  const test = createTestApi()
+  const caller = await test.signUp('Sam', 'job_seeker')
+  const token = caller.headers.Authorization.replace('Bearer ', '')
+  dropped = []
+  adapter = vi.fn<Parameters<ApiAdapter>, ReturnType<ApiAdapter>>(async request => {
+    const index = Number(request.path.split('/').pop())
+    if (request.method === 'PUT' && dropped.includes(index)) {
+      dropped = dropped.filter(other => other !== index)
+      throw new TypeError('Failed to fetch')
+    }
+    return test.api(request)
+  })
+  client = createApiClient({ adapter, retries: 0, getToken: () => token })
+})
+
+describe('createUpload', () => {
+  it('sends the file in chunks and reports progress until it is stored', async () => {
+    const states: UploadState[] = []
+    const upload = createUpload(file, { chunkSize: 4, client, onChange: state => states.push(state) })
+
+    await upload.start()
+
+    expect(chunkRequests()).toEqual([0, 1, 2])
+    expect(states.map(state => state.uploadedBytes)).toEqual([0, 0, 4, 8, 11, 11])
+    expect(upload.state).toMatchObject({ status: 'completed', attachment: { fileName: 'resume.txt', size: 11 } })
+  })
+
+  it('checks the content against its SHA-256', async () => {
+    await createUpload(file, { client }).start()
+
+    const [start] = adapter.mock.calls.map(([request]) => request).filter(request => request.path === '/uploads')
+    // SHA-256 of "hello world"
+    expect(start.body).toMatchObject({ checksum: 'b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9' })
+  })
+
+  it('only sends the missing chunks when resuming after a failure', async () => {
+    dropped = [1]
+    const upload = createUpload(file, { chunkSize: 4, client })
+
+    await upload.start()
+    expect(upload.state).toMatchObject({ status: 'failed', uploadedBytes: 4 })
+
+    await upload.resume()
+    expect(upload.state.status).toBe('completed')
+    expect(chunkRequests()).toEqual([0, 1, 1, 2])
+  })
+})
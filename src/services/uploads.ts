@@ -0,0 +1,152 @@
+import { Attachment, UploadSession } from '../types'
+import { sha256 } from '../utils/checksum'
+import { api, ApiClient } from './api'
+import { errorFromException } from './api/errors'
+
+export const DEFAULT_CHUNK_SIZE = 256 * 1024
+
+export type UploadStatus = 'hashing' | 'uploading' | 'paused' | 'failed' | 'completed' | 'cancelled'
+
+export interface UploadState {
+  status: UploadStatus
+  fileName: string
+  uploadedBytes: number
+  totalBytes: number
+  error?: string
+  attachment?: Attachment
+}
+
+interface UploadOptions {
+  chunkSize?: number
+  client?: ApiClient
+  // Attachment to delete once the new file is stored
+  replaces?: string
+  onChange?: (state: UploadState) => void
+}
+
+const receivedBytes = (session: UploadSession) =>
+  session.receivedChunks.reduce(
+    (total, index) => total + Math.min(session.chunkSize, session.size - index * session.chunkSize),
+    0
+  )
+
+/**
+ * Uploads a file in chunks to the storage API. The transfer can be paused
+ * and resumed, and resuming after a failure only sends the chunks the server
+ * does not have yet. The server checks the content against its SHA-256.
+ */
+export function createUpload(
+  file: File,
+  { chunkSize = DEFAULT_CHUNK_SIZE, client = api, replaces, onChange }: UploadOptions = {}
+) {
+  let state: UploadState = { status: 'hashing', fileName: file.name, uploadedBytes: 0, totalBytes: file.size }
+  let session: UploadSession | undefined
+  let checksum: string | undefined
+  let controller: AbortController | undefined
+  const chunkCount = Math.max(1, Math.ceil(file.size / chunkSize))
+
+  const update = (changes: Partial<UploadState>) => {
+    state = { ...state, ...changes }
+    onChange?.(state)
+  }
+
+  const transfer = async (signal: AbortSignal) => {
+    checksum ??= await sha256(file)
+    if (signal.aborted) return
+
+    // Ask the server what it already has rather than trusting our own count
+    session = session
+      ? await client.uploads.get(session.id, { signal })
+      : await client.uploads.start(
+        { fileName: file.name, contentType: file.type, size: file.size, chunkSize, checksum },
+        { signal }
+      )
+    if (signal.aborted) return
+    update({ status: 'uploading', uploadedBytes: receivedBytes(session), error: undefined })
+
+    for (let index = 0; index < chunkCount; index++) {
+      if (session.receivedChunks.includes(index)) continue
+      const chunk = file.slice(index * chunkSize, (index + 1) * chunkSize)
+      session = await client.uploads.putChunk(session.id, index, chunk, { signal })
+      // A request that was already under way when pausing may still succeed
+      if (signal.aborted) return
+      update({ uploadedBytes: receivedBytes(session) })
+    }
+
+    const attachment = await client.uploads.complete(session.id, { signal })
+    session = undefined
+    update({ status: 'completed', uploadedBytes: file.size, attachment })
+
+    if (replaces) {
+      client.attachments.remove(replaces).catch(error => {
+        console.error('Error removing replaced attachment:', error)
+      })
+    }
+  }
+
+  const run = async () => {
+    const current = new AbortController()
+    controller = current
+    try {
+      await transfer(current.signal)
+    } catch (exception) {
+      // Pausing and cancelling abort the request; that is not a failure
+      if (current.signal.aborted) return
+      const error = errorFromException(exception)
+      // The session is gone or its content was rejected: start over next time
+      if (error.code === 'not_found' || error.code === 'validation') session = undefined
+      update({ status: 'failed', error: error.message })
+    }
+  }
+
+  return {
+    get state() {
+      return state
+    },
+
+    start() {
+      onChange?.(state)
+      return run()
+    },
+
+    pause() {
+      if (state.status !== 'hashing' && state.status !== 'uploading') return
+      controller?.abort()
+      update({ status: 'paused' })
+    },
+
+    // Continues a paused upload, or retries a failed one
+    resume() {
+      if (state.status !== 'paused' && state.status !== 'failed') return Promise.resolve()
+      update({ status: session ? 'uploading' : 'hashing', error: undefined })
+      return run()
+    },
+
+    cancel() {
+      if (state.status === 'completed' || state.status === 'cancelled') return
+      controller?.abort()
+      if (session) {
+        client.uploads.cancel(session.id).catch(() => undefined)
+        session = undefined
+      }
+      update({ status: 'cancelled' })
+    }
+  }
+}
+
+export type Upload = ReturnType<typeof createUpload>
+
+/**
+ * Fetches an attachment and hands it to the browser as a file download.
+ */
+export async function downloadAttachment(attachment: Pick<Attachment, 'id' | 'fileName'>, client: ApiClient = api) {
+  const content = await client.attachments.download(attachment.id)
+  const url = URL.createObjectURL(content)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = attachment.fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
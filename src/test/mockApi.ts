@@ -0,0 +1,75 @@
+import { createMockAdapter } from '../services/api/mock'
+import { DEMO_ADMIN } from '../services/api/mock/auth'
+import { ApiRequest } from '../services/api/types'
+
+export interface Caller {
+  id: string
+  headers: Record<string, string>
+}
+
+interface Session {
+  token: string
+  user: { id: string }
+}
+
+const toCaller = ({ token, user }: Session): Caller =>
+  ({ id: user.id, headers: { Authorization: `Bearer ${token}` } })
+
+/**
+ * A fresh mock API over empty storage, with shortcuts for calling it as
+ * different accounts. A null caller sends no token.
+ */
+export function createTestApi() {
+  window.localStorage.clear()
+  const api = createMockAdapter()
+
+  const request = (caller: Caller | null, method: ApiRequest['method'], path: string, body?: unknown) =>
+    api({ method, path, body, headers: caller?.headers })
+
+  const signUp = async (name: string, role: string): Promise<Caller> => {
+    const { data } = await api({
+      method: 'POST',
+      path: '/auth/signup',
+      body: { name, email: `${name.toLowerCase()}@example.com`, password: 'password123', role }
+    })
+    return toCaller(data as Session)
+  }
+
+  // Accounts from signUp use their lowercased name at example.com and password123
+  const logIn = async (email: string, password = 'password123'): Promise<Caller> => {
+    const { data } = await api({ method: 'POST', path: '/auth/login', body: { email, password } })
+    return toCaller(data as Session)
+  }
+
+  const logInAsAdmin = () => logIn(DEMO_ADMIN.email, DEMO_ADMIN.password)
+
+  // Creates a record and returns its id
+  const create = async (caller: Caller, path: string, body: unknown) =>
+    ((await request(caller, 'POST', path, body)).data as { id: string }).id
+
+  return { api, request, signUp, logIn, logInAsAdmin, create }
+}
+
+export type TestApi = ReturnType<typeof createTestApi>
+
+export const profileFields = {
+  fullName: 'Ana Lee',
+  title: 'Developer',
+  location: 'Berlin, Germany',
+  yearsExperience: 5,
+  skills: ['React'],
+  jobTypes: ['Full-time']
+}
+
+export const jobFields = {
+  jobTitle: 'Frontend Engineer',
+  companyName: 'Acme',
+  jobDescription: 'Build our web app',
+  location: 'Berlin, Germany',
+  requiredSkills: ['React'],
+  experienceLevel: 'Mid',
+  salaryMin: 50000,
+  salaryMax: 70000,
+  employmentType: 'Full-time',
+  contactEmail: 'jobs@acme.example'
+}
@@ -1 +1,24 @@
-import '@testing-library/jest-dom'
\ No newline at end of file
+import '@testing-library/jest-dom'
+import { Buffer } from 'node:buffer'
+import { webcrypto } from 'node:crypto'
+
+// jsdom's Blob can't read its contents back, which checksums need
+if (!Blob.prototype.arrayBuffer) {
+  Blob.prototype.arrayBuffer = function () {
+    return new Promise(resolve => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as ArrayBuffer)
+      reader.readAsArrayBuffer(this)
+    })
+  }
+}
+
+// Node's digest rejects buffers created inside jsdom, so copy them into Node's own
+const { subtle } = webcrypto
+Object.defineProperty(globalThis.crypto, 'subtle', {
+  configurable: true,
+  value: {
+    digest: (algorithm: string, data: BufferSource) =>
+      subtle.digest(algorithm, Buffer.from(new Uint8Array(data as ArrayBuffer)))
+  }
+})
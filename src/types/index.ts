@@ -0,0 +1,289 @@
+import { JobFormData } from '../schemas/job'
+import { JobSearchQuery } from '../utils/jobSearch'
+
+export interface UserData {
+  name: string
+  skills: string[]
+  location: string
+  yearsExperience: number
+  jobType: string
+}
+
+export type ChatRole = 'job_seeker' | 'recruiter'
+
+// Job seekers keep a profile, recruiters (employers) post jobs and admins
+// moderate everything
+export type UserRole = ChatRole | 'admin'
+
+export interface RecruiterData {
+  jobTitle: string
+  companyName: string
+  requiredSkills: string[]
+  experienceLevel: ExperienceLevel
+  salaryMin: number
+  salaryMax: number
+  employmentType: EmploymentType
+  location: string
+  contactEmail: string
+}
+
+export interface ConversationData extends UserData, RecruiterData {
+  role: ChatRole
+}
+
+export interface MatchProfile {
+  id: string
+  photo?: string
+  name: string
+  title: string
+  experience: string
+  yearsExperience: number
+  location: string
+  skills: string[]
+  jobTypes: string[]
+}
+
+export interface StoredRecord {
+  id: string
+  createdAt: string
+  updatedAt: string
+  version: number
+}
+
+export type NewRecord<T extends StoredRecord> = Omit<T, keyof StoredRecord>
+
+export type ExperienceLevel = 'Entry' | 'Mid' | 'Senior' | 'Lead' | 'Executive'
+
+export type EmploymentType = 'Full-time' | 'Part-time' | 'Contract' | 'Freelance' | 'Internship'
+
+export interface Profile extends StoredRecord {
+  fullName: string
+  email: string
+  phone?: string
+  location: string
+  skills: string[]
+  yearsExperience: number
+  title?: string
+  photo?: string
+  jobTypes: string[]
+  linkedinUrl?: string
+  resumeUrl?: string
+  resumeFileName?: string
+  resumeAttachmentId?: string
+  // Account that created the profile
+  ownerId?: string
+}
+
+// Where a posting is in its lifecycle; before it is posted it is a JobDraft
+export type JobStatus = 'scheduled' | 'published' | 'paused' | 'closed' | 'expired'
+
+export interface JobStatusChange {
+  status: JobStatus
+  changedAt: string
+  // Name of whoever made the change; missing for automatic changes
+  changedBy?: string
+}
+
+export interface JobPosting extends StoredRecord {
+  jobTitle: string
+  companyName: string
+  jobDescription: string
+  location: string
+  requiredSkills: string[]
+  experienceLevel: ExperienceLevel
+  salaryMin: number
+  salaryMax: number
+  employmentType: EmploymentType
+  contactEmail: string
+  // When the posting goes, or went, live
+  postedDate: string
+  // After this the posting is closed automatically
+  expiresAt?: string
+  // Account that posted the job
+  ownerId?: string
+  // Set by the server; postings from before statuses existed count as published
+  status?: JobStatus
+  statusHistory?: JobStatusChange[]
+  // Set on postings archived before statuses existed; the server closes them
+  archivedAt?: string
+}
+
+export type ApplicationStage = 'applied' | 'screening' | 'interview' | 'offer' | 'rejected'
+
+// A recruiter's remark on an application; candidates never see these
+export interface ApplicationNote {
+  id: string
+  body: string
+  author: string
+  createdAt: string
+}
+
+// A candidate's application to a job, with their profile and resume as they applied
+export interface Application extends StoredRecord {
+  jobId: string
+  profileId: string
+  // Account that applied
+  candidateId: string
+  // Copied when applying, so the application still reads well if either is removed
+  jobTitle: string
+  companyName: string
+  candidateName: string
+  resumeAttachmentId?: string
+  resumeFileName?: string
+  coverNote?: string
+  stage: ApplicationStage
+  notes: ApplicationNote[]
+}
+
+// A recruiter asking a matched candidate to apply for their job
+export interface Invitation extends StoredRecord {
+  jobId: string
+  profileId: string
+  // Account that owns the invited profile; sample profiles have none
+  candidateId?: string
+  jobTitle: string
+  companyName: string
+  candidateName: string
+  // Name of the recruiter who sent it
+  invitedBy: string
+}
+
+export type AlertFrequency = 'instant' | 'daily'
+
+// Job listing filters, without sorting and paging
+export type JobAlertSearch = Omit<JobSearchQuery, 'sort' | 'page' | 'pageSize'>
+
+// A saved search; postings that match it when they go live reach the owner's inbox
+export interface JobAlert extends StoredRecord {
+  ownerId: string
+  name: string
+  frequency: AlertFrequency
+  // Saved from the chatbot answers, matched the way candidates are matched to jobs
+  criteria?: UserData
+  // Saved from the job listing filters
+  search?: JobAlertSearch
+  // Matches waiting for the next daily digest
+  pendingJobIds: string[]
+  lastDigestAt: string
+}
+
+export type NotificationKind =
+  | 'job_alert'
+  | 'new_match'
+  | 'application_status'
+  | 'job_expiring'
+  | 'draft_expiring'
+
+// A posting a notification is about, as it read when the notification was sent
+export interface NotificationJob {
+  id: string
+  jobTitle: string
+  companyName: string
+  location: string
+}
+
+export interface Notification extends StoredRecord {
+  recipientId: string
+  kind: NotificationKind
+  title: string
+  body: string
+  // Where opening the notification leads
+  link?: string
+  jobs?: NotificationJob[]
+  // What a reminder is about, so each one is only sent once
+  subjectId?: string
+  readAt?: string
+}
+
+// A conversation between a job's recruiter and a candidate about that job
+export interface MessageThread extends StoredRecord {
+  jobId: string
+  recruiterId: string
+  candidateId: string
+  // Copied when the thread starts, so it still reads well if the job is removed
+  jobTitle: string
+  companyName: string
+  recruiterName: string
+  candidateName: string
+  // When each participant last read the thread, by account id
+  readAt: Record<string, string>
+  lastMessage?: Pick<DirectMessage, 'senderId' | 'body' | 'createdAt'>
+  // Messages the caller hasn't read yet; filled in by the server for each caller
+  unreadCount?: number
+}
+
+export interface DirectMessage extends StoredRecord {
+  threadId: string
+  senderId: string
+  body: string
+}
+
+export interface JobDraft extends StoredRecord {
+  values: Partial<JobFormData>
+  // Account that saved the draft
+  ownerId?: string
+}
+
+// A stored file, e.g. an uploaded resume
+export interface Attachment extends StoredRecord {
+  fileName: string
+  contentType: string
+  size: number
+  // Hex-encoded SHA-256 of the content
+  checksum: string
+  // Account that uploaded the file
+  ownerId?: string
+}
+
+// A chunked upload in progress; completing it produces an Attachment
+export interface UploadSession extends StoredRecord {
+  fileName: string
+  contentType: string
+  size: number
+  chunkSize: number
+  checksum: string
+  receivedChunks: number[]
+  // Account that started the upload
+  ownerId?: string
+}
+
+// The signed-in person as exposed to the app
+export interface AuthUser {
+  id: string
+  name: string
+  email: string
+  role: UserRole
+}
+
+export interface Credentials {
+  email: string
+  password: string
+}
+
+export interface SignUpData extends Credentials {
+  name: string
+  role: UserRole
+}
+
+// Returned on sign-up and login; the token authorizes later requests
+export interface AuthSession {
+  token: string
+  expiresAt: string
+  user: AuthUser
+}
+
+// Server-side account record; the password is only kept as a salted hash
+export interface Account extends StoredRecord {
+  name: string
+  email: string
+  role: UserRole
+  passwordHash: string
+  passwordSalt: string
+}
+
+// Server-side record of an issued session token
+export interface AccessToken extends StoredRecord {
+  token: string
+  accountId: string
+  expiresAt: string
+}
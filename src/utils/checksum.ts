@@ -0,0 +1,7 @@
+/**
+ * Hex-encoded SHA-256 digest of a file or blob, used to verify uploads.
+ */
+export async function sha256(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,30 @@
+export interface FieldChange {
+  field: string
+  label: string
+  before: string
+  after: string
+}
+
+const display = (value: unknown): string => {
+  if (value === undefined || value === null) return ''
+  return Array.isArray(value) ? value.map(display).join(', ') : String(value).trim()
+}
+
+/**
+ * Lists the labelled fields whose values differ between two versions of a
+ * form, comparing them as trimmed text so untouched fields never show up.
+ */
+export function diffFields<T extends object>(
+  before: T,
+  after: Partial<T>,
+  labels: Record<keyof T, string>
+): FieldChange[] {
+  return (Object.keys(labels) as (keyof T & string)[])
+    .map(field => ({
+      field,
+      label: labels[field],
+      before: display(before[field]),
+      after: display(after[field])
+    }))
+    .filter(change => change.before !== change.after)
+}
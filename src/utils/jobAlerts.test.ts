@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { JobAlert, JobPosting } from '../types'
+import { alertMatches, describeAlert, toAlertSearch } from './jobAlerts'
+
+const job: JobPosting = {
+  id: 'job-1',
+  createdAt: '2026-06-01T00:00:00Z',
+  updatedAt: '2026-06-01T00:00:00Z',
+  version: 1,
+  jobTitle: 'Frontend Developer',
+  companyName: 'Acme',
+  jobDescription: 'Build our web app',
+  location: 'Berlin, Germany',
+  requiredSkills: ['React', 'TypeScript'],
+  experienceLevel: 'Mid',
+  salaryMin: 50000,
+  salaryMax: 70000,
+  employmentType: 'Full-time',
+  contactEmail: 'jobs@acme.test',
+  postedDate: '2026-06-01T00:00:00Z'
+}
+
+const alert = (overrides: Partial<JobAlert>): JobAlert => ({
+  id: 'alert-1',
+  createdAt: '2026-06-01T00:00:00Z',
+  updatedAt: '2026-06-01T00:00:00Z',
+  version: 1,
+  ownerId: 'account-1',
+  name: 'Frontend jobs',
+  frequency: 'instant',
+  pendingJobIds: [],
+  lastDigestAt: '2026-06-01T00:00:00Z',
+  ...overrides
+})
+
+const criteria = {
+  name: 'Ana Lee',
+  skills: ['React', 'TypeScript'],
+  location: 'Berlin, Germany',
+  yearsExperience: 4,
+  jobType: 'Full-time'
+}
+
+describe('alertMatches', () => {
+  it('scores postings against chatbot answers like a candidate', () => {
+    expect(alertMatches(alert({ criteria }), job)).toBe(true)
+    expect(alertMatches(alert({ criteria: { ...criteria, skills: ['Python'], location: 'Austin, TX' } }), job)).toBe(false)
+  })
+
+  it('runs listing filters against the posting', () => {
+    expect(alertMatches(alert({ search: { text: 'frontend', skills: ['reactjs'] } }), job)).toBe(true)
+    expect(alertMatches(alert({ search: { salaryMin: 90000 } }), job)).toBe(false)
+  })
+
+  it('matches nothing without criteria or filters', () => {
+    expect(alertMatches(alert({}), job)).toBe(false)
+  })
+})
+
+describe('toAlertSearch', () => {
+  it('keeps the filters and drops sorting, paging and empty values', () => {
+    expect(toAlertSearch({ text: 'react', location: '', skills: [], experienceLevels: ['Mid'], sort: 'oldest', page: 3 }))
+      .toEqual({ text: 'react', experienceLevels: ['Mid'] })
+  })
+})
+
+describe('describeAlert', () => {
+  it('summarises what the alert looks for', () => {
+    expect(describeAlert({ criteria })).toBe('React, TypeScript · Berlin, Germany · Full-time · 4 yrs experience')
+    expect(describeAlert({ search: { text: 'react', location: 'Berlin' } })).toBe('"react" · Berlin')
+    expect(describeAlert({ search: {} })).toBe('All new jobs')
+  })
+})
@@ -0,0 +1,57 @@
+import { JobAlert, JobAlertSearch, JobPosting, MatchProfile, UserData } from '../types'
+import { JobSearchQuery, searchJobs } from './jobSearch'
+import { jobToCriteria, scoreProfile } from './matching'
+
+// How well a posting has to fit chatbot answers to be announced
+export const ALERT_MIN_SCORE = 50
+
+// The chatbot answers as a candidate the posting can be scored against
+const asCandidate = (criteria: UserData): MatchProfile => ({
+  id: '',
+  name: criteria.name,
+  title: '',
+  experience: '',
+  yearsExperience: criteria.yearsExperience,
+  location: criteria.location,
+  skills: criteria.skills,
+  jobTypes: [criteria.jobType]
+})
+
+/**
+ * Whether a newly published posting should be announced to the alert's owner.
+ */
+export function alertMatches(alert: JobAlert, job: JobPosting): boolean {
+  if (alert.criteria) return scoreProfile(jobToCriteria(job), asCandidate(alert.criteria)).score >= ALERT_MIN_SCORE
+  if (alert.search) return searchJobs([job], alert.search).total > 0
+  return false
+}
+
+// How results are shown, which doesn't change what an alert matches
+const DISPLAY_FIELDS: string[] = ['sort', 'page', 'pageSize']
+
+/**
+ * The listing filters worth saving: no sorting or paging, and no empty values.
+ */
+export function toAlertSearch(query: JobSearchQuery): JobAlertSearch {
+  return Object.fromEntries(Object.entries(query).filter(([field, value]) =>
+    !DISPLAY_FIELDS.includes(field) && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+  )) as JobAlertSearch
+}
+
+/**
+ * A one-line summary of what an alert looks for, e.g. "React, TypeScript · Portland".
+ */
+export function describeAlert({ criteria, search }: Pick<JobAlert, 'criteria' | 'search'>): string {
+  const parts = criteria
+    ? [criteria.skills.join(', '), criteria.location, criteria.jobType, `${criteria.yearsExperience} yrs experience`]
+    : [
+        search?.text && `"${search.text}"`,
+        search?.skills?.join(', '),
+        search?.location,
+        search?.experienceLevels?.join(' or '),
+        search?.employmentTypes?.join(' or '),
+        search?.salaryMin !== undefined && `from ${search.salaryMin.toLocaleString()}`,
+        search?.salaryMax !== undefined && `up to ${search.salaryMax.toLocaleString()}`
+      ]
+  return parts.filter(Boolean).join(' · ') || 'All new jobs'
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { JobPosting } from '../types'
+import {
+  canChangeStatus,
+  dueStatusChanges,
+  isClosed,
+  isListed,
+  jobStatus,
+  jobStatusHistory,
+  nextStatuses
+} from './jobLifecycle'
+
+const now = new Date('2026-06-15T12:00:00Z')
+
+const job = (overrides: Partial<JobPosting> = {}): JobPosting => ({
+  id: 'job-1',
+  createdAt: '2026-06-01T00:00:00Z',
+  updatedAt: '2026-06-01T00:00:00Z',
+  version: 1,
+  jobTitle: 'Frontend Developer',
+  companyName: 'Acme',
+  jobDescription: 'Build things',
+  location: 'Berlin, Germany',
+  requiredSkills: ['React'],
+  experienceLevel: 'Mid',
+  salaryMin: 50000,
+  salaryMax: 70000,
+  employmentType: 'Full-time',
+  contactEmail: 'jobs@acme.test',
+  postedDate: '2026-06-01T00:00:00Z',
+  status: 'published',
+  ...overrides
+})
+
+describe('dueStatusChanges', () => {
+  it('publishes scheduled postings on their posted date', () => {
+    expect(dueStatusChanges(job({ status: 'scheduled' }), now))
+      .toEqual([{ status: 'published', changedAt: '2026-06-01T00:00:00Z' }])
+    expect(dueStatusChanges(job({ status: 'scheduled', postedDate: '2026-07-01T00:00:00Z' }), now)).toEqual([])
+  })
+
+  it('expires open postings on their expiry date', () => {
+    const expiresAt = '2026-06-10T00:00:00Z'
+
+    expect(dueStatusChanges(job({ expiresAt }), now)).toEqual([{ status: 'expired', changedAt: expiresAt }])
+    expect(dueStatusChanges(job({ status: 'paused', expiresAt }), now)).toEqual([{ status: 'expired', changedAt: expiresAt }])
+    expect(dueStatusChanges(job({ status: 'closed', expiresAt }), now)).toEqual([])
+    expect(dueStatusChanges(job({ expiresAt: '2026-07-01T00:00:00Z' }), now)).toEqual([])
+  })
+
+  it('publishes and expires a scheduled posting that has run its course', () => {
+    const changes = dueStatusChanges(job({ status: 'scheduled', expiresAt: '2026-06-10T00:00:00Z' }), now)
+
+    expect(changes.map(change => change.status)).toEqual(['published', 'expired'])
+  })
+})
+
+describe('jobStatus', () => {
+  it('applies due changes to the stored status', () => {
+    expect(jobStatus(job({ status: 'paused' }), now)).toBe('paused')
+    expect(jobStatus(job({ status: 'scheduled' }), now)).toBe('published')
+    expect(jobStatus(job({ expiresAt: '2026-06-10T00:00:00Z' }), now)).toBe('expired')
+  })
+
+  it('treats postings without a status as published', () => {
+    expect(jobStatus(job({ status: undefined }), now)).toBe('published')
+  })
+
+  it('treats postings archived before statuses existed as closed', () => {
+    const archived = job({ status: undefined, archivedAt: '2026-06-05T00:00:00Z', expiresAt: '2026-06-10T00:00:00Z' })
+
+    expect(jobStatus(archived, now)).toBe('closed')
+    expect(jobStatusHistory(archived, now)).toEqual([{ status: 'closed', changedAt: '2026-06-05T00:00:00Z' }])
+  })
+})
+
+describe('jobStatusHistory', () => {
+  it('appends due changes to the stored history', () => {
+    const history = jobStatusHistory(job({
+      status: 'paused',
+      expiresAt: '2026-06-10T00:00:00Z',
+      statusHistory: [{ status: 'paused', changedAt: '2026-06-05T00:00:00Z', changedBy: 'Sam' }]
+    }), now)
+
+    expect(history).toEqual([
+      { status: 'paused', changedAt: '2026-06-05T00:00:00Z', changedBy: 'Sam' },
+      { status: 'expired', changedAt: '2026-06-10T00:00:00Z' }
+    ])
+  })
+})
+
+describe('status changes', () => {
+  it('allows only the changes for the current status', () => {
+    expect(nextStatuses(job({ status: 'scheduled', postedDate: '2026-07-01T00:00:00Z' }), now)).toEqual(['published', 'closed'])
+    expect(nextStatuses(job(), now)).toEqual(['paused', 'closed'])
+    expect(nextStatuses(job({ status: 'paused' }), now)).toEqual(['published', 'closed'])
+    expect(canChangeStatus(job({ status: 'closed' }), 'published', now)).toBe(false)
+    expect(canChangeStatus(job({ expiresAt: '2026-06-10T00:00:00Z' }), 'paused', now)).toBe(false)
+  })
+})
+
+describe('isListed and isClosed', () => {
+  it('lists only published postings and closes finished ones', () => {
+    expect(isListed(job())).toBe(true)
+    expect(isListed(job({ status: 'paused' }))).toBe(false)
+    expect(isClosed(job({ status: 'closed' }))).toBe(true)
+    expect(isClosed(job({ expiresAt: '2000-01-01T00:00:00Z' }))).toBe(true)
+    expect(isClosed(job({ status: 'paused' }))).toBe(false)
+  })
+})
@@ -0,0 +1,62 @@
+import { JobPosting, JobStatus, JobStatusChange } from '../types'
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  scheduled: 'Scheduled',
+  published: 'Published',
+  paused: 'Paused',
+  closed: 'Closed',
+  expired: 'Expired'
+}
+
+// Changes recruiters can make by hand; closed and expired postings are reposted as new drafts
+const TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  scheduled: ['published', 'closed'],
+  published: ['paused', 'closed'],
+  paused: ['published', 'closed'],
+  closed: [],
+  expired: []
+}
+
+const storedStatus = (job: Pick<JobPosting, 'status'>): JobStatus => job.status ?? 'published'
+
+/**
+ * The automatic changes that have fallen due by `now`: a scheduled posting
+ * goes live on its posted date, and an open one expires on its expiry date.
+ */
+export function dueStatusChanges(job: JobPosting, now = new Date()): JobStatusChange[] {
+  // Postings archived before statuses existed closed when they were archived
+  if (!job.status && job.archivedAt) return [{ status: 'closed', changedAt: job.archivedAt }]
+
+  const changes: JobStatusChange[] = []
+  let status = storedStatus(job)
+
+  if (status === 'scheduled' && new Date(job.postedDate) <= now) {
+    status = 'published'
+    changes.push({ status, changedAt: job.postedDate })
+  }
+  if ((status === 'published' || status === 'paused') && job.expiresAt && new Date(job.expiresAt) <= now) {
+    changes.push({ status: 'expired', changedAt: job.expiresAt })
+  }
+  return changes
+}
+
+// The posting's status as of `now`, even if the server hasn't caught up yet
+export function jobStatus(job: JobPosting, now = new Date()): JobStatus {
+  const due = dueStatusChanges(job, now)
+  return due.length > 0 ? due[due.length - 1].status : storedStatus(job)
+}
+
+// Every status the posting has had, oldest first
+export function jobStatusHistory(job: JobPosting, now = new Date()): JobStatusChange[] {
+  return [...(job.statusHistory ?? []), ...dueStatusChanges(job, now)]
+}
+
+export const nextStatuses = (job: JobPosting, now = new Date()) => TRANSITIONS[jobStatus(job, now)]
+
+export const canChangeStatus = (job: JobPosting, status: JobStatus, now = new Date()) =>
+  nextStatuses(job, now).includes(status)
+
+// Only published postings show up in listings, search and chat
+export const isListed = (job: JobPosting) => jobStatus(job) === 'published'
+
+export const isClosed = (job: JobPosting) => TRANSITIONS[jobStatus(job)].length === 0
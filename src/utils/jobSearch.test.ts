@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { JobPosting } from '../types'
+import { searchJobs } from './jobSearch'
+
+const job = (id: string, overrides: Partial<JobPosting> = {}): JobPosting => ({
+  id,
+  createdAt: '2026-06-01T00:00:00Z',
+  updatedAt: '2026-06-01T00:00:00Z',
+  version: 1,
+  jobTitle: 'Frontend Developer',
+  companyName: 'Acme',
+  jobDescription: 'Build our web app',
+  location: 'Berlin, Germany',
+  requiredSkills: ['React'],
+  experienceLevel: 'Mid',
+  salaryMin: 50000,
+  salaryMax: 70000,
+  employmentType: 'Full-time',
+  contactEmail: 'jobs@acme.test',
+  postedDate: '2026-06-01T00:00:00Z',
+  ...overrides
+})
+
+const jobs = [
+  job('frontend'),
+  job('backend', {
+    jobTitle: 'Backend Engineer',
+    companyName: 'Globex',
+    requiredSkills: ['Node.js', 'PostgreSQL'],
+    experienceLevel: 'Senior',
+    salaryMin: 80000,
+    salaryMax: 100000,
+    postedDate: '2026-06-03T00:00:00Z'
+  }),
+  job('contract', {
+    jobTitle: 'React Native Developer',
+    location: 'Portland, OR',
+    requiredSkills: ['React Native', 'TypeScript'],
+    employmentType: 'Contract',
+    salaryMin: 40000,
+    salaryMax: 55000,
+    postedDate: '2026-06-02T00:00:00Z'
+  })
+]
+
+const ids = (query: Parameters<typeof searchJobs>[1]) => searchJobs(jobs, query).items.map(({ id }) => id)
+
+describe('searchJobs', () => {
+  it('lists the newest postings first by default', () => {
+    expect(ids({})).toEqual(['backend', 'contract', 'frontend'])
+  })
+
+  it('matches every word of the text against title, company and description', () => {
+    expect(ids({ text: 'developer acme' })).toEqual(['contract', 'frontend'])
+    expect(ids({ text: 'globex' })).toEqual(['backend'])
+  })
+
+  it('filters by level, employment type and location', () => {
+    expect(ids({ experienceLevels: ['Senior'] })).toEqual(['backend'])
+    expect(ids({ employmentTypes: ['Contract', 'Part-time'] })).toEqual(['contract'])
+    expect(ids({ location: 'Portland, Oregon' })).toEqual(['contract'])
+  })
+
+  it('keeps jobs whose salary range overlaps the wanted one', () => {
+    expect(ids({ salaryMin: 60000 })).toEqual(['backend', 'frontend'])
+    expect(ids({ salaryMin: 52000, salaryMax: 60000 })).toEqual(['contract', 'frontend'])
+  })
+
+  it('needs every wanted skill, however it is spelled', () => {
+    expect(ids({ skills: ['nodejs', 'postgres'] })).toEqual(['backend'])
+    expect(ids({ skills: ['React', 'TypeScript'] })).toEqual([])
+  })
+
+  it('sorts by salary or age', () => {
+    expect(ids({ sort: 'salary_high' })).toEqual(['backend', 'frontend', 'contract'])
+    expect(ids({ sort: 'salary_low' })).toEqual(['contract', 'frontend', 'backend'])
+    expect(ids({ sort: 'oldest' })).toEqual(['frontend', 'contract', 'backend'])
+  })
+
+  it('pages through the results', () => {
+    expect(searchJobs(jobs, { pageSize: 2, page: 2 })).toMatchObject({ total: 3, pageCount: 2, items: [{ id: 'frontend' }] })
+  })
+})
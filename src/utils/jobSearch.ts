@@ -0,0 +1,52 @@
+import { EmploymentType, ExperienceLevel, JobPosting } from '../types'
+import { matchesAllWords, matchesLocation, Page, paginate } from './search'
+import { skillKey } from './skills'
+
+export type JobSort = 'newest' | 'oldest' | 'salary_high' | 'salary_low'
+
+export interface JobSearchQuery {
+  text?: string
+  experienceLevels?: ExperienceLevel[]
+  employmentTypes?: EmploymentType[]
+  // Jobs whose salary range overlaps this one
+  salaryMin?: number
+  salaryMax?: number
+  location?: string
+  // Jobs must require every one of these
+  skills?: string[]
+  sort?: JobSort
+  page?: number
+  pageSize?: number
+}
+
+const COMPARATORS: Record<JobSort, (a: JobPosting, b: JobPosting) => number> = {
+  newest: (a, b) => b.postedDate.localeCompare(a.postedDate),
+  oldest: (a, b) => a.postedDate.localeCompare(b.postedDate),
+  salary_high: (a, b) => b.salaryMax - a.salaryMax || b.salaryMin - a.salaryMin,
+  salary_low: (a, b) => a.salaryMin - b.salaryMin || a.salaryMax - b.salaryMax
+}
+
+/**
+ * Filters, sorts and paginates job postings. Free text matches when every
+ * word appears in the title, company name or description.
+ */
+export function searchJobs(jobs: JobPosting[], query: JobSearchQuery = {}): Page<JobPosting> {
+  const skills = (query.skills ?? []).map(skillKey)
+  const { text = '', experienceLevels = [], employmentTypes = [], salaryMin, salaryMax, location } = query
+
+  const matching = jobs.filter(job => {
+    if (!matchesAllWords(`${job.jobTitle} ${job.companyName} ${job.jobDescription}`, text)) return false
+    if (experienceLevels.length > 0 && !experienceLevels.includes(job.experienceLevel)) return false
+    if (employmentTypes.length > 0 && !employmentTypes.includes(job.employmentType)) return false
+    if (salaryMin !== undefined && job.salaryMax < salaryMin) return false
+    if (salaryMax !== undefined && job.salaryMin > salaryMax) return false
+    if (location && !matchesLocation(job.location, location)) return false
+    if (skills.length > 0) {
+      const required = job.requiredSkills.map(skillKey)
+      if (!skills.every(skill => required.includes(skill))) return false
+    }
+    return true
+  })
+
+  return paginate([...matching].sort(COMPARATORS[query.sort ?? 'newest']), query.page, query.pageSize)
+}
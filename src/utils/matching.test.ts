@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { MatchProfile, UserData } from '../types'
+import { describeMatch, matchProfiles, scoreProfile } from './matching'
+
+const criteria: UserData = {
+  name: 'Frontend Developer',
+  skills: ['React', 'TypeScript'],
+  location: 'Berlin, Germany',
+  yearsExperience: 5,
+  jobType: 'Full-time'
+}
+
+const candidate = (overrides: Partial<MatchProfile> = {}): MatchProfile => ({
+  id: 'candidate-1',
+  name: 'Ana Lee',
+  title: 'Developer',
+  experience: '5 years',
+  yearsExperience: 5,
+  location: 'Berlin, Germany',
+  skills: ['React', 'TypeScript'],
+  jobTypes: ['Full-time'],
+  ...overrides
+})
+
+describe('scoreProfile', () => {
+  it('gives a perfect fit full marks on every criterion', () => {
+    const result = scoreProfile(criteria, candidate())
+
+    expect(result.score).toBe(100)
+    expect(result.breakdown).toEqual({ skills: 1, experience: 1, location: 1, jobType: 1 })
+    expect(result.reasons).toEqual([
+      '2 of 2 skills overlap',
+      'same city',
+      'same experience level',
+      'open to full-time work'
+    ])
+  })
+
+  it('weights the criteria', () => {
+    const result = scoreProfile(criteria, candidate({ skills: ['Python'], location: 'Paris, France', jobTypes: [] }))
+
+    // Only experience (20%) matches
+    expect(result.score).toBe(20)
+    expect(result.reasons).toEqual(['same experience level'])
+  })
+
+  it('gives related skills partial credit', () => {
+    const result = scoreProfile(criteria, candidate({ skills: ['Vue.js', 'TypeScript'] }))
+
+    expect(result.breakdown.skills).toBe(0.75)
+    expect(result.reasons[0]).toBe('1 of 2 skills overlap (+1 related skill)')
+  })
+
+  it('counts other spellings of a skill as the skill', () => {
+    expect(scoreProfile(criteria, candidate({ skills: ['reactjs', 'TS'] })).breakdown.skills).toBe(1)
+  })
+
+  it('scores experience down with the gap in years', () => {
+    expect(scoreProfile(criteria, candidate({ yearsExperience: 7 })).breakdown.experience).toBeCloseTo(0.8)
+    expect(scoreProfile(criteria, candidate({ yearsExperience: 20 })).breakdown.experience).toBe(0)
+  })
+
+  it('gives half marks for the same region in another city', () => {
+    const result = scoreProfile(criteria, candidate({ location: 'Munich, Germany' }))
+
+    expect(result.breakdown.location).toBe(0.5)
+    expect(result.reasons).toContain('same region')
+  })
+
+  it('matches job types that contain one another', () => {
+    const result = scoreProfile({ ...criteria, jobType: 'Full-time, Remote' }, candidate({ jobTypes: ['Remote'] }))
+
+    expect(result.breakdown.jobType).toBe(1)
+  })
+
+  it('gives no job type credit when the job type is blank', () => {
+    expect(scoreProfile({ ...criteria, jobType: ' ' }, candidate()).breakdown.jobType).toBe(0)
+    expect(scoreProfile(criteria, candidate({ jobTypes: [''] })).breakdown.jobType).toBe(0)
+  })
+
+  it('gives no skill credit when no skills are wanted', () => {
+    expect(scoreProfile({ ...criteria, skills: [] }, candidate()).breakdown.skills).toBe(0)
+  })
+})
+
+describe('matchProfiles', () => {
+  const candidates = [
+    candidate({ id: 'weak', skills: ['Python'], location: 'Paris, France', jobTypes: [], yearsExperience: 20 }),
+    candidate({ id: 'partial', skills: ['React'] }),
+    candidate({ id: 'perfect' })
+  ]
+
+  it('ranks the best matches first and drops weak ones', () => {
+    expect(matchProfiles(criteria, candidates).map(result => result.profile.id)).toEqual(['perfect', 'partial'])
+  })
+
+  it('applies the limit and minimum score', () => {
+    expect(matchProfiles(criteria, candidates, { limit: 1 }).map(result => result.profile.id)).toEqual(['perfect'])
+    expect(matchProfiles(criteria, candidates, { minScore: 0 })).toHaveLength(3)
+  })
+})
+
+describe('describeMatch', () => {
+  it('summarises the score and reasons', () => {
+    const result = scoreProfile(criteria, candidate({ skills: ['Python'], location: 'Paris, France', jobTypes: [], yearsExperience: 20 }))
+
+    expect(describeMatch(result)).toBe('Ana Lee (0% match): partial fit')
+  })
+})
@@ -0,0 +1,183 @@
+import { ExperienceLevel, MatchProfile, Profile, RecruiterData, UserData } from '../types'
+import { areRelatedSkills, canonicalSkills } from './skills'
+
+export interface MatchBreakdown {
+  skills: number
+  experience: number
+  location: number
+  jobType: number
+}
+
+export interface MatchResult {
+  profile: MatchProfile
+  score: number
+  breakdown: MatchBreakdown
+  reasons: string[]
+}
+
+interface MatchOptions {
+  limit?: number
+  minScore?: number
+}
+
+// Relative importance of each criterion; the weights add up to 1
+const WEIGHTS: MatchBreakdown = {
+  skills: 0.5,
+  experience: 0.2,
+  location: 0.15,
+  jobType: 0.15
+}
+
+// Experience differences beyond this many years score zero
+const MAX_EXPERIENCE_GAP = 10
+
+// Share of a full match a related skill earns, e.g. Vue.js for a React role
+const RELATED_SKILL_CREDIT = 0.5
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+const splitLocation = (location: string) =>
+  location.split(',').map(normalize).filter(Boolean)
+
+const scoreSkills = (wanted: string[], offered: string[]) => {
+  const offeredSkills = canonicalSkills(offered)
+  const offeredSet = new Set(offeredSkills.map(normalize))
+  const wantedSkills = canonicalSkills(wanted)
+  if (wantedSkills.length === 0) return { score: 0, reason: null }
+
+  const missing = wantedSkills.filter(skill => !offeredSet.has(normalize(skill)))
+  const overlap = wantedSkills.length - missing.length
+  const related = missing.filter(skill => offeredSkills.some(other => areRelatedSkills(skill, other))).length
+  const relatedText = `${related} related ${related === 1 ? 'skill' : 'skills'}`
+
+  let reason: string | null = null
+  if (overlap > 0) reason = `${overlap} of ${wantedSkills.length} skills overlap${related > 0 ? ` (+${relatedText})` : ''}`
+  else if (related > 0) reason = relatedText
+
+  return {
+    score: (overlap + related * RELATED_SKILL_CREDIT) / wantedSkills.length,
+    reason
+  }
+}
+
+const scoreExperience = (years: number, candidateYears: number) => {
+  const gap = Math.abs(years - candidateYears)
+  const score = Math.max(0, 1 - gap / MAX_EXPERIENCE_GAP)
+
+  if (gap === 0) return { score, reason: 'same experience level' }
+  if (gap <= 2) return { score, reason: `similar experience (${candidateYears} yrs)` }
+  return { score, reason: null }
+}
+
+const scoreLocation = (location: string, candidateLocation: string) => {
+  const [city, ...rest] = splitLocation(location)
+  const [candidateCity, ...candidateRest] = splitLocation(candidateLocation)
+  if (!city || !candidateCity) return { score: 0, reason: null }
+
+  if (city === candidateCity) return { score: 1, reason: 'same city' }
+
+  const region = rest[rest.length - 1]
+  const candidateRegion = candidateRest[candidateRest.length - 1]
+  if (region && region === candidateRegion) return { score: 0.5, reason: 'same region' }
+
+  return { score: 0, reason: null }
+}
+
+const scoreJobType = (jobType: string, candidateJobTypes: string[]) => {
+  const wanted = normalize(jobType)
+  // A skipped answer fits nothing rather than everything
+  if (!wanted) return { score: 0, reason: null }
+  const fits = candidateJobTypes.some(type => {
+    const offered = normalize(type)
+    return offered !== '' && (offered === wanted || wanted.includes(offered) || offered.includes(wanted))
+  })
+
+  return fits
+    ? { score: 1, reason: `open to ${jobType.trim().toLowerCase()} work` }
+    : { score: 0, reason: null }
+}
+
+// Typical years of experience for each job experience level
+export const EXPERIENCE_LEVEL_YEARS: Record<ExperienceLevel, number> = {
+  Entry: 0,
+  Mid: 3,
+  Senior: 6,
+  Lead: 8,
+  Executive: 12
+}
+
+/**
+ * Expresses a job's requirements as the criteria used to score candidates.
+ */
+export function jobToCriteria(job: RecruiterData): UserData {
+  return {
+    name: job.jobTitle,
+    skills: job.requiredSkills,
+    location: job.location,
+    yearsExperience: EXPERIENCE_LEVEL_YEARS[job.experienceLevel],
+    jobType: job.employmentType
+  }
+}
+
+export function toMatchProfile(profile: Profile): MatchProfile {
+  return {
+    id: profile.id,
+    photo: profile.photo,
+    name: profile.fullName,
+    title: profile.title || 'Professional',
+    experience: `${profile.yearsExperience} ${profile.yearsExperience === 1 ? 'year' : 'years'}`,
+    yearsExperience: profile.yearsExperience,
+    location: profile.location,
+    skills: profile.skills,
+    jobTypes: profile.jobTypes
+  }
+}
+
+/**
+ * Scores a single candidate against the collected user data. The score is a
+ * weighted percentage (0-100) and the reasons explain which criteria matched.
+ */
+export function scoreProfile(userData: UserData, profile: MatchProfile): MatchResult {
+  const skills = scoreSkills(userData.skills, profile.skills)
+  const experience = scoreExperience(userData.yearsExperience, profile.yearsExperience)
+  const location = scoreLocation(userData.location, profile.location)
+  const jobType = scoreJobType(userData.jobType, profile.jobTypes)
+
+  const breakdown: MatchBreakdown = {
+    skills: skills.score,
+    experience: experience.score,
+    location: location.score,
+    jobType: jobType.score
+  }
+
+  const weighted = (Object.keys(WEIGHTS) as (keyof MatchBreakdown)[])
+    .reduce((total, key) => total + breakdown[key] * WEIGHTS[key], 0)
+
+  return {
+    profile,
+    score: Math.round(weighted * 100),
+    breakdown,
+    reasons: [skills.reason, location.reason, experience.reason, jobType.reason]
+      .filter((reason): reason is string => reason !== null)
+  }
+}
+
+/**
+ * Ranks candidates by how well they fit the user data, best match first.
+ */
+export function matchProfiles(
+  userData: UserData,
+  candidates: MatchProfile[],
+  { limit = 3, minScore = 20 }: MatchOptions = {}
+): MatchResult[] {
+  return candidates
+    .map(profile => scoreProfile(userData, profile))
+    .filter(result => result.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+export function describeMatch(result: MatchResult): string {
+  const reasons = result.reasons.length > 0 ? result.reasons.join(', ') : 'partial fit'
+  return `${result.profile.name} (${result.score}% match): ${reasons}`
+}
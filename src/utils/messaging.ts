@@ -0,0 +1,12 @@
+import { DirectMessage, MessageThread } from '../types'
+
+// Who the account is talking to in the thread
+export const correspondentName = (thread: MessageThread, accountId: string | undefined) =>
+  accountId === thread.recruiterId ? thread.candidateName : thread.recruiterName
+
+// The read receipt: whether anyone but the sender has read the message yet
+export const isReadByCorrespondent = (thread: MessageThread, message: DirectMessage) => {
+  const correspondentId = message.senderId === thread.recruiterId ? thread.candidateId : thread.recruiterId
+  const readAt = thread.readAt[correspondentId]
+  return readAt !== undefined && readAt >= message.createdAt
+}
@@ -0,0 +1,58 @@
+import { UserRole } from '../types'
+
+export type Permission =
+  // Keep a candidate profile
+  | 'profile:create'
+  // Post jobs
+  | 'job:create'
+  // Apply to jobs with one's profile
+  | 'job:apply'
+  // Save searches that announce new postings
+  | 'alert:create'
+  // Message the other side of a job: its recruiter or its candidates
+  | 'message:send'
+  // Edit or remove anyone's profile or posting
+  | 'profile:moderate'
+  | 'job:moderate'
+  // Open the moderation dashboard
+  | 'moderation:access'
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  job_seeker: ['profile:create', 'job:apply', 'alert:create', 'message:send'],
+  recruiter: ['job:create', 'message:send'],
+  admin: ['profile:moderate', 'job:moderate', 'moderation:access']
+}
+
+// What each permission allows, phrased to follow "can't"
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'profile:create': 'create a candidate profile',
+  'job:create': 'post jobs',
+  'job:apply': 'apply to jobs',
+  'alert:create': 'save job alerts',
+  'message:send': 'send messages',
+  'profile:moderate': 'moderate profiles',
+  'job:moderate': 'moderate job postings',
+  'moderation:access': 'open the moderation dashboard'
+}
+
+interface Actor {
+  id: string
+  role: UserRole
+}
+
+export function hasPermission(actor: Actor | null | undefined, permission: Permission): boolean {
+  return Boolean(actor && ROLE_PERMISSIONS[actor.role].includes(permission))
+}
+
+/**
+ * Whether the actor may change or remove a record: its owner always can,
+ * anyone else needs the moderation permission for that kind of record.
+ */
+export function canManage(
+  actor: Actor | null | undefined,
+  record: { ownerId?: string },
+  moderatePermission: Permission
+): boolean {
+  if (!actor) return false
+  return (record.ownerId !== undefined && record.ownerId === actor.id) || hasPermission(actor, moderatePermission)
+}
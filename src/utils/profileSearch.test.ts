@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { Profile } from '../types'
+import { searchProfiles } from './profileSearch'
+
+const profile = (id: string, overrides: Partial<Profile> = {}): Profile => ({
+  id,
+  createdAt: '2026-06-01T00:00:00Z',
+  updatedAt: '2026-06-01T00:00:00Z',
+  version: 1,
+  fullName: 'Ana Lee',
+  email: 'ana@example.com',
+  location: 'Berlin, Germany',
+  skills: ['React', 'TypeScript'],
+  yearsExperience: 5,
+  title: 'Frontend Developer',
+  jobTypes: ['Full-time'],
+  ...overrides
+})
+
+const profiles = [
+  profile('ana'),
+  profile('ben', {
+    createdAt: '2026-06-03T00:00:00Z',
+    fullName: 'Ben Ortiz',
+    skills: ['Python', 'PostgreSQL'],
+    yearsExperience: 12,
+    title: 'Data Engineer',
+    location: 'Austin, TX'
+  }),
+  profile('cleo', {
+    createdAt: '2026-06-02T00:00:00Z',
+    fullName: 'Cleo Park',
+    skills: ['JavaScript'],
+    yearsExperience: 1,
+    title: 'Junior Developer'
+  })
+]
+
+const ids = (query: Parameters<typeof searchProfiles>[1]) => searchProfiles(profiles, query).items.map(({ id }) => id)
+
+describe('searchProfiles', () => {
+  it('lists the newest profiles first by default', () => {
+    expect(ids({})).toEqual(['ben', 'cleo', 'ana'])
+  })
+
+  it('matches every word of the text against name, title and skills', () => {
+    expect(ids({ text: 'developer' })).toEqual(['cleo', 'ana'])
+    expect(ids({ text: 'ben python' })).toEqual(['ben'])
+  })
+
+  it('filters by experience and location', () => {
+    expect(ids({ minYears: 2, maxYears: 10 })).toEqual(['ana'])
+    expect(ids({ location: 'Austin' })).toEqual(['ben'])
+  })
+
+  it('needs every wanted skill, however it is spelled', () => {
+    expect(ids({ skills: ['typescript', 'react'] })).toEqual(['ana'])
+    expect(ids({ skills: ['JS'] })).toEqual(['cleo'])
+  })
+
+  it('sorts by experience or name', () => {
+    expect(ids({ sort: 'experience_high' })).toEqual(['ben', 'ana', 'cleo'])
+    expect(ids({ sort: 'experience_low' })).toEqual(['cleo', 'ana', 'ben'])
+    expect(ids({ sort: 'name' })).toEqual(['ana', 'ben', 'cleo'])
+  })
+
+  it('pages through the results', () => {
+    expect(searchProfiles(profiles, { pageSize: 2 })).toMatchObject({ total: 3, pageCount: 2, items: [{ id: 'ben' }, { id: 'cleo' }] })
+  })
+})
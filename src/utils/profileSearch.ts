@@ -0,0 +1,47 @@
+import { Profile } from '../types'
+import { matchesAllWords, matchesLocation, Page, paginate } from './search'
+import { skillKey } from './skills'
+
+export type ProfileSort = 'newest' | 'experience_high' | 'experience_low' | 'name'
+
+export interface ProfileSearchQuery {
+  text?: string
+  // Candidates must have every one of these
+  skills?: string[]
+  minYears?: number
+  maxYears?: number
+  location?: string
+  sort?: ProfileSort
+  page?: number
+  pageSize?: number
+}
+
+const COMPARATORS: Record<ProfileSort, (a: Profile, b: Profile) => number> = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  experience_high: (a, b) => b.yearsExperience - a.yearsExperience,
+  experience_low: (a, b) => a.yearsExperience - b.yearsExperience,
+  name: (a, b) => a.fullName.localeCompare(b.fullName)
+}
+
+/**
+ * Filters, sorts and paginates candidate profiles. Free text matches the
+ * name, title and skills.
+ */
+export function searchProfiles(profiles: Profile[], query: ProfileSearchQuery = {}): Page<Profile> {
+  const skills = (query.skills ?? []).map(skillKey)
+  const { text = '', minYears, maxYears, location } = query
+
+  const matching = profiles.filter(profile => {
+    if (!matchesAllWords(`${profile.fullName} ${profile.title ?? ''} ${profile.skills.join(' ')}`, text)) return false
+    if (minYears !== undefined && profile.yearsExperience < minYears) return false
+    if (maxYears !== undefined && profile.yearsExperience > maxYears) return false
+    if (location && !matchesLocation(profile.location, location)) return false
+    if (skills.length > 0) {
+      const offered = profile.skills.map(skillKey)
+      if (!skills.every(skill => offered.includes(skill))) return false
+    }
+    return true
+  })
+
+  return paginate([...matching].sort(COMPARATORS[query.sort ?? 'newest']), query.page, query.pageSize)
+}
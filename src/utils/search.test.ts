@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { matchesAllWords, matchesLocation, mostCommon, paginate } from './search'
+
+describe('paginate', () => {
+  const items = Array.from({ length: 25 }, (_, index) => index + 1)
+
+  it('returns the requested page and how many there are', () => {
+    expect(paginate(items, 2, 10)).toEqual({ items: [11, 12, 13, 14, 15, 16, 17, 18, 19, 20], total: 25, page: 2, pageCount: 3 })
+    expect(paginate(items, 3, 10).items).toEqual([21, 22, 23, 24, 25])
+  })
+
+  it('clamps the page number to the pages there are', () => {
+    expect(paginate(items, 9, 10)).toMatchObject({ page: 3, items: [21, 22, 23, 24, 25] })
+    expect(paginate(items, 0, 10)).toMatchObject({ page: 1 })
+  })
+
+  it('has one empty page when there is nothing to show', () => {
+    expect(paginate([], 2)).toEqual({ items: [], total: 0, page: 1, pageCount: 1 })
+  })
+})
+
+describe('matchesAllWords', () => {
+  it('needs every word, in any order and case', () => {
+    expect(matchesAllWords('Senior React Developer', 'developer react')).toBe(true)
+    expect(matchesAllWords('Senior React Developer', 'react vue')).toBe(false)
+    expect(matchesAllWords('Anything', '  ')).toBe(true)
+  })
+})
+
+describe('matchesLocation', () => {
+  it('compares the city only', () => {
+    expect(matchesLocation('Portland, OR', 'Portland, Oregon')).toBe(true)
+    expect(matchesLocation('Berlin, Germany', 'Munich')).toBe(false)
+  })
+})
+
+describe('mostCommon', () => {
+  it('orders by frequency, then alphabetically', () => {
+    expect(mostCommon(['Vue', 'React', 'Go', 'React', 'Go', 'Java'], 3)).toEqual(['Go', 'React', 'Java'])
+  })
+})
@@ -0,0 +1,55 @@
+export interface Page<T> {
+  items: T[]
+  total: number
+  page: number
+  pageCount: number
+}
+
+export const DEFAULT_PAGE_SIZE = 10
+
+export const normalize = (value: string) => value.trim().toLowerCase()
+
+// Forms edit lists such as skills as comma-separated text
+export const splitList = (value: string) =>
+  value.split(',').map(item => item.trim()).filter(Boolean)
+
+/**
+ * True when every word of the query appears somewhere in the text.
+ */
+export const matchesAllWords = (text: string, query: string) => {
+  const haystack = normalize(text)
+  return normalize(query).split(/\s+/).filter(Boolean).every(word => haystack.includes(word))
+}
+
+// "Portland, Oregon" should still find records listed as "Portland, OR"
+export const matchesLocation = (location: string, wanted: string) => {
+  const place = normalize(wanted.split(',')[0])
+  return !place || normalize(location).includes(place)
+}
+
+/**
+ * Returns one page of the items, clamping the page number to the pages there are.
+ */
+export function paginate<T>(items: T[], page = 1, pageSize = DEFAULT_PAGE_SIZE): Page<T> {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize))
+  const current = Math.min(Math.max(1, page), pageCount)
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    total: items.length,
+    page: current,
+    pageCount
+  }
+}
+
+/**
+ * The values that occur most often, most frequent first, e.g. the skills to
+ * offer as filters.
+ */
+export function mostCommon(values: string[], limit: number) {
+  const counts = new Map<string, number>()
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1))
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([value]) => value)
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { areRelatedSkills, canonicalSkill, canonicalSkills, relatedSkills, suggestSkills } from './skills'
+
+describe('canonicalSkill', () => {
+  it('maps aliases to the canonical spelling', () => {
+    expect(canonicalSkill(' reactjs ')).toBe('React')
+    expect(canonicalSkill('TS')).toBe('TypeScript')
+    expect(canonicalSkill('node   js')).toBe('Node.js')
+  })
+
+  it('keeps skills outside the taxonomy as given, tidied up', () => {
+    expect(canonicalSkill('  Underwater   Basket Weaving ')).toBe('Underwater Basket Weaving')
+  })
+})
+
+describe('canonicalSkills', () => {
+  it('drops blanks and spellings of skills already listed', () => {
+    expect(canonicalSkills(['react', 'React.js', '', 'ts', 'Cobol', 'COBOL'])).toEqual(['React', 'TypeScript', 'Cobol'])
+  })
+})
+
+describe('areRelatedSkills', () => {
+  it('links related skills both ways, whatever the spelling', () => {
+    expect(areRelatedSkills('React', 'Vue.js')).toBe(true)
+    expect(areRelatedSkills('vue', 'reactjs')).toBe(true)
+  })
+
+  it('does not relate a skill to itself or to unrelated skills', () => {
+    expect(areRelatedSkills('React', 'React')).toBe(false)
+    expect(areRelatedSkills('React', 'PostgreSQL')).toBe(false)
+    expect(areRelatedSkills('Cobol', 'React')).toBe(false)
+  })
+})
+
+describe('relatedSkills', () => {
+  it('suggests the skills most connected to the given ones, leaving those out', () => {
+    const related = relatedSkills(['React', 'TypeScript'], 3)
+
+    expect(related[0]).toBe('JavaScript')
+    expect(related).toHaveLength(3)
+    expect(related).not.toContain('React')
+  })
+})
+
+describe('suggestSkills', () => {
+  it('ranks name prefixes first, then alias prefixes, then names containing the query', () => {
+    expect(suggestSkills('re')[0]).toEqual({ skill: expect.objectContaining({ name: 'React' }) })
+
+    const [first, ...rest] = suggestSkills('js')
+    expect(first).toEqual({ skill: expect.objectContaining({ name: 'JavaScript' }), alias: 'js' })
+    expect(rest.map(({ skill }) => skill.name)).toContain('Node.js')
+  })
+
+  it('says which alias matched, and leaves out excluded skills', () => {
+    expect(suggestSkills('psql')).toEqual([expect.objectContaining({ alias: 'psql', skill: expect.objectContaining({ name: 'PostgreSQL' }) })])
+    expect(suggestSkills('reactjs', ['React'])).toEqual([])
+  })
+})
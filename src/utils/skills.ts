@@ -0,0 +1,107 @@
+import { SkillDefinition, skillTaxonomy } from '../data/skillTaxonomy'
+
+export interface SkillSuggestion {
+  skill: SkillDefinition
+  // The alias the query matched, when it didn't match the name itself
+  alias?: string
+}
+
+const spellingKey = (skill: string) => skill.trim().replace(/\s+/g, ' ').toLowerCase()
+
+// Every known spelling, canonical names included, mapped to its skill
+const bySpelling = new Map<string, SkillDefinition>()
+for (const skill of skillTaxonomy) {
+  for (const spelling of [skill.name, ...skill.aliases]) bySpelling.set(spellingKey(spelling), skill)
+}
+
+// Related-skill links in both directions, by canonical name
+const relatedByName = new Map<string, Set<string>>()
+const link = (from: string, to: string) => {
+  const links = relatedByName.get(from) ?? new Set<string>()
+  links.add(to)
+  relatedByName.set(from, links)
+}
+for (const skill of skillTaxonomy) {
+  for (const other of skill.related) {
+    link(skill.name, other)
+    link(other, skill.name)
+  }
+}
+
+// Canonical skill names, in the order they are suggested
+export const SKILL_NAMES = skillTaxonomy.map(skill => skill.name)
+
+export const findSkill = (skill: string): SkillDefinition | undefined => bySpelling.get(spellingKey(skill))
+
+/**
+ * Maps a skill to its canonical spelling ("reactjs" → "React", "TS" →
+ * "TypeScript"). Skills outside the taxonomy keep the given spelling.
+ */
+export function canonicalSkill(skill: string): string {
+  return findSkill(skill)?.name ?? skill.trim().replace(/\s+/g, ' ')
+}
+
+// Compares skills regardless of how they are spelled
+export const skillKey = (skill: string) => canonicalSkill(skill).toLowerCase()
+
+/**
+ * Canonical spellings of the skills, without blanks or duplicates.
+ */
+export function canonicalSkills(skills: string[]): string[] {
+  const seen = new Set<string>()
+  return skills.map(canonicalSkill).filter(skill => {
+    const key = skill.toLowerCase()
+    if (!skill || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+export const areRelatedSkills = (skill: string, other: string) =>
+  relatedByName.get(canonicalSkill(skill))?.has(canonicalSkill(other)) ?? false
+
+/**
+ * Skills related to any of the given ones that aren't among them, most
+ * connected first.
+ */
+export function relatedSkills(skills: string[], limit = 6): string[] {
+  const given = canonicalSkills(skills)
+  const counts = new Map<string, number>()
+  for (const skill of given) {
+    for (const other of relatedByName.get(skill) ?? []) {
+      if (!given.includes(other)) counts.set(other, (counts.get(other) ?? 0) + 1)
+    }
+  }
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || SKILL_NAMES.indexOf(a) - SKILL_NAMES.indexOf(b))
+    .slice(0, limit)
+    .map(([skill]) => skill)
+}
+
+/**
+ * Autocomplete for a partly typed skill: names starting with the query come
+ * first, then aliases starting with it, then anything containing it.
+ * Skills in `exclude` are left out.
+ */
+export function suggestSkills(query: string, exclude: string[] = [], limit = 8): SkillSuggestion[] {
+  const text = spellingKey(query)
+  if (!text) return []
+  const excluded = new Set(canonicalSkills(exclude))
+
+  const ranked: { suggestion: SkillSuggestion; rank: number }[] = []
+  for (const skill of skillTaxonomy) {
+    if (excluded.has(skill.name)) continue
+    const name = skill.name.toLowerCase()
+    const prefixAlias = skill.aliases.find(alias => alias.startsWith(text))
+    const containingAlias = skill.aliases.find(alias => alias.includes(text))
+
+    if (name.startsWith(text)) ranked.push({ suggestion: { skill }, rank: 0 })
+    else if (prefixAlias) ranked.push({ suggestion: { skill, alias: prefixAlias }, rank: 1 })
+    else if (name.includes(text)) ranked.push({ suggestion: { skill }, rank: 2 })
+    else if (containingAlias) ranked.push({ suggestion: { skill, alias: containingAlias }, rank: 3 })
+  }
+  return ranked
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion)
+}
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string
+  readonly VITE_REALTIME_URL?: string
+  readonly VITE_LLM_URL?: string
+  readonly VITE_LLM_MODEL?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}